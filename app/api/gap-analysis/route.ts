@@ -1,9 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GapAnalyzerAgent, Skill, GapAnalysisResult, GitHubAnalysis } from '@/lib/agents/gap-analyzer';
+import { GapAnalyzerAgent, Skill, GapAnalysisResult, GitHubAnalysis, MAX_PROFILE_REPOSITORIES } from '@/lib/agents/gap-analyzer';
+import { LocalDirectorySource, LocalPathError } from '@/lib/repository';
+import { getRoleProfileIssues, listRoleProfiles, summarizeRoleProfile } from '@/lib/analysis/role-profiles';
+import { loadAdvisoryDataset } from '@/lib/analysis/advisory-dataset';
+import { getLlmResponseCache } from '@/lib/llm/response-cache-store';
+import { skillGapStoragePrisma } from '@/lib/storage/skill-gap-storage-prisma';
+import { streamAgentProgress, type AgentProgressReporter } from '@/lib/agents/progress-events';
+import { parseChatExport } from '@/lib/analysis/chat-export';
 
 export async function POST(request: NextRequest) {
   try {
-    const { action, skills, repositoryUrl, deepAnalysis, readmeContent, userContext } = await request.json();
+    const {
+      action,
+      skills,
+      repositoryUrl,
+      ref,
+      deepAnalysis,
+      readmeContent,
+      readmePath,
+      filePaths,
+      userContext,
+      username,
+      repositoryWeights,
+      excludeRepositories,
+      includeForks,
+      maxRepositories,
+      localPath,
+      roleProfile,
+      pullRequestUrl,
+      skillAssessment,
+      postReview,
+      forceRefresh,
+      stream,
+      githubAnalysis: priorGitHubAnalysis,
+      maxPeers,
+      userId,
+      chatTranscript,
+    } = await request.json();
 
     if (!action) {
       return NextResponse.json(
@@ -12,7 +45,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Inline role profiles are validated up front; ids and role names fall back to default targets
+    if (roleProfile && typeof roleProfile === 'object') {
+      const issues = getRoleProfileIssues(roleProfile);
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid role profile', issues },
+          { status: 400 }
+        );
+      }
+    }
+
     const gapAnalyzer = new GapAnalyzerAgent();
+    gapAnalyzer.setAdvisoryDataset(await loadAdvisoryDataset());
+    gapAnalyzer.setResponseCache(getLlmResponseCache(), { bypass: forceRefresh === true });
+    // Stored self-ratings are blended into automatic assessments instead of being overwritten
+    if (typeof userId === 'string' && userId) {
+      gapAnalyzer.setSelfAssessments(await skillGapStoragePrisma.getSelfAssessments(userId));
+    }
 
     switch (action) {
       case 'analyze-skills':
@@ -23,7 +73,9 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const analysisResult: GapAnalysisResult = gapAnalyzer.analyzeSkillGaps(skills);
+        const analysisResult: GapAnalysisResult = gapAnalyzer.analyzeSkillGaps(skills, {
+          roleProfile: roleProfile ?? userContext?.targetRole,
+        });
         
         return NextResponse.json({
           success: true,
@@ -38,13 +90,53 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const githubAnalysis: GitHubAnalysis = await gapAnalyzer.analyzeGitHubRepository(repositoryUrl);
+        const githubAnalysis: GitHubAnalysis = await gapAnalyzer.analyzeGitHubRepository(repositoryUrl, {
+          ref: typeof ref === 'string' ? ref : undefined,
+          signal: request.signal,
+        });
         
         return NextResponse.json({
           success: true,
           result: githubAnalysis
         });
 
+      case 'analyze-profile':
+        if (!username || typeof username !== 'string') {
+          return NextResponse.json(
+            { error: 'GitHub username is required for profile analysis' },
+            { status: 400 }
+          );
+        }
+
+        if (
+          maxRepositories !== undefined &&
+          (typeof maxRepositories !== 'number' || !Number.isInteger(maxRepositories) || maxRepositories < 1 || maxRepositories > MAX_PROFILE_REPOSITORIES)
+        ) {
+          return NextResponse.json(
+            { error: `maxRepositories must be an integer between 1 and ${MAX_PROFILE_REPOSITORIES}` },
+            { status: 400 }
+          );
+        }
+
+        console.log(`[API] Starting profile analysis for ${username}`);
+
+        const profileResult: GapAnalysisResult = await gapAnalyzer.analyzeGitHubProfile(
+          username.replace(/^https?:\/\/github\.com\//, '').replace(/\/.*$/, ''),
+          {
+            weights: repositoryWeights,
+            exclude: Array.isArray(excludeRepositories) ? excludeRepositories : undefined,
+            includeForks: Boolean(includeForks),
+            maxRepositories,
+            roleProfile: roleProfile ?? userContext?.targetRole,
+            signal: request.signal,
+          }
+        );
+
+        return NextResponse.json({
+          success: true,
+          result: profileResult
+        });
+
       case 'analyze-github-agentic':
         // NEW: AI-powered deep analysis using AI SDK with fallback
         if (!repositoryUrl) {
@@ -54,47 +146,144 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        console.log(`[API] Starting agentic analysis for ${repositoryUrl}, deepAnalysis=${deepAnalysis ?? true}`);
+        const runAgenticAnalysis = async (report?: AgentProgressReporter) => {
+          console.log(`[API] Starting agentic analysis for ${repositoryUrl}${ref ? ` @ ${ref}` : ''}, deepAnalysis=${deepAnalysis ?? true}`);
         
-        const agenticAnalysis = await gapAnalyzer.analyzeGitHubRepositoryAgentic(repositoryUrl, {
-          deepAnalysis: deepAnalysis ?? true // Default to deep analysis
-        });
+          const agenticAnalysis = await gapAnalyzer.analyzeGitHubRepositoryAgentic(repositoryUrl, {
+            deepAnalysis: deepAnalysis ?? true, // Default to deep analysis
+            ref: typeof ref === 'string' ? ref : undefined,
+            onProgress: report,
+            signal: request.signal,
+          });
         
-        // Check analysis mode for proper response
-        const analysisMode = agenticAnalysis.analysisMode || 'agentic';
-        const usedFallback = analysisMode === 'fallback';
+          // Check analysis mode for proper response
+          const analysisMode = agenticAnalysis.analysisMode || 'agentic';
+          const usedFallback = analysisMode === 'fallback';
+        
+          // If deep analysis was performed, generate AI recommendations
+          request.signal.throwIfAborted();
+          if (agenticAnalysis.agenticAnalysis) {
+            const aiRecommendations = await gapAnalyzer.generateAgenticRecommendations(
+              agenticAnalysis,
+              agenticAnalysis.agenticAnalysis,
+              agenticAnalysis.readmeAnalysis,
+              userContext,
+              { roleProfile, signal: request.signal }
+            );
+            agenticAnalysis.recommendations = aiRecommendations;
+          }
+        
+          // Build response with clear status
+          const response: any = {
+            success: true,
+            result: agenticAnalysis,
+            isAgentic: true,
+            hasDeepAnalysis: !!agenticAnalysis.agenticAnalysis,
+            analysisMode,
+            usedFallback
+          };
+
+          // Add fallback information if applicable
+          if (usedFallback && agenticAnalysis.fallbackReason) {
+            response.fallbackReason = agenticAnalysis.fallbackReason;
+            response.message = `Analysis completed using fallback mode. ${agenticAnalysis.fallbackReason}`;
+            console.warn(`[API] ⚠️ Agentic analysis used fallback: ${agenticAnalysis.fallbackReason}`);
+          } else {
+            console.log(`[API] ✅ Agentic analysis completed successfully (mode: ${analysisMode})`);
+          }
+
+          if (agenticAnalysis.rateLimit) {
+            response.rateLimited = true;
+            console.warn(`[API] ⏸️ GitHub rate limit skipped ${agenticAnalysis.rateLimit.skipped.length} requests; returning partial results`);
+          }
         
-        // If deep analysis was performed, generate AI recommendations
-        if (agenticAnalysis.agenticAnalysis) {
-          const aiRecommendations = await gapAnalyzer.generateAgenticRecommendations(
-            agenticAnalysis,
-            agenticAnalysis.agenticAnalysis,
-            agenticAnalysis.readmeAnalysis,
-            userContext
+          return response;
+        };
+
+        // Streaming variant: Server-Sent Events with typed progress, then the same payload
+        if (stream) {
+          return streamAgentProgress('analysis', runAgenticAnalysis);
+        }
+        return NextResponse.json(await runAgenticAnalysis());
+
+      case 'analyze-local':
+        // Air-gapped analysis of a checkout on the server, confined to LOCAL_REPOSITORY_ROOT
+        if (!process.env.LOCAL_REPOSITORY_ROOT) {
+          return NextResponse.json(
+            { error: 'Local analysis is disabled. Set LOCAL_REPOSITORY_ROOT to enable it.' },
+            { status: 403 }
           );
-          agenticAnalysis.recommendations = aiRecommendations;
         }
-        
-        // Build response with clear status
-        const response: any = {
+        if (!localPath || typeof localPath !== 'string') {
+          return NextResponse.json(
+            { error: 'Local path is required for local analysis' },
+            { status: 400 }
+          );
+        }
+
+        let localSource: LocalDirectorySource;
+        try {
+          localSource = await LocalDirectorySource.fromAllowedRoot(localPath, process.env.LOCAL_REPOSITORY_ROOT);
+        } catch (error) {
+          if (error instanceof LocalPathError) {
+            return NextResponse.json(
+              { error: error.message },
+              { status: error.reason === 'outside-root' ? 403 : 400 }
+            );
+          }
+          throw error;
+        }
+        console.log(`[API] Starting local analysis for ${localSource.label}`);
+
+        const localAnalysis = await gapAnalyzer.analyzeRepositorySource(localSource, {
+          deepAnalysis: deepAnalysis ?? true,
+          signal: request.signal,
+        });
+
+        return NextResponse.json({
           success: true,
-          result: agenticAnalysis,
+          result: localAnalysis,
           isAgentic: true,
-          hasDeepAnalysis: !!agenticAnalysis.agenticAnalysis,
-          analysisMode,
-          usedFallback
-        };
+          hasDeepAnalysis: !!localAnalysis.agenticAnalysis,
+          analysisMode: localAnalysis.analysisMode || 'agentic',
+          usedFallback: localAnalysis.analysisMode === 'fallback',
+          fallbackReason: localAnalysis.fallbackReason,
+        });
 
-        // Add fallback information if applicable
-        if (usedFallback && agenticAnalysis.fallbackReason) {
-          response.fallbackReason = agenticAnalysis.fallbackReason;
-          response.message = `Analysis completed using fallback mode. ${agenticAnalysis.fallbackReason}`;
-          console.warn(`[API] ⚠️ Agentic analysis used fallback: ${agenticAnalysis.fallbackReason}`);
-        } else {
-          console.log(`[API] ✅ Agentic analysis completed successfully (mode: ${analysisMode})`);
+      case 'review-pull-request':
+        if (!pullRequestUrl || typeof pullRequestUrl !== 'string') {
+          return NextResponse.json(
+            { error: 'Pull request URL is required for pull request review' },
+            { status: 400 }
+          );
         }
-        
-        return NextResponse.json(response);
+
+        console.log(`[API] Starting pull request review for ${pullRequestUrl}, postReview=${Boolean(postReview)}`);
+
+        const pullRequestReview = await gapAnalyzer.reviewPullRequest(pullRequestUrl, {
+          skillAssessment,
+          signal: request.signal,
+        });
+
+        // A failed post still returns the review so it can be shown in the UI
+        let postedReview: { url?: string } | null = null;
+        let postError: string | undefined;
+        if (postReview) {
+          try {
+            postedReview = await gapAnalyzer.postPullRequestReview(pullRequestReview);
+          } catch (error) {
+            postError = error instanceof Error ? error.message : 'Failed to post review';
+            console.warn(`[API] ⚠️ Could not post pull request review: ${postError}`);
+          }
+        }
+
+        return NextResponse.json({
+          success: true,
+          result: pullRequestReview,
+          reviewMode: pullRequestReview.reviewMode,
+          posted: postedReview,
+          postError,
+        });
 
       case 'analyze-readme':
         // NEW: Standalone README quality analysis
@@ -107,13 +296,67 @@ export async function POST(request: NextRequest) {
 
         console.log(`[API] Analyzing README quality with AI (${readmeContent.length} chars)`);
         
-        const readmeAnalysis = await gapAnalyzer.analyzeReadmeQualityAgentic(readmeContent);
+        // With the repository's file paths the audit also finds broken relative links and images
+        const readmeAnalysis = await gapAnalyzer.analyzeReadmeQualityAgentic(readmeContent, {
+          signal: request.signal,
+          readmePath: typeof readmePath === 'string' ? readmePath : undefined,
+          filePaths: Array.isArray(filePaths) ? filePaths.filter((path: unknown) => typeof path === 'string') : undefined,
+        });
         
         return NextResponse.json({
           success: true,
           result: readmeAnalysis
         });
 
+      case 'benchmark-peers':
+        // Reuses a previous analyze-github result when given one; otherwise analyzes the repository first
+        if (!priorGitHubAnalysis && !repositoryUrl) {
+          return NextResponse.json(
+            { error: 'A GitHub analysis or repository URL is required for peer benchmarking' },
+            { status: 400 }
+          );
+        }
+
+        const benchmarkSubject: GitHubAnalysis =
+          priorGitHubAnalysis ??
+          (await gapAnalyzer.analyzeGitHubRepository(repositoryUrl, {
+            ref: typeof ref === 'string' ? ref : undefined,
+            signal: request.signal,
+          }));
+        const peerBenchmark = await gapAnalyzer.benchmarkAgainstPeers(benchmarkSubject, {
+          maxPeers: typeof maxPeers === 'number' ? maxPeers : undefined,
+          signal: request.signal,
+        });
+        if (!peerBenchmark) {
+          return NextResponse.json(
+            { error: 'The analysis has no quality metrics or primary language to benchmark against' },
+            { status: 422 }
+          );
+        }
+
+        return NextResponse.json({
+          success: true,
+          result: peerBenchmark
+        });
+
+      case 'analyze-chat':
+        // Plain text, ChatGPT conversations.json, Claude export JSON or a JSONL message log
+        if (typeof chatTranscript !== 'string' || !chatTranscript.trim()) {
+          return NextResponse.json(
+            { error: 'chatTranscript is required for AI chat analysis' },
+            { status: 400 }
+          );
+        }
+
+        const chatResult: GapAnalysisResult = gapAnalyzer.analyzeChatTranscript(parseChatExport(chatTranscript), {
+          roleProfile: roleProfile ?? userContext?.targetRole,
+        });
+
+        return NextResponse.json({
+          success: true,
+          result: chatResult
+        });
+
       case 'get-categories':
         const categories = gapAnalyzer.getDefaultSkillCategories();
         
@@ -122,14 +365,24 @@ export async function POST(request: NextRequest) {
           result: categories
         });
 
+      case 'list-role-profiles':
+        return NextResponse.json({
+          success: true,
+          result: listRoleProfiles().map(summarizeRoleProfile)
+        });
+
       default:
         return NextResponse.json(
-          { error: 'Invalid action. Supported actions: analyze-skills, analyze-github, analyze-github-agentic, analyze-readme, get-categories' },
+          { error: 'Invalid action. Supported actions: analyze-skills, analyze-github, analyze-profile, analyze-github-agentic, analyze-local, review-pull-request, analyze-readme, benchmark-peers, analyze-chat, get-categories, list-role-profiles' },
           { status: 400 }
         );
     }
 
   } catch (error) {
+    if (request.signal.aborted) {
+      console.log('[API] Gap analysis cancelled: client disconnected');
+      return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('Gap analysis API error:', errorMessage);
     return NextResponse.json(
@@ -0,0 +1,69 @@
+/**
+ * Archive Upload Analysis Endpoint
+ * Runs gap analysis on an uploaded .zip / .tar / .tar.gz without the GitHub API
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GapAnalyzerAgent } from '@/lib/agents/gap-analyzer';
+import { ArchiveRepositorySource } from '@/lib/repository';
+import { loadAdvisoryDataset } from '@/lib/analysis/advisory-dataset';
+import { getLlmResponseCache } from '@/lib/llm/response-cache-store';
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const archive = formData.get('archive');
+    const deepAnalysis = formData.get('deepAnalysis') !== 'false';
+    const forceRefresh = formData.get('forceRefresh') === 'true';
+
+    if (!archive || typeof archive === 'string') {
+      return NextResponse.json(
+        { error: 'An archive file is required (form field "archive")' },
+        { status: 400 }
+      );
+    }
+
+    if (archive.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Archive is too large. Maximum size is ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB.` },
+        { status: 413 }
+      );
+    }
+
+    let source: ArchiveRepositorySource;
+    try {
+      source = new ArchiveRepositorySource(archive.name, Buffer.from(await archive.arrayBuffer()));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unable to read archive' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[API] Starting archive analysis for ${source.label}, deepAnalysis=${deepAnalysis}`);
+
+    const gapAnalyzer = new GapAnalyzerAgent();
+    gapAnalyzer.setAdvisoryDataset(await loadAdvisoryDataset());
+    gapAnalyzer.setResponseCache(getLlmResponseCache(), { bypass: forceRefresh });
+    const analysis = await gapAnalyzer.analyzeRepositorySource(source, { deepAnalysis, signal: request.signal });
+
+    return NextResponse.json({
+      success: true,
+      result: analysis,
+      isAgentic: true,
+      hasDeepAnalysis: !!analysis.agenticAnalysis,
+      analysisMode: analysis.analysisMode || 'agentic',
+      usedFallback: analysis.analysisMode === 'fallback',
+      fallbackReason: analysis.fallbackReason,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Archive analysis API error:', errorMessage);
+    return NextResponse.json(
+      { error: errorMessage || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PortfolioBuilderAgent } from '@/lib/agents/portfolio-builder';
 import type { PortfolioRecommendation, ResearchResults } from '@/lib/agents/portfolio-builder';
+import { hasProviderCredentials, isSupportedRepositoryUrl } from '@/lib/repository';
+import { loadAdvisoryDataset } from '@/lib/analysis/advisory-dataset';
+import { streamAgentProgress, type AgentProgressReporter } from '@/lib/agents/progress-events';
 
 function convertActionRecommendations(
   recommendations: any[] | undefined,
@@ -93,23 +96,21 @@ export async function POST(request: NextRequest) {
     if (body.createIssues && body.providedRecommendations && Array.isArray(body.providedRecommendations)) {
       console.log(`[Portfolio Builder API] Using ${body.providedRecommendations.length} provided recommendations directly`);
       
-      // Extract owner and repo from URL
-      const match = body.repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-      if (!match) {
-        return NextResponse.json({ error: 'Invalid GitHub repository URL' }, { status: 400 });
+      if (!isSupportedRepositoryUrl(body.repoUrl)) {
+        return NextResponse.json(
+          { error: 'Invalid repository URL. Use a GitHub, GitLab or Bitbucket repository URL.' },
+          { status: 400 }
+        );
       }
-      const [, owner, repo] = match;
-      const cleanRepo = repo.replace(/\.git$/, '');
 
       // Create issues directly from provided recommendations
       const includeOptionalForProvided =
         body.includeOptionalImprovements ?? true;
 
       const issueResults = await portfolioBuilder.createImprovementIssues(
-        owner,
-        cleanRepo,
+        body.repoUrl,
         body.providedRecommendations,
-        { includeOptional: includeOptionalForProvided }
+        { includeOptional: includeOptionalForProvided, signal: request.signal }
       );
 
       const successCount = issueResults.filter((r) => r.success).length;
@@ -124,90 +125,119 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Step 1: Analyze portfolio quality
-    console.log('[Portfolio Builder API] Analyzing portfolio quality...');
-    const qualityAnalysis = await portfolioBuilder.analyzePortfolioQuality(body.repoUrl, {
-      skillAssessment: body.skillAssessment,
-    });
-
-    console.log(
-      `[Portfolio Builder API] Quality: ${qualityAnalysis.overallQuality}%, Weaknesses: ${qualityAnalysis.weaknesses.length}`
-    );
-
-    // Step 2: Enrich recommendations with research results (if provided)
-    let enrichedRecommendations = qualityAnalysis.recommendations;
-    if (body.researchResults) {
-      console.log('[Portfolio Builder API] Enriching recommendations with research results...');
-      enrichedRecommendations = await portfolioBuilder.enrichRecommendationsWithResearch(
-        qualityAnalysis.recommendations,
-        body.researchResults as ResearchResults
+    const runPortfolioAnalysis = async (report?: AgentProgressReporter) => {
+      // Step 1: Analyze portfolio quality
+      console.log('[Portfolio Builder API] Analyzing portfolio quality...');
+      report?.({ type: 'started', message: `Analyzing portfolio quality of ${body.repoUrl}` });
+      const qualityAnalysis = await portfolioBuilder.analyzePortfolioQuality(body.repoUrl, {
+        skillAssessment: body.skillAssessment,
+        advisoryDataset: await loadAdvisoryDataset(),
+        ref: typeof body.ref === 'string' && body.ref.trim() ? body.ref.trim() : undefined,
+        signal: request.signal,
+      });
+
+      console.log(
+        `[Portfolio Builder API] Quality: ${qualityAnalysis.overallQuality}%, Weaknesses: ${qualityAnalysis.weaknesses.length}`
       );
-    }
-
-    const actionRecommendations = convertActionRecommendations(
-      body.researchResults?.recommendations,
-      enrichedRecommendations
-    );
-    console.log(`[Portfolio Builder API] Created ${actionRecommendations.length} action recommendations after deduplication`);
-    const allRecommendations = [...enrichedRecommendations, ...actionRecommendations];
-
-    let filteredRecommendations = allRecommendations;
-    if (Array.isArray(body.recommendationIds) && body.recommendationIds.length > 0) {
-      console.log(`[Portfolio Builder API] Filtering to ${body.recommendationIds.length} selected recommendation IDs`);
-      const idSet = new Set<string>(body.recommendationIds);
-      filteredRecommendations = allRecommendations.filter((rec) => idSet.has(rec.id));
-      console.log(`[Portfolio Builder API] After filtering: ${filteredRecommendations.length} recommendations matched`);
-    }
-
-    // Step 3: Create GitHub issues (if requested and token available)
-    let issueResults = null;
-    if (body.createIssues && process.env.GITHUB_TOKEN) {
-      const recommendationsForIssues = includeOptionalImprovements
-        ? filteredRecommendations
-        : filteredRecommendations.filter((rec) => !rec.weakness.optional);
+      report?.({
+        type: 'step',
+        message: `Quality ${qualityAnalysis.overallQuality}% with ${qualityAnalysis.weaknesses.length} weaknesses`,
+      });
+      if (qualityAnalysis.readmeAudit) {
+        report?.({ type: 'readme-scored', score: qualityAnalysis.readmeAudit.score });
+      }
 
-      if (recommendationsForIssues.length === 0) {
-        console.log(
-          '[Portfolio Builder API] No non-optional recommendations selected for issue creation.'
-        );
-        issueResults = [];
-      } else {
-        console.log(
-          `[Portfolio Builder API] Creating ${recommendationsForIssues.length} GitHub issues...`
+      // Step 2: Enrich recommendations with research results (if provided)
+      let enrichedRecommendations = qualityAnalysis.recommendations;
+      if (body.researchResults) {
+        console.log('[Portfolio Builder API] Enriching recommendations with research results...');
+        enrichedRecommendations = await portfolioBuilder.enrichRecommendationsWithResearch(
+          qualityAnalysis.recommendations,
+          body.researchResults as ResearchResults,
+          { signal: request.signal }
         );
+        report?.({ type: 'step', message: 'Enriched recommendations with research results' });
+      }
 
-        issueResults = await portfolioBuilder.createImprovementIssues(
-          qualityAnalysis.owner,
-          qualityAnalysis.repo,
-          recommendationsForIssues,
-          {
-            includeOptional: includeOptionalImprovements,
-          }
-        );
+      const actionRecommendations = convertActionRecommendations(
+        body.researchResults?.recommendations,
+        enrichedRecommendations
+      );
+      console.log(`[Portfolio Builder API] Created ${actionRecommendations.length} action recommendations after deduplication`);
+      const allRecommendations = [...enrichedRecommendations, ...actionRecommendations];
+
+      let filteredRecommendations = allRecommendations;
+      if (Array.isArray(body.recommendationIds) && body.recommendationIds.length > 0) {
+        console.log(`[Portfolio Builder API] Filtering to ${body.recommendationIds.length} selected recommendation IDs`);
+        const idSet = new Set<string>(body.recommendationIds);
+        filteredRecommendations = allRecommendations.filter((rec) => idSet.has(rec.id));
+        console.log(`[Portfolio Builder API] After filtering: ${filteredRecommendations.length} recommendations matched`);
+      }
 
-        const successCount = issueResults.filter((r) => r.success).length;
-        console.log(
-          `[Portfolio Builder API] Created ${successCount}/${issueResults.length} issues successfully`
-        );
+      // Step 3: Create issues (if requested and the repository host's token is available)
+      let issueResults = null;
+      if (body.createIssues && hasProviderCredentials(qualityAnalysis.provider)) {
+        const recommendationsForIssues = includeOptionalImprovements
+          ? filteredRecommendations
+          : filteredRecommendations.filter((rec) => !rec.weakness.optional);
+
+        if (recommendationsForIssues.length === 0) {
+          console.log(
+            '[Portfolio Builder API] No non-optional recommendations selected for issue creation.'
+          );
+          issueResults = [];
+        } else {
+          console.log(
+            `[Portfolio Builder API] Creating ${recommendationsForIssues.length} ${qualityAnalysis.provider} issues...`
+          );
+
+          issueResults = await portfolioBuilder.createImprovementIssues(
+            qualityAnalysis.repository,
+            recommendationsForIssues,
+            {
+              includeOptional: includeOptionalImprovements,
+              signal: request.signal,
+              onProgress: report,
+            }
+          );
+
+          const successCount = issueResults.filter((r) => r.success).length;
+          console.log(
+            `[Portfolio Builder API] Created ${successCount}/${issueResults.length} issues successfully`
+          );
+          report?.({ type: 'step', message: `Created ${successCount}/${issueResults.length} issues` });
+        }
       }
-    }
 
-    // Return results
-    return NextResponse.json(
-      {
+      report?.({ type: 'completed', message: `Portfolio quality ${qualityAnalysis.overallQuality}%, ${allRecommendations.length} recommendations` });
+
+      return {
         success: true,
         analysis: {
           repository: qualityAnalysis.repository,
+          provider: qualityAnalysis.provider,
+          ref: qualityAnalysis.ref,
+          commitSha: qualityAnalysis.commitSha,
           overallQuality: qualityAnalysis.overallQuality,
           weaknesses: qualityAnalysis.weaknesses,
           strengths: qualityAnalysis.strengths,
+          readmeAudit: qualityAnalysis.readmeAudit,
         },
         recommendations: allRecommendations,
         issues: issueResults,
-      },
-      { status: 200 }
-    );
+      };
+    };
+
+    // Streaming variant: Server-Sent Events with typed progress, then the same payload
+    if (body.stream) {
+      return streamAgentProgress('portfolio', runPortfolioAnalysis);
+    }
+    return NextResponse.json(await runPortfolioAnalysis(), { status: 200 });
   } catch (error) {
+    if (request.signal.aborted) {
+      console.log('[Portfolio Builder API] Cancelled: client disconnected');
+      return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+    }
     console.error('[Portfolio Builder API] Error:', error);
     return NextResponse.json(
       {
@@ -6,6 +6,46 @@
 import { NextRequest, NextResponse } from "next/server";
 import { graph } from "@/lib/agents/langgraph/research-agent";
 import type { ResearchState } from "@/lib/agents/langgraph/research-agent";
+import { describeLlmConfiguration } from "@/lib/llm/model-registry";
+import { streamAgentProgress, type AgentProgressReporter } from "@/lib/agents/progress-events";
+
+// Step event per finished graph node in the streaming variant
+const NODE_PROGRESS: Record<string, (update: Partial<ResearchState>) => string> = {
+  load_state: (update) =>
+    update.loadedFromStorage ? "Loaded stored research context" : "Starting fresh research",
+  search: (update) => `Found ${update.searchResults?.length ?? 0} learning resources`,
+  search_github: (update) => `Found ${update.examples?.length ?? 0} GitHub examples`,
+  evaluate: (update) => `Scored ${update.evaluatedResults?.length ?? 0} resources`,
+  synthesize: (update) => `Synthesized ${update.recommendations?.length ?? 0} recommendations`,
+};
+
+/**
+ * Invoke the research graph, reporting each finished node when streaming.
+ * `signal` reaches every node, so a disconnected client stops the run.
+ */
+async function runResearchGraph(
+  input: ResearchState,
+  signal: AbortSignal,
+  report?: AgentProgressReporter
+): Promise<ResearchState> {
+  if (!report) {
+    return (await graph.invoke(input as any, { signal })) as ResearchState;
+  }
+
+  let result = input;
+  const stream = await graph.stream(input as any, { streamMode: ["updates", "values"] as const, signal });
+  for await (const [mode, chunk] of stream as AsyncIterable<[string, any]>) {
+    if (mode === "values") {
+      result = chunk as ResearchState;
+      continue;
+    }
+    for (const [node, update] of Object.entries(chunk ?? {})) {
+      const describe = NODE_PROGRESS[node];
+      report({ type: "step", message: describe ? describe(update as Partial<ResearchState>) : `Finished ${node}` });
+    }
+  }
+  return result;
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,9 +64,8 @@ export async function POST(request: NextRequest) {
     console.log("[Research Agent] Skill gap:", body.skillGapValue || 2, `(${body.skillCurrentLevel || 2}/5 → ${body.skillTargetLevel || 4}/5)`);
     console.log("[Research Agent] Force refresh:", body.forceRefresh ?? false);
     console.log("[Research Agent] Environment summary:", {
-      hasOpenAIKey: Boolean(process.env.OPENAI_API_KEY),
+      llm: describeLlmConfiguration(),
       hasFirecrawlKey: Boolean(process.env.FIRECRAWL_API_KEY),
-      researchModel: process.env.OPENAI_RESEARCH_MODEL ?? "gpt-4o-mini",
     });
 
     // Prepare input state
@@ -50,50 +89,63 @@ export async function POST(request: NextRequest) {
     };
 
     // Run the research agent
-    const result = (await graph.invoke(input as any)) as ResearchState;
+    const runResearch = async (report?: AgentProgressReporter) => {
+      report?.({ type: "started", message: `Researching ${body.skillGap}` });
+      const result = await runResearchGraph(input, request.signal, report);
 
-    console.log("[Research Agent] Workflow complete");
-    console.log(`  Resources: ${result.searchResults?.length || 0}`);
-    console.log(`  Examples: ${result.examples?.length || 0}`);
-    console.log(`  Recommendations: ${result.recommendations?.length || 0}`);
-    console.log(`  Confidence: ${((result.confidence || 0) * 100).toFixed(0)}%`);
+      console.log("[Research Agent] Workflow complete");
+      console.log(`  Resources: ${result.searchResults?.length || 0}`);
+      console.log(`  Examples: ${result.examples?.length || 0}`);
+      console.log(`  Recommendations: ${result.recommendations?.length || 0}`);
+      console.log(`  Confidence: ${((result.confidence || 0) * 100).toFixed(0)}%`);
 
-    const resourcePayload = result.evaluatedResults || result.searchResults || [];
-    const diagnostics = {
-      resourceCount: resourcePayload.length,
-      exampleCount: result.examples?.length ?? 0,
-      recommendationCount: result.recommendations?.length ?? 0,
-      hasOpenAIKey: Boolean(process.env.OPENAI_API_KEY),
-      hasFirecrawlKey: Boolean(process.env.FIRECRAWL_API_KEY),
-      researchModel: process.env.OPENAI_RESEARCH_MODEL ?? "gpt-4o-mini",
-      usedCachedState: Boolean(result.loadedFromStorage),
+      const resourcePayload = result.evaluatedResults || result.searchResults || [];
+      const diagnostics = {
+        resourceCount: resourcePayload.length,
+        exampleCount: result.examples?.length ?? 0,
+        recommendationCount: result.recommendations?.length ?? 0,
+        llm: describeLlmConfiguration(),
+        hasFirecrawlKey: Boolean(process.env.FIRECRAWL_API_KEY),
+        usedCachedState: Boolean(result.loadedFromStorage),
+      };
+
+      if (resourcePayload.length === 0) {
+        console.warn("[Research Agent] No learning resources returned. Diagnostics:", diagnostics);
+        report?.({ type: "fallback-triggered", reason: "No learning resources found" });
+      }
+      report?.({ type: "completed", message: `Research complete for ${body.skillGap}` });
+
+      return {
+        success: true,
+        resources: resourcePayload,
+        scrapedResources: result.scrapedResources || [],
+        examples: result.examples || [],
+        recommendations: result.recommendations || [],
+        comparativeInsights: result.comparativeInsights || [],
+        learningPath: result.learningPath || [],
+        confidence: result.confidence || 0,
+        confidenceBreakdown: result.confidenceBreakdown || null,
+        queries: result.queries || [],
+        iterationCount: result.iterationCount ?? 0,
+        searchIterations: result.searchIterations || [],
+        searchNotes: result.searchNotes || [],
+        searchSources: result.searchSources || [],
+        searchQuery: result.searchQuery,
+        diagnostics,
+      };
     };
 
-    if (resourcePayload.length === 0) {
-      console.warn("[Research Agent] No learning resources returned. Diagnostics:", diagnostics);
+    // Streaming variant: Server-Sent Events with a step per graph node, then the same payload
+    if (body.stream) {
+      return streamAgentProgress("research", runResearch);
     }
-
-    // Return results
-    return NextResponse.json({
-      success: true,
-      resources: resourcePayload,
-      scrapedResources: result.scrapedResources || [],
-      examples: result.examples || [],
-      recommendations: result.recommendations || [],
-      comparativeInsights: result.comparativeInsights || [],
-      learningPath: result.learningPath || [],
-      confidence: result.confidence || 0,
-      confidenceBreakdown: result.confidenceBreakdown || null,
-      queries: result.queries || [],
-      iterationCount: result.iterationCount ?? 0,
-      searchIterations: result.searchIterations || [],
-      searchNotes: result.searchNotes || [],
-      searchSources: result.searchSources || [],
-      searchQuery: result.searchQuery,
-      diagnostics,
-    }, { status: 200 });
+    return NextResponse.json(await runResearch(), { status: 200 });
 
   } catch (error) {
+    if (request.signal.aborted) {
+      console.log("[Research Agent] Cancelled: client disconnected");
+      return NextResponse.json({ error: "Request cancelled" }, { status: 499 });
+    }
     console.error("[Research Agent] Error:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,114 @@
+/**
+ * Self-assessment API - self-rated skill levels stored per user and skill
+ * Automatic analyses reconcile them with detected levels (lib/analysis/self-assessment.ts)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DatabaseUnavailableError, skillGapStoragePrisma } from "@/lib/storage/skill-gap-storage-prisma";
+import { isSelfAssessedLevel, RECONCILIATION_RULE } from "@/lib/analysis/self-assessment";
+
+const databaseUnavailableResponse = (error: DatabaseUnavailableError) =>
+  NextResponse.json(
+    {
+      error: error.message,
+      hint: "Start your local PostgreSQL instance or update DATABASE_URL, then rerun the request.",
+    },
+    { status: 503 }
+  );
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId") || "user_123";
+
+    const levels = await skillGapStoragePrisma.getSelfAssessments(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: levels,
+      rule: RECONCILIATION_RULE,
+    });
+  } catch (error) {
+    console.error("❌ [Prisma] Error retrieving self-assessment:", error);
+    return NextResponse.json(
+      { error: "Failed to retrieve self-assessment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, levels } = (await request.json()) as {
+      userId?: string;
+      levels?: unknown[];
+    };
+
+    if (!userId || !Array.isArray(levels) || levels.length === 0) {
+      return NextResponse.json(
+        { error: "userId and a non-empty levels array are required" },
+        { status: 400 }
+      );
+    }
+    if (!levels.every(isSelfAssessedLevel)) {
+      return NextResponse.json(
+        { error: "Each level needs a skillId and a numeric currentLevel (targetLevel is optional)" },
+        { status: 400 }
+      );
+    }
+
+    const stored = await skillGapStoragePrisma.saveSelfAssessments(userId, levels);
+
+    return NextResponse.json({
+      success: true,
+      data: stored,
+      rule: RECONCILIATION_RULE,
+    });
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      console.warn("⚠️ [Prisma] Database unavailable while storing self-assessment:", error.message);
+      return databaseUnavailableResponse(error);
+    }
+
+    console.error("❌ [Prisma] Error storing self-assessment:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to store self-assessment",
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const skillId = searchParams.get("skillId");
+
+    if (!userId || !skillId) {
+      return NextResponse.json(
+        { error: "userId and skillId are required" },
+        { status: 400 }
+      );
+    }
+
+    const removed = await skillGapStoragePrisma.deleteSelfAssessment(userId, skillId);
+
+    return NextResponse.json({
+      success: true,
+      removed,
+    });
+  } catch (error) {
+    if (error instanceof DatabaseUnavailableError) {
+      return databaseUnavailableResponse(error);
+    }
+
+    console.error("❌ [Prisma] Error removing self-assessment:", error);
+    return NextResponse.json(
+      { error: "Failed to remove self-assessment" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,32 +2,69 @@
 
 /**
  * Interactive Progress Timeline Component
- * Shows multi-stage agent progress with expandable details
+ * Shows multi-stage agent progress with expandable details, built from the
+ * progress events streamed by the analysis, research and portfolio routes
  */
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle2, Clock, Circle, ChevronDown, ChevronUp } from 'lucide-react';
+import { CheckCircle2, Clock, Circle, ChevronDown, ChevronUp, XCircle } from 'lucide-react';
+import {
+  describeProgressEvent,
+  type AgentProgressEvent,
+  type AgentProgressPhase,
+} from '@/lib/agents/progress-events';
 
 interface PhaseStatus {
   id: string;
   name: string;
-  status: 'completed' | 'in_progress' | 'pending';
-  progress?: number;
-  tasks?: string[];
+  status: 'completed' | 'in_progress' | 'pending' | 'failed';
+  tasks: string[];
   completedAt?: string;
-  estimatedTime?: string;
 }
 
 interface AgentProgressTimelineProps {
-  phases: PhaseStatus[];
-  currentPhase: string;
+  events: AgentProgressEvent[];
 }
 
-export function AgentProgressTimeline({ phases, currentPhase }: AgentProgressTimelineProps) {
+const PHASES: { id: AgentProgressPhase; name: string }[] = [
+  { id: 'analysis', name: 'Repository Analysis' },
+  { id: 'research', name: 'Learning Research' },
+  { id: 'portfolio', name: 'Portfolio Improvements' },
+];
+
+const buildPhases = (events: AgentProgressEvent[]): PhaseStatus[] =>
+  PHASES.map(({ id, name }) => {
+    const phaseEvents = events.filter((event) => event.phase === id);
+    const last = phaseEvents[phaseEvents.length - 1];
+    let status: PhaseStatus['status'] = 'pending';
+    if (last?.type === 'completed') {
+      status = 'completed';
+    } else if (last?.type === 'failed') {
+      status = 'failed';
+    } else if (last) {
+      status = 'in_progress';
+    }
+    return {
+      id,
+      name,
+      status,
+      tasks: phaseEvents.map(describeProgressEvent),
+      completedAt: status === 'completed' ? new Date(last.at).toLocaleTimeString() : undefined,
+    };
+  });
+
+export function AgentProgressTimeline({ events }: AgentProgressTimelineProps) {
+  const phases = useMemo(() => buildPhases(events), [events]);
+  const currentPhase = events[events.length - 1]?.phase ?? null;
   const [expandedPhase, setExpandedPhase] = useState<string | null>(currentPhase);
 
+  // Follow the phase that is reporting, so new events are visible
+  useEffect(() => {
+    setExpandedPhase(currentPhase);
+  }, [currentPhase]);
+
   const getPhaseIcon = (status: PhaseStatus['status']) => {
     switch (status) {
       case 'completed':
@@ -40,6 +77,8 @@ export function AgentProgressTimeline({ phases, currentPhase }: AgentProgressTim
         );
       case 'pending':
         return <Circle className="h-6 w-6 text-gray-400" />;
+      case 'failed':
+        return <XCircle className="h-6 w-6 text-red-600" />;
     }
   };
 
@@ -51,6 +90,8 @@ export function AgentProgressTimeline({ phases, currentPhase }: AgentProgressTim
         return 'bg-blue-100 dark:bg-blue-950 border-blue-300 dark:border-blue-800';
       case 'pending':
         return 'bg-gray-100 dark:bg-gray-900 border-gray-300 dark:border-gray-700';
+      case 'failed':
+        return 'bg-red-100 dark:bg-red-950 border-red-300 dark:border-red-800';
     }
   };
 
@@ -99,9 +140,14 @@ export function AgentProgressTimeline({ phases, currentPhase }: AgentProgressTim
                             Completed {phase.completedAt}
                           </Badge>
                         )}
-                        {phase.status === 'in_progress' && phase.estimatedTime && (
+                        {phase.status === 'in_progress' && (
+                          <Badge variant="outline" className="text-xs">
+                            {phase.tasks.length} events
+                          </Badge>
+                        )}
+                        {phase.status === 'failed' && (
                           <Badge variant="outline" className="text-xs">
-                            Est. {phase.estimatedTime}
+                            Failed
                           </Badge>
                         )}
                         {phase.status === 'pending' && (
@@ -110,24 +156,11 @@ export function AgentProgressTimeline({ phases, currentPhase }: AgentProgressTim
                           </Badge>
                         )}
                       </div>
-
-                      {/* Progress Bar */}
-                      {phase.status === 'in_progress' && phase.progress !== undefined && (
-                        <div className="mt-2">
-                          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                            <div
-                              className="bg-blue-600 h-2 rounded-full transition-all duration-500"
-                              style={{ width: `${phase.progress}%` }}
-                            />
-                          </div>
-                          <p className="text-xs text-muted-foreground mt-1">{phase.progress}%</p>
-                        </div>
-                      )}
                       
                       {/* Expanded Details */}
-                      {expandedPhase === phase.id && phase.tasks && (
+                      {expandedPhase === phase.id && phase.tasks.length > 0 && (
                         <div className="mt-3 space-y-1">
-                          <p className="text-xs font-medium text-muted-foreground">Current Tasks:</p>
+                          <p className="text-xs font-medium text-muted-foreground">Events:</p>
                           {phase.tasks.map((task, i) => (
                             <div key={i} className="flex items-center space-x-2 text-sm">
                               <div className="h-1.5 w-1.5 rounded-full bg-blue-600" />
@@ -14,8 +14,10 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { Checkbox } from '@/components/ui/checkbox';
-import { GapAnalyzerAgent } from '@/lib/agents/gap-analyzer';
+import { GapAnalyzerAgent, type AgenticCodeAnalysis } from '@/lib/agents/gap-analyzer';
+import { readAgentProgressStream, type AgentProgressEvent } from '@/lib/agents/progress-events';
 import { StickyAgentStatus } from './sticky-agent-status';
+import { AgentProgressTimeline } from './agent-progress-timeline';
 import { InteractiveSkillCard } from './interactive-skill-card';
 import { LandingExplanation } from './landing-explanation';
 import { AnimatedHero } from './animated-hero';
@@ -38,7 +40,8 @@ import {
   Zap,
   Search,
   BookOpen,
-  ChevronDown
+  ChevronDown,
+  GitCommit
 } from 'lucide-react';
 
 type AgentStatus = 'IDLE' | 'ANALYZING' | 'RESEARCHING' | 'PLANNING' | 'ACTING' | 'MONITORING' | 'COMPLETE' | 'ERROR';
@@ -122,9 +125,11 @@ function normalizeMcpSkillList(assessment: any): NormalizedMcpSkill[] {
 export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnalyzerProps) {
   const { analysisResults, setAnalysisResults } = useAnalysis();
   const [repoUrlInput, setRepoUrlInput] = useState('');
+  const [refInput, setRefInput] = useState('');
   const [agentStatus, setAgentStatus] = useState<AgentStatus>('IDLE');
   const [progress, setProgress] = useState(0);
   const [actionLogs, setActionLogs] = useState<ActionLog[]>([]);
+  const [progressEvents, setProgressEvents] = useState<AgentProgressEvent[]>([]);
   const [skillGaps, setSkillGaps] = useState<any[]>([]);
   const [portfolioTasks, setPortfolioTasks] = useState<PortfolioTask[]>([]);
   const [careerInsights, setCareerInsights] = useState<any>(null);
@@ -398,6 +403,7 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
             recommendedSteps: [],
           },
           recommendations: [],
+          evidence: gap.evidence,
           // Restore skill-specific AI insights
           aiInsights: getSkillSpecificInsightsFromContext(gap.skill),
           mcpInsights: mcpInsights?.recommendations?.length ? mcpInsights : undefined,
@@ -505,6 +511,7 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
     setAgentStatus('IDLE');
     setProgress(0);
     setActionLogs([]);
+    setProgressEvents([]);
     setSkillGaps([]);
     setPortfolioTasks([]);
     setCareerInsights(null);
@@ -536,6 +543,10 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
     setActionLogs(prev => [...prev, log].slice(-50)); // Keep last 50 logs, newest at bottom
   };
 
+  const recordProgressEvent = (event: AgentProgressEvent) => {
+    setProgressEvents((prev) => [...prev, event]);
+  };
+
   const getCurrentTaskMessage = (status: AgentStatus): string => {
     switch (status) {
       case 'ANALYZING':
@@ -569,6 +580,7 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
     setAgentStatus('ANALYZING');
     setProgress(0);
     setActionLogs([]);
+    setProgressEvents([]);
     setSkillGaps([]);
     setPortfolioTasks([]);
     setCareerInsights(null);
@@ -607,7 +619,9 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
         body: JSON.stringify({
           action: 'analyze-github-agentic',
           repositoryUrl: repoUrl,
+          ref: refInput.trim() || undefined,
           deepAnalysis: true, // Enable AI analysis
+          stream: true, // Progress events over SSE, then the result
           userContext: {
             targetRole: targetRole || undefined,
             targetIndustry: targetIndustry || undefined,
@@ -620,7 +634,7 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
         throw new Error('Failed to analyze repository with agentic analyzer');
       }
 
-      const agenticData = await agenticResponse.json();
+      const agenticData = await readAgentProgressStream(agenticResponse, recordProgressEvent);
       const githubAnalysis = agenticData.result;
       const initialExternalAssessment = githubAnalysis?.mcpSkillAssessment
         ?? githubAnalysis?.externalAssessments?.githubMcp
@@ -635,6 +649,15 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
         addLog('warning', `⚠️ Using fallback mode: ${agenticData.fallbackReason}`, <AlertCircle className="h-4 w-4" />);
       }
       
+      if (githubAnalysis.rateLimit) {
+        const resetHint = githubAnalysis.rateLimit.resetAt
+          ? ` Resets at ${new Date(githubAnalysis.rateLimit.resetAt).toLocaleTimeString()}.`
+          : '';
+        addLog('warning', `⏸️ GitHub rate limited: partial results, skipped ${githubAnalysis.rateLimit.skipped.join(', ')}.${resetHint}`, <AlertCircle className="h-4 w-4" />);
+      }
+      if (githubAnalysis.commitSha) {
+        addLog('info', `Analyzed ${githubAnalysis.ref ?? 'default branch'} at commit ${githubAnalysis.commitSha.slice(0, 7)}`, <GitCommit className="h-4 w-4" />);
+      }
       addLog('success', `Detected languages: ${githubAnalysis.languages.join(', ')}`, <CheckCircle2 className="h-4 w-4" />);
       if (githubAnalysis.frameworks.length > 0) {
         addLog('info', `Frameworks: ${githubAnalysis.frameworks.join(', ')}`, <Code className="h-4 w-4" />);
@@ -643,7 +666,16 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
       // Show AI insights if available
       if (githubAnalysis.agenticAnalysis) {
         addLog('success', `🎯 Code Quality: ${githubAnalysis.agenticAnalysis.overallQuality}/100 (Confidence: ${(githubAnalysis.agenticAnalysis.confidence * 100).toFixed(0)}%)`, <CheckCircle2 className="h-4 w-4" />);
-        
+
+        const reviewChunks: NonNullable<AgenticCodeAnalysis['reviewChunks']> = githubAnalysis.agenticAnalysis.reviewChunks ?? [];
+        reviewChunks.forEach((chunk, index) => {
+          if (chunk.status === 'completed') {
+            addLog('info', `🧩 Review ${index + 1}/${reviewChunks.length} (${chunk.label}): ${chunk.overallQuality}/100`, <Code className="h-4 w-4" />);
+          } else {
+            addLog('warning', `🧩 Review ${index + 1}/${reviewChunks.length} (${chunk.label}) failed: ${chunk.error ?? 'unknown error'}`, <AlertCircle className="h-4 w-4" />);
+          }
+        });
+
         if (githubAnalysis.agenticAnalysis.architecturePatterns.length > 0) {
           addLog('info', `🏗️ Architecture: ${githubAnalysis.agenticAnalysis.architecturePatterns.join(', ')}`, <Code className="h-4 w-4" />);
         }
@@ -663,7 +695,9 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
       addLog('info', 'Generating skill gap analysis...', <Target className="h-4 w-4" />);
       setProgress(50);
       
-      const gapAnalysis = await gapAnalyzer.generateAutomaticSkillAssessment(githubAnalysis);
+      const gapAnalysis = await gapAnalyzer.generateAutomaticSkillAssessment(githubAnalysis, {
+        roleProfile: targetRole || undefined,
+      });
 
       addLog('success', `Overall skill score: ${gapAnalysis.overallScore}%`, <CheckCircle2 className="h-4 w-4" />);
       addLog('info', `Identified ${gapAnalysis.skillGaps.length} skill gaps`, <Target className="h-4 w-4" />);
@@ -927,6 +961,7 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
           ? sg.guidance.recommendedSteps
           : sg.recommendations,
         category: sg.skill.category || 'technical',
+        evidence: sg.evidence,
         // Add skill-specific AI insights
         aiInsights: getSkillSpecificInsights(sg.skill.name),
         mcpInsights: mcpInsights?.recommendations?.length ? mcpInsights : undefined,
@@ -974,11 +1009,12 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
               skillCurrentLevel: gap.currentLevel,
               skillTargetLevel: gap.targetLevel,
               skillGapValue: gap.gap,
+              stream: true,
             }),
           });
 
           if (researchResponse.ok) {
-            const researchData = await researchResponse.json();
+            const researchData = await readAgentProgressStream(researchResponse, recordProgressEvent);
             return { gap, researchData };
           } else {
             console.error(`Research failed for ${gap.name}:`, researchResponse.statusText);
@@ -1192,14 +1228,16 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             repoUrl: repoUrl,
+            ref: githubAnalysis.commitSha ?? githubAnalysis.ref, // Same commit as the skill analysis
             researchResults: researchResults, // Pass research results to enrich recommendations
             skillAssessment: gapAnalysis,
             createIssues: false, // Don't create issues automatically (can be enabled later)
+            stream: true,
           }),
         });
 
           if (portfolioResponse.ok) {
-            const portfolioDataResult = await portfolioResponse.json();
+            const portfolioDataResult = await readAgentProgressStream(portfolioResponse, recordProgressEvent);
 
             // Store portfolio data for later use
             setPortfolioData(portfolioDataResult);
@@ -1335,7 +1373,8 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
             reasoning: (gap.guidance as any)?.reasoning || gap.gap || '',
             currentLevel: gap.currentLevel,
             targetLevel: gap.targetLevel,
-            gap: gap.gap
+            gap: gap.gap,
+            evidence: gap.evidence
           })),
           portfolioActions: portfolioTasksForContext.length > 0 ? portfolioTasksForContext.map(task => ({
             id: task.id,
@@ -1484,7 +1523,7 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
         status={agentStatus}
         progress={progress}
         currentTask={getCurrentTaskMessage(agentStatus)}
-        estimatedTimeRemaining="2 min"
+        latestEvent={progressEvents[progressEvents.length - 1] ?? null}
         onViewLogs={() => {
           const logElement = document.getElementById('activity-log');
           if (logElement) {
@@ -1554,6 +1593,13 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
                 className="h-14 text-xl bg-purple-200/10 border-purple-300/30 text-white placeholder:text-purple-200/70 focus-visible:ring-purple-200/40 rounded-xl px-5"
                 disabled={!canEditInputs}
               />
+              <Input
+                placeholder="Branch, tag or commit (optional, defaults to the default branch)"
+                value={refInput}
+                onChange={(e) => setRefInput(e.target.value)}
+                className="h-11 text-base bg-purple-200/10 border-purple-300/30 text-white placeholder:text-purple-200/60 focus-visible:ring-purple-200/40 rounded-xl px-5"
+                disabled={!canEditInputs}
+              />
             </div>
             <div className="flex gap-3">
               <Button
@@ -1682,6 +1728,13 @@ export function AgenticSkillAnalyzer({ showMarketing = true }: AgenticSkillAnaly
         </div>
       )}
 
+      {/* Streamed agent progress */}
+      {progressEvents.length > 0 && (
+        <div className="mb-6">
+          <AgentProgressTimeline events={progressEvents} />
+        </div>
+      )}
+
       {/* Agent Activity */}
       {(progress > 0 || actionLogs.length > 0) && (
         <Card id="activity-log" ref={activityLogRef} className="mb-6">
@@ -37,6 +37,17 @@ interface QualityMetrics {
     confidence: number;
     insights: string[];
     improvements: string[];
+    staticMetrics?: {
+      score: number;
+      filesAnalyzed: number;
+      breakdown: Array<{
+        id: string;
+        label: string;
+        score: number;
+        weight: number;
+        explanation: string;
+      }>;
+    };
   };
   overallQuality: {
     score: number;
@@ -149,6 +160,26 @@ export function AIAnalysisInsightsCard({
                   value={qualityMetrics.codeQuality.score} 
                   className="h-1 mb-3"
                 />
+
+                {/* Static metrics breakdown */}
+                {qualityMetrics.codeQuality.staticMetrics && (
+                  <div className="space-y-1 mb-3">
+                    <div className="text-xs font-medium text-gray-700">
+                      Measured across {qualityMetrics.codeQuality.staticMetrics.filesAnalyzed} files:
+                    </div>
+                    {qualityMetrics.codeQuality.staticMetrics.breakdown
+                      .filter((item) => item.weight > 0)
+                      .map((item) => (
+                        <div key={item.id} className="text-xs text-gray-600" title={item.explanation}>
+                          <div className="flex items-center justify-between">
+                            <span>{item.label}</span>
+                            <span className={`font-medium ${getScoreColor(item.score)}`}>{item.score}/100</span>
+                          </div>
+                          <div className="text-gray-500">{item.explanation}</div>
+                        </div>
+                      ))}
+                  </div>
+                )}
                 
                 {/* Insights */}
                 <div className="space-y-2">
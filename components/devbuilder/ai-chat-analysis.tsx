@@ -5,7 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { scrapeChatTranscript, type ChatScrapeResult } from '@/lib/analysis/chat-scraper';
+import type { ChatScrapeResult } from '@/lib/analysis/chat-scraper';
+import { CHAT_EXPORT_FORMAT_LABELS, parseChatExport } from '@/lib/analysis/chat-export';
+import { clusterChatTopics, type ChatTopicAnalysis } from '@/lib/analysis/chat-topics';
+import { findSkillMentions } from '@/lib/analysis/skill-taxonomy';
 import { 
   Brain, 
   Upload, 
@@ -18,6 +21,8 @@ import {
   X
 } from 'lucide-react';
 
+const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.json', '.jsonl'];
+
 interface AIChatAnalysisProps {
   onAnalysisComplete: (analysis: any) => void;
   onAnalysisStart: () => void;
@@ -39,13 +44,14 @@ export function AIChatAnalysis({
   const [isProcessing, setIsProcessing] = useState(false);
   const [isScraping, setIsScraping] = useState(false);
   const [scrapeResult, setScrapeResult] = useState<ChatScrapeResult | null>(null);
+  const [topicAnalysis, setTopicAnalysis] = useState<ChatTopicAnalysis | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (file.type !== 'text/plain' && !file.name.endsWith('.txt') && !file.name.endsWith('.md')) {
-        setError('Please select a text file (.txt or .md)');
+      if (!SUPPORTED_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension))) {
+        setError('Please select a chat transcript or export (.txt, .md, .json or .jsonl)');
         return;
       }
       
@@ -57,6 +63,7 @@ export function AIChatAnalysis({
       setSelectedFile(file);
       setError(null);
       setScrapeResult(null);
+      setTopicAnalysis(null);
       
       // Read file content
       const reader = new FileReader();
@@ -73,6 +80,7 @@ export function AIChatAnalysis({
     setFileContent('');
     setError(null);
     setScrapeResult(null);
+    setTopicAnalysis(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -86,8 +94,9 @@ export function AIChatAnalysis({
 
     setIsScraping(true);
     try {
-      const result = scrapeChatTranscript(fileContent);
+      const result = parseChatExport(fileContent);
       setScrapeResult(result);
+      setTopicAnalysis(clusterChatTopics(result));
       if (result.userQuestions.length === 0) {
         setError('No user questions detected. Make sure the transcript includes question marks or speaker labels.');
       } else {
@@ -108,14 +117,16 @@ export function AIChatAnalysis({
     }
 
     setError(null);
-    const currentScrape = scrapeResult ?? scrapeChatTranscript(fileContent);
+    const currentScrape = scrapeResult ?? parseChatExport(fileContent);
+    const currentTopics = topicAnalysis ?? clusterChatTopics(currentScrape);
     setScrapeResult(currentScrape);
+    setTopicAnalysis(currentTopics);
 
     setIsProcessing(true);
     onAnalysisStart();
 
     try {
-      const analysis = await analyzeAIChatText(fileContent, currentScrape);
+      const analysis = await analyzeAIChatText(fileContent, currentScrape, currentTopics);
       onAnalysisComplete(analysis);
     } catch (err) {
       setError('Failed to analyze AI chat file. Please try again.');
@@ -125,7 +136,11 @@ export function AIChatAnalysis({
     }
   };
 
-  const analyzeAIChatText = async (text: string, scraped: ChatScrapeResult): Promise<any> => {
+  const analyzeAIChatText = async (
+    text: string,
+    scraped: ChatScrapeResult,
+    topics: ChatTopicAnalysis
+  ): Promise<any> => {
     // Simulate processing time
     await new Promise(resolve => setTimeout(resolve, 1500));
 
@@ -134,7 +149,10 @@ export function AIChatAnalysis({
 
     // Analyze questions to understand learning patterns
     const learningPatterns = analyzeLearningPatterns(questionTexts);
-    const technologies = extractTechnologiesFromQuestions(questionTexts);
+    // Clustered topics come first, most-asked first; free-text mentions fill in the rest
+    const technologies = Array.from(
+      new Set([...topics.clusters.map((cluster) => cluster.name), ...extractTechnologiesFromQuestions(questionTexts)])
+    );
     const concepts = extractConceptsFromQuestions(questionTexts);
     const skillLevel = inferSkillLevelFromQuestions(questionTexts);
 
@@ -162,15 +180,19 @@ export function AIChatAnalysis({
 
     return {
       source: 'ai_chat',
+      analysisType: 'ai-chat',
       technologies,
       concepts,
       skillLevel,
       recommendations,
       confidence: calculateConfidence(text),
-      insights: generateQuestionBasedInsights(learningPatterns, questionTexts, {
-        promptingSignals: promptIndicators,
-        contextSignals: contextIndicators,
-      }),
+      insights: [
+        ...topics.summary,
+        ...generateQuestionBasedInsights(learningPatterns, questionTexts, {
+          promptingSignals: promptIndicators,
+          contextSignals: contextIndicators,
+        }),
+      ],
       learningPatterns,
       questionCount: questionTexts.length,
       responseCount: aiResponses.length,
@@ -178,6 +200,8 @@ export function AIChatAnalysis({
       sampleQuestions: scraped.userQuestions.slice(0, 10),
       promptingSignals: promptIndicators,
       contextSignals: contextIndicators,
+      chatAnalysis: topics,
+      repeatedTopics: topics.repeatedTopics,
     };
   };
 
@@ -235,31 +259,8 @@ export function AIChatAnalysis({
     return patterns;
   };
 
-  const extractTechnologiesFromQuestions = (questions: string[]): string[] => {
-    const techPatterns = [
-      /\b(React|Vue|Angular|Svelte)\b/gi,
-      /\b(JavaScript|TypeScript|Python|Java|C#|Go|Rust|Swift|Kotlin)\b/gi,
-      /\b(Node\.?js|Express|Django|Flask|Spring|Laravel|Rails)\b/gi,
-      /\b(MySQL|PostgreSQL|MongoDB|Redis|Elasticsearch)\b/gi,
-      /\b(AWS|Azure|GCP|Docker|Kubernetes|Terraform)\b/gi,
-      /\b(Git|GitHub|GitLab|Bitbucket|Jenkins|CI\/CD)\b/gi,
-      /\b(HTML|CSS|SASS|SCSS|Tailwind|Bootstrap)\b/gi,
-      /\b(Webpack|Vite|Parcel|Rollup|Babel)\b/gi
-    ];
-
-    const technologies = new Set<string>();
-    
-    questions.forEach(question => {
-      techPatterns.forEach(pattern => {
-        const matches = question.match(pattern);
-        if (matches) {
-          matches.forEach(match => technologies.add(match.toLowerCase()));
-        }
-      });
-    });
-
-    return Array.from(technologies);
-  };
+  const extractTechnologiesFromQuestions = (questions: string[]): string[] =>
+    extractTechnologies(questions.join('\n'));
 
   const extractConceptsFromQuestions = (questions: string[]): string[] => {
     const conceptPatterns = [
@@ -387,29 +388,10 @@ export function AIChatAnalysis({
     return insights;
   };
 
-  const extractTechnologies = (text: string): string[] => {
-    const techPatterns = [
-      /\b(React|Vue|Angular|Svelte)\b/gi,
-      /\b(JavaScript|TypeScript|Python|Java|C#|Go|Rust|Swift|Kotlin)\b/gi,
-      /\b(Node\.?js|Express|Django|Flask|Spring|Laravel|Rails)\b/gi,
-      /\b(MySQL|PostgreSQL|MongoDB|Redis|Elasticsearch)\b/gi,
-      /\b(AWS|Azure|GCP|Docker|Kubernetes|Terraform)\b/gi,
-      /\b(Git|GitHub|GitLab|Bitbucket|Jenkins|CI\/CD)\b/gi,
-      /\b(HTML|CSS|SASS|SCSS|Tailwind|Bootstrap)\b/gi,
-      /\b(Webpack|Vite|Parcel|Rollup|Babel)\b/gi
-    ];
-
-    const technologies = new Set<string>();
-    
-    techPatterns.forEach(pattern => {
-      const matches = text.match(pattern);
-      if (matches) {
-        matches.forEach(match => technologies.add(match.toLowerCase()));
-      }
-    });
-
-    return Array.from(technologies);
-  };
+  const extractTechnologies = (text: string): string[] =>
+    findSkillMentions(text, {
+      groups: ['language', 'framework', 'database', 'devops', 'cloud', 'testing', 'ml', 'data'],
+    }).map((skill) => skill.name);
 
   const extractConcepts = (text: string): string[] => {
     const conceptPatterns = [
@@ -557,7 +539,7 @@ export function AIChatAnalysis({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".txt,.md"
+            accept={SUPPORTED_EXTENSIONS.join(',')}
             onChange={handleFileSelect}
             className="hidden"
             disabled={isProcessing || isAnalyzing}
@@ -569,7 +551,7 @@ export function AIChatAnalysis({
               <div>
                 <h3 className="text-lg font-semibold mb-2">Upload AI Chat File</h3>
                 <p className="text-muted-foreground mb-4">
-                  Upload your AI coding session export (.txt or .md file)
+                  Upload a transcript or a ChatGPT, Claude or JSONL export
                 </p>
                 <Button
                   onClick={() => fileInputRef.current?.click()}
@@ -581,7 +563,7 @@ export function AIChatAnalysis({
                 </Button>
               </div>
               <p className="text-xs text-muted-foreground">
-                Supported formats: .txt, .md • Max size: 5MB
+                Supported formats: .txt, .md, .json, .jsonl • Max size: 5MB
               </p>
             </div>
           ) : (
@@ -705,10 +687,35 @@ export function AIChatAnalysis({
               </span>
             </div>
             <span className="text-xs text-muted-foreground">
-              Total turns detected: {scrapeResult.metadata.totalTurns}
+              {CHAT_EXPORT_FORMAT_LABELS[scrapeResult.format]} • {scrapeResult.metadata.totalTurns} turns •{' '}
+              {scrapeResult.metadata.conversationCount} conversation{scrapeResult.metadata.conversationCount === 1 ? '' : 's'} •{' '}
+              {scrapeResult.metadata.codeBlockCount} code blocks
             </span>
           </div>
 
+          {topicAnalysis && topicAnalysis.clusters.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">Topics you ask about</p>
+              <div className="flex flex-wrap gap-2">
+                {topicAnalysis.clusters.slice(0, 12).map((cluster) => (
+                  <Badge
+                    key={cluster.skillId}
+                    variant={cluster.repeated ? 'destructive' : 'secondary'}
+                    title={cluster.sampleQuestions.join('\n')}
+                  >
+                    {cluster.name} · {cluster.questionCount}
+                    {cluster.conversationCount > 1 ? ` in ${cluster.conversationCount} chats` : ''}
+                  </Badge>
+                ))}
+              </div>
+              {topicAnalysis.summary.map((line) => (
+                <p key={line} className="text-xs text-muted-foreground">
+                  {line}
+                </p>
+              ))}
+            </div>
+          )}
+
           {scrapeResult.userQuestions.length === 0 ? (
             <p className="text-xs text-muted-foreground">
               No questions were detected in the transcript. Try labeling speaker roles (e.g. "User:" / "Assistant:") or adding question marks.
@@ -84,7 +84,9 @@ export function AutomaticGapAnalysis() {
       setGitHubAnalysis(analysis);
 
       try {
-        const assessment = await gapAnalyzer.generateAutomaticSkillAssessment(analysis);
+        const assessment = await gapAnalyzer.generateAutomaticSkillAssessment(analysis, {
+          roleProfile: targetRole || undefined,
+        });
         assessment.analysisType = 'github';
         handleSkillAssessmentComplete(assessment, { sourceGithub: analysis });
       } catch (assessmentError) {
@@ -93,7 +95,7 @@ export function AutomaticGapAnalysis() {
         setIsProcessing(false);
       }
     },
-    [gapAnalyzer, handleSkillAssessmentComplete]
+    [gapAnalyzer, handleSkillAssessmentComplete, targetRole]
   );
 
   const handleAnalysisStart = () => {
@@ -20,9 +20,15 @@ import {
   Sparkles,
   CheckCircle2,
   FileText,
+  Package,
+  GitCommit,
+  Gauge,
+  MessageSquareQuote,
+  Search,
 } from 'lucide-react';
 import { formatGapValue } from '@/lib/utils';
 import type { SkillGuidance } from '@/lib/agents/gap-analyzer';
+import type { SkillEvidence } from '@/lib/analysis/skill-evidence';
 
 interface SkillGap {
   id?: string;
@@ -34,6 +40,7 @@ interface SkillGap {
   confidence?: 'low' | 'medium' | 'high';
   recommendations?: string[];
   guidance?: SkillGuidance;
+  evidence?: SkillEvidence[];
   aiInsights?: {
     codeQuality?: number;
     architecturePatterns?: string[];
@@ -67,6 +74,8 @@ export function InteractiveSkillCard({ skill, onStartLearning }: InteractiveSkil
     ? guidance.recommendedSteps
     : (skill.recommendations ?? []);
 
+  const evidence = skill.evidence ?? [];
+
   const getPriorityColor = (priority: number) => {
     if (priority >= 8) return 'destructive';
     if (priority >= 6) return 'default';
@@ -142,6 +151,29 @@ export function InteractiveSkillCard({ skill, onStartLearning }: InteractiveSkil
 
   const explanation = getGapExplanation();
 
+  const getEvidenceIcon = (kind: SkillEvidence['kind']) => {
+    switch (kind) {
+      case 'file':
+        return <FileText className="h-3 w-3 text-blue-600 dark:text-blue-400" />;
+      case 'manifest':
+        return <Package className="h-3 w-3 text-amber-600 dark:text-amber-400" />;
+      case 'commits':
+        return <GitCommit className="h-3 w-3 text-emerald-600 dark:text-emerald-400" />;
+      case 'metric':
+        return <Gauge className="h-3 w-3 text-purple-600 dark:text-purple-400" />;
+      default:
+        return <MessageSquareQuote className="h-3 w-3 text-pink-600 dark:text-pink-400" />;
+    }
+  };
+
+  const formatEvidenceLocation = (item: SkillEvidence) => {
+    if (!item.path) return null;
+    if (item.lineStart === undefined) return item.path;
+    return item.lineEnd !== undefined && item.lineEnd !== item.lineStart
+      ? `${item.path}:${item.lineStart}-${item.lineEnd}`
+      : `${item.path}:${item.lineStart}`;
+  };
+
   return (
     <Card 
       className={`cursor-pointer transition-all hover:shadow-lg ${
@@ -253,6 +285,42 @@ export function InteractiveSkillCard({ skill, onStartLearning }: InteractiveSkil
               </div>
             </div>
 
+            {/* Evidence - WHY the current level was assigned */}
+            {evidence.length > 0 && (
+              <div className="pt-3 border-t space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Search className="h-4 w-4 text-blue-500" />
+                  <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                    Why {formattedCurrentLevel}/5
+                  </p>
+                </div>
+                <div className="space-y-1.5">
+                  {evidence.map((item, i) => {
+                    const location = formatEvidenceLocation(item);
+                    return (
+                      <div key={i} className="flex items-start gap-2 p-2 rounded bg-muted/50">
+                        <div className="mt-0.5 flex-shrink-0">{getEvidenceIcon(item.kind)}</div>
+                        <div className="flex-1 min-w-0 space-y-0.5">
+                          <p className="text-xs">{item.summary}</p>
+                          {(location || item.repository) && (
+                            <p className="text-[10px] text-muted-foreground font-mono truncate">
+                              {item.repository ? `${item.repository}${location ? ' · ' : ''}` : ''}
+                              {location}
+                            </p>
+                          )}
+                          {item.excerpt && (
+                            <pre className="text-[10px] font-mono whitespace-pre-wrap break-all p-1.5 rounded bg-background border">
+                              {item.excerpt}
+                            </pre>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {(guidance?.highlightedFrameworks?.length || recommendedSteps.length > 0) && (
               <div className="pt-3 border-t space-y-4">
                 {guidance?.highlightedFrameworks?.length ? (
@@ -40,9 +40,44 @@ export function RedesignedSkillAssessment({ onNavigateToLearning }: RedesignedSk
   const [analysisResults, setAnalysisResults] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
+  const [selfRatings, setSelfRatings] = useState<Record<string, number>>({});
   
   const gapAnalyzer = useMemo(() => new GapAnalyzerAgent(), []);
 
+  // Stored self-ratings are reconciled with detected levels rather than overwritten by a new analysis
+  const loadSelfAssessments = async () => {
+    try {
+      const response = await fetch('/api/skill-gaps/self-assessment?userId=user_123');
+      if (response.ok) {
+        const { data } = await response.json();
+        gapAnalyzer.setSelfAssessments(Array.isArray(data) ? data : []);
+      }
+    } catch (err) {
+      console.warn('⚠️ Could not load self-assessment:', err);
+    }
+  };
+
+  const handleSelfRating = async (skill: { id: string; name: string }, currentLevel: number) => {
+    try {
+      const response = await fetch('/api/skill-gaps/self-assessment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: 'user_123',
+          levels: [{ skillId: skill.id, skillName: skill.name, currentLevel }],
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Status ${response.status}`);
+      }
+      gapAnalyzer.updateSkillLevel(skill.id, currentLevel);
+      setSelfRatings((prev) => ({ ...prev, [skill.id]: currentLevel }));
+    } catch (err) {
+      console.error('❌ Failed to save self-rating:', err);
+      setError('Could not save your self-rating. Please try again.');
+    }
+  };
+
   const handleAnalyzeRepository = async () => {
     setIsAnalyzing(true);
     setError(null);
@@ -69,6 +104,7 @@ export function RedesignedSkillAssessment({ onNavigateToLearning }: RedesignedSk
       setProgress(50);
       
       // Step 2: Generate skill assessment from GitHub data
+      await loadSelfAssessments();
       const gapAnalysis = await gapAnalyzer.generateAutomaticSkillAssessment(githubAnalysis);
       console.log('📊 Gap analysis complete:', gapAnalysis);
       
@@ -177,6 +213,7 @@ export function RedesignedSkillAssessment({ onNavigateToLearning }: RedesignedSk
       setProgress(70);
       
       // Step 2: Generate skill assessment from GitHub data
+      await loadSelfAssessments();
       const gapAnalysis = await gapAnalyzer.generateAutomaticSkillAssessment(githubAnalysis);
       console.log('📊 Gap analysis complete:', gapAnalysis);
       
@@ -475,6 +512,9 @@ export function RedesignedSkillAssessment({ onNavigateToLearning }: RedesignedSk
 
               <div className="space-y-3">
                 <p className="text-sm font-medium">Top Skill Gaps</p>
+                {analysisResults.gaps?.selfAssessment && (
+                  <p className="text-xs text-muted-foreground">{analysisResults.gaps.selfAssessment.rule}</p>
+                )}
                 
                 {analysisResults.gaps?.skillGaps?.slice(0, 5).map((skillGap: any) => {
                   const gapPercent = (skillGap.gap / skillGap.skill.targetLevel) * 100;
@@ -499,6 +539,30 @@ export function RedesignedSkillAssessment({ onNavigateToLearning }: RedesignedSk
                         <span>Current: {formatGapValue(skillGap.skill.currentLevel)}/5</span>
                         <span>Target: {formatGapValue(skillGap.skill.targetLevel)}/5</span>
                       </div>
+                      {skillGap.skill.selfAssessment && (
+                        <div className="flex items-center justify-between text-xs text-muted-foreground" title={skillGap.skill.selfAssessment.explanation}>
+                          <span>
+                            Detected {formatGapValue(skillGap.skill.selfAssessment.detectedLevel)}/5 · self-rated {formatGapValue(skillGap.skill.selfAssessment.selfAssessedLevel)}/5
+                          </span>
+                          {skillGap.skill.selfAssessment.disagreement === 'large' && (
+                            <Badge variant="outline" className="text-yellow-600 border-yellow-500">Review</Badge>
+                          )}
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <label htmlFor={`self-rating-${skillGap.skill.id}`}>Rate yourself</label>
+                        <select
+                          id={`self-rating-${skillGap.skill.id}`}
+                          className="border rounded px-1 py-0.5 bg-background"
+                          value={selfRatings[skillGap.skill.id] ?? Math.round(skillGap.skill.selfAssessment?.selfAssessedLevel ?? 0)}
+                          onChange={(e) => handleSelfRating(skillGap.skill, parseInt(e.target.value))}
+                        >
+                          <option value={0} disabled>–</option>
+                          {[1, 2, 3, 4, 5].map((level) => (
+                            <option key={level} value={level}>{level}/5</option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
                   );
                 }) || <p className="text-xs text-muted-foreground text-center py-4">No skill gaps identified</p>}
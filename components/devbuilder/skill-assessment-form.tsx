@@ -10,6 +10,7 @@ import { SkillCategory, Skill, GapAnalysisResult, GapAnalyzerAgent } from '@/lib
 import { SkillRadarChart } from './skill-radar-chart';
 import { BarChart3, Target, TrendingUp, BookOpen, CheckCircle, AlertCircle } from 'lucide-react';
 import { formatGapValue } from '@/lib/utils';
+import { isSelfAssessedLevel } from '@/lib/analysis/self-assessment';
 
 interface SkillAssessmentFormProps {
   onAnalysisComplete?: (result: GapAnalysisResult) => void;
@@ -56,7 +57,7 @@ export function SkillAssessmentForm({ onAnalysisComplete }: SkillAssessmentFormP
     setHasUnsavedChanges(true);
   };
 
-  const saveAssessment = () => {
+  const saveAssessment = async () => {
     try {
       const assessmentData = {
         skills,
@@ -64,6 +65,26 @@ export function SkillAssessmentForm({ onAnalysisComplete }: SkillAssessmentFormP
         version: '1.0'
       };
       localStorage.setItem('skillbridge-assessment', JSON.stringify(assessmentData));
+
+      // Stored per user and skill so automatic analyses blend these ratings in instead of replacing them
+      if (skills.length > 0) {
+        const response = await fetch('/api/skill-gaps/self-assessment', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            userId: 'user_123',
+            levels: skills.map((skill) => ({
+              skillId: skill.id,
+              skillName: skill.name,
+              currentLevel: skill.currentLevel,
+              targetLevel: skill.targetLevel,
+            })),
+          }),
+        });
+        if (!response.ok) {
+          console.warn(`Self-assessment kept locally only (server responded ${response.status})`);
+        }
+      }
       setHasUnsavedChanges(false);
       console.log('Assessment saved successfully');
     } catch (error) {
@@ -71,7 +92,7 @@ export function SkillAssessmentForm({ onAnalysisComplete }: SkillAssessmentFormP
     }
   };
 
-  const loadAssessment = () => {
+  const loadAssessment = async () => {
     try {
       const saved = localStorage.getItem('skillbridge-assessment');
       if (saved) {
@@ -79,6 +100,30 @@ export function SkillAssessmentForm({ onAnalysisComplete }: SkillAssessmentFormP
         setSkills(assessmentData.skills || []);
         setHasUnsavedChanges(false);
         console.log('Assessment loaded successfully');
+        return;
+      }
+
+      // Nothing in this browser; fall back to the ratings stored on the server
+      const response = await fetch('/api/skill-gaps/self-assessment?userId=user_123');
+      if (!response.ok) {
+        return;
+      }
+      const { data } = await response.json();
+      const storedLevels = new Map(
+        (Array.isArray(data) ? data : []).filter(isSelfAssessedLevel).map((level) => [level.skillId, level])
+      );
+      const storedSkills = categories.flatMap((category) =>
+        category.skills
+          .filter((skill) => storedLevels.has(skill.id))
+          .map((skill) => {
+            const level = storedLevels.get(skill.id)!;
+            return { ...skill, currentLevel: level.currentLevel, targetLevel: level.targetLevel ?? skill.targetLevel };
+          })
+      );
+      if (storedSkills.length > 0) {
+        setSkills(storedSkills);
+        setHasUnsavedChanges(false);
+        console.log('Assessment loaded from server');
       }
     } catch (error) {
       console.error('Failed to load assessment:', error);
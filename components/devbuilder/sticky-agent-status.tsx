@@ -8,6 +8,7 @@
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Activity, Pause, Play, AlertCircle } from 'lucide-react';
+import { describeProgressEvent, type AgentProgressEvent } from '@/lib/agents/progress-events';
 
 type AgentStatus = 'IDLE' | 'ANALYZING' | 'RESEARCHING' | 'PLANNING' | 'ACTING' | 'MONITORING' | 'COMPLETE' | 'ERROR';
 
@@ -20,6 +21,8 @@ interface StickyAgentStatusProps {
   onViewLogs?: () => void;
   estimatedTimeRemaining?: string;
   isPaused?: boolean;
+  /** Latest streamed progress event; shown instead of currentTask when present */
+  latestEvent?: AgentProgressEvent | null;
 }
 
 export function StickyAgentStatus({
@@ -30,7 +33,8 @@ export function StickyAgentStatus({
   onResume,
   onViewLogs,
   estimatedTimeRemaining,
-  isPaused = false
+  isPaused = false,
+  latestEvent
 }: StickyAgentStatusProps) {
   const getStatusColor = (status: AgentStatus) => {
     switch (status) {
@@ -55,6 +59,9 @@ export function StickyAgentStatus({
     }
   };
 
+  const taskMessage = latestEvent ? describeProgressEvent(latestEvent) : currentTask;
+  const isFallback = latestEvent?.type === 'fallback-triggered';
+
   const isActive = status !== 'IDLE' && status !== 'COMPLETE' && status !== 'ERROR';
 
   if (!isActive) {
@@ -80,7 +87,7 @@ export function StickyAgentStatus({
               </div>
               
               <div className="flex items-center space-x-2">
-                <p className="text-base text-white truncate">{currentTask}</p>
+                <p className={`text-base truncate ${isFallback ? 'text-amber-200' : 'text-white'}`}>{taskMessage}</p>
                 {estimatedTimeRemaining && (
                   <span className="text-sm text-purple-200/80 whitespace-nowrap">
                     • {estimatedTimeRemaining} remaining
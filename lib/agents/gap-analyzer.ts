@@ -1,8 +1,127 @@
 import { buildFrameworkSkillPlan } from '@/lib/analysis/framework-skill-plan';
 import { generateObject, generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
+import { assertLlmConfigured, getLanguageModel, getModelFingerprint, type LlmTask } from '@/lib/llm/model-registry';
+import { cachedLlmCall, type LlmResponseCache } from '@/lib/llm/response-cache';
+import { createProgressReporter, type AgentProgressListener } from '@/lib/agents/progress-events';
+import { PhaseTimeoutError, startPhaseBudget, withPhaseBudget } from '@/lib/agents/phase-budget';
 import { GitHubMCPClient, type GitHubSkillAssessment } from '@/lib/mcp/github';
+import { githubClient, type GitHubRepository } from '@/lib/github/github-client';
+import { GitHubRateLimitError, githubFetch } from '@/lib/github/github-http';
+import type { RepositoryProvider, RepositorySource } from '@/lib/repository';
+// Imported directly so client bundles don't pull in the fs-backed local source
+import { createRepositoryProvider } from '@/lib/repository/provider-factory';
+import { isSupportedRepositoryUrl, parseRepositoryUrl } from '@/lib/repository/repository-url';
+import {
+  detectTechnologiesFromManifests,
+  detectToolsFromPaths,
+  isManifestPath,
+  type DetectedTechnology,
+  type ManifestDetectionResult,
+} from '@/lib/analysis/manifest-detection';
+import {
+  buildSkillTimeline,
+  findTimelineEntry,
+  type CommitHistoryAnalysis,
+  type SkillTimelineEntry,
+} from '@/lib/analysis/commit-history';
+import {
+  computeStaticCodeMetrics,
+  formatStaticMetricsForPrompt,
+  type StaticCodeMetrics,
+} from '@/lib/analysis/static-code-metrics';
+import {
+  buildImportGraph,
+  findUnreadDependencies,
+  listSelectionCandidates,
+  resolveReviewTokenBudget,
+  selectFilesForReview,
+} from '@/lib/analysis/file-selection';
+import {
+  DEFAULT_REVIEW_CHUNK_TOKENS,
+  groupFilesIntoReviewChunks,
+  mergeChunkReviews,
+  type ChunkReviewResult,
+  type CodeReviewChunk,
+  type CodeReviewChunkSummary,
+  type CodeReviewProgress,
+} from '@/lib/analysis/code-review-chunks';
+import {
+  canonicalSkillId,
+  findSkillMentions,
+  getCoreSkillCategories,
+  getSkillChildren,
+  includesSkill,
+  resolveSkill,
+  type SkillTaxonomyGroup,
+  type TaxonomySkill,
+} from '@/lib/analysis/skill-taxonomy';
+import {
+  annotateSkillImpacts,
+  findTouchedSkills,
+  formatPatchesForReview,
+  formatPullRequestReviewComment,
+  heuristicPullRequestReview,
+  listReadablePullRequestFiles,
+  parsePullRequestUrl,
+  type PullRequestDetails,
+  type PullRequestSkillReview,
+  type TouchedSkill,
+} from '@/lib/analysis/pull-request-review';
+import {
+  assessDependencyHealth,
+  isLockfilePath,
+  type DependencyAdvisoryDataset,
+  type DependencyHealthReport,
+} from '@/lib/analysis/dependency-health';
+import {
+  detectWorkspaceLayout,
+  listWorkspaceConfigPaths,
+  summarizeWorkspacePackages,
+  type WorkspaceLayout,
+  type WorkspacePackageSummary,
+  type WorkspaceTool,
+} from '@/lib/analysis/workspace-detection';
+import {
+  collectPathEvidence,
+  collectSkillEvidence,
+  findCodeUsages,
+  mergeSkillEvidence,
+  type CodeUsageEvidence,
+  type SkillEvidence,
+} from '@/lib/analysis/skill-evidence';
+import {
+  findRoleProfile,
+  getDefaultRoleProfile,
+  getRoleProfileSkill,
+  type RoleProfile,
+} from '@/lib/analysis/role-profiles';
+import { auditReadme, type ReadmeAudit } from '@/lib/analysis/readme-audit';
+import {
+  buildPeerCohort,
+  buildPeerSearchQuery,
+  extractBenchmarkMetrics,
+  rankAgainstPeers,
+  type BenchmarkMetric,
+  type BenchmarkPeer,
+  type PeerBenchmark,
+} from '@/lib/analysis/peer-benchmark';
+import { scoreRepositoryQuality } from '@/lib/agents/langgraph/nodes/search-github-examples';
+import type { ChatScrapeResult } from '@/lib/analysis/chat-scraper';
+import { clusterChatTopics, type ChatTopicAnalysis } from '@/lib/analysis/chat-topics';
+import {
+  RECONCILIATION_RULE,
+  reconcileSkillLevel,
+  selfAssessmentKey,
+  type SelfAssessedLevel,
+  type SkillLevelReconciliation,
+} from '@/lib/analysis/self-assessment';
+import {
+  assessGitPractices,
+  type GitCollaborationSignals,
+  type GitPracticeCommit,
+  type GitPracticesAnalysis,
+} from '@/lib/analysis/git-practices';
 
 export interface SkillCategory {
   id: string;
@@ -17,6 +136,10 @@ export interface Skill {
   targetLevel: number; // 1-5 scale
   importance: number; // 1-5 scale
   category: string;
+  /** Commit-history activity for the technology, when history was available */
+  timeline?: SkillTimelineEntry;
+  /** How a stored self-assessment was blended into `currentLevel` */
+  selfAssessment?: SkillLevelReconciliation;
 }
 
 export interface SkillGuidance {
@@ -29,6 +152,13 @@ export interface SkillGuidance {
 
 export type SkillGapConfidence = 'low' | 'medium' | 'high';
 
+export interface SkillRepositoryEvidence {
+  repository: string;
+  weight: number;
+  currentLevel: number;
+  gap: number;
+}
+
 export interface SkillGap {
   skill: Skill;
   gap: number; // targetLevel - currentLevel
@@ -42,6 +172,9 @@ export interface SkillGap {
     architecturePatterns?: string[];
     bestPractices?: string[];
   };
+  repositoryEvidence?: SkillRepositoryEvidence[];
+  /** Files, manifest entries, commits, metrics and review findings behind the current level */
+  evidence?: SkillEvidence[];
 }
 
 export interface GitHubRepoMetadata {
@@ -70,6 +203,8 @@ export interface QualityMetrics {
     confidence: number; // 0-100
     insights: string[];
     improvements: string[];
+    /** Measured metrics behind the score, when source files could be read */
+    staticMetrics?: StaticCodeMetrics;
   };
   overallQuality: {
     score: number; // 0-100
@@ -90,6 +225,10 @@ export interface AIAnalysisInsights {
 
 export interface GitHubAnalysis {
   repository: string;
+  /** Branch, tag or commit that was analyzed (the default branch unless one was requested) */
+  ref?: string;
+  /** Commit the ref resolved to, so the analysis can be reproduced */
+  commitSha?: string;
   technologies: string[];
   frameworks: string[];
   languages: string[];
@@ -101,6 +240,33 @@ export interface GitHubAnalysis {
   qualityMetrics?: QualityMetrics;
   aiInsights?: AIAnalysisInsights;
   mcpSkillAssessment?: GitHubSkillAssessment | null;
+  manifestDetection?: {
+    manifests: string[];
+    frameworks: DetectedTechnology[];
+    tools: DetectedTechnology[];
+  };
+  commitHistory?: CommitHistoryAnalysis;
+  /** Commit message, branching, signing and release practices behind the version control skill */
+  gitPractices?: GitPracticesAnalysis;
+  /** Files and import lines showing each technology in use */
+  codeEvidence?: CodeUsageEvidence[];
+  /** Per-package breakdown when the repository is a monorepo/workspace */
+  workspace?: {
+    tools: WorkspaceTool[];
+    packages: WorkspacePackageSummary[];
+  };
+  /** Vulnerable and outdated locked dependencies, when the repository has lockfiles */
+  dependencyHealth?: DependencyHealthReport;
+  /** Set when GitHub rate limits cut the analysis short; the result is partial */
+  rateLimit?: GitHubRateLimitStatus;
+}
+
+export interface GitHubRateLimitStatus {
+  status: 'rate-limited';
+  /** When the GitHub rate limit window resets, if known */
+  resetAt: string | null;
+  /** Requests that were skipped, e.g. "owner/repo commit history" */
+  skipped: string[];
 }
 
 export interface GapAnalysisResult {
@@ -110,9 +276,62 @@ export interface GapAnalysisResult {
   recommendations: string[];
   learningPath: string[];
   githubAnalysis?: GitHubAnalysis;
-  chatAnalysis?: any;
-  analysisType?: 'github' | 'ai-chat';
+  /** Topic clusters from an AI chat transcript, for `ai-chat` analyses */
+  chatAnalysis?: ChatTopicAnalysis;
+  analysisType?: 'github' | 'github-profile' | 'ai-chat';
   externalAssessments?: Record<string, unknown>;
+  profileAnalysis?: ProfileAnalysisSummary;
+  /** Role profile the gaps were measured against, when one was selected */
+  roleProfile?: { id: string; name: string };
+  /** Self-assessed levels reconciled into this result, when the user has any */
+  selfAssessment?: SelfAssessmentSummary;
+}
+
+export interface SelfAssessmentSummary {
+  /** The reconciliation rule, for display */
+  rule: string;
+  reconciledSkills: number;
+  /** Skills whose self-assessment disagrees strongly with the detected level */
+  flagged: Array<{ skillId: string; skillName: string; detectedLevel: number; selfAssessedLevel: number }>;
+}
+
+interface ProfileRepositoryAssessment {
+  weight: number;
+  analysis: GitHubAnalysis;
+  assessment: GapAnalysisResult;
+  /** Every skill the repository shows, by id, including those without a gap */
+  detectedLevels: Map<string, number>;
+}
+
+export interface ProfileAnalysisOptions {
+  /** Relative weight per repository, keyed by `name` or `owner/name`. A weight of 0 excludes the repo. */
+  weights?: Record<string, number>;
+  /** Repository names (`name` or `owner/name`) to skip entirely */
+  exclude?: string[];
+  includeForks?: boolean;
+  /** Capped at MAX_PROFILE_REPOSITORIES */
+  maxRepositories?: number;
+  /** Target profile for every repository's assessment, as accepted by analyzeSkillGaps */
+  roleProfile?: string | RoleProfile;
+  /** Aborts the remaining repository analyses */
+  signal?: AbortSignal;
+}
+
+// Each repository costs a full analysis (a dozen or more GitHub requests), so profiles are capped
+export const MAX_PROFILE_REPOSITORIES = 25;
+
+export interface ProfileRepositorySummary {
+  repository: string;
+  weight: number;
+  status: 'analyzed' | 'excluded' | 'failed';
+  overallScore?: number;
+  skillLevel?: GitHubAnalysis['skillLevel'];
+  error?: string;
+}
+
+export interface ProfileAnalysisSummary {
+  username: string;
+  repositories: ProfileRepositorySummary[];
 }
 
 export interface ResearchContext {
@@ -130,6 +349,8 @@ export interface AgenticCodeAnalysis {
   bestPractices: BestPractice[];
   recommendations: string[];
   confidence: number; // 0-1
+  /** Per-chunk outcome when the review was split across several LLM calls */
+  reviewChunks?: CodeReviewChunkSummary[];
 }
 
 export interface CodeSmell {
@@ -157,6 +378,8 @@ export interface ReadmeAnalysis {
   hasDocumentation: boolean;
   clarity: number; // 0-100
   completeness: number; // 0-100
+  /** Section checklist, badges, broken links and images, missing alt text and untagged code blocks */
+  audit?: ReadmeAudit;
 }
 
 export interface AgenticSkillAssessment {
@@ -177,8 +400,69 @@ export interface DetectedSkill {
 
 export class GapAnalyzerAgent {
   private githubMCPClient: GitHubMCPClient | null = null;
-  private githubRepoContext: { owner: string; repo: string; defaultBranch?: string } | null = null;
+  /** Repository being analyzed through MCP; `ref` is the branch, tag or commit being read */
+  private githubRepoContext: { owner: string; repo: string; ref?: string } | null = null;
   private githubMcpAvailableTools: Set<string> | null = null;
+  private repositorySource: RepositorySource | null = null;
+  private advisoryDataset: DependencyAdvisoryDataset | null = null;
+  private responseCache: LlmResponseCache | null = null;
+  /** GitHub requests refused by rate limiting during the current analysis */
+  private rateLimitedRequests: { labels: string[]; resetAt: Date | null } = { labels: [], resetAt: null };
+  private bypassResponseCache = false;
+  /** Aborts when the caller of the current analysis goes away (see lib/agents/phase-budget.ts) */
+  private abortSignal: AbortSignal | undefined;
+  /** Self-assessed levels by canonical skill id, reconciled into automatic assessments */
+  private selfAssessments = new Map<string, SelfAssessedLevel>();
+
+  /**
+   * Provide the offline OSV advisory and release dataset used to assess
+   * lockfiles. Loaded server-side (see lib/analysis/advisory-dataset.ts);
+   * without it lockfiles are still parsed but nothing is flagged.
+   */
+  setAdvisoryDataset(dataset: DependencyAdvisoryDataset | null): void {
+    this.advisoryDataset = dataset;
+  }
+
+  /**
+   * Provide the user's stored self-assessed levels (see
+   * SkillGapStoragePrisma.getSelfAssessments). Automatic assessments blend
+   * them with detected levels instead of discarding them.
+   */
+  setSelfAssessments(levels: SelfAssessedLevel[]): void {
+    this.selfAssessments = new Map(levels.map((level) => [level.skillId, level]));
+  }
+
+  /**
+   * Provide the LLM response cache (see lib/llm/response-cache-store.ts).
+   * With `bypass` (forceRefresh) every structured call goes to the model and
+   * the fresh response replaces the cached one.
+   */
+  setResponseCache(cache: LlmResponseCache | null, options: { bypass?: boolean } = {}): void {
+    this.responseCache = cache;
+    this.bypassResponseCache = options.bypass ?? false;
+  }
+
+  /**
+   * generateObject through the response cache, keyed on model, prompt and schema
+   */
+  private async generateCachedObject<SCHEMA extends z.ZodTypeAny>(
+    task: LlmTask,
+    request: { schema: SCHEMA; prompt: string; maxRetries?: number; abortSignal?: AbortSignal }
+  ): Promise<{ object: z.infer<SCHEMA> }> {
+    const object = await cachedLlmCall(
+      { task, model: getModelFingerprint(task), prompt: request.prompt, schema: request.schema },
+      { cache: this.responseCache, bypass: this.bypassResponseCache },
+      async () =>
+        (
+          await generateObject({
+            model: getLanguageModel(task),
+            ...request,
+            abortSignal: request.abortSignal ?? this.abortSignal,
+          })
+        ).object as z.infer<SCHEMA>
+    );
+    return { object };
+  }
 
   private clampSkillLevel(level: number): number {
     if (Number.isNaN(level)) {
@@ -188,7 +472,65 @@ export class GapAnalyzerAgent {
   }
 
   private shouldUseGitHubMCP(): boolean {
-    return Boolean(process.env.GITHUB_MCP_SERVER_URL);
+    return !this.repositorySource && Boolean(process.env.GITHUB_MCP_SERVER_URL);
+  }
+
+  /**
+   * Resolve the owner/repo pair for an analysis target. When a repository
+   * source is active, its identifiers stand in for the GitHub owner/repo.
+   */
+  private resolveRepositoryReference(repoUrl: string): { owner: string; repo: string } {
+    if (this.repositorySource) {
+      return { owner: this.repositorySource.owner, repo: this.repositorySource.name };
+    }
+
+    const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
+    if (!match) {
+      throw new Error('Invalid GitHub repository URL');
+    }
+
+    const [, owner, repo] = match;
+    return { owner, repo: repo.replace(/\.git$/, '') }; // Remove .git suffix if present
+  }
+
+  /**
+   * GitLab and Bitbucket URLs are analyzed through their repository provider,
+   * which stands in for the GitHub API the same way a local source does
+   */
+  private resolveHostedProvider(repoUrl: string, ref?: string): RepositoryProvider | null {
+    if (this.repositorySource || !isSupportedRepositoryUrl(repoUrl)) {
+      return null;
+    }
+    const reference = parseRepositoryUrl(repoUrl);
+    return reference.provider === 'github'
+      ? null
+      : createRepositoryProvider(reference, { ref, signal: this.abortSignal });
+  }
+
+  /**
+   * Run an analysis with the caller's signal; GitHub, provider, MCP and LLM
+   * requests made during it are aborted with the signal
+   */
+  private async withAbortSignal<T>(signal: AbortSignal, run: () => Promise<T>): Promise<T> {
+    const previousSignal = this.abortSignal;
+    this.abortSignal = signal;
+    this.githubMCPClient?.setAbortSignal(signal);
+    try {
+      return await run();
+    } finally {
+      this.abortSignal = previousSignal;
+      this.githubMCPClient?.setAbortSignal(previousSignal);
+    }
+  }
+
+  private async withRepositorySource<T>(source: RepositorySource, run: () => Promise<T>): Promise<T> {
+    const previousSource = this.repositorySource;
+    this.repositorySource = source;
+    try {
+      return await run();
+    } finally {
+      this.repositorySource = previousSource;
+    }
   }
 
   private async ensureGitHubMCPClient(): Promise<GitHubMCPClient | null> {
@@ -206,6 +548,7 @@ export class GapAnalyzerAgent {
       console.log('[GapAnalyzer] MCP Bearer Token:', process.env.GITHUB_MCP_BEARER ? 'SET' : 'NOT SET');
       
       const client = new GitHubMCPClient();
+      client.setAbortSignal(this.abortSignal);
       await client.connect();
       this.githubMCPClient = client;
       await this.loadGitHubMcpTools(client);
@@ -222,7 +565,7 @@ export class GapAnalyzerAgent {
     }
   }
 
-  private setGitHubRepoContext(context: { owner: string; repo: string; defaultBranch?: string } | null) {
+  private setGitHubRepoContext(context: { owner: string; repo: string; ref?: string } | null) {
     this.githubRepoContext = context;
   }
 
@@ -256,51 +599,40 @@ export class GapAnalyzerAgent {
   }
 
   private async fetchGitHubSkillAssessment(owner: string, repo: string): Promise<GitHubSkillAssessment | null> {
-    if (!this.githubMCPClient) {
+    if (!this.githubMCPClient || this.repositorySource) {
       console.log('[GapAnalyzer] GitHub MCP client not available, skipping skill assessment');
       return null;
     }
 
     try {
-      const defaultBranch = this.githubRepoContext?.defaultBranch;
+      const ref = this.githubRepoContext?.ref;
       console.log(`[GapAnalyzer] Fetching MCP skill assessment for ${owner}/${repo}...`);
-      const assessment = await this.githubMCPClient.getSkillAssessment(owner, repo, defaultBranch ? { ref: defaultBranch } : undefined);
+      const client = this.githubMCPClient;
+      const assessment = await withPhaseBudget('mcp', this.abortSignal, () =>
+        client.getSkillAssessment(owner, repo, ref ? { ref } : undefined)
+      );
       console.log(`[GapAnalyzer] ✅ MCP skill assessment received:`, assessment.summary);
       return assessment;
     } catch (error) {
+      this.abortSignal?.throwIfAborted();
       console.warn(`[GapAnalyzer] ⚠️ GitHub MCP skill assessment failed for ${owner}/${repo}:`, error);
       return null;
     }
   }
 
   /**
-   * Get realistic target level based on skill type and GitHub analysis
-   */
-  private getRealisticTargetLevel(skill: Skill, githubAnalysis?: GitHubAnalysis): number {
-    // Base target levels by skill category
-    const baseTargets: { [key: string]: number } = {
-      'programming': 4,      // Most developers should aim for 4/5
-      'frameworks': 4,       // Framework mastery is achievable
-      'databases': 3,        // Database skills vary by role
-      'cloud': 3,           // Cloud skills depend on role
-      'devops': 3,          // DevOps is specialized
-      'testing': 4,         // Testing is crucial
-      'prompt-engineering': 3, // Newer skill, 3 is good
-      'context-engineering': 3, // Newer skill, 3 is good
-      'leadership': 3,       // Leadership varies by role
-      'problem-solving': 4,  // Core skill
-      'teamwork': 4,         // Important for collaboration
-      'time-management': 4,  // Important for productivity
-      'industry': 3,         // Industry knowledge varies
-      'business': 3,         // Business acumen varies
-      'architecture': 4,     // Architecture is important
-      'security': 3,         // Security is specialized
-    };
-
-    let targetLevel = baseTargets[skill.id] || 3;
+   * Get realistic target level from the role profile, adjusted for the
+   * repository's experience level when the profile allows it
+   */
+  private getRealisticTargetLevel(
+    skill: Skill,
+    githubAnalysis?: GitHubAnalysis,
+    profile: RoleProfile = getDefaultRoleProfile()
+  ): number {
+    let targetLevel = this.getRoleProfileExpectation(profile, skill.id).targetLevel;
 
     // Adjust based on GitHub analysis
-    if (githubAnalysis) {
+    if (githubAnalysis && profile.adaptToExperience) {
       const skillLevel = githubAnalysis.skillLevel;
       if (skillLevel === 'beginner') {
         targetLevel = Math.min(targetLevel + 1, 5); // Aim higher if beginner
@@ -312,10 +644,28 @@ export class GapAnalyzerAgent {
     return this.clampSkillLevel(targetLevel);
   }
 
+  /**
+   * Target level and importance the role profile expects for a skill. Skills the
+   * profile does not list fall back to its default target with medium importance.
+   */
+  private getRoleProfileExpectation(
+    profile: RoleProfile,
+    skillId: string
+  ): { targetLevel: number; importance: number } {
+    const profileSkill = getRoleProfileSkill(profile, skillId);
+    return {
+      targetLevel: profileSkill?.targetLevel ?? profile.defaultTargetLevel,
+      importance: profileSkill?.importance ?? 3,
+    };
+  }
+
   /**
    * Get default skills with realistic current levels based on GitHub analysis
    */
-  private getDefaultSkillsWithRealisticLevels(githubAnalysis: GitHubAnalysis): Skill[] {
+  private getDefaultSkillsWithRealisticLevels(
+    githubAnalysis: GitHubAnalysis,
+    profile: RoleProfile = getDefaultRoleProfile()
+  ): Skill[] {
     const skills: Skill[] = [];
     const baseLevel = this.getBaseLevelFromSkillLevel(githubAnalysis.skillLevel);
     
@@ -324,8 +674,7 @@ export class GapAnalyzerAgent {
       id: 'programming',
       name: 'Programming Languages',
       currentLevel: this.clampSkillLevel(baseLevel + 0.5), // Slightly higher than base
-      targetLevel: 4,
-      importance: 5,
+      ...this.getRoleProfileExpectation(profile, 'programming'),
       category: 'technical'
     });
 
@@ -333,17 +682,18 @@ export class GapAnalyzerAgent {
       id: 'frameworks',
       name: 'Frameworks & Libraries',
       currentLevel: this.clampSkillLevel(baseLevel),
-      targetLevel: 4,
-      importance: 5,
+      ...this.getRoleProfileExpectation(profile, 'frameworks'),
       category: 'technical'
     });
 
     skills.push({
       id: 'version-control',
-      name: 'Version Control (Git)',
-      currentLevel: this.clampSkillLevel(baseLevel + 0.3), // Most developers know Git
-      targetLevel: 4,
-      importance: 5,
+      name: 'Version Control & Collaboration',
+      // Scored from commit messages, branches, pull requests, signatures and tags when history was readable
+      currentLevel: githubAnalysis.gitPractices
+        ? this.clampSkillLevel(githubAnalysis.gitPractices.level)
+        : this.clampSkillLevel(baseLevel + 0.3), // Most developers know Git
+      ...this.getRoleProfileExpectation(profile, 'version-control'),
       category: 'technical'
     });
 
@@ -351,8 +701,7 @@ export class GapAnalyzerAgent {
       id: 'testing',
       name: 'Testing & QA',
       currentLevel: this.clampSkillLevel(baseLevel - 0.5), // Often underdeveloped
-      targetLevel: 4,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'testing'),
       category: 'technical'
     });
 
@@ -360,8 +709,7 @@ export class GapAnalyzerAgent {
       id: 'debugging',
       name: 'Debugging & Troubleshooting',
       currentLevel: this.clampSkillLevel(baseLevel + 0.2),
-      targetLevel: 4,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'debugging'),
       category: 'technical'
     });
 
@@ -369,8 +717,7 @@ export class GapAnalyzerAgent {
       id: 'databases',
       name: 'Database Management',
       currentLevel: this.clampSkillLevel(baseLevel - 0.3),
-      targetLevel: 3,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'databases'),
       category: 'technical'
     });
 
@@ -378,8 +725,7 @@ export class GapAnalyzerAgent {
       id: 'cloud',
       name: 'Cloud Platforms',
       currentLevel: this.clampSkillLevel(baseLevel - 0.7), // Often a gap
-      targetLevel: 3,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'cloud'),
       category: 'technical'
     });
 
@@ -387,8 +733,7 @@ export class GapAnalyzerAgent {
       id: 'devops',
       name: 'DevOps & CI/CD',
       currentLevel: this.clampSkillLevel(baseLevel - 0.8), // Common gap
-      targetLevel: 3,
-      importance: 3,
+      ...this.getRoleProfileExpectation(profile, 'devops'),
       category: 'technical'
     });
 
@@ -396,8 +741,7 @@ export class GapAnalyzerAgent {
       id: 'api-design',
       name: 'API Design & Development',
       currentLevel: this.clampSkillLevel(baseLevel - 0.2),
-      targetLevel: 3,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'api-design'),
       category: 'technical'
     });
 
@@ -405,8 +749,7 @@ export class GapAnalyzerAgent {
       id: 'performance',
       name: 'Performance Optimization',
       currentLevel: this.clampSkillLevel(baseLevel - 0.6),
-      targetLevel: 3,
-      importance: 3,
+      ...this.getRoleProfileExpectation(profile, 'performance'),
       category: 'technical'
     });
 
@@ -422,8 +765,7 @@ export class GapAnalyzerAgent {
       id: 'documentation',
       name: 'Technical Documentation',
       currentLevel: documentationLevel,
-      targetLevel: 4, // Higher target since docs are important
-      importance: 4, // Higher importance for professional projects
+      ...this.getRoleProfileExpectation(profile, 'documentation'),
       category: 'technical'
     });
 
@@ -432,8 +774,7 @@ export class GapAnalyzerAgent {
       id: 'problem-solving',
       name: 'Problem Solving',
       currentLevel: this.clampSkillLevel(baseLevel + 0.1),
-      targetLevel: 4,
-      importance: 5,
+      ...this.getRoleProfileExpectation(profile, 'problem-solving'),
       category: 'soft'
     });
 
@@ -441,8 +782,7 @@ export class GapAnalyzerAgent {
       id: 'teamwork',
       name: 'Teamwork',
       currentLevel: this.clampSkillLevel(baseLevel - 0.1),
-      targetLevel: 4,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'teamwork'),
       category: 'soft'
     });
 
@@ -450,8 +790,7 @@ export class GapAnalyzerAgent {
       id: 'time-management',
       name: 'Time Management',
       currentLevel: this.clampSkillLevel(baseLevel - 0.3),
-      targetLevel: 4,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'time-management'),
       category: 'soft'
     });
 
@@ -460,17 +799,15 @@ export class GapAnalyzerAgent {
       id: 'architecture',
       name: 'System Architecture',
       currentLevel: this.clampSkillLevel(baseLevel - 0.5),
-      targetLevel: 4,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'architecture'),
       category: 'domain'
     });
 
     skills.push({
       id: 'security',
       name: 'Security Best Practices',
-      currentLevel: this.clampSkillLevel(baseLevel - 0.7),
-      targetLevel: 3,
-      importance: 4,
+      currentLevel: this.inferSecurityLevel(githubAnalysis, baseLevel - 0.7),
+      ...this.getRoleProfileExpectation(profile, 'security'),
       category: 'domain'
     });
 
@@ -478,8 +815,7 @@ export class GapAnalyzerAgent {
       id: 'data-structures',
       name: 'Data Structures & Algorithms',
       currentLevel: this.clampSkillLevel(baseLevel - 0.4),
-      targetLevel: 3,
-      importance: 4,
+      ...this.getRoleProfileExpectation(profile, 'data-structures'),
       category: 'domain'
     });
 
@@ -527,7 +863,9 @@ export class GapAnalyzerAgent {
       {
         id: 'security',
         name: 'Security Best Practices',
-        currentLevel: Math.max(1, baseLevel - 1.0),
+        currentLevel: githubAnalysis
+          ? this.inferSecurityLevel(githubAnalysis, baseLevel - 1.0)
+          : Math.max(1, baseLevel - 1.0),
         targetLevel: 3,
         importance: 4,
         category: 'domain'
@@ -600,72 +938,47 @@ export class GapAnalyzerAgent {
     return commonGaps.slice(0, 5); // Limit to top 5 common gaps
   }
 
-  private skillCategories: SkillCategory[] = [
-    {
-      id: 'technical',
-      name: 'Technical Skills',
-      skills: [
-        { id: 'programming', name: 'Programming Languages', currentLevel: 1, targetLevel: 4, importance: 5, category: 'technical' },
-        { id: 'frameworks', name: 'Frameworks & Libraries', currentLevel: 1, targetLevel: 4, importance: 5, category: 'technical' },
-        { id: 'databases', name: 'Database Management', currentLevel: 1, targetLevel: 3, importance: 4, category: 'technical' },
-        { id: 'cloud', name: 'Cloud Platforms', currentLevel: 1, targetLevel: 3, importance: 4, category: 'technical' },
-        { id: 'devops', name: 'DevOps & CI/CD', currentLevel: 1, targetLevel: 3, importance: 3, category: 'technical' },
-        { id: 'testing', name: 'Testing & QA', currentLevel: 1, targetLevel: 4, importance: 4, category: 'technical' },
-        { id: 'prompt-engineering', name: 'Prompt Engineering', currentLevel: 1, targetLevel: 3, importance: 4, category: 'technical' },
-        { id: 'context-engineering', name: 'Context & Retrieval Practices', currentLevel: 1, targetLevel: 3, importance: 3, category: 'technical' },
-        { id: 'version-control', name: 'Version Control (Git)', currentLevel: 1, targetLevel: 4, importance: 5, category: 'technical' },
-        { id: 'api-design', name: 'API Design & Development', currentLevel: 1, targetLevel: 3, importance: 4, category: 'technical' },
-        { id: 'performance', name: 'Performance Optimization', currentLevel: 1, targetLevel: 3, importance: 3, category: 'technical' },
-        { id: 'debugging', name: 'Debugging & Troubleshooting', currentLevel: 1, targetLevel: 4, importance: 4, category: 'technical' },
-        { id: 'code-review', name: 'Code Review Practices', currentLevel: 1, targetLevel: 3, importance: 3, category: 'technical' },
-        { id: 'documentation', name: 'Technical Documentation', currentLevel: 1, targetLevel: 3, importance: 3, category: 'technical' },
-      ]
-    },
-    {
-      id: 'soft',
-      name: 'Soft Skills',
-      skills: [
-        { id: 'leadership', name: 'Leadership', currentLevel: 1, targetLevel: 3, importance: 4, category: 'soft' },
-        { id: 'problem-solving', name: 'Problem Solving', currentLevel: 1, targetLevel: 4, importance: 5, category: 'soft' },
-        { id: 'teamwork', name: 'Teamwork', currentLevel: 1, targetLevel: 4, importance: 4, category: 'soft' },
-        { id: 'time-management', name: 'Time Management', currentLevel: 1, targetLevel: 4, importance: 4, category: 'soft' },
-        { id: 'mentoring', name: 'Mentoring & Teaching', currentLevel: 1, targetLevel: 3, importance: 3, category: 'soft' },
-        { id: 'adaptability', name: 'Adaptability', currentLevel: 1, targetLevel: 4, importance: 4, category: 'soft' },
-        { id: 'critical-thinking', name: 'Critical Thinking', currentLevel: 1, targetLevel: 4, importance: 4, category: 'soft' },
-      ]
-    },
-    {
-      id: 'domain',
-      name: 'Domain Knowledge',
-      skills: [
-        { id: 'industry', name: 'Industry Knowledge', currentLevel: 1, targetLevel: 3, importance: 4, category: 'domain' },
-        { id: 'business', name: 'Business Acumen', currentLevel: 1, targetLevel: 3, importance: 3, category: 'domain' },
-        { id: 'architecture', name: 'System Architecture', currentLevel: 1, targetLevel: 4, importance: 4, category: 'domain' },
-        { id: 'security', name: 'Security Best Practices', currentLevel: 1, targetLevel: 3, importance: 4, category: 'domain' },
-        { id: 'scalability', name: 'Scalability & Performance', currentLevel: 1, targetLevel: 3, importance: 3, category: 'domain' },
-        { id: 'data-structures', name: 'Data Structures & Algorithms', currentLevel: 1, targetLevel: 3, importance: 4, category: 'domain' },
-        { id: 'design-patterns', name: 'Design Patterns', currentLevel: 1, targetLevel: 3, importance: 3, category: 'domain' },
-        { id: 'project-management', name: 'Project Management', currentLevel: 1, targetLevel: 3, importance: 3, category: 'domain' },
-      ]
-    }
-  ];
+  private skillCategories: SkillCategory[] = getCoreSkillCategories().map((category) => ({
+    id: category.id,
+    name: category.name,
+    skills: category.skills.map((skill) => ({
+      id: skill.id,
+      name: skill.name,
+      currentLevel: 1,
+      targetLevel: skill.targetLevel ?? 3,
+      importance: skill.importance,
+      category: skill.category,
+    })),
+  }));
 
   /**
    * Analyze skill gaps based on current and target skill levels
    */
   analyzeSkillGaps(
     skills: Skill[],
-    options: { includeCategories?: string[]; githubAnalysis?: GitHubAnalysis; minGapThreshold?: number } = {}
+    options: {
+      includeCategories?: string[];
+      githubAnalysis?: GitHubAnalysis;
+      minGapThreshold?: number;
+      /** Profile id, profile name, free-text role or a full profile to measure gaps against */
+      roleProfile?: string | RoleProfile;
+    } = {}
   ): GapAnalysisResult {
     const includeSet = options.includeCategories?.length
       ? new Set(options.includeCategories)
       : null;
     const minGapThreshold = options.minGapThreshold ?? 0.1; // Show gaps >= 0.1
+    const roleProfile = findRoleProfile(options.roleProfile);
+    if (options.roleProfile && !roleProfile) {
+      const selection = typeof options.roleProfile === 'string' ? `"${options.roleProfile}"` : 'the inline profile';
+      console.warn(`[GapAnalyzer] ⚠️ No valid role profile matches ${selection}, using default targets`);
+    }
+    const profiledSkills = roleProfile ? this.alignSkillsWithRoleProfile(skills, roleProfile) : skills;
 
     const skillsToProcess = (() => {
-      if (!includeSet) return skills;
-      const filtered = skills.filter((skill) => includeSet.has(skill.category));
-      return filtered.length > 0 ? filtered : skills;
+      if (!includeSet) return profiledSkills;
+      const filtered = profiledSkills.filter((skill) => includeSet.has(skill.category));
+      return filtered.length > 0 ? filtered : profiledSkills;
     })();
 
     const aggregated = new Map<string, SkillGap>();
@@ -674,7 +987,9 @@ export class GapAnalyzerAgent {
       const normalizedSkill: Skill = {
         ...skill,
         currentLevel: this.clampSkillLevel(skill.currentLevel),
-        targetLevel: this.clampSkillLevel(skill.targetLevel ?? this.getRealisticTargetLevel(skill, options.githubAnalysis)),
+        targetLevel: this.clampSkillLevel(
+          skill.targetLevel ?? this.getRealisticTargetLevel(skill, options.githubAnalysis, roleProfile)
+        ),
       };
 
       const gap = Math.max(0, normalizedSkill.targetLevel - normalizedSkill.currentLevel);
@@ -700,6 +1015,8 @@ export class GapAnalyzerAgent {
           targetLevel: this.clampSkillLevel(
             Math.max(existing.skill.targetLevel, normalizedSkill.targetLevel)
           ),
+          timeline: existing.skill.timeline ?? normalizedSkill.timeline,
+          selfAssessment: existing.skill.selfAssessment ?? normalizedSkill.selfAssessment,
         };
 
         const mergedGap = Math.max(0, mergedSkill.targetLevel - mergedSkill.currentLevel);
@@ -714,6 +1031,7 @@ export class GapAnalyzerAgent {
           guidance: mergedGuidance,
           confidence: this.estimateSkillGapConfidence(mergedSkill, mergedGap, options.githubAnalysis),
           aiInsights: this.getQualityInsightsForSkill(mergedSkill, options.githubAnalysis),
+          evidence: existing.evidence,
         });
       } else {
         aggregated.set(normalizedSkill.id, {
@@ -724,6 +1042,7 @@ export class GapAnalyzerAgent {
           guidance,
           confidence: this.estimateSkillGapConfidence(normalizedSkill, gap, options.githubAnalysis),
           aiInsights: this.getQualityInsightsForSkill(normalizedSkill, options.githubAnalysis),
+          evidence: options.githubAnalysis ? collectSkillEvidence(normalizedSkill, options.githubAnalysis) : undefined,
         });
       }
     });
@@ -797,27 +1116,74 @@ export class GapAnalyzerAgent {
       skillGaps: uniqueSkillGaps,
       categories: categoryList,
       recommendations,
-      learningPath
+      learningPath,
+      ...(roleProfile ? { roleProfile: { id: roleProfile.id, name: roleProfile.name } } : {}),
     };
   }
 
   /**
-   * Analyze GitHub repository for skills and technologies
+   * Measure skills against a role profile: listed skills take the profile's
+   * target and importance, unlisted skills are capped at its default targets,
+   * and required skills without any evidence are added at level 1.
+   */
+  private alignSkillsWithRoleProfile(skills: Skill[], profile: RoleProfile): Skill[] {
+    const unlistedTargetCap = Math.max(profile.defaultTargetLevel, profile.defaultTechnologyTargetLevel);
+    const aligned = skills.map((skill): Skill => {
+      const profileSkill = getRoleProfileSkill(profile, skill.id);
+      if (profileSkill) {
+        // A target the user set for themselves outranks the profile's
+        const targetLevel = skill.selfAssessment?.targetOverridden ? skill.targetLevel : profileSkill.targetLevel;
+        return { ...skill, targetLevel, importance: profileSkill.importance };
+      }
+      return skill.targetLevel == null || skill.selfAssessment?.targetOverridden
+        ? skill
+        : { ...skill, targetLevel: Math.min(skill.targetLevel, unlistedTargetCap) };
+    });
+
+    profile.skills
+      .filter((profileSkill) => profileSkill.required && !aligned.some((skill) => skill.id === profileSkill.id))
+      .forEach((profileSkill) => {
+        aligned.push({
+          id: profileSkill.id,
+          name: profileSkill.name,
+          currentLevel: 1,
+          targetLevel: profileSkill.targetLevel,
+          importance: profileSkill.importance,
+          category: profileSkill.category,
+        });
+      });
+
+    return aligned;
+  }
+
+  /**
+   * Analyze GitHub repository for skills and technologies.
+   * `ref` selects a branch, tag or commit instead of the default branch; it is
+   * resolved to a commit SHA up front and every file read uses that SHA.
+   * `signal` cancels the analysis and its requests.
    */
-  async analyzeGitHubRepository(repoUrl: string): Promise<GitHubAnalysis> {
+  async analyzeGitHubRepository(
+    repoUrl: string,
+    options: { ref?: string; signal?: AbortSignal } = {}
+  ): Promise<GitHubAnalysis> {
+    if (options.signal && options.signal !== this.abortSignal) {
+      return this.withAbortSignal(options.signal, () => this.analyzeGitHubRepository(repoUrl, options));
+    }
+
+    const hostedProvider = this.resolveHostedProvider(repoUrl, options.ref);
+    if (hostedProvider) {
+      return this.withRepositorySource(hostedProvider, () => this.analyzeGitHubRepository(hostedProvider.label, options));
+    }
+
     let usingMCP = false;
     let mcpSkillAssessment: GitHubSkillAssessment | null = null;
+    this.rateLimitedRequests = { labels: [], resetAt: null };
     try {
-      // Extract owner and repo from URL
-      const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-      if (!match) {
-        throw new Error('Invalid GitHub repository URL');
-      }
+      const { owner, repo: cleanRepo } = this.resolveRepositoryReference(repoUrl);
+      const requestedRef = options.ref?.trim() || undefined;
+      const refQuery = requestedRef ? `?ref=${encodeURIComponent(requestedRef)}` : '';
 
-      const [, owner, repo] = match;
-      const cleanRepo = repo.replace(/\.git$/, ''); // Remove .git suffix if present
-
-      console.log(`[GapAnalyzer] Analyzing repository: ${owner}/${cleanRepo}`);
+      console.log(`[GapAnalyzer] Analyzing repository: ${owner}/${cleanRepo}${requestedRef ? ` @ ${requestedRef}` : ''}`);
 
       // Fetch repository data (prefer MCP when available)
       let repoData: any;
@@ -830,12 +1196,12 @@ export class GapAnalyzerAgent {
         try {
           repoData = await mcpClient.getRepository(owner, cleanRepo);
           languagesData = await mcpClient.getRepositoryLanguages(owner, cleanRepo);
-          contentsData = await mcpClient.listRepositoryContents(owner, cleanRepo);
+          contentsData = await mcpClient.listRepositoryContents(owner, cleanRepo, undefined, requestedRef);
           usingMCP = true;
           this.setGitHubRepoContext({
             owner,
             repo: cleanRepo,
-            defaultBranch: repoData?.default_branch ?? 'main',
+            ref: requestedRef ?? repoData?.default_branch ?? 'main',
           });
           console.log('[GapAnalyzer] Repository data fetched via GitHub MCP');
         } catch (mcpError) {
@@ -854,7 +1220,7 @@ export class GapAnalyzerAgent {
             this.fetchGitHubData(`https://api.github.com/repos/${owner}/${cleanRepo}/languages`, {
               resourceLabel: `${owner}/${cleanRepo} languages`,
             }),
-            this.fetchGitHubData(`https://api.github.com/repos/${owner}/${cleanRepo}/contents`, {
+            this.fetchGitHubData(`https://api.github.com/repos/${owner}/${cleanRepo}/contents${refQuery}`, {
               resourceLabel: `${owner}/${cleanRepo} contents`,
             })
           ]);
@@ -862,7 +1228,7 @@ export class GapAnalyzerAgent {
           this.setGitHubRepoContext({
             owner,
             repo: cleanRepo,
-            defaultBranch: repoData?.default_branch ?? 'main',
+            ref: requestedRef ?? repoData?.default_branch ?? 'main',
           });
         } catch (apiError) {
           console.error('[GapAnalyzer] GitHub API error:', apiError);
@@ -872,18 +1238,61 @@ export class GapAnalyzerAgent {
 
       console.log(`[GapAnalyzer] Repository data fetched successfully`);
 
+      // Pin every read to one commit so a moving branch cannot mix two states of the code
+      const analyzedRef = requestedRef ?? repoData?.default_branch ?? 'main';
+      const commitSha = await this.resolveCommitSha(owner, cleanRepo, analyzedRef, Boolean(requestedRef));
+      const ref = commitSha ?? analyzedRef;
+      if (this.githubRepoContext) {
+        this.setGitHubRepoContext({ ...this.githubRepoContext, ref });
+      }
+      console.log(`[GapAnalyzer] Reading ${analyzedRef}${commitSha ? ` @ ${commitSha.slice(0, 7)}` : ''}`);
+
       mcpSkillAssessment = await this.fetchGitHubSkillAssessment(owner, cleanRepo);
 
+      // Walk the full tree so nested manifests (e.g. frontend/package.json) are detected
+      const tree = await this.fetchRepositoryTree(owner, cleanRepo, ref);
+      const filePaths = tree.length > 0
+        ? tree.filter((entry) => entry.type === 'file').map((entry) => entry.path)
+        : (Array.isArray(contentsData) ? contentsData : [])
+            .filter((item: any) => item.type === 'file')
+            .map((item: any) => item.path ?? item.name);
+      const workspaceLayout = await this.detectWorkspace(owner, cleanRepo, ref, filePaths);
+      const manifestDetection = await this.detectManifestTechnologies(owner, cleanRepo, ref, filePaths, workspaceLayout);
+      const workspace = workspaceLayout
+        ? {
+            tools: workspaceLayout.tools,
+            packages: summarizeWorkspacePackages(workspaceLayout, filePaths, manifestDetection),
+          }
+        : undefined;
+      workspace?.packages.forEach((pkg) => {
+        console.log(
+          `[GapAnalyzer] 📦 ${pkg.path}: ${pkg.fileCount} files, ${[...pkg.languages, ...pkg.frameworks].join(', ') || 'no detected stack'}`
+        );
+      });
+
       // Extract technologies and frameworks
       const technologies = this.extractTechnologies(repoData, languagesData, contentsData);
-      const frameworks = this.extractFrameworks(contentsData, languagesData);
+      const frameworks = this.extractFrameworks(languagesData, manifestDetection);
       const languages = Object.keys(languagesData).sort((a, b) => languagesData[b] - languagesData[a]);
-      const tools = this.extractTools(contentsData);
+      const tools = [...new Set([...this.extractTools(filePaths, manifestDetection), ...(workspace?.tools ?? [])])];
 
       console.log(`[GapAnalyzer] Extracted - Languages: ${languages.join(', ')}, Frameworks: ${frameworks.join(', ')}`);
 
+      const { commitHistory, gitPractices } = await this.analyzeCommitHistory(
+        owner,
+        cleanRepo,
+        [...languages, ...frameworks, ...tools],
+        ref
+      );
+      const dependencyHealth = await this.analyzeDependencyHealth(owner, cleanRepo, ref, filePaths);
+
       // Determine skill level based on repository complexity
-      const skillLevel = this.determineSkillLevel(repoData, languagesData, contentsData);
+      const skillLevel = this.determineSkillLevel(
+        repoData,
+        languagesData,
+        contentsData,
+        workspace?.packages.length ?? 0
+      );
 
       // Generate recommendations based on actual technologies found
       const recommendations = this.generateTechnologyRecommendations(languages, frameworks, technologies);
@@ -893,13 +1302,15 @@ export class GapAnalyzerAgent {
       const metadata = this.buildRepoMetadata(repoData, contentsData);
 
       // Analyze quality metrics
-      const qualityMetrics = await this.analyzeQualityMetrics(repoData, contentsData);
+      const qualityMetrics = await this.analyzeQualityMetrics(repoData, contentsData, filePaths);
       
       // Generate AI insights
       const aiInsights = await this.generateAIAnalysisInsights(repoData, contentsData, technologies, frameworks);
 
       return {
         repository: repoUrl,
+        ref: analyzedRef,
+        commitSha,
         technologies,
         frameworks,
         languages,
@@ -910,6 +1321,17 @@ export class GapAnalyzerAgent {
         qualityMetrics,
         aiInsights,
         mcpSkillAssessment,
+        manifestDetection: {
+          manifests: manifestDetection.manifests,
+          frameworks: manifestDetection.frameworks,
+          tools: manifestDetection.tools,
+        },
+        commitHistory,
+        gitPractices,
+        codeEvidence: collectPathEvidence(filePaths),
+        workspace,
+        dependencyHealth,
+        rateLimit: this.describeRateLimitStatus(),
       };
 
     } catch (error) {
@@ -946,16 +1368,22 @@ export class GapAnalyzerAgent {
    */
   async generateAutomaticSkillAssessment(
     githubAnalysis: GitHubAnalysis,
-    options: { includeCategories?: string[] } = {}
+    options: { includeCategories?: string[]; roleProfile?: string | RoleProfile } = {}
   ): Promise<GapAnalysisResult> {
     // Create skills based on discovered technologies
-    const skills = this.createSkillsFromTechnologies(githubAnalysis);
+    const skills = this.createSkillsFromTechnologies(
+      githubAnalysis,
+      findRoleProfile(options.roleProfile) ?? getDefaultRoleProfile()
+    );
     
+    const reconciledSkills = this.applySelfAssessments(skills);
+
     // Analyze skill gaps automatically
-    const analysisResult = this.analyzeSkillGaps(skills, {
+    const analysisResult = this.analyzeSkillGaps(reconciledSkills, {
       ...options,
       githubAnalysis,
     });
+    analysisResult.selfAssessment = this.summarizeSelfAssessments(reconciledSkills);
     
     // Enhance recommendations with GitHub-specific insights
     analysisResult.recommendations = [
@@ -977,68 +1405,71 @@ export class GapAnalyzerAgent {
   /**
    * Create skill objects from discovered technologies
    */
-  private createSkillsFromTechnologies(githubAnalysis: GitHubAnalysis): Skill[] {
+  private createSkillsFromTechnologies(
+    githubAnalysis: GitHubAnalysis,
+    profile: RoleProfile = getDefaultRoleProfile()
+  ): Skill[] {
     const skills: Skill[] = [];
     
     // First, add all default skills with realistic current levels
-    const defaultSkills = this.getDefaultSkillsWithRealisticLevels(githubAnalysis);
+    const defaultSkills = this.getDefaultSkillsWithRealisticLevels(githubAnalysis, profile);
     skills.push(...defaultSkills);
     
-    // Map technologies to skill categories and levels
-    const technologySkillMap = this.getTechnologySkillMap();
-    
     // Process languages
     githubAnalysis.languages.forEach(language => {
-      const skillInfo = technologySkillMap[language.toLowerCase()];
+      const skillInfo = this.resolveTechnologySkill(language);
       if (skillInfo) {
         skills.push({
           id: skillInfo.id,
           name: skillInfo.name,
           currentLevel: this.inferSkillLevel(githubAnalysis, language),
-          targetLevel: this.getTargetLevelForTechnology(language),
+          targetLevel: this.getTargetLevelForTechnology(language, profile),
           importance: skillInfo.importance,
-          category: skillInfo.category
+          category: skillInfo.category,
+          timeline: findTimelineEntry(githubAnalysis.commitHistory, language)
         });
       }
     });
 
     // Process frameworks
     githubAnalysis.frameworks.forEach(framework => {
-      const skillInfo = technologySkillMap[framework.toLowerCase()];
+      const skillInfo = this.resolveTechnologySkill(framework);
       if (skillInfo) {
         skills.push({
           id: skillInfo.id,
           name: skillInfo.name,
           currentLevel: this.inferSkillLevel(githubAnalysis, framework),
-          targetLevel: this.getTargetLevelForTechnology(framework),
+          targetLevel: this.getTargetLevelForTechnology(framework, profile),
           importance: skillInfo.importance,
-          category: skillInfo.category
+          category: skillInfo.category,
+          timeline: findTimelineEntry(githubAnalysis.commitHistory, framework)
         });
       }
     });
 
     githubAnalysis.technologies.forEach((tech) => {
-      const skillInfo = technologySkillMap[tech.toLowerCase()];
+      const skillInfo = this.resolveTechnologySkill(tech);
       if (skillInfo && !skills.some((existing) => existing.id === skillInfo.id)) {
         skills.push({
           id: skillInfo.id,
           name: skillInfo.name,
           currentLevel: this.inferSkillLevel(githubAnalysis, tech),
-          targetLevel: this.getTargetLevelForTechnology(tech),
+          targetLevel: this.getTargetLevelForTechnology(tech, profile),
           importance: skillInfo.importance,
           category: skillInfo.category,
+          timeline: findTimelineEntry(githubAnalysis.commitHistory, tech),
         });
       }
     });
 
     githubAnalysis.tools.forEach(tool => {
-      const skillInfo = technologySkillMap[tool.toLowerCase()];
+      const skillInfo = this.resolveTechnologySkill(tool);
       if (skillInfo) {
         skills.push({
           id: skillInfo.id,
           name: skillInfo.name,
           currentLevel: this.inferToolingSkillLevel(githubAnalysis, tool),
-          targetLevel: this.getTargetLevelForTechnology(tool),
+          targetLevel: this.getTargetLevelForTechnology(tool, profile),
           importance: skillInfo.importance,
           category: skillInfo.category,
         });
@@ -1050,13 +1481,13 @@ export class GapAnalyzerAgent {
       id: 'frameworks',
       name: 'Frameworks & Libraries',
       currentLevel: this.inferFrameworkLevel(githubAnalysis),
-      targetLevel: 5,
-      importance: 5,
+      targetLevel: profile.defaultTechnologyTargetLevel,
+      importance: this.getRoleProfileExpectation(profile, 'frameworks').importance,
       category: 'technical'
     });
 
     const specialties: string[] = [];
-    const mlSpecialtyIds = ['ml-python', 'ml-pytorch', 'ml-tensorflow', 'ml-scikit', 'ml-nlp'];
+    const mlSpecialtyIds = getSkillChildren('ai-ml-specialization').map((skill) => skill.id);
     if (skills.some((skill) => mlSpecialtyIds.includes(skill.id)) && !skills.some((skill) => skill.id === 'ai-ml-specialization')) {
       specialties.push('ai-ml-specialization');
       skills.push({
@@ -1069,7 +1500,7 @@ export class GapAnalyzerAgent {
       });
     }
 
-    const dataSpecialtyIds = ['data-spark', 'data-hadoop', 'data-kafka', 'data-airflow', 'data-snowflake', 'data-databricks'];
+    const dataSpecialtyIds = getSkillChildren('data-engineering-specialization').map((skill) => skill.id);
     if (skills.some((skill) => dataSpecialtyIds.includes(skill.id)) && !skills.some((skill) => skill.id === 'data-engineering-specialization')) {
       specialties.push('data-engineering-specialization');
       skills.push({
@@ -1098,9 +1529,12 @@ export class GapAnalyzerAgent {
     // Adjust based on technology complexity and usage
     const complexityMultiplier = this.getTechnologyComplexity(technology);
     const usageMultiplier = this.getTechnologyUsage(githubAnalysis, technology);
+
+    // Account for recency and sustained practice when commit history is available
+    const timelineAdjustment = findTimelineEntry(githubAnalysis.commitHistory, technology)?.levelAdjustment ?? 0;
     
     return this.clampSkillLevel(
-      baseLevel * complexityMultiplier * usageMultiplier
+      baseLevel * complexityMultiplier * usageMultiplier + timelineAdjustment
     );
   }
 
@@ -1196,10 +1630,12 @@ export class GapAnalyzerAgent {
   }
 
   /**
-   * Get target level for technology
+   * Get target level for technology from the role profile
    */
-  private getTargetLevelForTechnology(technology: string): number {
-    return 5;
+  private getTargetLevelForTechnology(technology: string, profile: RoleProfile = getDefaultRoleProfile()): number {
+    const skillInfo = this.resolveTechnologySkill(technology);
+    const profileSkill = skillInfo ? getRoleProfileSkill(profile, skillInfo.id) : undefined;
+    return profileSkill?.targetLevel ?? profile.defaultTechnologyTargetLevel;
   }
 
   private buildRepoMetadata(repoData: any, contentsData: any): GitHubRepoMetadata {
@@ -1303,58 +1739,14 @@ export class GapAnalyzerAgent {
   }
 
   /**
-   * Get technology to skill mapping
+   * Resolve a detected language, framework or tool to an assessable taxonomy skill
    */
-  private getTechnologySkillMap(): { [key: string]: any } {
-    return {
-      'javascript': { id: 'tech-javascript', name: 'JavaScript', importance: 5, category: 'technical' },
-      'typescript': { id: 'tech-typescript', name: 'TypeScript', importance: 5, category: 'technical' },
-      'python': { id: 'tech-python', name: 'Python', importance: 5, category: 'technical' },
-      'java': { id: 'tech-java', name: 'Java', importance: 5, category: 'technical' },
-      'react': { id: 'framework-react', name: 'React', importance: 5, category: 'technical' },
-      'vue': { id: 'framework-vue', name: 'Vue.js', importance: 4, category: 'technical' },
-      'angular': { id: 'framework-angular', name: 'Angular', importance: 4, category: 'technical' },
-      'node.js': { id: 'framework-nodejs', name: 'Node.js', importance: 5, category: 'technical' },
-      'spring': { id: 'framework-spring', name: 'Spring Framework', importance: 5, category: 'technical' },
-      'django': { id: 'framework-django', name: 'Django', importance: 4, category: 'technical' },
-      'flask': { id: 'framework-flask', name: 'Flask', importance: 3, category: 'technical' },
-      'express': { id: 'framework-express', name: 'Express.js', importance: 4, category: 'technical' },
-      'mongodb': { id: 'database-mongodb', name: 'MongoDB', importance: 4, category: 'technical' },
-      'postgresql': { id: 'database-postgresql', name: 'PostgreSQL', importance: 4, category: 'technical' },
-      'mysql': { id: 'database-mysql', name: 'MySQL', importance: 3, category: 'technical' },
-      'docker': { id: 'devops-docker', name: 'Docker', importance: 4, category: 'technical' },
-      'kubernetes': { id: 'devops-kubernetes', name: 'Kubernetes', importance: 5, category: 'technical' },
-      'aws': { id: 'cloud-aws', name: 'AWS', importance: 5, category: 'technical' },
-      'azure': { id: 'cloud-azure', name: 'Azure', importance: 4, category: 'technical' },
-      'gcp': { id: 'cloud-gcp', name: 'Google Cloud', importance: 4, category: 'technical' },
-      'terraform': { id: 'devops-terraform', name: 'Terraform', importance: 4, category: 'technical' },
-      'ansible': { id: 'devops-ansible', name: 'Ansible', importance: 3, category: 'technical' },
-      'jest': { id: 'testing-jest', name: 'Jest', importance: 3, category: 'technical' },
-      'cypress': { id: 'testing-cypress', name: 'Cypress', importance: 3, category: 'technical' },
-      'playwright': { id: 'testing-playwright', name: 'Playwright', importance: 3, category: 'technical' },
-      'pytorch': { id: 'ml-pytorch', name: 'PyTorch', importance: 5, category: 'technical' },
-      'tensorflow': { id: 'ml-tensorflow', name: 'TensorFlow', importance: 5, category: 'technical' },
-      'scikit-learn': { id: 'ml-scikit', name: 'scikit-learn', importance: 4, category: 'technical' },
-      'sklearn': { id: 'ml-scikit', name: 'scikit-learn', importance: 4, category: 'technical' },
-      'pandas': { id: 'ml-python', name: 'Pandas', importance: 4, category: 'technical' },
-      'numpy': { id: 'ml-python', name: 'NumPy', importance: 4, category: 'technical' },
-      'huggingface': { id: 'ml-nlp', name: 'Hugging Face Transformers', importance: 4, category: 'technical' },
-      'transformers': { id: 'ml-nlp', name: 'Transformers', importance: 4, category: 'technical' },
-      'langchain': { id: 'ml-langchain', name: 'LangChain', importance: 3, category: 'technical' },
-      'machine learning': { id: 'ml-foundations', name: 'Machine Learning Foundations', importance: 5, category: 'technical' },
-      'machine-learning': { id: 'ml-foundations', name: 'Machine Learning Foundations', importance: 5, category: 'technical' },
-      'deep learning': { id: 'ml-nlp', name: 'Deep Learning', importance: 5, category: 'technical' },
-      'deep-learning': { id: 'ml-nlp', name: 'Deep Learning', importance: 5, category: 'technical' },
-      'mlops': { id: 'mlops', name: 'MLOps Practices', importance: 4, category: 'technical' },
-      'spark': { id: 'data-spark', name: 'Apache Spark', importance: 5, category: 'technical' },
-      'apache spark': { id: 'data-spark', name: 'Apache Spark', importance: 5, category: 'technical' },
-      'hadoop': { id: 'data-hadoop', name: 'Apache Hadoop', importance: 4, category: 'technical' },
-      'kafka': { id: 'data-kafka', name: 'Apache Kafka', importance: 4, category: 'technical' },
-      'airflow': { id: 'data-airflow', name: 'Apache Airflow', importance: 4, category: 'technical' },
-      'databricks': { id: 'data-databricks', name: 'Databricks', importance: 4, category: 'technical' },
-      'snowflake': { id: 'data-snowflake', name: 'Snowflake', importance: 4, category: 'technical' },
-      'bigquery': { id: 'data-bigquery', name: 'BigQuery', importance: 4, category: 'technical' }
-    };
+  private resolveTechnologySkill(technology: string): TaxonomySkill | undefined {
+    const skill = resolveSkill(technology);
+    if (!skill || skill.core || skill.assessed === false || skill.group === 'practice' || skill.group === 'specialization') {
+      return undefined;
+    }
+    return skill;
   }
 
   /**
@@ -1416,6 +1808,32 @@ export class GapAnalyzerAgent {
     return this.clampSkillLevel(Math.round(average));
   }
 
+  /**
+   * Adjust the security level by the health of locked dependencies. Only
+   * applies when the lockfiles were checked against an advisory dataset;
+   * otherwise the repository-size baseline stands.
+   */
+  private inferSecurityLevel(githubAnalysis: GitHubAnalysis, baseline: number): number {
+    const health = githubAnalysis.dependencyHealth;
+    if (!health || health.packageCount === 0 || health.advisoriesChecked + health.releasesChecked === 0) {
+      return this.clampSkillLevel(baseline);
+    }
+
+    const severe = health.vulnerable.filter((pkg) => pkg.severity === 'critical' || pkg.severity === 'high').length;
+    let adjustment = 0;
+    if (severe > 0) {
+      adjustment -= 1;
+    } else if (health.vulnerable.length > 0) {
+      adjustment -= 0.5;
+    } else if (health.advisoriesChecked > 0) {
+      adjustment += 0.3; // Clean against known advisories
+    }
+    if (health.outdated.length / health.packageCount > 0.25) {
+      adjustment -= 0.3;
+    }
+    return this.clampSkillLevel(baseline + adjustment);
+  }
+
   private inferSpecialtyLevel(skills: Skill[], specialtyIds: string[]): number {
     const relevant = skills.filter((skill) => specialtyIds.includes(skill.id));
     if (relevant.length === 0) {
@@ -1451,6 +1869,19 @@ export class GapAnalyzerAgent {
       recommendations.push('Explore state management solutions and advanced frontend patterns');
     }
 
+    const vulnerable = githubAnalysis.dependencyHealth?.vulnerable ?? [];
+    if (vulnerable.length > 0) {
+      const fixable = vulnerable
+        .slice(0, 3)
+        .map((pkg) => {
+          const fixedIn = pkg.advisories.find((advisory) => advisory.fixedIn)?.fixedIn;
+          return fixedIn ? `${pkg.name} ${pkg.version} → ${fixedIn}` : `${pkg.name} ${pkg.version}`;
+        });
+      recommendations.push(
+        `Upgrade vulnerable dependencies (${fixable.join(', ')}${vulnerable.length > 3 ? `, +${vulnerable.length - 3} more` : ''}) and add automated dependency audits to CI`
+      );
+    }
+
     return recommendations;
   }
 
@@ -1543,7 +1974,7 @@ export class GapAnalyzerAgent {
       recommendedSteps: guidanceSteps,
     };
 
-    const slug = this.generateSkillId(name);
+    const slug = canonicalSkillId(name);
     const confidence: SkillGapConfidence = confidenceValue !== undefined
       ? (confidenceValue >= 0.75 ? 'high' : confidenceValue >= 0.4 ? 'medium' : 'low')
       : 'medium';
@@ -1614,14 +2045,6 @@ export class GapAnalyzerAgent {
     return min;
   }
 
-  private generateSkillId(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-+|-+$/g, '')
-      .replace(/-{2,}/g, '-');
-  }
-
   private extractEntryRecommendations(entry: Record<string, unknown>): string[] {
     const recommendations: string[] = [];
     const fields = [entry.recommendations, entry.next_steps, entry.nextSteps, entry.actions];
@@ -1733,6 +2156,10 @@ export class GapAnalyzerAgent {
       raw?: boolean;
     }
   ): Promise<any> {
+    if (this.repositorySource) {
+      return this.fetchGitHubDataViaSource(this.repositorySource, url, options);
+    }
+
     if (this.githubMCPClient && this.githubRepoContext) {
       try {
         const mcpResult = await this.fetchGitHubDataViaMCP(url, options);
@@ -1758,8 +2185,18 @@ export class GapAnalyzerAgent {
       console.warn('[GapAnalyzer] ⚠️ No GITHUB_TOKEN found, using unauthenticated requests (60 req/hour limit)');
     }
     
-    const response = await fetch(url, { headers });
     const label = options?.resourceLabel ?? url;
+    let response: Response;
+    try {
+      response = await githubFetch(url, { headers, signal: this.abortSignal });
+    } catch (error) {
+      if (error instanceof GitHubRateLimitError) {
+        this.rateLimitedRequests.labels.push(label);
+        this.rateLimitedRequests.resetAt = error.resetAt;
+        console.warn(`[GapAnalyzer] ⏸️ Rate limited, skipping ${label}`);
+      }
+      throw error;
+    }
 
     if (!response.ok) {
       if (response.status === 404) {
@@ -1772,10 +2209,10 @@ export class GapAnalyzerAgent {
       }
       if (response.status === 403) {
         throw new Error(
-          `GitHub API rate limit exceeded while requesting ${label}. ${
+          `GitHub denied access to ${label}. ${
             token
-              ? 'Ensure your personal access token has sufficient quota or scope.'
-              : 'Add a personal access token to the GITHUB_TOKEN environment variable to increase limits.'
+              ? 'Ensure your personal access token has the required scope.'
+              : 'Add a personal access token to the GITHUB_TOKEN environment variable for private repositories.'
           }`
         );
       }
@@ -1794,6 +2231,162 @@ export class GapAnalyzerAgent {
     return response.json();
   }
 
+  /**
+   * Partial-result status when rate limiting skipped requests in this analysis
+   */
+  private describeRateLimitStatus(): GitHubRateLimitStatus | undefined {
+    const { labels, resetAt } = this.rateLimitedRequests;
+    if (labels.length === 0) {
+      return undefined;
+    }
+    return {
+      status: 'rate-limited',
+      resetAt: resetAt?.toISOString() ?? null,
+      skipped: [...new Set(labels)],
+    };
+  }
+
+  /**
+   * Serve GitHub REST/raw URLs from an offline repository source so the
+   * GitHub-oriented heuristics run unchanged without network access
+   */
+  private async fetchGitHubDataViaSource(
+    source: RepositorySource,
+    url: string,
+    options?: {
+      allow404?: boolean;
+      resourceLabel?: string;
+      raw?: boolean;
+    }
+  ): Promise<any> {
+    const notFound = () => {
+      if (options?.allow404) {
+        return null;
+      }
+      throw new Error(`GitHub resource not found (${options?.resourceLabel ?? url}) in ${source.label}.`);
+    };
+
+    const parsedUrl = new URL(url);
+    const segments = parsedUrl.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const info = await source.getInfo();
+    const rawUrlFor = (path: string) =>
+      `https://raw.githubusercontent.com/${source.owner}/${source.name}/${info.defaultBranch}/${path}`;
+    // GitLab owners are group paths and may span several URL segments
+    const repoSegments = [...source.owner.split('/'), source.name];
+    const matchesRepo = (offset: number) =>
+      repoSegments.every((segment, index) => segments[offset + index] === segment);
+
+    if (parsedUrl.hostname === 'raw.githubusercontent.com') {
+      if (!matchesRepo(0)) {
+        return notFound();
+      }
+      const content = await source.readFile(segments.slice(repoSegments.length + 1).join('/'));
+      return content === null ? notFound() : content;
+    }
+
+    if (parsedUrl.hostname !== 'api.github.com' || segments[0] !== 'repos' || !matchesRepo(1)) {
+      return notFound();
+    }
+
+    const endpoint = segments.slice(1 + repoSegments.length);
+
+    if (endpoint.length === 0) {
+      const tree = await source.listTree();
+      return {
+        name: source.name,
+        full_name: `${source.owner}/${source.name}`,
+        html_url: source.label,
+        description: info.description,
+        topics: info.topics,
+        default_branch: info.defaultBranch,
+        homepage: info.homepage,
+        stargazers_count: info.stars,
+        forks_count: 0,
+        subscribers_count: 0,
+        open_issues_count: 0,
+        size: info.sizeKb,
+        pushed_at: info.lastModifiedAt,
+        license: info.license ? { name: info.license, spdx_id: null } : null,
+        file_count: tree.filter((entry) => entry.type === 'file').length,
+      };
+    }
+
+    if (endpoint[0] === 'languages') {
+      return source.getLanguages();
+    }
+
+    if (endpoint[0] === 'commits' && endpoint.length === 2) {
+      // Sources read a single ref chosen when they were created, so any ref resolves to it
+      const sha = source.resolveCommitSha ? await source.resolveCommitSha() : null;
+      return sha ? { sha } : notFound();
+    }
+
+    if (endpoint[0] === 'readme') {
+      const readme = await source.readReadme();
+      if (!readme) {
+        return notFound();
+      }
+      return {
+        name: readme.path,
+        path: readme.path,
+        content: Buffer.from(readme.content, 'utf-8').toString('base64'),
+        encoding: 'base64',
+        download_url: rawUrlFor(readme.path),
+      };
+    }
+
+    if (endpoint[0] === 'git' && endpoint[1] === 'trees') {
+      const tree = await source.listTree();
+      return {
+        truncated: false,
+        tree: tree.map((entry) => ({
+          path: entry.path,
+          type: entry.type === 'dir' ? 'tree' : 'blob',
+          size: entry.size,
+        })),
+      };
+    }
+
+    if (endpoint[0] === 'contents') {
+      const path = endpoint.slice(1).join('/');
+      const tree = await source.listTree();
+      const file = tree.find((entry) => entry.type === 'file' && entry.path === path);
+
+      if (file) {
+        const content = await source.readFile(path);
+        if (content === null) {
+          return notFound();
+        }
+        return {
+          type: 'file',
+          name: path.split('/').pop(),
+          path,
+          size: file.size,
+          content: Buffer.from(content, 'utf-8').toString('base64'),
+          encoding: 'base64',
+          download_url: rawUrlFor(path),
+        };
+      }
+
+      const prefix = path ? `${path}/` : '';
+      const children = tree.filter(
+        (entry) => entry.path.startsWith(prefix) && !entry.path.slice(prefix.length).includes('/')
+      );
+      if (path && children.length === 0) {
+        return notFound();
+      }
+      return children.map((entry) => ({
+        type: entry.type,
+        name: entry.path.slice(prefix.length),
+        path: entry.path,
+        size: entry.size,
+        download_url: entry.type === 'file' ? rawUrlFor(entry.path) : null,
+      }));
+    }
+
+    return notFound();
+  }
+
   private async fetchGitHubDataViaMCP(
     url: string,
     options?: {
@@ -1808,7 +2401,7 @@ export class GapAnalyzerAgent {
 
     try {
       const parsedUrl = new URL(url);
-      const { owner, repo, defaultBranch } = this.githubRepoContext;
+      const { owner, repo, ref: contextRef } = this.githubRepoContext;
 
       if (parsedUrl.hostname === 'api.github.com') {
         const segments = parsedUrl.pathname.split('/').filter(Boolean);
@@ -1824,7 +2417,7 @@ export class GapAnalyzerAgent {
           }
 
           if (endpoint[0] === 'readme') {
-            const ref = parsedUrl.searchParams.get('ref') ?? defaultBranch;
+            const ref = parsedUrl.searchParams.get('ref') ?? contextRef;
             const readme = await this.githubMCPClient.getRepositoryReadme(owner, repo, ref || undefined);
             return {
               ...readme,
@@ -1873,26 +2466,18 @@ export class GapAnalyzerAgent {
     const primaryLanguages = Object.keys(languagesData).slice(0, 5);
     technologies.push(...primaryLanguages);
 
-    // Check for common technologies in repository description and topics
-    const description = (repoData.description || '').toLowerCase();
-    const topics = repoData.topics || [];
-    
-    const techKeywords = [
-      'react', 'vue', 'angular', 'svelte',
-      'nodejs', 'express', 'fastapi', 'django', 'spring',
-      'mongodb', 'postgresql', 'mysql', 'redis',
-      'docker', 'kubernetes', 'aws', 'azure', 'gcp',
-      'typescript', 'javascript', 'python', 'java', 'c#', 'go', 'rust',
-      'nextjs', 'nuxt', 'sveltekit', 'gatsby',
-      'tailwind', 'bootstrap', 'material-ui', 'chakra',
-      'pytorch', 'tensorflow', 'scikit-learn', 'sklearn', 'huggingface', 'transformers', 'langchain',
-      'machine learning', 'machine-learning', 'deep learning', 'deep-learning', 'mlops', 'ai', 'artificial intelligence',
-      'apache spark', 'spark', 'hadoop', 'kafka', 'airflow', 'databricks', 'snowflake', 'bigquery', 'data engineering', 'data-engineering'
+    // Technologies named in the description or topics, resolved through the skill taxonomy
+    const description = repoData.description || '';
+    const topics: string[] = Array.isArray(repoData.topics) ? repoData.topics : [];
+    const TECHNOLOGY_GROUPS: SkillTaxonomyGroup[] = [
+      'language', 'framework', 'database', 'devops', 'cloud', 'testing', 'ml', 'data', 'specialization',
     ];
 
-    techKeywords.forEach(tech => {
-      if (description.includes(tech) || topics.includes(tech)) {
-        technologies.push(tech);
+    findSkillMentions(description, { groups: TECHNOLOGY_GROUPS }).forEach((skill) => technologies.push(skill.name));
+    topics.forEach((topic) => {
+      const skill = resolveSkill(topic);
+      if (skill && TECHNOLOGY_GROUPS.includes(skill.group)) {
+        technologies.push(skill.name);
       }
     });
 
@@ -1900,181 +2485,485 @@ export class GapAnalyzerAgent {
   }
 
   /**
-   * Extract frameworks from repository contents
+   * Resolve a branch, tag or commit to its full SHA. A ref the user asked for
+   * must exist; for the default branch a failed lookup just leaves the
+   * analysis unpinned.
    */
-  private extractFrameworks(contentsData: any, languagesData: any): string[] {
-    const frameworks: string[] = [];
-    
-    if (!Array.isArray(contentsData)) return frameworks;
-
-    // Look for configuration files to detect frameworks
-    const configFiles = contentsData.map((file: any) => file.name);
-    const languages = Object.keys(languagesData);
-    
-    // JavaScript/TypeScript frameworks
-    if (languages.includes('JavaScript') || languages.includes('TypeScript')) {
-      frameworks.push('Node.js');
-      if (languages.includes('TypeScript')) {
-        frameworks.push('TypeScript');
-      }
-      
-      // Check for specific JS frameworks
-      if (configFiles.some((file: string) => file.includes('react'))) {
-        frameworks.push('React');
-      }
-      if (configFiles.some((file: string) => file.includes('vue'))) {
-        frameworks.push('Vue.js');
-      }
-      if (configFiles.some((file: string) => file.includes('angular'))) {
-        frameworks.push('Angular');
-      }
-      if (configFiles.some((file: string) => file.includes('next'))) {
-        frameworks.push('Next.js');
-      }
-    }
-    
-    // Java frameworks
-    if (languages.includes('Java')) {
-      // Check for Spring Boot indicators
-      if (configFiles.includes('pom.xml') || configFiles.includes('build.gradle')) {
-        frameworks.push('Spring Framework');
-        frameworks.push('Spring Boot');
-      }
-      
-      // Check for other Java frameworks
-      if (configFiles.some((file: string) => file.includes('hibernate'))) {
-        frameworks.push('Hibernate');
-      }
-      if (configFiles.some((file: string) => file.includes('maven'))) {
-        frameworks.push('Maven');
-      }
-      if (configFiles.some((file: string) => file.includes('gradle'))) {
-        frameworks.push('Gradle');
-      }
-    }
-    
-    // Python frameworks
-    if (languages.includes('Python')) {
-      frameworks.push('Python');
-      
-      if (configFiles.includes('requirements.txt')) {
-        frameworks.push('pip');
-      }
-      if (configFiles.some((file: string) => file.includes('django'))) {
-        frameworks.push('Django');
-      }
-      if (configFiles.some((file: string) => file.includes('flask'))) {
-        frameworks.push('Flask');
-      }
-      if (configFiles.some((file: string) => file.includes('fastapi'))) {
-        frameworks.push('FastAPI');
-      }
-    }
-    
-    // Go frameworks
-    if (languages.includes('Go')) {
-      frameworks.push('Go');
-      if (configFiles.includes('go.mod')) {
-        frameworks.push('Go Modules');
+  private async resolveCommitSha(
+    owner: string,
+    repo: string,
+    ref: string,
+    required: boolean
+  ): Promise<string | undefined> {
+    const commit = await this.fetchGitHubData(
+      `https://api.github.com/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`,
+      { allow404: true, resourceLabel: `${owner}/${repo} ref ${ref}` }
+    ).catch((error) => {
+      if (required) {
+        throw error;
       }
+      console.warn(`[GapAnalyzer] ⚠️ Could not resolve ${ref} to a commit:`, error instanceof Error ? error.message : error);
+      return null;
+    });
+    if (typeof commit?.sha === 'string') {
+      return commit.sha;
     }
-    
-    // Rust frameworks
-    if (languages.includes('Rust')) {
-      frameworks.push('Rust');
-      if (configFiles.includes('Cargo.toml')) {
-        frameworks.push('Cargo');
-      }
+    if (required) {
+      throw new Error(`GitHub resource not found (${owner}/${repo} ref ${ref}). Check that the branch, tag or commit exists.`);
     }
-
-    return [...new Set(frameworks)]; // Remove duplicates
+    return undefined;
   }
 
   /**
-   * Extract tools from repository contents
+   * Fetch the full recursive git tree for a repository ref.
+   * Returns an empty list when the tree is unavailable so callers can fall back to root contents.
    */
-  private extractTools(contentsData: any): string[] {
-    const tools: string[] = [];
-    
-    if (!Array.isArray(contentsData)) return tools;
-
-    // Look for common tool configuration files
-    const toolFiles = contentsData.map((file: any) => file.name);
-    
-    if (toolFiles.includes('docker-compose.yml') || toolFiles.includes('Dockerfile')) {
-      tools.push('docker');
-    }
-    
-    if (toolFiles.includes('.github')) {
-      tools.push('github actions');
-    }
-    
-    if (toolFiles.includes('jest.config.js') || toolFiles.includes('vitest.config.ts')) {
-      tools.push('jest');
-    }
-    
-    if (toolFiles.includes('eslint.config.js') || toolFiles.includes('.eslintrc')) {
-      tools.push('eslint');
-    }
-    
-    if (toolFiles.includes('prettier.config.js') || toolFiles.includes('.prettierrc')) {
-      tools.push('prettier');
+  private async fetchRepositoryTree(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<Array<{ path: string; type: string; size?: number; sha?: string }>> {
+    try {
+      const treeData = await this.fetchGitHubData(
+        `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+        {
+          allow404: true,
+          resourceLabel: `${owner}/${repo} tree`,
+        }
+      );
+
+      if (!treeData || !Array.isArray(treeData.tree)) {
+        return [];
+      }
+
+      if (treeData.truncated) {
+        console.warn(`[GapAnalyzer] ⚠️ Git tree for ${owner}/${repo} is truncated, manifest detection may be partial`);
+      }
+
+      return treeData.tree
+        .filter((entry: any) => typeof entry?.path === 'string')
+        .map((entry: any) => ({
+          path: entry.path,
+          type: entry.type === 'tree' ? 'dir' : entry.type === 'blob' ? 'file' : entry.type,
+          size: entry.size,
+          sha: entry.sha,
+        }));
+    } catch (error) {
+      console.warn(`[GapAnalyzer] ⚠️ Unable to fetch git tree for ${owner}/${repo}:`, error);
+      return [];
     }
+  }
 
-    const fileNamesLower = toolFiles.map((file: string) => file.toLowerCase());
+  /**
+   * Read the root workspace configuration files and detect a monorepo layout.
+   * Returns null for single-package repositories.
+   */
+  private async detectWorkspace(
+    owner: string,
+    repo: string,
+    ref: string,
+    filePaths: string[]
+  ): Promise<WorkspaceLayout | null> {
+    const configPaths = listWorkspaceConfigPaths(filePaths);
+    const configFiles = await Promise.all(
+      configPaths.map(async (path) => {
+        try {
+          const content = await this.fetchGitHubData(
+            `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path}`,
+            {
+              raw: true,
+              allow404: true,
+              resourceLabel: `${owner}/${repo} ${path}`,
+            }
+          );
+          return typeof content === 'string' ? { path, content } : null;
+        } catch (error) {
+          console.warn(`[GapAnalyzer] ⚠️ Could not read workspace config ${path}:`, error);
+          return null;
+        }
+      })
+    );
 
-    if (fileNamesLower.some((name) => name.includes('airflow'))) {
-      tools.push('airflow');
+    const layout = detectWorkspaceLayout(
+      configFiles.filter((file): file is { path: string; content: string } => file !== null),
+      filePaths
+    );
+    if (layout) {
+      console.log(
+        `[GapAnalyzer] 📦 Workspace detected (${layout.tools.join(', ')}): ${layout.packages.length} packages`
+      );
     }
+    return layout;
+  }
 
-    if (fileNamesLower.some((name) => name.includes('spark'))) {
-      tools.push('spark');
+  /**
+   * Fetch and parse every dependency manifest in the repository tree.
+   * Workspace package manifests are read first so every package is covered.
+   */
+  private async detectManifestTechnologies(
+    owner: string,
+    repo: string,
+    ref: string,
+    filePaths: string[],
+    workspace?: WorkspaceLayout | null
+  ): Promise<ManifestDetectionResult> {
+    const MAX_MANIFESTS = 30;
+    const MAX_WORKSPACE_MANIFESTS = 60;
+    const packageManifests = new Set(workspace?.packages.map((pkg) => pkg.manifestPath) ?? []);
+    const isPriorityManifest = (path: string) => packageManifests.has(path) || !path.includes('/');
+    const manifestLimit = workspace
+      ? Math.min(MAX_WORKSPACE_MANIFESTS, Math.max(MAX_MANIFESTS, packageManifests.size + 5))
+      : MAX_MANIFESTS;
+    const manifestPaths = filePaths
+      .filter(isManifestPath)
+      .sort(
+        (a, b) =>
+          Number(isPriorityManifest(b)) - Number(isPriorityManifest(a)) ||
+          a.split('/').length - b.split('/').length
+      )
+      .slice(0, manifestLimit);
+
+    const manifestFiles = await Promise.all(
+      manifestPaths.map(async (path) => {
+        try {
+          const content = await this.fetchGitHubData(
+            `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path}`,
+            {
+              raw: true,
+              allow404: true,
+              resourceLabel: `${owner}/${repo} ${path}`,
+            }
+          );
+          return typeof content === 'string' ? { path, content } : null;
+        } catch (error) {
+          console.warn(`[GapAnalyzer] ⚠️ Could not read manifest ${path}:`, error);
+          return null;
+        }
+      })
+    );
+
+    const detection = detectTechnologiesFromManifests(
+      manifestFiles.filter((file): file is { path: string; content: string } => file !== null)
+    );
+    console.log(
+      `[GapAnalyzer] Parsed ${detection.manifests.length} manifests (${detection.dependencies.length} dependencies)`
+    );
+    return detection;
+  }
+
+  /**
+   * Parse lockfiles in the tree and check the pinned versions against the
+   * advisory dataset. Returns undefined when the repository has no lockfiles.
+   */
+  private async analyzeDependencyHealth(
+    owner: string,
+    repo: string,
+    ref: string,
+    filePaths: string[]
+  ): Promise<DependencyHealthReport | undefined> {
+    const MAX_LOCKFILES = 10;
+    const lockfilePaths = filePaths
+      .filter(isLockfilePath)
+      .sort((a, b) => a.split('/').length - b.split('/').length)
+      .slice(0, MAX_LOCKFILES);
+    if (lockfilePaths.length === 0) {
+      return undefined;
     }
 
-    if (fileNamesLower.some((name) => name.includes('hadoop'))) {
-      tools.push('hadoop');
+    const lockfiles = await Promise.all(
+      lockfilePaths.map(async (path) => {
+        try {
+          const content = await this.fetchGitHubData(
+            `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path}`,
+            {
+              raw: true,
+              allow404: true,
+              resourceLabel: `${owner}/${repo} ${path}`,
+            }
+          );
+          return typeof content === 'string' ? { path, content } : null;
+        } catch (error) {
+          console.warn(`[GapAnalyzer] ⚠️ Could not read lockfile ${path}:`, error);
+          return null;
+        }
+      })
+    );
+
+    const report = assessDependencyHealth(
+      lockfiles.filter((file): file is { path: string; content: string } => file !== null),
+      this.advisoryDataset ?? undefined
+    );
+    console.log(
+      `[GapAnalyzer] 🔐 Dependency health: ${report.packageCount} locked packages, ${report.vulnerable.length} vulnerable, ${report.outdated.length} outdated` +
+        (report.advisoriesChecked === 0 ? ' (no advisory dataset loaded)' : '')
+    );
+    return report;
+  }
+
+  /**
+   * Walk commit history and build a per-technology timeline, plus the commit
+   * message, branching and release practices the version control skill is
+   * scored from. Local sources use git log; GitHub repositories use the
+   * commits API, which only lists changed files per commit, so file detail is
+   * fetched for a small, evenly spaced sample of one page of listed commits.
+   */
+  private async analyzeCommitHistory(
+    owner: string,
+    repo: string,
+    knownTechnologies: string[],
+    ref?: string
+  ): Promise<{ commitHistory?: CommitHistoryAnalysis; gitPractices?: GitPracticesAnalysis }> {
+    const MAX_LOCAL_COMMITS = 300;
+    // Every GitHub commit read is a request: one listing page plus the detailed sample
+    const MAX_LISTED_COMMITS = 100;
+    const MAX_DETAILED_COMMITS = 8;
+
+    try {
+      if (this.repositorySource) {
+        if (!this.repositorySource.listCommits) {
+          return {};
+        }
+        const commits = await this.repositorySource.listCommits(MAX_LOCAL_COMMITS);
+        if (commits.length === 0) {
+          return {};
+        }
+        const commitHistory = buildSkillTimeline(commits, { source: 'local-git', knownTechnologies });
+        console.log(`[GapAnalyzer] Commit history: ${commitHistory.commitsAnalyzed} commits from git log`);
+
+        const refs = await this.repositorySource.listRefs?.();
+        const gitPractices = this.logGitPractices(
+          assessGitPractices(
+            commits.map((commit) => ({
+              sha: commit.sha,
+              message: commit.message ?? '',
+              authoredAt: commit.authoredAt,
+              linesChanged: commit.files.reduce((sum, file) => sum + file.additions + file.deletions, 0),
+              signed: commit.signed,
+            })),
+            { branches: refs?.branches.length ?? null, pullRequests: null, tags: refs?.tags ?? null, releases: null },
+            // git log runs with --no-merges
+            { source: 'local-git', includesMerges: false }
+          )
+        );
+        return { commitHistory, gitPractices };
+      }
+
+      const listed: any[] = [];
+      for (let page = 1; listed.length < MAX_LISTED_COMMITS; page += 1) {
+        const pageData = await this.fetchGitHubData(
+          `https://api.github.com/repos/${owner}/${repo}/commits?per_page=100&page=${page}${ref ? `&sha=${encodeURIComponent(ref)}` : ''}`,
+          { allow404: true, resourceLabel: `${owner}/${repo} commits` }
+        );
+        if (!Array.isArray(pageData) || pageData.length === 0) {
+          break;
+        }
+        listed.push(...pageData);
+        if (pageData.length < 100) {
+          break;
+        }
+      }
+      if (listed.length === 0) {
+        return {};
+      }
+
+      // Always include the newest and oldest listed commits so first/last seen dates stay meaningful
+      const sampleSize = Math.min(MAX_DETAILED_COMMITS, listed.length);
+      const step = sampleSize > 1 ? (listed.length - 1) / (sampleSize - 1) : 0;
+      const sampledShas = [...new Set(
+        Array.from({ length: sampleSize }, (_, index) => listed[Math.round(index * step)]?.sha).filter(Boolean)
+      )];
+
+      const detailed = await Promise.all(
+        sampledShas.map((sha) =>
+          this.fetchGitHubData(`https://api.github.com/repos/${owner}/${repo}/commits/${sha}`, {
+            allow404: true,
+            resourceLabel: `${owner}/${repo} commit ${String(sha).slice(0, 7)}`,
+          }).catch(() => null)
+        )
+      );
+
+      const commits = detailed
+        .filter((commit: any) => commit?.commit?.author?.date)
+        .map((commit: any) => ({
+          sha: commit.sha,
+          authoredAt: commit.commit.author.date,
+          author: commit.commit.author.name ?? commit.author?.login ?? null,
+          files: (Array.isArray(commit.files) ? commit.files : []).map((file: any) => ({
+            path: file.filename,
+            additions: file.additions ?? 0,
+            deletions: file.deletions ?? 0,
+          })),
+        }));
+
+      const commitHistory = commits.length > 0
+        ? buildSkillTimeline(commits, {
+            source: 'github-api',
+            sampled: commits.length < listed.length,
+            listedCommitCount: listed.length,
+            knownTechnologies,
+          })
+        : undefined;
+      if (commitHistory) {
+        console.log(
+          `[GapAnalyzer] Commit history: ${commitHistory.commitsAnalyzed} of ${listed.length} listed commits analyzed, ${commitHistory.timeline.length} technologies`
+        );
+      }
+
+      // Messages, parents and verification come with the listing; sizes only with the detailed sample
+      const linesBySha = new Map<string, number>(
+        commits.map((commit) => [
+          commit.sha,
+          commit.files.reduce((sum: number, file: { additions: number; deletions: number }) => sum + file.additions + file.deletions, 0),
+        ])
+      );
+      const practiceCommits: GitPracticeCommit[] = listed
+        .filter((commit: any) => typeof commit?.commit?.message === 'string')
+        .map((commit: any) => ({
+          sha: commit.sha,
+          message: commit.commit.message,
+          authoredAt: commit.commit.author?.date ?? '',
+          linesChanged: linesBySha.get(commit.sha),
+          isMerge: Array.isArray(commit.parents) && commit.parents.length > 1,
+          signed: typeof commit.commit.verification?.verified === 'boolean' ? commit.commit.verification.verified : undefined,
+        }));
+      const signals = await this.fetchCollaborationSignals(owner, repo);
+      const gitPractices = this.logGitPractices(
+        assessGitPractices(practiceCommits, signals, { source: 'github-api', includesMerges: true })
+      );
+
+      return { commitHistory, gitPractices };
+    } catch (error) {
+      console.warn(
+        '[GapAnalyzer] ⚠️ Commit history analysis failed:',
+        error instanceof Error ? error.message : error
+      );
+      return {};
     }
+  }
+
+  /**
+   * Branch, pull request, tag and release counts from the GitHub API. Each
+   * list is capped at its first page of 100; a failed or rate-limited request
+   * leaves its signal unknown rather than zero.
+   */
+  private async fetchCollaborationSignals(owner: string, repo: string): Promise<GitCollaborationSignals> {
+    const list = (endpoint: string, label: string): Promise<any[] | null> =>
+      this.fetchGitHubData(`https://api.github.com/repos/${owner}/${repo}/${endpoint}`, {
+        allow404: true,
+        resourceLabel: `${owner}/${repo} ${label}`,
+      })
+        .then((data) => (Array.isArray(data) ? data : null))
+        .catch(() => null);
+
+    const [branches, pullRequests, tags, releases] = await Promise.all([
+      list('branches?per_page=100', 'branches'),
+      list('pulls?state=all&per_page=100', 'pull requests'),
+      list('tags?per_page=100', 'tags'),
+      list('releases?per_page=100', 'releases'),
+    ]);
 
-    if (fileNamesLower.some((name) => name.includes('kafka'))) {
-      tools.push('kafka');
+    return {
+      branches: branches?.length ?? null,
+      pullRequests: pullRequests
+        ? { total: pullRequests.length, merged: pullRequests.filter((pr) => pr?.merged_at).length }
+        : null,
+      tags: tags ? tags.map((tag) => String(tag?.name ?? '')).filter(Boolean) : null,
+      releases: releases?.length ?? null,
+    };
+  }
+
+  private logGitPractices(analysis: GitPracticesAnalysis | null): GitPracticesAnalysis | undefined {
+    if (!analysis) {
+      return undefined;
     }
+    console.log(
+      `[GapAnalyzer] 🌿 Git practices: ${analysis.score}/100 (level ${analysis.level}) from ${analysis.commitsAnalyzed} commits, ` +
+        analysis.factors.map((factor) => `${factor.label} ${factor.score}`).join(', ')
+    );
+    return analysis;
+  }
 
-    if (fileNamesLower.some((name) => name.includes('databricks'))) {
-      tools.push('databricks');
+  /**
+   * Extract frameworks from language data and declared manifest dependencies
+   */
+  private extractFrameworks(languagesData: any, manifestDetection: ManifestDetectionResult): string[] {
+    const frameworks: string[] = [];
+    const languages = Object.keys(languagesData);
+    const manifestNames = manifestDetection.manifests.map((path) => path.split('/').pop()?.toLowerCase() ?? '');
+
+    if (languages.includes('JavaScript') || languages.includes('TypeScript')) {
+      frameworks.push('Node.js');
+      if (languages.includes('TypeScript')) {
+        frameworks.push('TypeScript');
+      }
     }
 
-    if (fileNamesLower.some((name) => name.includes('snowflake'))) {
-      tools.push('snowflake');
+    if (languages.includes('Java') || languages.includes('Kotlin')) {
+      if (manifestNames.includes('pom.xml')) {
+        frameworks.push('Maven');
+      }
+      if (manifestNames.some((name) => name.startsWith('build.gradle'))) {
+        frameworks.push('Gradle');
+      }
     }
 
-    if (fileNamesLower.some((name) => name.includes('bigquery'))) {
-      tools.push('bigquery');
+    if (languages.includes('Python')) {
+      frameworks.push('Python');
+      if (manifestNames.includes('requirements.txt')) {
+        frameworks.push('pip');
+      }
     }
 
-    if (fileNamesLower.some((name) => name.includes('terraform'))) {
-      tools.push('terraform');
+    if (languages.includes('Go')) {
+      frameworks.push('Go');
+      if (manifestNames.includes('go.mod')) {
+        frameworks.push('Go Modules');
+      }
     }
 
-    if (fileNamesLower.some((name) => name.includes('ansible'))) {
-      tools.push('ansible');
+    if (languages.includes('Rust')) {
+      frameworks.push('Rust');
+      if (manifestNames.includes('cargo.toml')) {
+        frameworks.push('Cargo');
+      }
     }
 
+    frameworks.push(...manifestDetection.frameworks.map((framework) => framework.name));
+
+    return [...new Set(frameworks)]; // Remove duplicates
+  }
+
+  /**
+   * Extract tools from declared dependencies and tool configuration files anywhere in the tree
+   */
+  private extractTools(filePaths: string[], manifestDetection: ManifestDetectionResult): string[] {
+    const tools = [
+      ...detectToolsFromPaths(filePaths),
+      ...manifestDetection.tools.map((tool) => tool.name),
+    ];
+
     return [...new Set(tools)];
   }
 
   /**
    * Determine skill level based on repository complexity
    */
-  private determineSkillLevel(repoData: any, languagesData: any, contentsData: any): 'beginner' | 'intermediate' | 'advanced' {
+  private determineSkillLevel(
+    repoData: any,
+    languagesData: any,
+    contentsData: any,
+    workspacePackageCount = 0
+  ): 'beginner' | 'intermediate' | 'advanced' {
     const languageCount = Object.keys(languagesData).length;
     const fileCount = Array.isArray(contentsData) ? contentsData.length : 0;
     const stars = repoData.stargazers_count || 0;
     const forks = repoData.forks_count || 0;
     
-    // Simple heuristic based on repository metrics
-    if (languageCount >= 5 || fileCount >= 100 || stars >= 100) {
+    // Simple heuristic based on repository metrics; a monorepo's root listing
+    // understates its size, so the number of workspace packages counts too
+    if (languageCount >= 5 || fileCount >= 100 || stars >= 100 || workspacePackageCount >= 5) {
       return 'advanced';
-    } else if (languageCount >= 3 || fileCount >= 50 || stars >= 10) {
+    } else if (languageCount >= 3 || fileCount >= 50 || stars >= 10 || workspacePackageCount >= 2) {
       return 'intermediate';
     } else {
       return 'beginner';
@@ -2119,49 +3008,49 @@ export class GapAnalyzerAgent {
     }
 
     // Framework-specific recommendations
-    if (frameworks.includes('Spring Framework')) {
+    if (includesSkill(frameworks, 'framework-spring')) {
       recommendations.push('Learn Spring Boot auto-configuration and starters');
       recommendations.push('Master Spring Data JPA for database operations');
       recommendations.push('Understand Spring Security for authentication');
     }
 
-    if (frameworks.includes('React')) {
+    if (includesSkill(frameworks, 'framework-react')) {
       recommendations.push('Explore advanced React patterns like hooks and context');
       recommendations.push('Learn performance optimization techniques (memoization, lazy loading)');
       recommendations.push('Practice testing React components with React Testing Library or Cypress');
     }
 
-    if (technologies.includes('pytorch')) {
+    if (includesSkill(technologies, 'ml-pytorch')) {
       recommendations.push('Build end-to-end experiments with PyTorch Lightning or similar frameworks');
       recommendations.push('Learn model serving with TorchServe, BentoML, or FastAPI integrations');
       recommendations.push('Explore optimization techniques (mixed precision, distributed training)');
     }
 
-    if (technologies.includes('tensorflow')) {
+    if (includesSkill(technologies, 'ml-tensorflow')) {
       recommendations.push('Build production-ready models with TensorFlow Extended (TFX)');
       recommendations.push('Practice model deployment using TensorFlow Serving or Vertex AI');
       recommendations.push('Learn TensorFlow Lite for edge deployment scenarios');
     }
 
-    if (technologies.includes('airflow')) {
+    if (includesSkill(technologies, 'data-airflow')) {
       recommendations.push('Design resilient DAGs with modular operators and clear retries');
       recommendations.push('Implement data quality checks using Airflow sensors or Great Expectations');
       recommendations.push('Automate environment provisioning with Terraform or Helm');
     }
 
-    if (technologies.includes('spark')) {
+    if (includesSkill(technologies, 'data-spark')) {
       recommendations.push('Optimize Spark jobs with partitioning, caching, and Catalyst tuning');
       recommendations.push('Explore streaming workloads with Spark Structured Streaming');
       recommendations.push('Deploy Spark on managed services like Databricks or EMR');
     }
 
-    if (technologies.includes('terraform')) {
+    if (includesSkill(technologies, 'devops-terraform')) {
       recommendations.push('Create reusable Terraform modules and enforce code review policies');
       recommendations.push('Use Terraform Cloud or Atlantis for collaborative workflows');
       recommendations.push('Integrate Terraform with CI/CD pipelines for infrastructure automation');
     }
 
-    if (technologies.includes('kubernetes')) {
+    if (includesSkill(technologies, 'devops-kubernetes')) {
       recommendations.push('Learn advanced Kubernetes concepts (Operators, StatefulSets, RBAC)');
       recommendations.push('Improve observability with Prometheus, Grafana, or OpenTelemetry');
       recommendations.push('Automate delivery with GitOps tools like ArgoCD or Flux');
@@ -2250,6 +3139,13 @@ export class GapAnalyzerAgent {
         marketContext = `While not always required, ${skill.name} proficiency is a common expectation in modern development environments.`;
       }
 
+      const gitPractices = skill.id === 'version-control' ? context.githubAnalysis?.gitPractices : undefined;
+      if (gitPractices) {
+        const measured = gitPractices.factors.map((factor) => `${factor.label.toLowerCase()} ${factor.score}/100`).join(', ');
+        currentState = `${currentState} Git history scores ${gitPractices.score}/100 across ${gitPractices.commitsAnalyzed} commits (${measured}).`;
+        gitPractices.recommendations.forEach((rec) => recommendedSteps.add(rec));
+      }
+
       if (gap >= 0.5) {
         this.getDefaultRecommendations(skill).forEach((rec) => recommendedSteps.add(rec));
       }
@@ -2404,7 +3300,9 @@ export class GapAnalyzerAgent {
   }
 
   /**
-   * Update skill levels based on user input
+   * Update skill levels based on user input. The level is also kept as a
+   * self-assessment for later automatic assessments; persist it with
+   * SkillGapStoragePrisma.saveSelfAssessments to keep it across sessions.
    */
   updateSkillLevel(skillId: string, currentLevel: number, targetLevel?: number): void {
     this.skillCategories.forEach(category => {
@@ -2414,7 +3312,457 @@ export class GapAnalyzerAgent {
         if (targetLevel !== undefined) {
           skill.targetLevel = Math.max(1, Math.min(5, targetLevel));
         }
+        const key = selfAssessmentKey(skill);
+        this.selfAssessments.set(key, {
+          skillId: key,
+          skillName: skill.name,
+          currentLevel: skill.currentLevel,
+          targetLevel: targetLevel !== undefined ? skill.targetLevel : this.selfAssessments.get(key)?.targetLevel,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+    });
+  }
+
+  /**
+   * Blend self-assessed levels into detected ones (see lib/analysis/self-assessment.ts).
+   * Skills the user has not rated keep their detected level.
+   */
+  private applySelfAssessments(skills: Skill[]): Skill[] {
+    if (this.selfAssessments.size === 0) {
+      return skills;
+    }
+    return skills.map((skill) => {
+      const self = this.selfAssessments.get(selfAssessmentKey(skill));
+      if (!self) {
+        return skill;
+      }
+      const reconciliation = reconcileSkillLevel(skill.currentLevel, self);
+      return {
+        ...skill,
+        currentLevel: reconciliation.reconciledLevel,
+        targetLevel: reconciliation.targetOverridden ? this.clampSkillLevel(self.targetLevel as number) : skill.targetLevel,
+        selfAssessment: reconciliation,
+      };
+    });
+  }
+
+  private summarizeSelfAssessments(skills: Skill[]): SelfAssessmentSummary | undefined {
+    const reconciled = skills.filter((skill) => skill.selfAssessment);
+    if (reconciled.length === 0) {
+      return undefined;
+    }
+    const flagged = reconciled
+      .filter((skill) => skill.selfAssessment?.disagreement === 'large')
+      .map((skill) => ({
+        skillId: skill.id,
+        skillName: skill.name,
+        detectedLevel: skill.selfAssessment!.detectedLevel,
+        selfAssessedLevel: skill.selfAssessment!.selfAssessedLevel,
+      }));
+    if (flagged.length > 0) {
+      console.log(`[GapAnalyzer] ⚖️ Self-assessment disagrees with detected level for ${flagged.map((skill) => skill.skillName).join(', ')}`);
+    }
+    return { rule: RECONCILIATION_RULE, reconciledSkills: reconciled.length, flagged };
+  }
+
+  /**
+   * Analyze every repository owned by a GitHub user and merge the results
+   * into a single weighted assessment with per-skill repository evidence
+   */
+  async analyzeGitHubProfile(username: string, options: ProfileAnalysisOptions = {}): Promise<GapAnalysisResult> {
+    if (options.signal && options.signal !== this.abortSignal) {
+      return this.withAbortSignal(options.signal, () => this.analyzeGitHubProfile(username, options));
+    }
+
+    const maxRepositories = Math.min(
+      MAX_PROFILE_REPOSITORIES,
+      Math.max(1, Math.floor(options.maxRepositories ?? 10))
+    );
+    const excluded = new Set((options.exclude ?? []).map((name) => name.toLowerCase()));
+    const roleProfile = findRoleProfile(options.roleProfile);
+
+    console.log(`[GapAnalyzer] Analyzing GitHub profile: ${username}`);
+
+    const repositories = await githubClient.getUserRepositories(username, {
+      type: 'owner',
+      sort: 'pushed',
+      direction: 'desc',
+      per_page: 100,
+    });
+
+    const summaries: ProfileRepositorySummary[] = [];
+    const candidates: Array<{ repo: GitHubRepository; weight: number }> = [];
+
+    repositories.forEach((repo) => {
+      const weight = this.resolveProfileRepositoryWeight(repo, options.weights);
+      const isExcluded =
+        excluded.has(repo.name.toLowerCase()) ||
+        excluded.has(repo.full_name.toLowerCase()) ||
+        weight <= 0 ||
+        repo.archived === true ||
+        (repo.fork === true && !options.includeForks);
+
+      if (isExcluded || candidates.length >= maxRepositories) {
+        summaries.push({ repository: repo.html_url, weight, status: 'excluded' });
+        return;
+      }
+      candidates.push({ repo, weight });
+    });
+
+    const analyzed: ProfileRepositoryAssessment[] = [];
+
+    // Sequential on purpose: each repository analysis already issues several GitHub requests
+    for (const { repo, weight } of candidates) {
+      this.abortSignal?.throwIfAborted();
+      try {
+        const analysis = await this.analyzeGitHubRepository(repo.html_url);
+        const assessment = await this.generateAutomaticSkillAssessment(analysis, { roleProfile });
+        analyzed.push({
+          weight,
+          analysis,
+          assessment,
+          detectedLevels: this.detectedSkillLevels(analysis, roleProfile ?? getDefaultRoleProfile()),
+        });
+        summaries.push({
+          repository: repo.html_url,
+          weight,
+          status: 'analyzed',
+          overallScore: assessment.overallScore,
+          skillLevel: analysis.skillLevel,
+        });
+        console.log(`[GapAnalyzer] ✅ Profile repo analyzed: ${repo.full_name} (weight ${weight})`);
+      } catch (error) {
+        // A cancelled run is not a failed repository
+        this.abortSignal?.throwIfAborted();
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[GapAnalyzer] ⚠️ Skipping ${repo.full_name} in profile analysis: ${errorMessage}`);
+        summaries.push({ repository: repo.html_url, weight, status: 'failed', error: errorMessage });
+      }
+    }
+
+    if (analyzed.length === 0) {
+      throw new Error(`No repositories could be analyzed for GitHub user ${username}`);
+    }
+
+    return this.mergeProfileAssessments(username, analyzed, summaries, roleProfile);
+  }
+
+  private resolveProfileRepositoryWeight(repo: GitHubRepository, weights?: Record<string, number>): number {
+    if (!weights) {
+      return 1;
+    }
+    const weight = weights[repo.full_name] ?? weights[repo.name];
+    return typeof weight === 'number' && Number.isFinite(weight) ? Math.max(0, weight) : 1;
+  }
+
+  /**
+   * Level of every skill an analysis detects, whether or not it leaves a gap,
+   * with self-assessments blended in as generateAutomaticSkillAssessment does
+   */
+  private detectedSkillLevels(analysis: GitHubAnalysis, profile: RoleProfile): Map<string, number> {
+    const levels = new Map<string, number>();
+    this.applySelfAssessments(this.createSkillsFromTechnologies(analysis, profile)).forEach((skill) => {
+      const level = this.clampSkillLevel(skill.currentLevel);
+      // Duplicate entries keep the lowest level, as analyzeSkillGaps does
+      levels.set(skill.id, Math.min(levels.get(skill.id) ?? level, level));
+    });
+    return levels;
+  }
+
+  /**
+   * Weighted merge of per-repository assessments. A skill's level averages
+   * every repository that detects it, including those where it leaves no
+   * gap, so strong repositories are not dropped from the average.
+   */
+  private mergeProfileAssessments(
+    username: string,
+    analyzed: ProfileRepositoryAssessment[],
+    summaries: ProfileRepositorySummary[],
+    roleProfile?: RoleProfile
+  ): GapAnalysisResult {
+    const totalWeight = analyzed.reduce((sum, entry) => sum + entry.weight, 0) || 1;
+    const merged = new Map<string, {
+      base: SkillGap;
+      baseWeight: number;
+      levelSum: number;
+      weightSum: number;
+      targetLevel: number;
+      importance: number;
+      confidence: SkillGapConfidence;
+      evidence: SkillRepositoryEvidence[];
+      skillEvidence: SkillEvidence[];
+    }>();
+
+    analyzed.forEach(({ weight, analysis, assessment }) => {
+      assessment.skillGaps.forEach((gap) => {
+        const evidence: SkillRepositoryEvidence = {
+          repository: analysis.repository,
+          weight,
+          currentLevel: gap.skill.currentLevel,
+          gap: gap.gap,
+        };
+        const skillEvidence = (gap.evidence ?? []).map((item) => ({ ...item, repository: analysis.repository }));
+        const existing = merged.get(gap.skill.id);
+        if (!existing) {
+          merged.set(gap.skill.id, {
+            base: gap,
+            baseWeight: weight,
+            levelSum: gap.skill.currentLevel * weight,
+            weightSum: weight,
+            targetLevel: gap.skill.targetLevel,
+            importance: gap.skill.importance,
+            confidence: gap.confidence,
+            evidence: [evidence],
+            skillEvidence,
+          });
+          return;
+        }
+        existing.levelSum += gap.skill.currentLevel * weight;
+        existing.weightSum += weight;
+        existing.targetLevel = Math.max(existing.targetLevel, gap.skill.targetLevel);
+        existing.importance = Math.max(existing.importance, gap.skill.importance);
+        existing.confidence = this.mergeConfidence(existing.confidence, gap.confidence);
+        existing.evidence.push(evidence);
+        existing.skillEvidence = mergeSkillEvidence(existing.skillEvidence, skillEvidence);
+        if (weight > existing.baseWeight) {
+          existing.base = gap;
+          existing.baseWeight = weight;
+        }
+      });
+    });
+
+    analyzed.forEach(({ weight, analysis, assessment, detectedLevels }) => {
+      detectedLevels.forEach((level, skillId) => {
+        const entry = merged.get(skillId);
+        if (!entry || assessment.skillGaps.some((gap) => gap.skill.id === skillId)) {
+          return;
+        }
+        entry.levelSum += level * weight;
+        entry.weightSum += weight;
+        entry.evidence.push({ repository: analysis.repository, weight, currentLevel: level, gap: 0 });
+      });
+    });
+
+    const skillGaps: SkillGap[] = Array.from(merged.values())
+      .map((entry) => {
+        const skill: Skill = {
+          ...entry.base.skill,
+          currentLevel: this.clampSkillLevel(entry.levelSum / entry.weightSum),
+          targetLevel: this.clampSkillLevel(entry.targetLevel),
+          importance: entry.importance,
+        };
+        const gap = Math.max(0, skill.targetLevel - skill.currentLevel);
+        return {
+          ...entry.base,
+          skill,
+          gap,
+          priority: gap * skill.importance,
+          confidence: entry.confidence,
+          repositoryEvidence: entry.evidence.sort((a, b) => b.weight - a.weight),
+          evidence: entry.skillEvidence,
+        };
+      })
+      .filter((gap) => gap.gap >= 0.05)
+      .sort((a, b) => b.priority - a.priority);
+
+    const overallScore = Math.round(
+      analyzed.reduce((sum, entry) => sum + entry.assessment.overallScore * entry.weight, 0) / totalWeight
+    );
+
+    const weightedLevel =
+      analyzed.reduce((sum, entry) => sum + this.getBaseLevelFromSkillLevel(entry.analysis.skillLevel) * entry.weight, 0) /
+      totalWeight;
+    const skillLevel: GitHubAnalysis['skillLevel'] =
+      weightedLevel >= 3.5 ? 'advanced' : weightedLevel >= 2.5 ? 'intermediate' : 'beginner';
+
+    const weightedUnion = (select: (analysis: GitHubAnalysis) => string[]): string[] => {
+      const scores = new Map<string, number>();
+      analyzed.forEach(({ weight, analysis }) => {
+        select(analysis).forEach((item) => scores.set(item, (scores.get(item) ?? 0) + weight));
+      });
+      return Array.from(scores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([item]) => item);
+    };
+
+    const githubAnalysis: GitHubAnalysis = {
+      repository: `https://github.com/${username}`,
+      technologies: weightedUnion((analysis) => analysis.technologies),
+      frameworks: weightedUnion((analysis) => analysis.frameworks),
+      languages: weightedUnion((analysis) => analysis.languages),
+      tools: weightedUnion((analysis) => analysis.tools),
+      skillLevel,
+      recommendations: this.mergeUniqueStrings(
+        [],
+        analyzed.flatMap(({ analysis }) => analysis.recommendations)
+      ).slice(0, 10),
+      specialties: weightedUnion((analysis) => analysis.specialties ?? []),
+    };
+
+    return {
+      overallScore,
+      skillGaps,
+      categories: this.skillCategories,
+      recommendations: this.mergeUniqueStrings(
+        this.generateGeneralRecommendations(skillGaps),
+        this.generateGitHubSpecificRecommendations(githubAnalysis)
+      ),
+      learningPath: this.generateLearningPath(skillGaps),
+      githubAnalysis,
+      analysisType: 'github-profile',
+      ...(roleProfile ? { roleProfile: { id: roleProfile.id, name: roleProfile.name } } : {}),
+      profileAnalysis: {
+        username,
+        repositories: summaries,
+      },
+    };
+  }
+
+  /**
+   * Skill gaps from an AI chat transcript. Questions are clustered by
+   * technology; each technology the developer keeps asking about becomes a
+   * skill at the level its questions imply, measured against the role
+   * profile's target. Stored self-assessments are blended in as for
+   * repository analyses.
+   */
+  analyzeChatTranscript(
+    chat: ChatScrapeResult,
+    options: { roleProfile?: string | RoleProfile } = {}
+  ): GapAnalysisResult {
+    const topics = clusterChatTopics(chat);
+    const profile = findRoleProfile(options.roleProfile) ?? getDefaultRoleProfile();
+
+    const skills: Skill[] = topics.clusters
+      .filter((cluster) => cluster.repeated)
+      .flatMap((cluster) => {
+        const skillInfo = this.resolveTechnologySkill(cluster.name);
+        return skillInfo
+          ? [{
+              id: skillInfo.id,
+              name: skillInfo.name,
+              currentLevel: cluster.estimatedLevel,
+              targetLevel: this.getTargetLevelForTechnology(cluster.name, profile),
+              importance: skillInfo.importance,
+              category: skillInfo.category,
+            }]
+          : [];
+      });
+
+    const reconciledSkills = this.applySelfAssessments(skills);
+    const result = this.analyzeSkillGaps(reconciledSkills, { roleProfile: options.roleProfile });
+    result.selfAssessment = this.summarizeSelfAssessments(reconciledSkills);
+    result.recommendations = this.mergeUniqueStrings(
+      topics.repeatedTopics
+        .slice(0, 3)
+        .map((topic) => `Work through a structured ${topic} guide instead of asking about it question by question`),
+      result.recommendations
+    );
+    result.chatAnalysis = topics;
+    result.analysisType = 'ai-chat';
+
+    return result;
+  }
+
+  /**
+   * Place a repository's quality metrics among comparable public repositories:
+   * same primary language, framework and size band. Candidates come from
+   * GitHub repository search ranked with scoreRepositoryQuality; each peer is
+   * measured with the same quality analysis, one at a time and under the
+   * benchmark phase budget. Returns null when the analysis has no quality
+   * metrics or no language to compare by.
+   */
+  async benchmarkAgainstPeers(
+    analysis: GitHubAnalysis,
+    options: { maxPeers?: number; signal?: AbortSignal } = {}
+  ): Promise<PeerBenchmark | null> {
+    const cohort = buildPeerCohort({
+      languages: analysis.languages,
+      frameworks: analysis.frameworks,
+      sizeKb: analysis.metadata?.repoSizeKb ?? 0,
+    });
+    if (!analysis.qualityMetrics || !cohort) {
+      return null;
+    }
+
+    const maxPeers = Math.min(Math.max(options.maxPeers ?? 5, 1), 10);
+    const query = buildPeerSearchQuery(cohort);
+    const signal = options.signal ?? this.abortSignal;
+    console.log(`[GapAnalyzer] 📊 Benchmarking against ${cohort.label}: ${query}`);
+
+    const { items } = await githubClient.searchRepositories(query, { sort: 'stars', order: 'desc', per_page: 30 });
+    const subject = analysis.repository.toLowerCase().replace(/\.git$/, '');
+    const candidates = items
+      .filter((repo) => !subject.endsWith(`/${repo.full_name.toLowerCase()}`))
+      .map((repo) => ({
+        repo,
+        selectionScore: scoreRepositoryQuality({
+          stars: repo.stargazers_count,
+          description: repo.description ?? '',
+          forks: repo.forks_count,
+          updated_at: repo.updated_at,
+        }),
+      }))
+      .sort((a, b) => b.selectionScore - a.selectionScore)
+      .slice(0, maxPeers);
+
+    const peers: BenchmarkPeer[] = [];
+    const peerMetrics: BenchmarkMetric[][] = [];
+    const skipped: PeerBenchmark['skipped'] = [];
+
+    // Sequential on purpose: each peer's quality analysis reads several files from GitHub
+    for (const { repo, selectionScore } of candidates) {
+      signal?.throwIfAborted();
+      try {
+        const metrics = await withPhaseBudget('benchmark', signal, (peerSignal) =>
+          this.measurePeerQuality(repo, peerSignal)
+        );
+        peers.push({
+          repository: repo.full_name,
+          url: repo.html_url,
+          stars: repo.stargazers_count,
+          selectionScore,
+          overallScore: metrics.overallQuality.score,
+        });
+        peerMetrics.push(extractBenchmarkMetrics(metrics));
+      } catch (error) {
+        if (signal?.aborted && !(error instanceof PhaseTimeoutError)) {
+          throw error;
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`[GapAnalyzer] ⚠️ Skipping peer ${repo.full_name}: ${reason}`);
+        skipped.push({ repository: repo.full_name, reason });
+      }
+    }
+
+    const metrics = rankAgainstPeers(cohort, extractBenchmarkMetrics(analysis.qualityMetrics), peerMetrics);
+    console.log(`[GapAnalyzer] 📊 Benchmarked against ${peers.length} peers (${skipped.length} skipped)`);
+    return { cohort, query, peers, metrics, skipped };
+  }
+
+  /**
+   * QualityMetrics for a peer repository. A separate agent keeps the peer's
+   * requests out of this analysis's repository source, MCP context and
+   * rate-limit report; a peer that hits the rate limit is rejected rather
+   * than scored from defaults.
+   */
+  private async measurePeerQuality(repo: GitHubRepository, signal: AbortSignal): Promise<QualityMetrics> {
+    const peerAgent = new GapAnalyzerAgent();
+    peerAgent.setResponseCache(this.responseCache, { bypass: this.bypassResponseCache });
+    return peerAgent.withAbortSignal(signal, async () => {
+      const [owner, name] = repo.full_name.split('/');
+      const [contentsData, tree] = await Promise.all([
+        peerAgent.fetchGitHubData(`https://api.github.com/repos/${owner}/${name}/contents`, {
+          resourceLabel: `${repo.full_name} contents`,
+        }),
+        peerAgent.fetchRepositoryTree(owner, name, repo.default_branch ?? 'HEAD'),
+      ]);
+      const filePaths = tree.filter((entry) => entry.type === 'file').map((entry) => entry.path);
+      const metrics = await peerAgent.analyzeQualityMetrics(repo, Array.isArray(contentsData) ? contentsData : [], filePaths);
+      if (peerAgent.rateLimitedRequests.labels.length > 0) {
+        throw new Error(`GitHub rate limit reached while reading ${peerAgent.rateLimitedRequests.labels[0]}`);
       }
+      return metrics;
     });
   }
 
@@ -2429,20 +3777,51 @@ export class GapAnalyzerAgent {
    */
   async analyzeGitHubRepositoryAgentic(
     repoUrl: string,
-    options: { deepAnalysis?: boolean } = {}
+    options: {
+      deepAnalysis?: boolean;
+      /** Branch, tag or commit to analyze instead of the default branch */
+      ref?: string;
+      tokenBudget?: number;
+      chunkTokens?: number;
+      onReviewProgress?: (progress: CodeReviewProgress) => void;
+      /** Typed step events for streaming routes (see lib/agents/progress-events.ts) */
+      onProgress?: AgentProgressListener;
+      /** Cancels the analysis; each phase also runs under its time budget */
+      signal?: AbortSignal;
+    } = {}
   ): Promise<GitHubAnalysis & { 
     agenticAnalysis?: AgenticCodeAnalysis; 
     readmeAnalysis?: ReadmeAnalysis;
     analysisMode?: 'fast' | 'agentic' | 'fallback';
     fallbackReason?: string;
   }> {
+    if (options.signal && options.signal !== this.abortSignal) {
+      return this.withAbortSignal(options.signal, () => this.analyzeGitHubRepositoryAgentic(repoUrl, options));
+    }
+
+    const hostedProvider = this.resolveHostedProvider(repoUrl, options.ref);
+    if (hostedProvider) {
+      return this.analyzeRepositorySource(hostedProvider, options);
+    }
+
     console.log(`[GapAnalyzer Agentic] Starting analysis for ${repoUrl}`);
+    const report = createProgressReporter('analysis', options.onProgress);
+    report({ type: 'started', message: `Analyzing ${repoUrl}${options.ref ? ` @ ${options.ref}` : ''}` });
     
     // FALLBACK LAYER 1: Always run heuristic analysis first
     let basicAnalysis: GitHubAnalysis;
     try {
-      basicAnalysis = await this.analyzeGitHubRepository(repoUrl);
+      basicAnalysis = await withPhaseBudget('repository', this.abortSignal, () =>
+        this.analyzeGitHubRepository(repoUrl, { ref: options.ref })
+      );
       console.log(`[GapAnalyzer Agentic] ✅ Heuristic analysis complete`);
+      report({
+        type: 'step',
+        message: `Detected ${[...basicAnalysis.languages, ...basicAnalysis.frameworks].join(', ') || 'no languages'}`,
+      });
+      if (basicAnalysis.rateLimit) {
+        report({ type: 'fallback-triggered', reason: `GitHub rate limited, skipped ${basicAnalysis.rateLimit.skipped.length} requests` });
+      }
     } catch (error) {
       console.error('[GapAnalyzer Agentic] ❌ CRITICAL: Heuristic analysis failed:', error);
       throw error; // Can't fallback if even basic analysis fails
@@ -2451,6 +3830,7 @@ export class GapAnalyzerAgent {
     // Fast mode - return heuristic results immediately
     if (!options.deepAnalysis) {
       console.log(`[GapAnalyzer Agentic] Fast mode - returning heuristic results`);
+      report({ type: 'completed', message: 'Heuristic analysis complete' });
       return { ...basicAnalysis, analysisMode: 'fast' };
     }
 
@@ -2463,21 +3843,34 @@ export class GapAnalyzerAgent {
     let analysisMode: 'agentic' | 'fallback' = 'agentic';
 
     try {
-      const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-      if (!match) {
-        throw new Error('Invalid GitHub repository URL format');
-      }
-      
-      const [, owner, repo] = match;
-      const cleanRepo = repo.replace(/\.git$/, '');
+      const { owner, repo: cleanRepo } = this.resolveRepositoryReference(repoUrl);
 
       // FALLBACK LAYER 2: README analysis (independent, won't fail entire analysis)
       try {
         console.log(`[GapAnalyzer Agentic] Fetching README...`);
-        const readmeContent = await this.fetchReadmeContent(owner, cleanRepo);
-        readmeAnalysis = await this.analyzeReadmeQualityAgentic(readmeContent);
+        const readmeRef = basicAnalysis.commitSha ?? basicAnalysis.ref;
+        const readme = await this.fetchReadme(owner, cleanRepo, readmeRef);
+        // Relative links and images in the README are checked against the tree
+        const readmeTree = readmeRef ? await this.fetchRepositoryTree(owner, cleanRepo, readmeRef) : [];
+        // A README review that runs out of time is scored heuristically
+        const readmeBudget = startPhaseBudget('readme', this.abortSignal);
+        try {
+          readmeAnalysis = await this.analyzeReadmeQualityAgentic(readme.content, {
+            signal: readmeBudget.signal,
+            readmePath: readme.path,
+            filePaths: readmeTree.length > 0 ? readmeTree.map((entry) => entry.path) : undefined,
+          });
+        } finally {
+          readmeBudget.dispose();
+        }
+        this.abortSignal?.throwIfAborted();
+        if (readmeBudget.signal.reason instanceof PhaseTimeoutError) {
+          report({ type: 'fallback-triggered', reason: `${readmeBudget.signal.reason.message}, README scored heuristically` });
+        }
         console.log(`[GapAnalyzer Agentic] ✅ README analysis: ${readmeAnalysis.qualityScore}/100`);
+        report({ type: 'readme-scored', score: readmeAnalysis.qualityScore });
       } catch (readmeError) {
+        this.abortSignal?.throwIfAborted();
         console.warn('[GapAnalyzer Agentic] ⚠️ README analysis failed:', 
           readmeError instanceof Error ? readmeError.message : 'Unknown error');
         // Don't fail entire analysis if README fails
@@ -2487,19 +3880,48 @@ export class GapAnalyzerAgent {
       let keyFiles: Array<{ path: string; content: string; language: string }> = [];
       try {
         console.log(`[GapAnalyzer Agentic] Selecting code files...`);
-        keyFiles = await this.selectKeyFilesForAnalysis(owner, cleanRepo, basicAnalysis.languages);
+        keyFiles = await withPhaseBudget('repository', this.abortSignal, () =>
+          this.selectKeyFilesForAnalysis(owner, cleanRepo, basicAnalysis.languages, {
+            ref: basicAnalysis.commitSha ?? basicAnalysis.ref ?? basicAnalysis.metadata?.defaultBranch ?? undefined,
+            commitHistory: basicAnalysis.commitHistory,
+            tokenBudget: options.tokenBudget,
+          })
+        );
         console.log(`[GapAnalyzer Agentic] Selected ${keyFiles.length} files`);
+        keyFiles.forEach((file) => report({ type: 'file-selected', path: file.path, language: file.language }));
+        // Import lines in the reviewed files are the most specific evidence for technology skills
+        basicAnalysis.codeEvidence = [...findCodeUsages(keyFiles), ...(basicAnalysis.codeEvidence ?? [])];
       } catch (fileError) {
+        this.abortSignal?.throwIfAborted();
         console.warn('[GapAnalyzer Agentic] ⚠️ File selection failed:', 
           fileError instanceof Error ? fileError.message : 'Unknown error');
       }
 
       // FALLBACK LAYER 4: AI code analysis (optional)
       if (keyFiles.length > 0) {
+        // Chunks still under review when the budget runs out fail; finished ones are kept
+        const reviewBudget = startPhaseBudget('code-review', this.abortSignal);
         try {
           console.log(`[GapAnalyzer Agentic] Running AI code analysis...`);
-          agenticAnalysis = await this.analyzeCodeQualityAgentic(keyFiles, basicAnalysis);
+          agenticAnalysis = await this.analyzeCodeQualityAgentic(keyFiles, basicAnalysis, {
+            signal: reviewBudget.signal,
+            chunkTokens: options.chunkTokens,
+            onProgress: (progress) => {
+              options.onReviewProgress?.(progress);
+              if (progress.status !== 'started') {
+                report({
+                  type: 'step',
+                  message: `Review ${progress.chunkIndex + 1}/${progress.totalChunks} (${progress.label}) ${progress.status}`,
+                });
+              }
+            },
+          });
           console.log(`[GapAnalyzer Agentic] ✅ Code quality: ${agenticAnalysis.overallQuality}/100 (confidence: ${agenticAnalysis.confidence})`);
+          this.abortSignal?.throwIfAborted();
+          if (reviewBudget.signal.reason instanceof PhaseTimeoutError) {
+            analysisMode = 'fallback';
+            fallbackReason = reviewBudget.signal.reason.message;
+          }
 
           // Update skill level only if AI is confident
           if (agenticAnalysis.confidence > 0.7) {
@@ -2515,10 +3937,13 @@ export class GapAnalyzerAgent {
           ].slice(0, 10);
 
         } catch (aiError) {
+          this.abortSignal?.throwIfAborted();
           console.warn('[GapAnalyzer Agentic] ⚠️ AI code analysis failed:', 
             aiError instanceof Error ? aiError.message : 'Unknown error');
           analysisMode = 'fallback';
           fallbackReason = aiError instanceof Error ? aiError.message : 'AI analysis error';
+        } finally {
+          reviewBudget.dispose();
         }
       } else {
         console.warn('[GapAnalyzer Agentic] ⚠️ No code files available for AI analysis');
@@ -2532,32 +3957,133 @@ export class GapAnalyzerAgent {
         agenticAnalysis,
         readmeAnalysis,
         analysisMode,
-        fallbackReason
+        fallbackReason,
+        rateLimit: this.describeRateLimitStatus(),
       };
 
       if (analysisMode === 'fallback') {
         console.log(`[GapAnalyzer Agentic] ⚠️ Returning fallback results: ${fallbackReason}`);
+        report({ type: 'fallback-triggered', reason: fallbackReason ?? 'AI analysis unavailable' });
       } else {
         console.log(`[GapAnalyzer Agentic] ✅ Full agentic analysis complete`);
       }
+      report({ type: 'completed', message: analysisMode === 'fallback' ? 'Analysis complete (heuristic fallback)' : 'AI analysis complete' });
 
       return result;
 
     } catch (error) {
+      // A cancelled run stops here; everything else falls back
+      this.abortSignal?.throwIfAborted();
       // FINAL FALLBACK: Return heuristic analysis with error context
       console.error('[GapAnalyzer Agentic] ❌ Deep analysis failed, using heuristic fallback:', error);
+      report({ type: 'fallback-triggered', reason: error instanceof Error ? error.message : 'Deep analysis failed' });
+      report({ type: 'completed', message: 'Analysis complete (heuristic fallback)' });
       return {
         ...basicAnalysis,
         analysisMode: 'fallback',
-        fallbackReason: error instanceof Error ? error.message : 'Unknown error during AI analysis'
+        fallbackReason: error instanceof Error ? error.message : 'Unknown error during AI analysis',
+        rateLimit: this.describeRateLimitStatus(),
       };
     }
   }
 
   /**
-   * Select key files for AI analysis (avoid overwhelming the LLM)
+   * Analyze a repository that is not on GitHub (local checkout, uploaded archive,
+   * GitLab or Bitbucket). Runs the same heuristic and agentic pipeline as
+   * analyzeGitHubRepositoryAgentic without contacting the GitHub API.
+   */
+  async analyzeRepositorySource(
+    source: RepositorySource,
+    options: Parameters<GapAnalyzerAgent['analyzeGitHubRepositoryAgentic']>[1] = {}
+  ): ReturnType<GapAnalyzerAgent['analyzeGitHubRepositoryAgentic']> {
+    return this.withRepositorySource(source, () => this.analyzeGitHubRepositoryAgentic(source.label, options));
+  }
+
+  /**
+   * Select key files for AI analysis (avoid overwhelming the LLM).
+   * Lists the git tree once, reads the most promising candidates in parallel,
+   * ranks them by import graph centrality and churn, and packs the best into
+   * the review token budget (`tokenBudget`, then CODE_REVIEW_TOKEN_BUDGET).
    */
   private async selectKeyFilesForAnalysis(
+    owner: string,
+    repo: string,
+    primaryLanguages: string[],
+    options: { ref?: string; commitHistory?: CommitHistoryAnalysis; tokenBudget?: number } = {}
+  ): Promise<Array<{ path: string; content: string; language: string }>> {
+    const MAX_CANDIDATES = 40;
+    const MAX_DEPENDENCY_FILES = 10;
+    const ref = options.ref ?? 'HEAD';
+    const tokenBudget = resolveReviewTokenBudget(options.tokenBudget ?? process.env.CODE_REVIEW_TOKEN_BUDGET);
+    const churn = options.commitHistory?.fileChurn ?? [];
+
+    const tree = (await this.fetchRepositoryTree(owner, repo, ref)).filter((entry) => entry.type === 'file');
+    if (tree.length === 0) {
+      console.log('[GapAnalyzer Agentic] Git tree unavailable, guessing key file paths instead');
+      return this.selectKeyFilesByPathGuess(owner, repo, primaryLanguages);
+    }
+
+    const readFiles = async (paths: string[]) => {
+      const files = await Promise.all(
+        paths.map(async (path) => {
+          try {
+            const content = await this.fetchGitHubData(
+              `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${path}`,
+              { raw: true, allow404: true, resourceLabel: `${owner}/${repo} ${path}` }
+            );
+            return typeof content === 'string' ? { path, content } : null;
+          } catch (error) {
+            console.log(`[GapAnalyzer Agentic] Could not read candidate ${path}:`, error);
+            return null;
+          }
+        })
+      );
+      return files.filter((file): file is { path: string; content: string } => file !== null);
+    };
+
+    const treePaths = tree.map((entry) => entry.path);
+    const candidates = listSelectionCandidates(tree, {
+      languages: primaryLanguages,
+      churn,
+      limit: MAX_CANDIDATES,
+    });
+    const files = await readFiles(candidates);
+
+    // Shared modules imported by several candidates are worth reading even when their paths ranked low
+    const dependencies = findUnreadDependencies(
+      buildImportGraph(files, treePaths),
+      files.map((file) => file.path),
+      { limit: MAX_DEPENDENCY_FILES }
+    );
+    if (dependencies.length > 0) {
+      files.push(...(await readFiles(dependencies)));
+    }
+
+    const selection = selectFilesForReview(files, {
+      treePaths,
+      churn,
+      tokenBudget,
+      fallbackLanguage: primaryLanguages[0] || 'Unknown',
+    });
+    selection.files.forEach((file) => {
+      console.log(
+        `[GapAnalyzer Agentic] ✓ Selected ${file.path} (score ${file.score}, ${file.tokens} tokens${file.truncated ? ', truncated' : ''}${file.reasons.length > 0 ? ` - ${file.reasons.join(', ')}` : ''})`
+      );
+    });
+    console.log(
+      `[GapAnalyzer Agentic] Packed ${selection.files.length} of ${selection.candidatesConsidered} read files into ${selection.tokensUsed}/${selection.tokenBudget} tokens`
+    );
+
+    return selection.files.length > 0
+      ? selection.files.map(({ path, content, language }) => ({ path, content, language }))
+      : this.selectKeyFilesByPathGuess(owner, repo, primaryLanguages);
+  }
+
+  /**
+   * Guess key file paths through the contents API. Used when the git tree is
+   * unavailable.
+   */
+  private async selectKeyFilesByPathGuess(
     owner: string,
     repo: string,
     primaryLanguages: string[]
@@ -2859,16 +4385,19 @@ export class GapAnalyzerAgent {
   }
 
   /**
-   * Fetch README content from GitHub
+   * Fetch README content from GitHub at `ref` (the default branch when omitted)
    */
-  private async fetchReadmeContent(owner: string, repo: string): Promise<string> {
+  private async fetchReadme(owner: string, repo: string, ref?: string): Promise<{ path: string; content: string }> {
     try {
       const readmeData = await this.fetchGitHubData(
-        `https://api.github.com/repos/${owner}/${repo}/readme`
+        `https://api.github.com/repos/${owner}/${repo}/readme${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`
       );
       
       if (readmeData.content && readmeData.encoding === 'base64') {
-        return Buffer.from(readmeData.content, 'base64').toString('utf-8');
+        return {
+          path: typeof readmeData.path === 'string' ? readmeData.path : 'README.md',
+          content: Buffer.from(readmeData.content, 'base64').toString('utf-8'),
+        };
       }
       throw new Error('No README content found');
     } catch (error) {
@@ -2878,12 +4407,21 @@ export class GapAnalyzerAgent {
 
   /**
    * Analyze code quality using AI (AI SDK)
-   * Falls back to heuristic assessment if AI fails
+   * Files are reviewed in module-sized chunks (map) whose partial analyses are
+   * merged into one result (reduce). Falls back to heuristic assessment if
+   * every chunk fails.
    */
   private async analyzeCodeQualityAgentic(
     files: Array<{ path: string; content: string; language: string }>,
-    basicAnalysis: GitHubAnalysis
+    basicAnalysis: GitHubAnalysis,
+    options: {
+      chunkTokens?: number;
+      onProgress?: (progress: CodeReviewProgress) => void;
+      /** Aborts chunk reviews still in flight */
+      signal?: AbortSignal;
+    } = {}
   ): Promise<AgenticCodeAnalysis> {
+    const MAX_CONCURRENT_CHUNKS = 3;
     console.log(`[GapAnalyzer Agentic] Analyzing code quality with AI...`);
 
     try {
@@ -2892,63 +4430,71 @@ export class GapAnalyzerAgent {
         throw new Error('No files provided for analysis');
       }
 
-      // Check for OpenAI API key
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error('OPENAI_API_KEY not configured');
-      }
-
-      const codeContext = files.map(f => 
-        `File: ${f.path}\n\`\`\`${f.language}\n${f.content}\n\`\`\``
-      ).join('\n\n');
-
-      const prompt = `You are an expert code reviewer analyzing a ${basicAnalysis.languages.join(', ')} project.
+      // Check that an LLM endpoint is configured
+      assertLlmConfigured();
 
-Repository Technologies:
-- Languages: ${basicAnalysis.languages.join(', ')}
-- Frameworks: ${basicAnalysis.frameworks.join(', ') || 'None detected'}
-- Tools: ${basicAnalysis.tools.join(', ') || 'None detected'}
+      const chunkTokens = resolveReviewTokenBudget(
+        options.chunkTokens ?? process.env.CODE_REVIEW_CHUNK_TOKENS,
+        DEFAULT_REVIEW_CHUNK_TOKENS
+      );
+      const chunks = groupFilesIntoReviewChunks(files, chunkTokens);
+      console.log(`[GapAnalyzer Agentic] Reviewing ${files.length} files in ${chunks.length} chunk(s)`);
 
-Code Files to Analyze:
-${codeContext}
+      const reportProgress = (progress: CodeReviewProgress) => {
+        try {
+          options.onProgress?.(progress);
+        } catch (error) {
+          console.warn('[GapAnalyzer Agentic] ⚠️ Review progress listener failed:', error);
+        }
+      };
 
-Please analyze this code and provide:
-1. Overall quality assessment (0-100)
-2. Developer skill level (beginner/intermediate/advanced)
-3. Architecture patterns used
-4. Code smells and issues
-5. Best practices (implemented or missing)
-6. Specific recommendations for improvement
-7. Confidence in your assessment (0-1)
+      const results: ChunkReviewResult[] = new Array(chunks.length);
+      let nextChunk = 0;
+      const reviewNextChunk = async (): Promise<void> => {
+        while (nextChunk < chunks.length) {
+          const chunk = chunks[nextChunk++];
+          const progressBase = {
+            chunkIndex: chunk.index,
+            totalChunks: chunks.length,
+            label: chunk.label,
+            files: chunk.files.map((file) => file.path),
+          };
+          reportProgress({ ...progressBase, status: 'started' });
 
-Focus on: code organization, error handling, type safety, testing, documentation, security, and maintainability.`;
+          try {
+            const analysis = await this.reviewCodeChunk(chunk, chunks.length, basicAnalysis, options.signal);
+            results[chunk.index] = { chunk, analysis };
+            console.log(
+              `[GapAnalyzer Agentic] ✅ Chunk ${chunk.index + 1}/${chunks.length} (${chunk.label}): ${analysis.overallQuality}/100`
+            );
+            reportProgress({ ...progressBase, status: 'completed', analysis });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            results[chunk.index] = { chunk, error: message };
+            console.warn(
+              `[GapAnalyzer Agentic] ⚠️ Chunk ${chunk.index + 1}/${chunks.length} (${chunk.label}) failed: ${message}`
+            );
+            reportProgress({ ...progressBase, status: 'failed', error: message });
+          }
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(MAX_CONCURRENT_CHUNKS, chunks.length) }, () => reviewNextChunk())
+      );
 
-      const { object } = await generateObject({
-        model: openai('gpt-4o-mini'),
-        schema: z.object({
-          overallQuality: z.number().min(0).max(100).describe('Overall code quality score'),
-          skillLevel: z.enum(['beginner', 'intermediate', 'advanced']).describe('Developer skill level based on code'),
-          architecturePatterns: z.array(z.string()).describe('Detected architecture patterns (e.g., MVC, microservices, clean architecture)'),
-          codeSmells: z.array(z.object({
-            type: z.string().describe('Type of code smell'),
-            severity: z.enum(['high', 'medium', 'low']),
-            description: z.string().describe('What the issue is'),
-            location: z.string().optional().describe('File or function where found'),
-            suggestion: z.string().describe('How to fix it')
-          })).describe('Code smells and issues found'),
-          bestPractices: z.array(z.object({
-            name: z.string().describe('Best practice name'),
-            implemented: z.boolean().describe('Whether it is implemented'),
-            importance: z.enum(['high', 'medium', 'low']),
-            suggestion: z.string().optional().describe('How to implement if missing')
-          })).describe('Best practices evaluation'),
-          recommendations: z.array(z.string()).describe('Top 5 actionable recommendations'),
-          confidence: z.number().min(0).max(1).describe('Confidence in this assessment')
-        }),
-        prompt,
-        maxRetries: 2 // Retry failed requests up to 2 times
-      });
+      const failed = results.filter((result) => !result.analysis);
+      if (failed.length === results.length) {
+        throw new Error(failed[0]?.error ?? 'All code review chunks failed');
+      }
+      if (results.length === 1) {
+        console.log(`[GapAnalyzer Agentic] ✅ AI code analysis complete`);
+        return results[0].analysis!;
+      }
 
-      console.log(`[GapAnalyzer Agentic] ✅ AI code analysis complete`);
+      const object = mergeChunkReviews(results);
+      console.log(
+        `[GapAnalyzer Agentic] ✅ AI code analysis complete (${results.length - failed.length}/${results.length} chunks merged)`
+      );
       return object;
 
     } catch (error) {
@@ -2957,10 +4503,10 @@ Focus on: code organization, error handling, type safety, testing, documentation
       console.warn(`[GapAnalyzer Agentic] ⚠️ AI code analysis failed: ${errorMessage}`);
       
       // Provide helpful error context
-      if (errorMessage.includes('API key')) {
-        console.warn('[GapAnalyzer Agentic] → Set OPENAI_API_KEY in environment variables');
+      if (errorMessage.includes('API key') || errorMessage.includes('LLM_')) {
+        console.warn('[GapAnalyzer Agentic] → Configure LLM_PROVIDER and its credentials (see .env.example)');
       } else if (errorMessage.includes('rate limit')) {
-        console.warn('[GapAnalyzer Agentic] → OpenAI rate limit reached, using fallback');
+        console.warn('[GapAnalyzer Agentic] → LLM rate limit reached, using fallback');
       } else if (errorMessage.includes('timeout')) {
         console.warn('[GapAnalyzer Agentic] → Request timeout, using fallback');
       }
@@ -2983,10 +4529,337 @@ Focus on: code organization, error handling, type safety, testing, documentation
     }
   }
 
+  /**
+   * Review one chunk of files with a single structured LLM call
+   */
+  private async reviewCodeChunk(
+    chunk: CodeReviewChunk,
+    totalChunks: number,
+    basicAnalysis: GitHubAnalysis,
+    signal?: AbortSignal
+  ): Promise<AgenticCodeAnalysis> {
+    const files = chunk.files;
+    const codeContext = files.map(f => 
+      `File: ${f.path}\n\`\`\`${f.language}\n${f.content}\n\`\`\``
+    ).join('\n\n');
+
+    // Measured metrics ground the review; repository-wide ones are preferred for a single-chunk review
+    const staticMetrics =
+      totalChunks === 1
+        ? basicAnalysis.qualityMetrics?.codeQuality.staticMetrics ?? computeStaticCodeMetrics(files)
+        : computeStaticCodeMetrics(files);
+    const scope =
+      totalChunks > 1
+        ? `This is part ${chunk.index + 1} of ${totalChunks} of the review, covering: ${chunk.label}. Judge only the code shown.\n\n`
+        : '';
+    const workspaceLine = basicAnalysis.workspace
+      ? `- Workspace (${basicAnalysis.workspace.tools.join(', ')}): ${basicAnalysis.workspace.packages
+          .map((pkg) => (pkg.frameworks.length ? `${pkg.path} (${pkg.frameworks.join(', ')})` : pkg.path))
+          .join('; ')}\n`
+      : '';
+
+    const prompt = `You are an expert code reviewer analyzing a ${basicAnalysis.languages.join(', ')} project.
+
+Repository Technologies:
+- Languages: ${basicAnalysis.languages.join(', ')}
+- Frameworks: ${basicAnalysis.frameworks.join(', ') || 'None detected'}
+- Tools: ${basicAnalysis.tools.join(', ') || 'None detected'}
+${workspaceLine}
+${scope}Code Files to Analyze:
+${codeContext}
+
+${formatStaticMetricsForPrompt(staticMetrics)}
+
+Use the static metrics as evidence: cite complexity hotspots, long functions or duplication as code smells where they apply, and keep your overall score consistent with them unless the code clearly shows otherwise.
+
+Please analyze this code and provide:
+1. Overall quality assessment (0-100)
+2. Developer skill level (beginner/intermediate/advanced)
+3. Architecture patterns used
+4. Code smells and issues
+5. Best practices (implemented or missing)
+6. Specific recommendations for improvement
+7. Confidence in your assessment (0-1)
+
+Focus on: code organization, error handling, type safety, testing, documentation, security, and maintainability.`;
+
+    const { object } = await this.generateCachedObject('review', {
+      schema: z.object({
+        overallQuality: z.number().min(0).max(100).describe('Overall code quality score'),
+        skillLevel: z.enum(['beginner', 'intermediate', 'advanced']).describe('Developer skill level based on code'),
+        architecturePatterns: z.array(z.string()).describe('Detected architecture patterns (e.g., MVC, microservices, clean architecture)'),
+        codeSmells: z.array(z.object({
+          type: z.string().describe('Type of code smell'),
+          severity: z.enum(['high', 'medium', 'low']),
+          description: z.string().describe('What the issue is'),
+          location: z.string().optional().describe('File or function where found'),
+          suggestion: z.string().describe('How to fix it')
+        })).describe('Code smells and issues found'),
+        bestPractices: z.array(z.object({
+          name: z.string().describe('Best practice name'),
+          implemented: z.boolean().describe('Whether it is implemented'),
+          importance: z.enum(['high', 'medium', 'low']),
+          suggestion: z.string().optional().describe('How to implement if missing')
+        })).describe('Best practices evaluation'),
+        recommendations: z.array(z.string()).describe('Top 5 actionable recommendations'),
+        confidence: z.number().min(0).max(1).describe('Confidence in this assessment')
+      }),
+      prompt,
+      maxRetries: 2, // Retry failed requests up to 2 times
+      abortSignal: signal,
+    });
+
+    return object;
+  }
+
+  /**
+   * Review a GitHub pull request: fetch its diff and touched files, then tag
+   * code smells, practices and skill movement against the author's gaps.
+   * Falls back to a heuristic review (static metrics on the changed
+   * functions, diff statistics) when the AI review fails.
+   */
+  async reviewPullRequest(
+    pullRequestUrl: string,
+    options: { skillAssessment?: GapAnalysisResult; tokenBudget?: number; signal?: AbortSignal } = {}
+  ): Promise<PullRequestSkillReview> {
+    if (options.signal && options.signal !== this.abortSignal) {
+      return this.withAbortSignal(options.signal, () => this.reviewPullRequest(pullRequestUrl, options));
+    }
+    const MAX_FILE_PAGES = 3;
+    const MAX_TOUCHED_FILES = 20;
+    const { owner, repo, number } = parsePullRequestUrl(pullRequestUrl);
+    const label = `${owner}/${repo}#${number}`;
+
+    console.log(`[GapAnalyzer] Reviewing pull request ${label}`);
+
+    const pullRequest = await this.fetchGitHubData(`https://api.github.com/repos/${owner}/${repo}/pulls/${number}`, {
+      resourceLabel: label,
+    });
+
+    const files: PullRequestDetails['files'] = [];
+    for (let page = 1; page <= MAX_FILE_PAGES; page += 1) {
+      const pageData = await this.fetchGitHubData(
+        `https://api.github.com/repos/${owner}/${repo}/pulls/${number}/files?per_page=100&page=${page}`,
+        { resourceLabel: `${label} files` }
+      );
+      if (!Array.isArray(pageData) || pageData.length === 0) {
+        break;
+      }
+      files.push(
+        ...pageData.map((file: any) => ({
+          path: file.filename,
+          status: file.status,
+          additions: file.additions ?? 0,
+          deletions: file.deletions ?? 0,
+          patch: typeof file.patch === 'string' ? file.patch : undefined,
+          previousPath: file.previous_filename,
+        }))
+      );
+      if (pageData.length < 100) {
+        break;
+      }
+    }
+
+    const details: PullRequestDetails = {
+      owner,
+      repo,
+      number,
+      url: pullRequest.html_url ?? pullRequestUrl,
+      title: pullRequest.title ?? '',
+      body: pullRequest.body ?? '',
+      author: pullRequest.user?.login ?? null,
+      baseRef: pullRequest.base?.ref ?? '',
+      headRef: pullRequest.head?.ref ?? '',
+      headSha: pullRequest.head?.sha ?? '',
+      // Fork PRs keep their files in the fork; a deleted fork leaves only the base repository
+      headRepository: pullRequest.head?.repo?.full_name ?? `${owner}/${repo}`,
+      files,
+    };
+    console.log(`[GapAnalyzer] ${label}: ${files.length} changed files, head ${details.headSha.slice(0, 7)}`);
+
+    // Touched files are read whole at the head commit so metrics and imports see full functions
+    const contents = (
+      await Promise.all(
+        listReadablePullRequestFiles(files, MAX_TOUCHED_FILES).map(async (path) => {
+          try {
+            const content = await this.fetchGitHubData(
+              `https://raw.githubusercontent.com/${details.headRepository}/${details.headSha}/${path}`,
+              { raw: true, allow404: true, resourceLabel: `${label} ${path}` }
+            );
+            return typeof content === 'string' ? { path, content } : null;
+          } catch (error) {
+            console.log(`[GapAnalyzer] Could not read ${path} at ${details.headSha.slice(0, 7)}:`, error);
+            return null;
+          }
+        })
+      )
+    ).filter((file): file is { path: string; content: string } => file !== null);
+
+    const staticMetrics = contents.length > 0
+      ? computeStaticCodeMetrics(contents, files.filter((file) => file.status !== 'removed').map((file) => file.path))
+      : undefined;
+    const touchedSkills = findTouchedSkills(files, contents);
+    const patches = formatPatchesForReview(
+      files,
+      resolveReviewTokenBudget(options.tokenBudget ?? process.env.CODE_REVIEW_TOKEN_BUDGET)
+    );
+    const { additions, deletions } = files.reduce(
+      (totals, file) => ({ additions: totals.additions + file.additions, deletions: totals.deletions + file.deletions }),
+      { additions: 0, deletions: 0 }
+    );
+    const base = {
+      pullRequest: {
+        owner,
+        repo,
+        number,
+        url: details.url,
+        title: details.title,
+        author: details.author,
+        baseRef: details.baseRef,
+        headRef: details.headRef,
+        headSha: details.headSha,
+        headRepository: details.headRepository,
+        filesChanged: files.length,
+        additions,
+        deletions,
+      },
+      staticMetrics,
+      omittedFiles: patches.omitted,
+    };
+
+    if (patches.included.length === 0) {
+      console.warn(`[GapAnalyzer] ⚠️ No reviewable diffs in ${label}, using heuristic review`);
+      return {
+        ...base,
+        ...heuristicPullRequestReview(details, touchedSkills, staticMetrics, options.skillAssessment),
+        reviewMode: 'fallback',
+        fallbackReason: 'No reviewable diffs',
+      };
+    }
+
+    try {
+      const review = await this.reviewPullRequestDiff(details, patches.text, touchedSkills, staticMetrics, options.skillAssessment);
+      console.log(
+        `[GapAnalyzer] ✅ Pull request review: ${review.codeSmells.length} smells, ${review.skillImpacts.length} skill impacts`
+      );
+      return {
+        ...base,
+        summary: review.summary,
+        codeSmells: review.codeSmells,
+        bestPractices: review.bestPractices,
+        skillImpacts: annotateSkillImpacts(review.skillImpacts, options.skillAssessment),
+        reviewMode: 'agentic',
+      };
+    } catch (error) {
+      console.warn(
+        '[GapAnalyzer] ⚠️ AI pull request review failed, using heuristic review:',
+        error instanceof Error ? error.message : error
+      );
+      return {
+        ...base,
+        ...heuristicPullRequestReview(details, touchedSkills, staticMetrics, options.skillAssessment),
+        reviewMode: 'fallback',
+        fallbackReason: error instanceof Error ? error.message : 'AI review error',
+      };
+    }
+  }
+
+  /**
+   * Post a pull request review as a comment through the GitHub MCP server
+   */
+  async postPullRequestReview(review: PullRequestSkillReview): Promise<{ url?: string }> {
+    const client = await this.ensureGitHubMCPClient();
+    if (!client) {
+      throw new Error('Posting a review requires the GitHub MCP server. Set GITHUB_MCP_SERVER_URL and GITHUB_MCP_BEARER.');
+    }
+    const { owner, repo, number } = review.pullRequest;
+    const comment = await client.addComment(owner, repo, number, formatPullRequestReviewComment(review));
+    console.log(`[GapAnalyzer] ✅ Posted review on ${owner}/${repo}#${number}`);
+    return { url: comment?.html_url };
+  }
+
+  /**
+   * Review a pull request diff with a single structured LLM call
+   */
+  private async reviewPullRequestDiff(
+    details: PullRequestDetails,
+    diffText: string,
+    touchedSkills: TouchedSkill[],
+    staticMetrics: StaticCodeMetrics | undefined,
+    skillAssessment?: GapAnalysisResult
+  ) {
+    const gapLines = (skillAssessment?.skillGaps ?? [])
+      .filter((gap) => gap.gap > 0)
+      .slice(0, 15)
+      .map((gap) => `- ${gap.skill.name}: level ${gap.skill.currentLevel}/5, target ${gap.skill.targetLevel}/5`);
+    const touchedLine = touchedSkills.length > 0
+      ? `Skills the changed files use: ${touchedSkills.map((skill) => skill.skillId).join(', ')}\n`
+      : '';
+
+    const prompt = `You are a senior engineer reviewing a pull request to give a developer feedback on their skills.
+
+Pull request: ${details.title}
+${details.body ? `Description:\n${details.body.slice(0, 2000)}\n` : ''}
+${touchedLine}${gapLines.length > 0 ? `The author's current skill gaps:\n${gapLines.join('\n')}\n` : ''}
+Diff:
+${diffText}
+
+${staticMetrics ? formatStaticMetricsForPrompt(staticMetrics) : ''}
+
+Judge only the changed lines (lines starting with "+"); the rest is context.
+
+Please provide:
+1. A two or three sentence summary of the change and its overall quality
+2. Code smells in the changed lines, each with a location as "path:line" using the new file's line numbers
+3. Best practices the change applies or misses
+4. Skills the change advances (demonstrates growth), regresses (introduces a bad habit or removes good practice) or only exercises. Prefer the author's skill gaps when they apply, and name the files involved.`;
+
+    const { object } = await this.generateCachedObject('review', {
+      schema: z.object({
+        summary: z.string().describe('Short summary of the change and its quality'),
+        codeSmells: z.array(z.object({
+          type: z.string().describe('Type of code smell'),
+          severity: z.enum(['high', 'medium', 'low']),
+          description: z.string().describe('What the issue is'),
+          location: z.string().optional().describe('path:line in the new version of the file'),
+          suggestion: z.string().describe('How to fix it')
+        })).describe('Code smells in the changed lines'),
+        bestPractices: z.array(z.object({
+          name: z.string().describe('Best practice name'),
+          implemented: z.boolean().describe('Whether the change applies it'),
+          importance: z.enum(['high', 'medium', 'low']),
+          suggestion: z.string().optional().describe('How to apply it if missed')
+        })).describe('Best practices applied or missed'),
+        skillImpacts: z.array(z.object({
+          skill: z.string().describe('Skill name, e.g. TypeScript, Testing, Error Handling'),
+          direction: z.enum(['advances', 'regresses', 'exercises']),
+          rationale: z.string().describe('Why, citing the change'),
+          files: z.array(z.string()).describe('Changed files that show it')
+        })).describe('Skills the change moves')
+      }),
+      prompt,
+      maxRetries: 2
+    });
+
+    return object;
+  }
+
   /**
    * Calculate heuristic quality score as fallback
    */
   private calculateHeuristicQuality(analysis: GitHubAnalysis): number {
+    const staticMetrics = analysis.qualityMetrics?.codeQuality.staticMetrics;
+    if (staticMetrics && staticMetrics.filesAnalyzed > 0) {
+      // Measured code metrics outweigh repository-level signals
+      return Math.round(staticMetrics.score * 0.8 + this.calculateRepositorySignalQuality(analysis) * 0.2);
+    }
+    return this.calculateRepositorySignalQuality(analysis);
+  }
+
+  /**
+   * Quality estimate from repository-level signals (skill level, stack, activity)
+   */
+  private calculateRepositorySignalQuality(analysis: GitHubAnalysis): number {
     let score = 50; // Base score
 
     // Add points based on heuristic indicators
@@ -3008,10 +4881,19 @@ Focus on: code organization, error handling, type safety, testing, documentation
 
   /**
    * Analyze README quality using AI (AI SDK)
-   * Falls back to heuristic analysis if AI fails
+   * Falls back to heuristic analysis if AI fails. Both attach a structured
+   * audit; pass the README path and repository files to check relative links.
    */
-  async analyzeReadmeQualityAgentic(readmeContent: string): Promise<ReadmeAnalysis> {
+  async analyzeReadmeQualityAgentic(
+    readmeContent: string,
+    options: { signal?: AbortSignal; readmePath?: string; filePaths?: string[] } = {}
+  ): Promise<ReadmeAnalysis> {
     console.log(`[GapAnalyzer Agentic] Analyzing README quality with AI...`);
+    const audit = auditReadme(readmeContent ?? '', { readmePath: options.readmePath, filePaths: options.filePaths });
+    const missingSections = audit.sections.filter((section) => !section.present).map((section) => section.label);
+    const brokenTargets = audit.findings.filter(
+      (finding) => finding.kind === 'broken-link' || finding.kind === 'broken-image'
+    ).length;
 
     try {
       // Validate inputs
@@ -3019,10 +4901,8 @@ Focus on: code organization, error handling, type safety, testing, documentation
         throw new Error('README content is empty');
       }
 
-      // Check for OpenAI API key
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error('OPENAI_API_KEY not configured');
-      }
+      // Check that an LLM endpoint is configured
+      assertLlmConfigured();
 
       // Truncate README if too long (keep first 3000 chars)
       const truncatedReadme = readmeContent.slice(0, 3000);
@@ -3045,10 +4925,11 @@ Evaluate:
 8. Clarity score (how easy to understand)
 9. Completeness score (how thorough it is)
 
-Consider: structure, clarity, completeness, examples, getting started guide, API docs, contributing guidelines.`;
+Consider: structure, clarity, completeness, examples, getting started guide, API docs, contributing guidelines.
+
+Already verified by a structural check (do not restate as suggestions): missing sections: ${missingSections.join(', ') || 'none'}; ${brokenTargets} broken links or images; ${audit.badges.length} badges.`;
 
-      const { object } = await generateObject({
-        model: openai('gpt-4o-mini'),
+      const { object } = await this.generateCachedObject('evaluation', {
         schema: z.object({
           qualityScore: z.number().min(0).max(100).describe('Overall README quality'),
           strengths: z.array(z.string()).describe('What the README does well (2-3 items)'),
@@ -3061,18 +4942,19 @@ Consider: structure, clarity, completeness, examples, getting started guide, API
           completeness: z.number().min(0).max(100).describe('How complete and thorough')
         }),
         prompt,
-        maxRetries: 2
+        maxRetries: 2,
+        abortSignal: options.signal,
       });
 
       console.log(`[GapAnalyzer Agentic] ✅ README analysis complete - Score: ${object.qualityScore}/100`);
-      return object;
+      return { ...object, audit };
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.warn(`[GapAnalyzer Agentic] ⚠️ README analysis failed: ${errorMessage}`);
       
       // Fallback to heuristic README analysis
-      const heuristicAnalysis = this.analyzeReadmeHeuristically(readmeContent);
+      const heuristicAnalysis = this.analyzeReadmeHeuristically(readmeContent, audit);
       console.log('[GapAnalyzer Agentic] Using heuristic README analysis');
       
       return heuristicAnalysis;
@@ -3082,12 +4964,16 @@ Consider: structure, clarity, completeness, examples, getting started guide, API
   /**
    * Heuristic README analysis as fallback
    */
-  private analyzeReadmeHeuristically(content: string): ReadmeAnalysis {
+  private analyzeReadmeHeuristically(content: string, audit: ReadmeAudit): ReadmeAnalysis {
     const lowerContent = content.toLowerCase();
+    const hasSection = (id: string) => audit.sections.some((section) => section.id === id && section.present);
+    const brokenTargets = audit.findings.filter(
+      (finding) => finding.kind === 'broken-link' || finding.kind === 'broken-image'
+    ).length;
     
     // Check for common sections
-    const hasInstallation = /install|setup|getting started/i.test(content);
-    const hasUsageExamples = /```|example|usage/i.test(content);
+    const hasInstallation = hasSection('install') || /install|setup|getting started/i.test(content);
+    const hasUsageExamples = hasSection('usage') || /```|example|usage/i.test(content);
     const hasDocumentation = /api|documentation|reference/i.test(content);
     
     // Count sections (lines starting with #)
@@ -3101,12 +4987,13 @@ Consider: structure, clarity, completeness, examples, getting started guide, API
     if (hasInstallation) qualityScore += 10;
     if (hasUsageExamples) qualityScore += 10;
     if (hasDocumentation) qualityScore += 5;
+    qualityScore -= Math.min(15, brokenTargets * 5);
     
     const clarity = content.length > 200 ? 60 : 40;
     const completeness = Math.min(80, 40 + (sections * 5));
     
     return {
-      qualityScore: Math.min(100, qualityScore),
+      qualityScore: Math.max(0, Math.min(100, qualityScore)),
       strengths: [
         'README file exists',
         content.length > 500 ? 'Substantial content' : 'Basic documentation',
@@ -3116,19 +5003,22 @@ Consider: structure, clarity, completeness, examples, getting started guide, API
         !hasInstallation && 'Missing installation instructions',
         !hasUsageExamples && 'No code examples',
         !hasDocumentation && 'Limited documentation',
+        brokenTargets > 0 && `${brokenTargets} broken links or images`,
         'AI analysis unavailable - showing heuristic results'
       ].filter(Boolean) as string[],
       suggestions: [
         !hasInstallation && 'Add installation/setup instructions',
         !hasUsageExamples && 'Include code examples',
         !hasDocumentation && 'Add API or usage documentation',
-        'Consider adding badges, images, or diagrams'
+        brokenTargets > 0 && 'Fix the broken links and images listed in the README audit',
+        audit.badges.length === 0 ? 'Consider adding badges, images, or diagrams' : !hasSection('screenshots') && 'Consider adding a screenshot or diagram'
       ].filter(Boolean) as string[],
       hasInstallation,
       hasUsageExamples,
       hasDocumentation,
       clarity,
-      completeness
+      completeness,
+      audit
     };
   }
 
@@ -3140,16 +5030,22 @@ Consider: structure, clarity, completeness, examples, getting started guide, API
     githubAnalysis: GitHubAnalysis,
     agenticAnalysis?: AgenticCodeAnalysis,
     readmeAnalysis?: ReadmeAnalysis,
-    userContext?: ResearchContext
+    userContext?: ResearchContext,
+    options: { roleProfile?: string | RoleProfile; signal?: AbortSignal } = {}
   ): Promise<string[]> {
+    if (options.signal && options.signal !== this.abortSignal) {
+      return this.withAbortSignal(options.signal, () =>
+        this.generateAgenticRecommendations(githubAnalysis, agenticAnalysis, readmeAnalysis, userContext, options)
+      );
+    }
+
     console.log(`[GapAnalyzer Agentic] Generating personalized recommendations with AI...`);
 
     try {
-      // Check for OpenAI API key
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error('OPENAI_API_KEY not configured');
-      }
+      // Check that an LLM endpoint is configured
+      assertLlmConfigured();
 
+      const roleProfile = findRoleProfile(options.roleProfile ?? userContext?.targetRole);
       const contextDescription = `
 Repository Analysis:
 - Languages: ${githubAnalysis.languages.join(', ')}
@@ -3165,6 +5061,10 @@ ${readmeAnalysis?.weaknesses?.length ? `README Weaknesses:
 ${readmeAnalysis.weaknesses.slice(0, 2).map(w => `- ${w}`).join('\n')}` : ''}
 
 ${userContext?.targetRole ? `Target Role: ${userContext.targetRole}` : ''}
+${roleProfile ? `Role Profile: ${roleProfile.name} (key skills: ${roleProfile.skills
+  .filter((skill) => skill.required || skill.importance >= 4)
+  .map((skill) => `${skill.name} ${skill.targetLevel}/5`)
+  .join(', ')})` : ''}
 ${userContext?.professionalGoals ? `Goals: ${userContext.professionalGoals}` : ''}
 `.trim();
 
@@ -3180,9 +5080,10 @@ Provide recommendations that are:
 5. Consider both technical skills and portfolio presentation`;
 
       const { text } = await generateText({
-        model: openai('gpt-4o-mini'),
+        model: getLanguageModel('synthesis'),
         prompt,
-        maxRetries: 2
+        maxRetries: 2,
+        abortSignal: this.abortSignal,
       });
 
       // Parse recommendations (assuming they're in a list format)
@@ -3197,6 +5098,7 @@ Provide recommendations that are:
       return recommendations.length > 0 ? recommendations : [text.slice(0, 200)]; // Fallback to first 200 chars
 
     } catch (error) {
+      this.abortSignal?.throwIfAborted();
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.warn(`[GapAnalyzer Agentic] ⚠️ AI recommendations failed: ${errorMessage}`);
       
@@ -3217,7 +5119,7 @@ Provide recommendations that are:
   /**
    * Analyze quality metrics for README and code quality
    */
-  private async analyzeQualityMetrics(repoData: any, contentsData: any[]): Promise<QualityMetrics> {
+  private async analyzeQualityMetrics(repoData: any, contentsData: any[], filePaths?: string[]): Promise<QualityMetrics> {
     try {
       console.log('[GapAnalyzer] Analyzing quality metrics...');
 
@@ -3225,7 +5127,7 @@ Provide recommendations that are:
       const readmeAnalysis = await this.analyzeReadmeQuality(repoData, contentsData);
       
       // Analyze code quality
-      const codeAnalysis = await this.analyzeCodeQuality(repoData, contentsData);
+      const codeAnalysis = await this.analyzeCodeQuality(repoData, contentsData, filePaths);
       
       // Calculate overall quality
       const overallScore = Math.round((readmeAnalysis.score + codeAnalysis.score) / 2);
@@ -3336,9 +5238,10 @@ Format as JSON:
 }`;
 
       const { text } = await generateText({
-        model: openai('gpt-4o-mini'),
+        model: getLanguageModel('evaluation'),
         prompt,
         temperature: 0.3,
+        abortSignal: this.abortSignal,
       });
 
       // Clean the response text to extract JSON
@@ -3365,14 +5268,11 @@ Format as JSON:
   }
 
   /**
-   * Analyze code quality
+   * Analyze code quality from static metrics over the fetched source files,
+   * blended with an LLM review that is given the same metrics as context
    */
-  private async analyzeCodeQuality(repoData: any, contentsData: any[]): Promise<{
-    score: number;
-    confidence: number;
-    insights: string[];
-    improvements: string[];
-  }> {
+  private async analyzeCodeQuality(repoData: any, contentsData: any[], filePaths?: string[]): Promise<QualityMetrics['codeQuality']> {
+    let staticMetrics: StaticCodeMetrics | undefined;
     try {
       // Recursively find code files in the repository
       const codeFiles = await this.findCodeFilesRecursively(repoData, contentsData);
@@ -3386,9 +5286,9 @@ Format as JSON:
         };
       }
 
-      // Get content from first few files
+      const MAX_STATIC_FILE_CHARS = 50_000;
       const fileContents = await Promise.all(
-        codeFiles.slice(0, 3).map(async (file) => {
+        codeFiles.map(async (file) => {
           try {
             const contentResponse = await this.fetchGitHubData(file.download_url, {
               raw: true,
@@ -3396,24 +5296,34 @@ Format as JSON:
             });
             return {
               name: file.name,
+              path: file.path ?? file.name,
               content:
                 (typeof contentResponse === 'string'
                   ? contentResponse
                   : contentResponse?.content && contentResponse.encoding === 'base64'
                     ? Buffer.from(contentResponse.content, 'base64').toString('utf-8')
                     : ''
-                ).substring(0, 2000),
+                ).substring(0, MAX_STATIC_FILE_CHARS),
             };
           } catch {
-            return { name: file.name, content: '' };
+            return { name: file.name, path: file.path ?? file.name, content: '' };
           }
         })
       );
 
-      const prompt = `Analyze these code files and provide quality metrics:
+      const readableFiles = fileContents.filter((file) => file.content.length > 0);
+      if (readableFiles.length > 0) {
+        staticMetrics = computeStaticCodeMetrics(
+          readableFiles,
+          filePaths && filePaths.length > 0 ? filePaths : undefined
+        );
+        console.log(`[GapAnalyzer] Static code metrics: ${staticMetrics.score}/100 over ${staticMetrics.filesAnalyzed} files`);
+      }
 
-${fileContents.map(f => `File: ${f.name}\n${f.content}\n---`).join('\n')}
+      const prompt = `Analyze these code files and provide quality metrics:
 
+${fileContents.slice(0, 3).map(f => `File: ${f.name}\n${f.content.substring(0, 2000)}\n---`).join('\n')}
+${staticMetrics ? `\n${formatStaticMetricsForPrompt(staticMetrics)}\n\nThe static metrics are measured over ${staticMetrics.filesAnalyzed} files; use them to ground your assessment.\n` : ''}
 Rate the code quality on a scale of 0-100 based on:
 1. Code organization and structure
 2. Naming conventions
@@ -3436,9 +5346,10 @@ Format as JSON:
 }`;
 
       const { text } = await generateText({
-        model: openai('gpt-4o-mini'),
+        model: getLanguageModel('review'),
         prompt,
         temperature: 0.3,
+        abortSignal: this.abortSignal,
       });
 
       // Clean the response text to extract JSON
@@ -3452,9 +5363,23 @@ Format as JSON:
       }
       
       const analysis = JSON.parse(cleanedText);
-      return analysis;
+      if (!staticMetrics) {
+        return analysis;
+      }
+
+      // Measured metrics and the review carry equal weight
+      return {
+        score: Math.round((analysis.score + staticMetrics.score) / 2),
+        confidence: Math.max(analysis.confidence ?? 50, 70),
+        insights: analysis.insights ?? [],
+        improvements: analysis.improvements ?? [],
+        staticMetrics,
+      };
     } catch (error) {
       console.error('[GapAnalyzer] Code analysis error:', error);
+      if (staticMetrics) {
+        return this.summarizeStaticMetrics(staticMetrics);
+      }
       return {
         score: 50,
         confidence: 50,
@@ -3464,6 +5389,21 @@ Format as JSON:
     }
   }
 
+  /**
+   * Code quality from static metrics alone, used when the LLM review is unavailable
+   */
+  private summarizeStaticMetrics(staticMetrics: StaticCodeMetrics): QualityMetrics['codeQuality'] {
+    const applicable = staticMetrics.breakdown.filter((item) => item.weight > 0);
+    return {
+      score: staticMetrics.score,
+      // Metrics over a handful of files say little about the whole repository
+      confidence: Math.min(80, 40 + staticMetrics.filesAnalyzed * 4),
+      insights: applicable.filter((item) => item.score >= 70).map((item) => `${item.label} looks good: ${item.explanation}`),
+      improvements: applicable.filter((item) => item.score < 70).map((item) => `Improve ${item.label.toLowerCase()}: ${item.explanation}`),
+      staticMetrics,
+    };
+  }
+
   /**
    * Generate AI analysis insights with problem-solving frameworks
    */
@@ -3506,9 +5446,10 @@ Format as JSON:
 }`;
 
       const { text } = await generateText({
-        model: openai('gpt-4o-mini'),
+        model: getLanguageModel('review'),
         prompt,
         temperature: 0.4,
+        abortSignal: this.abortSignal,
       });
 
       // Clean the response text to extract JSON
@@ -3593,12 +5534,13 @@ Format as JSON:
     const codeFiles: any[] = [];
     const codeExtensions = ['js', 'ts', 'tsx', 'jsx', 'py', 'java', 'go', 'rs', 'cpp', 'c', 'cs', 'php', 'rb', 'swift', 'kt', 'scala'];
     
-    // Extract owner and repo from URL
-    const match = repoData.html_url.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-    if (!match) return codeFiles;
-    
-    const [, owner, repo] = match;
-    const cleanRepo = repo.replace(/\.git$/, '');
+    let owner: string;
+    let cleanRepo: string;
+    try {
+      ({ owner, repo: cleanRepo } = this.resolveRepositoryReference(repoData.html_url ?? ''));
+    } catch {
+      return codeFiles;
+    }
     
     const MAX_DEPTH = 8;
 
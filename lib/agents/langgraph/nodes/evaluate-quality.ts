@@ -16,11 +16,15 @@ import type {
   ConfidenceBreakdown,
 } from "../research-agent";
 import { escapePromptText, escapeTemplateBraces } from "../utils/prompt-utils";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel, describeMessagesForCache } from "@/lib/llm/langchain-models";
+import { describeMissingLlmConfiguration, getModelFingerprint } from "@/lib/llm/model-registry";
+import { cachedLlmCall } from "@/lib/llm/response-cache";
+import { getLlmResponseCache } from "@/lib/llm/response-cache-store";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { withPhaseBudget } from "../../phase-budget";
 import { z } from "zod";
 
-const DEFAULT_MODEL = process.env.OPENAI_RESEARCH_MODEL ?? "gpt-4o-mini";
 const TOP_N_RESULTS = 10;
 
 // Scoring weights
@@ -52,7 +56,8 @@ type EvaluationResult = z.infer<typeof evaluationSchema>["evaluations"][number];
  * Main LangGraph node that evaluates and ranks resources
  */
 export async function evaluateQualityNode(
-  state: ResearchState
+  state: ResearchState,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<ResearchState>> {
   const resources = state.searchResults ?? [];
 
@@ -68,7 +73,7 @@ export async function evaluateQualityNode(
   }
 
   // Use LLM to evaluate each resource
-  const evaluations = await evaluateWithLLM(state, resources);
+  const evaluations = await evaluateWithLLM(state, resources, config?.signal);
 
   // Calculate composite scores
   const scoredResources = resources.map((resource, index) => {
@@ -116,22 +121,22 @@ export async function evaluateQualityNode(
 }
 
 /**
- * Use LLM to evaluate resources intelligently
+ * Use LLM to evaluate resources intelligently; falls back to default scores
+ * when the call fails or runs out of its `research-llm` budget
  */
 async function evaluateWithLLM(
   state: ResearchState,
-  resources: Resource[]
+  resources: Resource[],
+  signal?: AbortSignal
 ): Promise<EvaluationResult[]> {
-  if (!process.env.OPENAI_API_KEY) {
-    console.warn("[evaluateQualityNode] OPENAI_API_KEY not configured. Using heuristics.");
+  const missingLlm = describeMissingLlmConfiguration();
+  if (missingLlm) {
+    console.warn(`[evaluateQualityNode] ${missingLlm}. Using heuristics.`);
     return resources.map(() => getDefaultEvaluation());
   }
 
   try {
-    const llm = new ChatOpenAI({
-      model: DEFAULT_MODEL,
-      temperature: 0.1, // Low temperature for consistent scoring
-    });
+    const llm = createChatModel("evaluation", { temperature: 0.1 }); // Low temperature for consistent scoring
 
     const systemPrompt = [
       "You are a learning resource evaluator.",
@@ -170,21 +175,37 @@ async function evaluateWithLLM(
       ["human", humanPrompt],
     ]);
 
-    const aiMessage = await llm.invoke(await prompt.formatMessages({}));
-    const rawText = extractTextContent(aiMessage.content);
-    const parsed = parseLLMJson(rawText);
-
-    const validated = evaluationSchema.safeParse(parsed);
-    if (!validated.success) {
-      console.warn(
-        "[evaluateQualityNode] LLM response failed validation:",
-        validated.error
-      );
-      return resources.map(() => getDefaultEvaluation());
-    }
+    const messages = await prompt.formatMessages({});
+    const evaluations = await cachedLlmCall(
+      {
+        task: "evaluation",
+        model: getModelFingerprint("evaluation"),
+        prompt: describeMessagesForCache(messages),
+        schema: evaluationSchema,
+      },
+      { cache: getLlmResponseCache(), bypass: state.forceRefresh },
+      async () => {
+        const aiMessage = await withPhaseBudget("research-llm", signal, (budgetSignal) =>
+          llm.invoke(messages, { signal: budgetSignal })
+        );
+        const rawText = extractTextContent(aiMessage.content);
+        const parsed = parseLLMJson(rawText);
+
+        const validated = evaluationSchema.safeParse(parsed);
+        if (!validated.success) {
+          console.warn(
+            "[evaluateQualityNode] LLM response failed validation:",
+            validated.error
+          );
+          return null;
+        }
+        return validated.data.evaluations;
+      }
+    );
 
-    return validated.data.evaluations;
+    return evaluations ?? resources.map(() => getDefaultEvaluation());
   } catch (error) {
+    signal?.throwIfAborted();
     console.warn(
       "[evaluateQualityNode] LLM evaluation failed:",
       (error as Error)?.message ?? error
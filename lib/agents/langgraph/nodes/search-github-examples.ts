@@ -7,7 +7,9 @@
  * Uses GitHub REST API (works on Vercel without Docker)
  */
 
+import type { LangGraphRunnableConfig } from '@langchain/langgraph';
 import { GitHubClient } from '@/lib/github/github-client';
+import { abortable } from '../../phase-budget';
 import type { ResearchState, GitHubProject } from '../research-agent';
 
 const QUERY_VARIANTS = [
@@ -26,7 +28,8 @@ const FALLBACK_LANGUAGES = ['TypeScript', 'JavaScript', 'Java'];
  * Filters for high-quality examples (stars, recency, topics).
  */
 export async function searchGitHubExamplesNode(
-  state: ResearchState
+  state: ResearchState,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<ResearchState>> {
   console.log('🔍 Searching GitHub for example repositories...');
   console.log(`   Skill: ${state.skillGap}`);
@@ -53,11 +56,14 @@ export async function searchGitHubExamplesNode(
         console.log(`   Query: "${query}"`);
 
         try {
-          const { items: repos, total_count } = await client.searchRepositories(query, {
-            sort: 'stars',
-            order: 'desc',
-            per_page: 10,
-          });
+          const { items: repos, total_count } = await abortable(
+            client.searchRepositories(query, {
+              sort: 'stars',
+              order: 'desc',
+              per_page: 10,
+            }),
+            config?.signal
+          );
 
           console.log(`✅ Found ${total_count} repositories, analyzing top ${repos.length}...`);
 
@@ -90,6 +96,7 @@ export async function searchGitHubExamplesNode(
             };
           }
         } catch (error) {
+          config?.signal?.throwIfAborted();
           const message = (error as Error)?.message ?? String(error);
           console.error('❌ GitHub search failed:', message);
           if (/rate limit/i.test(message)) {
@@ -109,6 +116,7 @@ export async function searchGitHubExamplesNode(
       iterationCount: state.iterationCount + 1,
     };
   } catch (error) {
+    config?.signal?.throwIfAborted();
     console.error('❌ GitHub search failed:', error);
 
     // Return empty results on error (don't block the workflow)
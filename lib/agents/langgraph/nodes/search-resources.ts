@@ -13,7 +13,12 @@ import type {
   ScrapedResource,
 } from "../research-agent";
 import FirecrawlApp from "@mendable/firecrawl-js";
-import { ChatOpenAI } from "@langchain/openai";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { abortable, PhaseTimeoutError, startPhaseBudget, withPhaseBudget } from "../../phase-budget";
+import { createChatModel, describeMessagesForCache } from "@/lib/llm/langchain-models";
+import { describeMissingLlmConfiguration, getModelFingerprint } from "@/lib/llm/model-registry";
+import { cachedLlmCall } from "@/lib/llm/response-cache";
+import { getLlmResponseCache } from "@/lib/llm/response-cache-store";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { z } from "zod";
 import { escapePromptText } from "../utils/prompt-utils";
@@ -27,7 +32,6 @@ class FirecrawlUnavailableError extends Error {
   }
 }
 
-const DEFAULT_MODEL = process.env.OPENAI_RESEARCH_MODEL ?? "gpt-4o-mini";
 const MAX_FIRECRAWL_RESULTS = 10;
 const MAX_TOTAL_RESULTS = 20;
 const MAX_FIRECRAWL_PASSES = Number(
@@ -64,9 +68,12 @@ const llmResponseSchema = z.object({
 
 /**
  * Main LangGraph node that enriches the research state with learning resources.
+ * Firecrawl search and scraping share the `web-search` time budget; once it is
+ * spent the node continues with LLM-generated resources only.
  */
 export async function searchResourcesNode(
-  state: ResearchState
+  state: ResearchState,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<ResearchState>> {
   const querySet = buildSearchQuerySet(state);
   const queries = Array.from(querySet);
@@ -90,141 +97,158 @@ export async function searchResourcesNode(
   let firecrawl = await createFirecrawlClient();
   let pass = 0;
   let continueSearching = true;
+  const webSearchBudget = startPhaseBudget("web-search", config?.signal);
 
-  while (
-    continueSearching &&
-    pass < SEARCH_ITERATION_LIMIT &&
-    pass < MAX_FIRECRAWL_PASSES
-  ) {
-    pass += 1;
-    const iterationStart = Date.now();
-    const iteration: SearchIteration = {
-      number: (state.iterationCount ?? 0) + pass,
-      queries: queries.slice(0, 6),
-      sources: [],
-      notes: undefined,
-      resultsFound: 0,
-      scrapedCount: 0,
-      durationMs: 0,
-      errors: [],
-    };
+  try {
+    while (
+      continueSearching &&
+      pass < SEARCH_ITERATION_LIMIT &&
+      pass < MAX_FIRECRAWL_PASSES
+    ) {
+      pass += 1;
+      const iterationStart = Date.now();
+      const iteration: SearchIteration = {
+        number: (state.iterationCount ?? 0) + pass,
+        queries: queries.slice(0, 6),
+        sources: [],
+        notes: undefined,
+        resultsFound: 0,
+        scrapedCount: 0,
+        durationMs: 0,
+        errors: [],
+      };
 
-    const iterationNotes: string[] = [];
+      const iterationNotes: string[] = [];
+
+      if (firecrawl) {
+        try {
+          const { resources: firecrawlResults, rateLimitHit } = await runFirecrawlSearch(
+            firecrawl,
+            queries,
+            seenUrls,
+            state,
+            pass,
+            webSearchBudget.signal
+          );
+          if (firecrawlResults.length) {
+            firecrawlResults.forEach((resource) => {
+              resources.push(resource);
+              if (
+                resource.source === "firecrawl" &&
+                !scrapeCandidates.some((r) => r.url === resource.url)
+              ) {
+                scrapeCandidates.push(resource);
+              }
+              sourcesUsed.add(resource.source ?? "firecrawl");
+            });
+            usedProviders.add("firecrawl");
+            iterationNotes.push(
+              `Firecrawl (pass ${pass}) returned ${firecrawlResults.length} items`
+            );
+          } else {
+            iterationNotes.push(`Firecrawl (pass ${pass}) returned no new items`);
+          }
+          iteration.sources.push("firecrawl");
+          iteration.resultsFound += firecrawlResults.length;
+          if (rateLimitHit) {
+            iterationNotes.push(
+              "Firecrawl rate limit detected; pausing further search iterations"
+            );
+            continueSearching = false;
+          }
+        } catch (error) {
+          config?.signal?.throwIfAborted();
+          const message =
+            (error as Error)?.message ?? "Firecrawl search failed";
+          iteration.errors?.push(message);
+          iterationNotes.push(message);
+          if (error instanceof FirecrawlUnavailableError) {
+            iterationNotes.push(
+              "Firecrawl appears unreachable (network/DNS). Falling back to LLM-generated resources only."
+            );
+            firecrawl = null;
+          } else if (error instanceof PhaseTimeoutError) {
+            iterationNotes.push(
+              "Firecrawl ran out of time. Falling back to LLM-generated resources only."
+            );
+            firecrawl = null;
+          }
+        }
+      } else if (pass === 1) {
+        iterationNotes.push("Skipped Firecrawl (no API key)");
+      }
 
-    if (firecrawl) {
-      try {
-        const { resources: firecrawlResults, rateLimitHit } = await runFirecrawlSearch(
-          firecrawl,
-          queries,
-          seenUrls,
-          state,
-          pass
-        );
-        if (firecrawlResults.length) {
-          firecrawlResults.forEach((resource) => {
-            resources.push(resource);
-            if (
-              resource.source === "firecrawl" &&
-              !scrapeCandidates.some((r) => r.url === resource.url)
-            ) {
-              scrapeCandidates.push(resource);
+      if (resources.length < MIN_RESULTS_TARGET) {
+        const { resources: llmResources, supplementalQueries } =
+          await runLLMFallback(state, queries, resources, config?.signal);
+
+        if (llmResources.length) {
+          llmResources.forEach((resource) => {
+            const normalized = normalizeUrl(resource.url);
+            if (!normalized || seenUrls.has(normalized)) {
+              return;
             }
-            sourcesUsed.add(resource.source ?? "firecrawl");
+            const resourceWithSource = {
+              ...resource,
+              source: resource.source ?? "openai",
+            };
+            resources.push(resourceWithSource);
+            seenUrls.add(normalized);
           });
-          usedProviders.add("firecrawl");
-          iterationNotes.push(
-            `Firecrawl (pass ${pass}) returned ${firecrawlResults.length} items`
-          );
-        } else {
-          iterationNotes.push(`Firecrawl (pass ${pass}) returned no new items`);
-        }
-        iteration.sources.push("firecrawl");
-        iteration.resultsFound += firecrawlResults.length;
-        if (rateLimitHit) {
-          iterationNotes.push(
-            "Firecrawl rate limit detected; pausing further search iterations"
-          );
-          continueSearching = false;
-        }
-      } catch (error) {
-        const message =
-          (error as Error)?.message ?? "Firecrawl search failed";
-        iteration.errors?.push(message);
-        iterationNotes.push(message);
-        if (error instanceof FirecrawlUnavailableError) {
+          usedProviders.add("openai");
           iterationNotes.push(
-            "Firecrawl appears unreachable (network/DNS). Falling back to LLM-generated resources only."
+            `LLM fallback generated ${llmResources.length} items`
           );
-          firecrawl = null;
         }
-      }
-    } else if (pass === 1) {
-      iterationNotes.push("Skipped Firecrawl (no API key)");
-    }
 
-    if (resources.length < MIN_RESULTS_TARGET) {
-      const { resources: llmResources, supplementalQueries } =
-        await runLLMFallback(state, queries, resources);
-
-      if (llmResources.length) {
-        llmResources.forEach((resource) => {
-          const normalized = normalizeUrl(resource.url);
-          if (!normalized || seenUrls.has(normalized)) {
-            return;
-          }
-          const resourceWithSource = {
-            ...resource,
-            source: resource.source ?? "openai",
-          };
-          resources.push(resourceWithSource);
-          seenUrls.add(normalized);
-        });
-        usedProviders.add("openai");
-        iterationNotes.push(
-          `LLM fallback generated ${llmResources.length} items`
-        );
+        supplementalQueries
+          .slice(0, 3)
+          .forEach((query) => querySet.add(query));
+        iteration.sources.push("openai");
+        iteration.resultsFound += llmResources.length;
       }
 
-      supplementalQueries
-        .slice(0, 3)
-        .forEach((query) => querySet.add(query));
-      iteration.sources.push("openai");
-      iteration.resultsFound += llmResources.length;
-    }
-
-    const scrapeBatch = scrapeCandidates
-      .filter((candidate) =>
-        (state.scrapedResources ?? []).every(
-          (scraped) => scraped.url !== candidate.url
+      const scrapeBatch = scrapeCandidates
+        .filter((candidate) =>
+          (state.scrapedResources ?? []).every(
+            (scraped) => scraped.url !== candidate.url
+          )
         )
-      )
-      .slice(0, MAX_SCRAPE_COUNT - scrapedResources.length);
-
-    if (scrapeBatch.length > 0 && firecrawl) {
-      try {
-        const scraped = await scrapeAndSummarizeResources(
-          firecrawl,
-          scrapeBatch,
-          state
-        );
-        scrapedResources.push(...scraped);
-        iteration.scrapedCount = (iteration.scrapedCount ?? 0) + scraped.length;
-        iterationNotes.push(`Scraped ${scraped.length} resources`);
-      } catch (error) {
-        const message =
-          (error as Error)?.message ?? "Scraping failed";
-        iteration.errors?.push(message);
-        iterationNotes.push(message);
+        .slice(0, MAX_SCRAPE_COUNT - scrapedResources.length);
+
+      if (scrapeBatch.length > 0 && firecrawl) {
+        try {
+          const scraped = await scrapeAndSummarizeResources(
+            firecrawl,
+            scrapeBatch,
+            state,
+            webSearchBudget.signal
+          );
+          scrapedResources.push(...scraped);
+          iteration.scrapedCount = (iteration.scrapedCount ?? 0) + scraped.length;
+          iterationNotes.push(`Scraped ${scraped.length} resources`);
+        } catch (error) {
+          config?.signal?.throwIfAborted();
+          const message =
+            (error as Error)?.message ?? "Scraping failed";
+          iteration.errors?.push(message);
+          iterationNotes.push(message);
+          if (error instanceof PhaseTimeoutError) {
+            firecrawl = null;
+          }
+        }
       }
-    }
 
-    iteration.durationMs = Date.now() - iterationStart;
-    iteration.notes = iterationNotes.join(" | ");
-    searchIterations.push(iteration);
-    iterationLogs.push(iteration.notes ?? "");
+      iteration.durationMs = Date.now() - iterationStart;
+      iteration.notes = iterationNotes.join(" | ");
+      searchIterations.push(iteration);
+      iterationLogs.push(iteration.notes ?? "");
 
-    continueSearching =
-      resources.length < MIN_RESULTS_TARGET && pass < SEARCH_ITERATION_LIMIT;
+      continueSearching =
+        resources.length < MIN_RESULTS_TARGET && pass < SEARCH_ITERATION_LIMIT;
+    }
+  } finally {
+    webSearchBudget.dispose();
   }
 
   const finalResources = dedupeAndTrim(resources, seenUrls);
@@ -346,7 +370,8 @@ async function runFirecrawlSearch(
   queries: string[],
   seenUrls: Set<string>,
   state: ResearchState,
-  pass: number
+  pass: number,
+  signal?: AbortSignal
 ): Promise<{ resources: Resource[]; rateLimitHit: boolean }> {
   const collected: Resource[] = [];
   const categories = chooseFirecrawlCategories(state, collected.length);
@@ -359,6 +384,7 @@ async function runFirecrawlSearch(
 
   // Use the first 3 queries for better coverage
   for (const query of queries.slice(0, 3)) {
+    signal?.throwIfAborted();
     try {
       console.log(`   [Firecrawl] Searching: "${query}"`);
 
@@ -372,7 +398,8 @@ async function runFirecrawlSearch(
         searchOptions.categories = categories;
       }
 
-      const searchResult = await firecrawl.search(query, searchOptions);
+      // The Firecrawl SDK takes no signal, so stop waiting on it instead
+      const searchResult = await abortable(firecrawl.search(query, searchOptions), signal);
 
       // Firecrawl returns SearchData type - check if results exist
       if (searchResult && Array.isArray(searchResult)) {
@@ -409,6 +436,7 @@ async function runFirecrawlSearch(
         }
       }
     } catch (error) {
+      signal?.throwIfAborted();
       const message = (error as Error)?.message ?? String(error);
       console.warn(
         `[searchResourcesNode] Firecrawl search failed for "${query}":`,
@@ -514,20 +542,17 @@ function firecrawlResultToResource(item: any): Resource {
 async function runLLMFallback(
   state: ResearchState,
   queries: string[],
-  existingResources: Resource[]
+  existingResources: Resource[],
+  signal?: AbortSignal
 ): Promise<{ resources: Resource[]; supplementalQueries: string[] }> {
-  if (!process.env.OPENAI_API_KEY) {
-    console.warn(
-      "[searchResourcesNode] Skipping LLM fallback: OPENAI_API_KEY not configured."
-    );
+  const missingLlm = describeMissingLlmConfiguration();
+  if (missingLlm) {
+    console.warn(`[searchResourcesNode] Skipping LLM fallback: ${missingLlm}.`);
     return { resources: [], supplementalQueries: [] };
   }
 
   try {
-    const llm = new ChatOpenAI({
-      model: DEFAULT_MODEL,
-      temperature: 0.2,
-    });
+    const llm = createChatModel("research", { temperature: 0.2 });
 
     const prompt = ChatPromptTemplate.fromMessages([
       [
@@ -564,7 +589,10 @@ async function runLLMFallback(
       ],
     ]);
 
-    const aiMessage = await llm.invoke(await prompt.formatMessages({}));
+    const messages = await prompt.formatMessages({});
+    const aiMessage = await withPhaseBudget("research-llm", signal, (budgetSignal) =>
+      llm.invoke(messages, { signal: budgetSignal })
+    );
     const rawText = extractTextContent(aiMessage.content);
     const parsed = parseLLMJson(rawText);
 
@@ -590,6 +618,7 @@ async function runLLMFallback(
       supplementalQueries: validated.data.supplemental_queries ?? [],
     };
   } catch (error) {
+    signal?.throwIfAborted();
     console.warn(
       "[searchResourcesNode] LLM fallback failed:",
       (error as Error)?.message ?? error
@@ -695,17 +724,19 @@ function dedupeAndTrim(
 async function scrapeAndSummarizeResources(
   firecrawl: FirecrawlApp,
   resources: Resource[],
-  state: ResearchState
+  state: ResearchState,
+  signal?: AbortSignal
 ): Promise<ScrapedResource[]> {
   const summaries: ScrapedResource[] = [];
   for (const resource of resources) {
+    signal?.throwIfAborted();
     try {
-      const scraped = await firecrawl.scrape(
-        resource.url,
-        {
+      const scraped = await abortable(
+        firecrawl.scrape(resource.url, {
           formats: ["markdown"],
           timeout: SCRAPE_TIMEOUT_MS,
-        }
+        }),
+        signal
       );
 
       if (!scraped || !scraped.markdown) {
@@ -717,7 +748,8 @@ async function scrapeAndSummarizeResources(
       const summaryPayload = await summarizeScrapedContent(
         resource,
         content,
-        state
+        state,
+        signal
       );
 
       summaries.push({
@@ -731,6 +763,7 @@ async function scrapeAndSummarizeResources(
         source: resource.source,
       });
     } catch (error) {
+      signal?.throwIfAborted();
       console.warn(
         `[searchResourcesNode] Failed to scrape ${resource.url}:`,
         (error as Error)?.message ?? error
@@ -791,9 +824,10 @@ function isNetworkUnavailableError(error: unknown): boolean {
 async function summarizeScrapedContent(
   resource: Resource,
   content: string,
-  state: ResearchState
+  state: ResearchState,
+  signal?: AbortSignal
 ): Promise<{ summary: string; keyPoints: string[]; recommendedAudience?: string }> {
-  if (!process.env.OPENAI_API_KEY) {
+  if (describeMissingLlmConfiguration()) {
     return {
       summary: resource.description.slice(0, MAX_SUMMARY_CHARS),
       keyPoints: [],
@@ -801,10 +835,7 @@ async function summarizeScrapedContent(
     };
   }
 
-  const llm = new ChatOpenAI({
-    model: DEFAULT_MODEL,
-    temperature: 0.2,
-  });
+  const llm = createChatModel("research", { temperature: 0.2 });
 
   const summaryPrompt = ChatPromptTemplate.fromMessages([
     [
@@ -828,40 +859,59 @@ async function summarizeScrapedContent(
     ],
   ]);
 
-  let attempts = 0;
-  while (attempts < SUMMARY_RETRY_LIMIT) {
-    attempts += 1;
-    try {
-      const aiMessage = await llm.invoke(await summaryPrompt.formatMessages({}));
-      const rawText = extractTextContent(aiMessage.content);
-      const parsed = parseLLMJson(rawText);
-
-      if (
-        parsed &&
-        typeof parsed === "object" &&
-        "summary" in parsed &&
-        typeof (parsed as any).summary === "string"
-      ) {
-        const keyPoints = Array.isArray((parsed as any).keyPoints)
-          ? (parsed as any).keyPoints.slice(0, SUMMARY_KEYPOINT_LIMIT)
-          : [];
-        const recommendedAudience = (parsed as any).recommendedAudience;
-
-        return {
-          summary: ((parsed as any).summary as string).slice(0, MAX_SUMMARY_CHARS),
-          keyPoints: keyPoints.filter((kp: any) => typeof kp === "string"),
-          recommendedAudience:
-            typeof recommendedAudience === "string"
-              ? recommendedAudience.slice(0, 180)
-              : undefined,
-        };
+  const messages = await summaryPrompt.formatMessages({});
+  const summaryPayload = await cachedLlmCall(
+    {
+      task: "research",
+      model: getModelFingerprint("research"),
+      prompt: describeMessagesForCache(messages),
+      schema: "scraped-content-summary",
+    },
+    { cache: getLlmResponseCache(), bypass: state.forceRefresh },
+    async () => {
+      let attempts = 0;
+      while (attempts < SUMMARY_RETRY_LIMIT) {
+        attempts += 1;
+        try {
+          const aiMessage = await withPhaseBudget("research-llm", signal, (budgetSignal) =>
+            llm.invoke(messages, { signal: budgetSignal })
+          );
+          const rawText = extractTextContent(aiMessage.content);
+          const parsed = parseLLMJson(rawText);
+
+          if (
+            parsed &&
+            typeof parsed === "object" &&
+            "summary" in parsed &&
+            typeof (parsed as any).summary === "string"
+          ) {
+            const keyPoints = Array.isArray((parsed as any).keyPoints)
+              ? (parsed as any).keyPoints.slice(0, SUMMARY_KEYPOINT_LIMIT)
+              : [];
+            const recommendedAudience = (parsed as any).recommendedAudience;
+
+            return {
+              summary: ((parsed as any).summary as string).slice(0, MAX_SUMMARY_CHARS),
+              keyPoints: keyPoints.filter((kp: any) => typeof kp === "string"),
+              recommendedAudience:
+                typeof recommendedAudience === "string"
+                  ? recommendedAudience.slice(0, 180)
+                  : undefined,
+            };
+          }
+        } catch (error) {
+          signal?.throwIfAborted();
+          console.warn(
+            `[searchResourcesNode] Summarization attempt ${attempts} failed for ${resource.url}:`,
+            (error as Error)?.message ?? error
+          );
+        }
       }
-    } catch (error) {
-      console.warn(
-        `[searchResourcesNode] Summarization attempt ${attempts} failed for ${resource.url}:`,
-        (error as Error)?.message ?? error
-      );
+      return null;
     }
+  );
+  if (summaryPayload) {
+    return summaryPayload;
   }
 
   return {
@@ -16,12 +16,16 @@ import type {
   ComparativeInsight,
   LearningPathStep,
 } from "../research-agent";
-import { ChatOpenAI } from "@langchain/openai";
+import { createChatModel, describeMessagesForCache } from "@/lib/llm/langchain-models";
+import { describeMissingLlmConfiguration, getModelFingerprint } from "@/lib/llm/model-registry";
+import { cachedLlmCall } from "@/lib/llm/response-cache";
+import { getLlmResponseCache } from "@/lib/llm/response-cache-store";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { withPhaseBudget } from "../../phase-budget";
 import { z } from "zod";
 import { escapePromptText, escapeTemplateBraces } from "../utils/prompt-utils";
 
-const DEFAULT_MODEL = process.env.OPENAI_RESEARCH_MODEL ?? "gpt-4o-mini";
 const MAX_RECOMMENDATIONS = 6;
 const MAX_PER_TYPE: Record<Recommendation["type"], number> = {
   resource: 3,
@@ -45,7 +49,8 @@ const synthesisSchema = z.object({
  * Main LangGraph node that synthesizes all research into recommendations
  */
 export async function synthesizeRecommendationsNode(
-  state: ResearchState
+  state: ResearchState,
+  config?: LangGraphRunnableConfig
 ): Promise<Partial<ResearchState>> {
   console.log("🎯 Running synthesizeRecommendationsNode");
 
@@ -58,7 +63,7 @@ export async function synthesizeRecommendationsNode(
   console.log(`   Confidence: ${confidence.toFixed(2)}`);
 
   // Generate recommendations using LLM
-  const result = await generateRecommendations(state, resources, examples);
+  const result = await generateRecommendations(state, resources, examples, config?.signal);
 
   console.log(`✅ synthesizeRecommendationsNode complete`);
   console.log(`   Generated ${result.recommendations.length} recommendations`);
@@ -71,27 +76,27 @@ export async function synthesizeRecommendationsNode(
 }
 
 /**
- * Generate personalized recommendations using LLM
+ * Generate personalized recommendations using LLM; falls back to templated
+ * recommendations when the call fails or runs out of its `research-llm` budget
  */
 async function generateRecommendations(
   state: ResearchState,
   resources: ScoredResource[],
-  examples: GitHubProject[]
+  examples: GitHubProject[],
+  signal?: AbortSignal
 ): Promise<{
   recommendations: Recommendation[];
   comparativeInsights: ComparativeInsight[];
   learningPath: LearningPathStep[];
 }> {
-  if (!process.env.OPENAI_API_KEY) {
-    console.warn("[synthesizeRecommendationsNode] OPENAI_API_KEY not configured. Using fallback.");
+  const missingLlm = describeMissingLlmConfiguration();
+  if (missingLlm) {
+    console.warn(`[synthesizeRecommendationsNode] ${missingLlm}. Using fallback.`);
     return generateFallbackRecommendations(state, resources, examples);
   }
 
   try {
-    const llm = new ChatOpenAI({
-      model: DEFAULT_MODEL,
-      temperature: 0.3, // Some creativity for recommendations
-    });
+    const llm = createChatModel("synthesis", { temperature: 0.3 }); // Some creativity for recommendations
 
     const topResources = resources.slice(0, 5);
     const topExamples = examples.slice(0, 3);
@@ -201,23 +206,41 @@ async function generateRecommendations(
       ["human", humanPrompt],
     ]);
 
-    const aiMessage = await llm.invoke(await prompt.formatMessages({}));
-    const rawText = extractTextContent(aiMessage.content);
-    const parsed = parseLLMJson(rawText);
-
-    const validated = extendedSynthesisSchema.safeParse(parsed);
-    if (!validated.success) {
-      console.warn(
-        "[synthesizeRecommendationsNode] LLM response failed validation:",
-        validated.error
-      );
+    const messages = await prompt.formatMessages({});
+    const synthesis = await cachedLlmCall(
+      {
+        task: "synthesis",
+        model: getModelFingerprint("synthesis"),
+        prompt: describeMessagesForCache(messages),
+        schema: extendedSynthesisSchema,
+      },
+      { cache: getLlmResponseCache(), bypass: state.forceRefresh },
+      async () => {
+        const aiMessage = await withPhaseBudget("research-llm", signal, (budgetSignal) =>
+          llm.invoke(messages, { signal: budgetSignal })
+        );
+        const rawText = extractTextContent(aiMessage.content);
+        const parsed = parseLLMJson(rawText);
+
+        const validated = extendedSynthesisSchema.safeParse(parsed);
+        if (!validated.success) {
+          console.warn(
+            "[synthesizeRecommendationsNode] LLM response failed validation:",
+            validated.error
+          );
+          return null;
+        }
+        return validated.data;
+      }
+    );
+    if (!synthesis) {
       return generateFallbackRecommendations(state, resources, examples);
     }
 
     const fallback = generateFallbackRecommendations(state, resources, examples);
 
     let recommendations = limitRecommendations(
-      validated.data.recommendations.map((rec) => ({
+      synthesis.recommendations.map((rec) => ({
         ...rec,
         description:
           (typeof rec.description === "string" && rec.description.trim().length > 0)
@@ -244,8 +267,8 @@ async function generateRecommendations(
       recommendations = limitRecommendations(recommendations);
     }
 
-    const comparativeInsights = validated.data.comparative_insights.length
-      ? validated.data.comparative_insights.map((insight) => ({
+    const comparativeInsights = synthesis.comparative_insights.length
+      ? synthesis.comparative_insights.map((insight) => ({
           title: insight.title,
           insight: insight.insight,
           supportingResources: insight.supporting_resources.filter((url) => !!url && url.trim().length > 0),
@@ -256,8 +279,8 @@ async function generateRecommendations(
     // Use adaptive learning path if skill level is available, otherwise use LLM-generated or fallback
     const learningPath = state.userSkillLevel
       ? generateAdaptiveLearningPath(state, resources, examples)
-      : validated.data.learning_path.length
-      ? validated.data.learning_path
+      : synthesis.learning_path.length
+      ? synthesis.learning_path
           .map((step, index) => ({
             order: step.order ?? index + 1,
             title: step.title,
@@ -276,6 +299,7 @@ async function generateRecommendations(
       learningPath,
     };
   } catch (error) {
+    signal?.throwIfAborted();
     console.warn(
       "[synthesizeRecommendationsNode] LLM synthesis failed:",
       (error as Error)?.message ?? error
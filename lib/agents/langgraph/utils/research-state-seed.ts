@@ -8,10 +8,12 @@ import type {
   GitHubAnalysis,
   ResearchContext,
 } from "../../gap-analyzer";
-
-function normalizeKeyword(keyword: string): string {
-  return keyword.trim().toLowerCase();
-}
+import {
+  canonicalSkillName,
+  findSkillMentions,
+  getSkillLanguage,
+  resolveSkill,
+} from "@/lib/analysis/skill-taxonomy";
 
 function buildFocusSkills(skillAssessment: GapAnalysisResult): FocusSkill[] {
   const focusMap = new Map<string, FocusSkill>();
@@ -20,7 +22,7 @@ function buildFocusSkills(skillAssessment: GapAnalysisResult): FocusSkill[] {
     .filter((gap) => gap?.skill?.name)
     .slice(0, 5)
     .forEach((gap) => {
-      const name = gap.skill.name;
+      const name = canonicalSkillName(gap.skill.name);
       const existing = focusMap.get(name);
       const blended: FocusSkill = {
         name,
@@ -34,26 +36,10 @@ function buildFocusSkills(skillAssessment: GapAnalysisResult): FocusSkill[] {
 }
 
 function inferLanguageFromSkill(skillName: string): string | null {
-  const normalized = normalizeKeyword(skillName);
-  if (normalized.includes("typescript")) return "TypeScript";
-  if (normalized.includes("javascript")) return "JavaScript";
-  if (normalized.includes("react")) return "JavaScript";
-  if (normalized.includes("node")) return "JavaScript";
-  if (normalized.includes("express")) return "JavaScript";
-  if (normalized.includes("nestjs")) return "TypeScript";
-  if (normalized.includes("next.js") || normalized.includes("nextjs")) return "JavaScript";
-  if (normalized.includes("java")) return "Java";
-  if (normalized.includes("spring")) return "Java";
-  if (normalized.includes("kotlin")) return "Kotlin";
-  if (normalized.includes("python")) return "Python";
-  if (normalized.includes("django")) return "Python";
-  if (normalized.includes("flask")) return "Python";
-  if (normalized.includes("css")) return "CSS";
-  if (normalized.includes("html")) return "HTML";
-  return null;
+  const skill = resolveSkill(skillName) ?? findSkillMentions(skillName)[0];
+  return skill ? getSkillLanguage(skill.id) : null;
 }
 
-
 function suggestQueries(
   focusSkills: FocusSkill[],
   context?: ResearchContext
@@ -0,0 +1,148 @@
+/**
+ * Cancellation and per-phase time budgets for agent runs.
+ *
+ * Routes pass `request.signal` down, so a client that navigates away aborts
+ * the run: GitHub and provider requests, LLM calls, Firecrawl scrapes and MCP
+ * tool calls stop instead of running to completion for nobody. Each phase
+ * (README scoring, code review, web search, ...) also gets its own deadline.
+ * A phase that runs out of time rejects with PhaseTimeoutError, which callers
+ * treat like any other failure of that step and fall back to their heuristic
+ * layer; a cancelled run rejects with the signal's reason and stops.
+ *
+ * Budgets default to the values below and can be overridden per phase with
+ * AGENT_<PHASE>_BUDGET_MS (e.g. AGENT_CODE_REVIEW_BUDGET_MS). Only web-standard
+ * APIs are used, so GapAnalyzerAgent can import this in the browser.
+ */
+
+export type AgentPhase =
+  | 'repository'
+  | 'readme'
+  | 'code-review'
+  | 'mcp'
+  | 'web-search'
+  | 'research-llm'
+  | 'portfolio'
+  | 'templates'
+  | 'benchmark';
+
+const DEFAULT_PHASE_BUDGET_MS: Record<AgentPhase, number> = {
+  // Heuristic GitHub analysis; nothing to fall back to, so it gets the most room
+  repository: 90_000,
+  readme: 30_000,
+  'code-review': 120_000,
+  // GitHub MCP skill assessment
+  mcp: 30_000,
+  // Firecrawl search and scraping within one search node run
+  'web-search': 60_000,
+  // Each LLM call in the research graph (fallback search, summaries, evaluation, synthesis)
+  'research-llm': 45_000,
+  // Portfolio quality checks
+  portfolio: 60_000,
+  // Template extraction while enriching recommendations
+  templates: 45_000,
+  // Quality analysis of one peer repository while benchmarking
+  benchmark: 60_000,
+};
+
+export class PhaseTimeoutError extends Error {
+  readonly phase: AgentPhase;
+  readonly budgetMs: number;
+
+  constructor(phase: AgentPhase, budgetMs: number) {
+    const budget = budgetMs >= 1000 ? `${Math.round(budgetMs / 1000)}s` : `${budgetMs}ms`;
+    super(`${phase} exceeded its ${budget} time budget`);
+    this.name = 'PhaseTimeoutError';
+    this.phase = phase;
+    this.budgetMs = budgetMs;
+  }
+}
+
+export const getPhaseBudgetMs = (phase: AgentPhase, env: NodeJS.ProcessEnv = process.env): number => {
+  const override = Number(env[`AGENT_${phase.toUpperCase().replace(/-/g, '_')}_BUDGET_MS`]);
+  return Number.isFinite(override) && override > 0 ? override : DEFAULT_PHASE_BUDGET_MS[phase];
+};
+
+/**
+ * Settle with `promise`, or reject with the abort reason as soon as `signal`
+ * aborts. For SDKs that take no signal (Firecrawl): the abandoned call still
+ * finishes in the background, but nothing waits for it.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Signal for one phase: aborts with PhaseTimeoutError when the budget is spent
+ * and with the run's reason when `parent` aborts. Call `dispose` when the
+ * phase ends so the timer does not outlive it.
+ */
+export const startPhaseBudget = (
+  phase: AgentPhase,
+  parent?: AbortSignal
+): { signal: AbortSignal; dispose: () => void } => {
+  const budgetMs = getPhaseBudgetMs(phase);
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason);
+  const timer = setTimeout(() => {
+    console.warn(`[Agent Budget] ⏱️ ${phase} exceeded ${budgetMs}ms, falling back`);
+    controller.abort(new PhaseTimeoutError(phase, budgetMs));
+  }, budgetMs);
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+};
+
+/**
+ * Run `work` under a phase budget. It receives the phase signal to hand to
+ * fetch, LLM and MCP calls; the returned promise rejects with
+ * PhaseTimeoutError or the run's abort reason even if `work` ignores it.
+ */
+export const withPhaseBudget = async <T>(
+  phase: AgentPhase,
+  parent: AbortSignal | undefined,
+  work: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  parent?.throwIfAborted();
+  const budget = startPhaseBudget(phase, parent);
+  try {
+    return await abortable(work(budget.signal), budget.signal);
+  } catch (error) {
+    // Calls aborted by the phase signal reject with various AbortErrors; report why
+    if (budget.signal.aborted) {
+      throw budget.signal.reason;
+    }
+    throw error;
+  } finally {
+    budget.dispose();
+  }
+};
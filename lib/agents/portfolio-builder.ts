@@ -6,9 +6,30 @@
  */
 
 import { buildFrameworkSkillPlan } from '@/lib/analysis/framework-skill-plan';
-import { GitHubClient } from '@/lib/github/github-client';
+import {
+  assessDependencyHealth,
+  isLockfilePath,
+  type DependencyAdvisoryDataset,
+  type DependencyHealthReport,
+} from '@/lib/analysis/dependency-health';
+import {
+  detectWorkspaceLayout,
+  listWorkspaceConfigPaths,
+  summarizeWorkspacePackages,
+  type WorkspaceLayout,
+  type WorkspaceTool,
+} from '@/lib/analysis/workspace-detection';
+import { auditReadme, type ReadmeAudit, type ReadmeAuditFinding } from '@/lib/analysis/readme-audit';
 import { GitHubMCPClient } from '@/lib/mcp/github';
+import {
+  createRepositoryProvider,
+  parseRepositoryUrl,
+  type RepositoryProvider,
+  type RepositoryProviderKind,
+} from '@/lib/repository';
 import type { GitHubAnalysis, GapAnalysisResult, SkillGap } from './gap-analyzer';
+import { createProgressReporter, type AgentProgressListener } from './progress-events';
+import { abortable, startPhaseBudget } from './phase-budget';
 import { getTemplateCreatorClient, closeTemplateCreatorClient } from '@/lib/mcp/template-creator/client';
 
 const LICENSE_FILE_BASENAMES = new Set([
@@ -64,12 +85,34 @@ const LICENSE_FILE_CANDIDATES = [
 
 export interface PortfolioQualityAnalysis {
   repository: string;
+  provider: RepositoryProviderKind;
   owner: string;
   repo: string;
+  /** Branch, tag or commit that was analyzed */
+  ref: string;
+  /** Commit the ref resolved to, when the provider could resolve it */
+  commitSha?: string;
   overallQuality: number; // 0-100
   weaknesses: PortfolioWeakness[];
   strengths: string[];
   recommendations: PortfolioRecommendation[];
+  /** Per-package breakdown when the repository is a monorepo/workspace */
+  workspace?: {
+    tools: WorkspaceTool[];
+    packages: PortfolioPackageQuality[];
+  };
+  dependencyHealth?: DependencyHealthReport;
+  /** Structured README checklist and findings; each finding is also a weakness */
+  readmeAudit?: ReadmeAudit;
+}
+
+export interface PortfolioPackageQuality {
+  name: string;
+  path: string;
+  fileCount: number;
+  languages: string[];
+  hasReadme: boolean;
+  hasTests: boolean;
 }
 
 export interface PortfolioWeakness {
@@ -80,6 +123,8 @@ export interface PortfolioWeakness {
   description: string;
   impact: string;
   optional?: boolean;
+  /** The README audit finding this weakness was raised for */
+  readmeFinding?: ReadmeAuditFinding;
 }
 
 export interface PortfolioRecommendation {
@@ -146,49 +191,84 @@ export interface IssueCreationResult {
 }
 
 export class PortfolioBuilderAgent {
-  private githubClient: GitHubClient;
+  private githubToken?: string;
   private mcpClient: GitHubMCPClient | null = null;
 
   constructor(githubToken?: string) {
-    this.githubClient = new GitHubClient(githubToken);
+    this.githubToken = githubToken;
   }
 
   /**
-   * Analyze repository quality and identify improvement opportunities
+   * Resolve the GitHub, GitLab or Bitbucket provider for a repository URL,
+   * optionally pinned to a branch, tag or commit; `signal` cancels its requests
+   */
+  private getRepositoryProvider(repoUrl: string, ref?: string, signal?: AbortSignal): RepositoryProvider {
+    const reference = parseRepositoryUrl(repoUrl);
+    return createRepositoryProvider(reference, {
+      token: reference.provider === 'github' ? this.githubToken : undefined,
+      ref,
+      signal,
+    });
+  }
+
+  /**
+   * Analyze repository quality and identify improvement opportunities.
+   * Runs under the `portfolio` time budget; `signal` cancels it.
    */
   async analyzePortfolioQuality(
     repoUrl: string,
-    options?: { skillAssessment?: GapAnalysisResult }
+    options?: {
+      skillAssessment?: GapAnalysisResult;
+      advisoryDataset?: DependencyAdvisoryDataset;
+      ref?: string;
+      signal?: AbortSignal;
+    }
   ): Promise<PortfolioQualityAnalysis> {
     const skillAssessment = options?.skillAssessment;
+    const budget = startPhaseBudget('portfolio', options?.signal);
     try {
-      // Extract owner and repo from URL
-      const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-      if (!match) {
-        throw new Error('Invalid GitHub repository URL');
-      }
-
-      const [, owner, repo] = match;
-      const cleanRepo = repo.replace(/\.git$/, '');
+      const provider = this.getRepositoryProvider(repoUrl, options?.ref, budget.signal);
+      const { owner, name: cleanRepo } = provider;
 
-      console.log(`[Portfolio Builder] Analyzing: ${owner}/${cleanRepo}`);
+      console.log(`[Portfolio Builder] Analyzing: ${owner}/${cleanRepo} (${provider.kind})`);
 
       // Fetch repository data
-      const repoData = await this.githubClient.getRepository(owner, cleanRepo);
-      const contents = await this.githubClient.getRepositoryContents(owner, cleanRepo);
+      const repoData = await provider.getInfo();
+      const ref = provider.reference.ref ?? repoData.defaultBranch;
+      const commitSha = (await provider.resolveCommitSha?.()) ?? undefined;
+      console.log(`[Portfolio Builder] Reading ${ref}${commitSha ? ` @ ${commitSha.slice(0, 7)}` : ''}`);
+      const tree = await provider.listTree();
+      const contents = tree
+        .filter((entry) => !entry.path.includes('/'))
+        .map((entry) => ({ name: entry.path, type: entry.type }));
 
       // Run checks in parallel
-      const [hasReadme, hasTests, hasCICD, hasDocumentation] = await Promise.all([
-        this.checkReadmeQuality(owner, cleanRepo).catch(() => ({ exists: false, isComprehensive: false })),
-        this.checkTestingCoverage(owner, cleanRepo, contents).catch(() => ({ exists: false })),
-        this.checkCICDSetup(owner, cleanRepo, contents).catch(() => false),
-        this.checkDocumentation(owner, cleanRepo, contents).catch(() => false),
+      const filePaths = tree.filter((entry) => entry.type === 'file').map((entry) => entry.path);
+      const [hasReadme, rootTests, hasCICD, hasDocumentation, workspace, dependencyHealth] = await Promise.all([
+        this.checkReadmeQuality(provider, filePaths).catch(() => ({ exists: false, isComprehensive: false, audit: undefined })),
+        this.checkTestingCoverage(contents).catch(() => ({ exists: false })),
+        this.checkCICDSetup(provider, contents).catch(() => false),
+        this.checkDocumentation(provider, contents).catch(() => false),
+        this.detectWorkspace(provider, filePaths).catch(() => null),
+        this.checkDependencyHealth(provider, filePaths, options?.advisoryDataset).catch(() => undefined),
       ]);
+      // Checks swallow their errors, so an aborted run would otherwise read as missing files
+      budget.signal.throwIfAborted();
+
+      // In a monorepo tests usually live in the packages rather than at the root
+      const packages = workspace?.packages ?? [];
+      const untestedPackages = rootTests.exists ? [] : packages.filter((pkg) => !pkg.hasTests);
+      const hasTests = { exists: rootTests.exists || untestedPackages.length < packages.length };
+      const testedShare = rootTests.exists || packages.length === 0
+        ? 1
+        : (packages.length - untestedPackages.length) / packages.length;
 
       // Identify weaknesses
       const weaknesses: PortfolioWeakness[] = [];
 
-      if (!hasReadme.exists || !hasReadme.isComprehensive) {
+      if (hasReadme.audit) {
+        weaknesses.push(...this.getReadmeWeaknesses(hasReadme.audit));
+      } else if (!hasReadme.exists || !hasReadme.isComprehensive) {
         weaknesses.push({
           id: 'readme',
           type: 'readme',
@@ -210,6 +290,15 @@ export class PortfolioBuilderAgent {
           description: 'Add unit tests to verify your code works correctly. Start with testing core functions and gradually expand coverage to build confidence in your codebase.',
           impact: 'Reduces confidence in code quality and makes refactoring risky',
         });
+      } else if (untestedPackages.length > 0) {
+        weaknesses.push({
+          id: 'workspace-testing',
+          type: 'testing',
+          severity: 'medium',
+          title: `${untestedPackages.length} of ${packages.length} Workspace Packages Have No Tests`,
+          description: `Add tests to ${this.formatPackageList(untestedPackages)}. Other packages in the workspace already have tests you can follow as a pattern.`,
+          impact: 'Untested packages can break the packages that depend on them without warning',
+        });
       }
 
       if (!hasCICD) {
@@ -235,8 +324,23 @@ export class PortfolioBuilderAgent {
         });
       }
 
+      const packagesWithoutReadme = packages.filter((pkg) => !pkg.hasReadme);
+      if (packages.length > 1 && packagesWithoutReadme.length > 0) {
+        weaknesses.push({
+          id: 'workspace-readme',
+          type: 'documentation',
+          severity: 'low',
+          optional: true,
+          title: `${packagesWithoutReadme.length} of ${packages.length} Workspace Packages Lack a README`,
+          description: `Add a short README to ${this.formatPackageList(packagesWithoutReadme)} explaining what each package does and how it fits into the workspace.`,
+          impact: 'Contributors have to read the code to find out what each package is for',
+        });
+      }
+
+      weaknesses.push(...this.getDependencyWeaknesses(dependencyHealth));
+
       // Check for additional quality indicators
-      const hasLicense = await this.checkLicenseFile(owner, cleanRepo, contents);
+      const hasLicense = await this.checkLicenseFile(provider, contents);
       if (!hasLicense) {
         weaknesses.push({
           id: 'license',
@@ -251,8 +355,8 @@ export class PortfolioBuilderAgent {
 
       // Identify strengths
       const strengths: string[] = [];
-      if (repoData.stargazers_count > 10) {
-        strengths.push(`${repoData.stargazers_count} stars - Good community interest`);
+      if (repoData.stars > 10) {
+        strengths.push(`${repoData.stars} stars - Good community interest`);
       }
       if (repoData.description) {
         strengths.push('Clear repository description');
@@ -260,21 +364,41 @@ export class PortfolioBuilderAgent {
       if (hasReadme.exists) {
         strengths.push('README file present');
       }
+      if (hasReadme.audit?.badges.length) {
+        strengths.push(`${hasReadme.audit.badges.length} README badges`);
+      }
       if (hasTests.exists) {
         strengths.push('Test suite configured');
       }
+      if (dependencyHealth && dependencyHealth.advisoriesChecked > 0 && dependencyHealth.vulnerable.length === 0) {
+        strengths.push(`No known vulnerabilities in ${dependencyHealth.packageCount} locked dependencies`);
+      }
+      if (workspace) {
+        strengths.push(`Monorepo with ${packages.length} packages (${workspace.tools.join(', ')})`);
+      }
 
       // Calculate overall quality score
       const qualityFactors = {
         readme: hasReadme.isComprehensive ? 25 : (hasReadme.exists ? 15 : 0),
-        testing: hasTests.exists ? 25 : 0,
+        testing: hasTests.exists ? Math.round(25 * testedShare) : 0,
         cicd: hasCICD ? 10 : 0, // Lower weight because CI/CD is optional for many personal projects
         documentation: hasDocumentation ? 15 : 0,
         license: hasLicense ? 5 : 0,
         description: repoData.description ? 5 : 0,
       };
-
-      const overallQuality = Object.values(qualityFactors).reduce((sum, val) => sum + val, 0);
+      // Known vulnerabilities in locked dependencies cost points
+      const dependencyPenalty = dependencyHealth?.vulnerable.some(
+        (pkg) => pkg.severity === 'critical' || pkg.severity === 'high'
+      )
+        ? 10
+        : dependencyHealth?.vulnerable.length
+          ? 5
+          : 0;
+
+      const overallQuality = Math.max(
+        0,
+        Object.values(qualityFactors).reduce((sum, val) => sum + val, 0) - dependencyPenalty
+      );
 
       // Generate recommendations (without research results for now)
       const recommendations = this.generateBasicRecommendations(weaknesses);
@@ -287,31 +411,44 @@ export class PortfolioBuilderAgent {
 
       return {
         repository: repoUrl,
+        provider: provider.kind,
         owner,
         repo: cleanRepo,
+        ref,
+        commitSha,
         overallQuality,
         weaknesses,
         strengths,
         recommendations: combinedRecommendations,
+        workspace: workspace ?? undefined,
+        dependencyHealth,
+        readmeAudit: hasReadme.audit,
       };
     } catch (error) {
+      options?.signal?.throwIfAborted();
       console.error('[Portfolio Builder] Analysis error:', error);
       throw new Error(
         `Failed to analyze portfolio: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    } finally {
+      budget.dispose();
     }
   }
 
   /**
    * Enhance recommendations with research results from LangGraph agent
-   * Also extracts templates from GitHub examples using Template Creator MCP
+   * Also extracts templates from GitHub examples using Template Creator MCP,
+   * under the `templates` time budget; recommendations whose extraction runs
+   * out of time go without templates
    */
   async enrichRecommendationsWithResearch(
     recommendations: PortfolioRecommendation[],
-    researchResults: ResearchResults
+    researchResults: ResearchResults,
+    options: { signal?: AbortSignal } = {}
   ): Promise<PortfolioRecommendation[]> {
     const usedResourceUrls = new Set<string>();
     const usedExampleUrls = new Set<string>();
+    const templateBudget = startPhaseBudget('templates', options.signal);
 
     const enrichedRecommendations = await Promise.all(
       recommendations.map(async (rec, index) => {
@@ -384,13 +521,15 @@ export class PortfolioBuilderAgent {
           // Extract templates from GitHub examples using Template Creator MCP
           enrichedRec.templates = await this.extractTemplatesFromExamples(
             filteredExamples,
-            enrichedRec
+            enrichedRec,
+            templateBudget.signal
           );
         }
 
         return enrichedRec;
       })
-    );
+    ).finally(() => templateBudget.dispose());
+    options.signal?.throwIfAborted();
 
     return enrichedRecommendations;
   }
@@ -400,7 +539,8 @@ export class PortfolioBuilderAgent {
    */
   private async extractTemplatesFromExamples(
     examples: GitHubExample[],
-    recommendation: PortfolioRecommendation
+    recommendation: PortfolioRecommendation,
+    signal?: AbortSignal
   ): Promise<ExtractedTemplate[]> {
     const templates: ExtractedTemplate[] = [];
 
@@ -409,7 +549,7 @@ export class PortfolioBuilderAgent {
     }
 
     try {
-      const client = await getTemplateCreatorClient();
+      const client = await abortable(getTemplateCreatorClient(), signal);
       const filePatterns = this.buildExtractionPatterns(recommendation);
 
       console.log(
@@ -417,6 +557,10 @@ export class PortfolioBuilderAgent {
       );
 
       for (const example of examples) {
+        if (signal?.aborted) {
+          console.warn(`[Portfolio Builder]   ⏱️ Skipping remaining templates: ${signal.reason?.message ?? 'cancelled'}`);
+          break;
+        }
         try {
           console.log(`[Portfolio Builder]   Extracting from: ${example.url}`);
 
@@ -428,7 +572,8 @@ export class PortfolioBuilderAgent {
               keepComments: true,
               includeTypes: true,
               removeBusinessLogic: false,
-            }
+            },
+            { signal }
           );
 
           // Add source repo URL to the template
@@ -666,17 +811,26 @@ export class PortfolioBuilderAgent {
   }
 
   /**
-   * Create GitHub issues from recommendations
+   * Create issues from recommendations on the repository's host
+   * (GitHub, GitLab or Bitbucket)
    */
   async createImprovementIssues(
-    owner: string,
-    repo: string,
+    repoUrl: string,
     recommendations: PortfolioRecommendation[],
-    options?: { includeOptional?: boolean }
+    options?: {
+      includeOptional?: boolean;
+      signal?: AbortSignal;
+      /** Reports falling back from the GitHub MCP server to the REST API */
+      onProgress?: AgentProgressListener;
+    }
   ): Promise<IssueCreationResult[]> {
     const results: IssueCreationResult[] = [];
     const includeOptional = options?.includeOptional ?? false;
-    const useMCP = !!process.env.GITHUB_MCP_SERVER_URL;
+    const report = createProgressReporter('portfolio', options?.onProgress);
+    const provider = this.getRepositoryProvider(repoUrl, undefined, options?.signal);
+    const { owner, name: repo } = provider;
+    // The GitHub MCP server only applies to GitHub repositories
+    const useMCP = provider.kind === 'github' && !!process.env.GITHUB_MCP_SERVER_URL;
 
     // Initialize MCP client if available
     if (useMCP && !this.mcpClient) {
@@ -686,11 +840,16 @@ export class PortfolioBuilderAgent {
         console.log('[Portfolio Builder] Connected to GitHub MCP server');
       } catch (error) {
         console.warn('[Portfolio Builder] Failed to connect to MCP server, using REST fallback:', error);
+        report({ type: 'fallback-triggered', reason: 'GitHub MCP server unavailable, creating issues via the REST API' });
         this.mcpClient = null;
       }
     }
 
+    this.mcpClient?.setAbortSignal(options?.signal);
+
     for (const recommendation of recommendations) {
+      // Stop opening issues once the caller has gone away
+      options?.signal?.throwIfAborted();
       if (!includeOptional && recommendation.weakness.optional) {
         continue;
       }
@@ -724,18 +883,17 @@ export class PortfolioBuilderAgent {
             console.log(`[Portfolio Builder] ✅ Created issue via MCP #${issue.number}: ${issue.html_url}`);
           } catch (mcpError) {
             console.warn(`[Portfolio Builder] MCP failed for ${recommendation.title}, falling back to REST:`, mcpError);
+            report({ type: 'fallback-triggered', reason: `MCP failed for "${recommendation.title}", creating it via the REST API` });
             // Fall through to REST fallback
-            issue = await this.githubClient.createIssue(owner, repo, recommendation.title, issueBody, {
-              labels,
-            });
+            const created = await provider.createIssue(recommendation.title, issueBody, { labels });
+            issue = { number: created.number, html_url: created.url };
             console.log(`[Portfolio Builder] ✅ Created issue via REST #${issue.number}: ${issue.html_url}`);
           }
         } else {
-          // Use REST API directly
-          issue = await this.githubClient.createIssue(owner, repo, recommendation.title, issueBody, {
-            labels,
-          });
-          console.log(`[Portfolio Builder] ✅ Created issue via REST #${issue.number}: ${issue.html_url}`);
+          // Use the provider's REST API directly
+          const created = await provider.createIssue(recommendation.title, issueBody, { labels });
+          issue = { number: created.number, html_url: created.url };
+          console.log(`[Portfolio Builder] ✅ Created ${provider.kind} issue via REST #${issue.number}: ${issue.html_url}`);
         }
 
         // Log the normalized issue object for debugging
@@ -762,7 +920,7 @@ export class PortfolioBuilderAgent {
   }
 
   /**
-   * Extract issue number from GitHub issue URL
+   * Extract issue number from an issue URL
    * Example: "https://github.com/owner/repo/issues/123" -> 123
    */
   private extractIssueNumberFromUrl(url: string): number | undefined {
@@ -909,14 +1067,15 @@ export class PortfolioBuilderAgent {
   }
 
   /**
-   * Extract repository name from GitHub URL
+   * Extract owner/name from a repository URL
    */
   private extractRepoName(repoUrl: string): string {
-    const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-    if (match) {
-      return `${match[1]}/${match[2]}`;
+    try {
+      const { owner, name } = parseRepositoryUrl(repoUrl);
+      return `${owner}/${name}`;
+    } catch {
+      return repoUrl;
     }
-    return repoUrl;
   }
 
   /**
@@ -968,6 +1127,11 @@ export class PortfolioBuilderAgent {
 
       switch (weakness.type) {
         case 'readme':
+          if (weakness.readmeFinding) {
+            description = `${weakness.readmeFinding.message}.`;
+            actionItems = this.getReadmeFindingActionItems(weakness.readmeFinding);
+            break;
+          }
           description = 'Create a comprehensive README that helps others understand and use your project effectively. A good README is like a storefront for your code - it should welcome visitors and guide them through your project.',
           actionItems = [
             'Add a clear project title and description',
@@ -1014,6 +1178,25 @@ export class PortfolioBuilderAgent {
           ];
           break;
 
+        case 'security':
+          description = weakness.id === 'dependency-outdated'
+            ? 'Bring outdated dependencies up to date so they keep receiving security fixes. Upgrading regularly in small steps is far easier than one large migration.'
+            : 'Upgrade dependencies with known vulnerabilities. Security advisories are public, so vulnerable versions are among the first things attackers and reviewers look for.';
+          actionItems = weakness.id === 'dependency-outdated'
+            ? [
+                'Review the changelogs of the outdated packages for breaking changes',
+                'Upgrade one major version at a time and run the test suite after each',
+                'Replace deprecated packages with their recommended successors',
+                'Enable Dependabot or Renovate to keep dependencies current',
+              ]
+            : [
+                'Upgrade each vulnerable package to the fixed version listed',
+                'Regenerate and commit the lockfile after upgrading',
+                'Run your package manager\'s audit command (npm audit, pip-audit, cargo audit, govulncheck) in CI',
+                'Enable security alerts for the repository',
+              ];
+          break;
+
         case 'structure':
           description = weakness.id === 'license'
             ? 'Add a license file to clarify how others can use your code.'
@@ -1139,10 +1322,195 @@ export class PortfolioBuilderAgent {
     });
   }
 
+  /**
+   * Detect a monorepo layout from the root workspace configuration files and
+   * summarize each package
+   */
+  private async detectWorkspace(
+    provider: RepositoryProvider,
+    filePaths: string[]
+  ): Promise<{ tools: WorkspaceTool[]; packages: PortfolioPackageQuality[] } | null> {
+    const configFiles = await Promise.all(
+      listWorkspaceConfigPaths(filePaths).map(async (path) => {
+        const content = await provider.readFile(path).catch(() => null);
+        return content === null ? null : { path, content };
+      })
+    );
+    const layout: WorkspaceLayout | null = detectWorkspaceLayout(
+      configFiles.filter((file): file is { path: string; content: string } => file !== null),
+      filePaths
+    );
+    if (!layout) {
+      return null;
+    }
+
+    console.log(`[Portfolio Builder] 📦 Workspace detected (${layout.tools.join(', ')}): ${layout.packages.length} packages`);
+    return {
+      tools: layout.tools,
+      packages: summarizeWorkspacePackages(layout, filePaths).map((pkg) => ({
+        name: pkg.name,
+        path: pkg.path,
+        fileCount: pkg.fileCount,
+        languages: pkg.languages,
+        hasReadme: pkg.hasReadme,
+        hasTests: pkg.hasTests,
+      })),
+    };
+  }
+
+  /**
+   * Parse the repository's lockfiles and check them against the advisory dataset
+   */
+  private async checkDependencyHealth(
+    provider: RepositoryProvider,
+    filePaths: string[],
+    advisoryDataset?: DependencyAdvisoryDataset
+  ): Promise<DependencyHealthReport | undefined> {
+    const MAX_LOCKFILES = 10;
+    const lockfilePaths = filePaths
+      .filter(isLockfilePath)
+      .sort((a, b) => a.split('/').length - b.split('/').length)
+      .slice(0, MAX_LOCKFILES);
+    if (lockfilePaths.length === 0) {
+      return undefined;
+    }
+
+    const lockfiles = await Promise.all(
+      lockfilePaths.map(async (path) => {
+        const content = await provider.readFile(path).catch(() => null);
+        return content === null ? null : { path, content };
+      })
+    );
+    return assessDependencyHealth(
+      lockfiles.filter((file): file is { path: string; content: string } => file !== null),
+      advisoryDataset
+    );
+  }
+
+  /**
+   * One weakness per README audit finding, so each can be selected and filed
+   * as its own issue. Low-severity findings are optional.
+   */
+  private getReadmeWeaknesses(audit: ReadmeAudit): PortfolioWeakness[] {
+    return audit.findings.map((finding) => {
+      const location = finding.line ? ` (line ${finding.line})` : '';
+      let title: string;
+      let impact: string;
+      switch (finding.kind) {
+        case 'missing-section': {
+          const label = audit.sections.find((section) => section.id === finding.section)?.label ?? 'Key';
+          title = `README Missing ${label} Section`;
+          impact = 'Visitors leave when they cannot find out how to install, use or contribute to a project';
+          break;
+        }
+        case 'broken-link':
+          title = `Broken README Link: ${finding.target || '(empty)'}`;
+          impact = 'Broken links make the project look unmaintained and strand readers halfway through the docs';
+          break;
+        case 'broken-image':
+          title = `Broken README Image: ${finding.target || '(empty)'}`;
+          impact = 'A missing image leaves a broken icon where a screenshot or diagram should explain the project';
+          break;
+        case 'missing-alt-text':
+          title = `README Image Without Alt Text${location}`;
+          impact = 'Screen reader users and anyone whose images fail to load miss what the image shows';
+          break;
+        case 'untagged-code-fence':
+          title = `README Code Block Without Language${location}`;
+          impact = 'Code blocks without a language lose syntax highlighting, which makes examples harder to read';
+          break;
+      }
+      return {
+        id: finding.id,
+        type: 'readme' as const,
+        severity: finding.severity,
+        optional: finding.severity === 'low' ? true : undefined,
+        title,
+        description: finding.suggestion,
+        impact,
+        readmeFinding: finding,
+      };
+    });
+  }
+
+  private getReadmeFindingActionItems(finding: ReadmeAuditFinding): string[] {
+    switch (finding.kind) {
+      case 'missing-section':
+        return [finding.suggestion, 'Link the new section from the table of contents, if the README has one'];
+      case 'broken-link':
+      case 'broken-image':
+        return [
+          finding.suggestion,
+          'Check the path is relative to the README and matches the file name\'s case exactly',
+          'Preview the README on the repository host to confirm it renders',
+        ];
+      case 'missing-alt-text':
+        return [finding.suggestion, 'Use `![description](path)` in Markdown or `alt="description"` on <img> tags'];
+      case 'untagged-code-fence':
+        return [finding.suggestion, 'Use `bash` or `sh` for shell commands and `text` for plain output'];
+    }
+  }
+
+  /**
+   * Security weaknesses for vulnerable and outdated locked dependencies
+   */
+  private getDependencyWeaknesses(health?: DependencyHealthReport): PortfolioWeakness[] {
+    if (!health) {
+      return [];
+    }
+    const weaknesses: PortfolioWeakness[] = [];
+    const describe = (pkg: { name: string; version: string }) => `${pkg.name}@${pkg.version}`;
+
+    if (health.vulnerable.length > 0) {
+      const severe = health.vulnerable.some((pkg) => pkg.severity === 'critical' || pkg.severity === 'high');
+      const listed = health.vulnerable.slice(0, 5).map((pkg) => {
+        const fixedIn = pkg.advisories.find((advisory) => advisory.fixedIn)?.fixedIn;
+        return `${describe(pkg)} (${pkg.advisories[0].id}${fixedIn ? `, fixed in ${fixedIn}` : ''})`;
+      });
+      weaknesses.push({
+        id: 'dependency-vulnerabilities',
+        type: 'security',
+        severity: severe ? 'high' : 'medium',
+        title: `${health.vulnerable.length} Dependencies With Known Vulnerabilities`,
+        description: `Your lockfiles pin versions with published security advisories: ${listed.join('; ')}${
+          health.vulnerable.length > listed.length ? ` and ${health.vulnerable.length - listed.length} more` : ''
+        }. Upgrade them to a fixed version.`,
+        impact: 'Known vulnerabilities in dependencies are an easy entry point for attackers and a red flag for reviewers',
+      });
+    }
+
+    if (health.outdated.length > 0) {
+      const listed = health.outdated
+        .slice(0, 5)
+        .map((pkg) => `${describe(pkg)} → ${pkg.latest}${pkg.deprecated ? ' (deprecated)' : ''}`);
+      weaknesses.push({
+        id: 'dependency-outdated',
+        type: 'security',
+        severity: 'low',
+        optional: true,
+        title: `${health.outdated.length} Outdated Dependencies`,
+        description: `Some dependencies are a major version or more behind, or deprecated: ${listed.join('; ')}${
+          health.outdated.length > listed.length ? ` and ${health.outdated.length - listed.length} more` : ''
+        }.`,
+        impact: 'Outdated dependencies stop receiving security fixes and make future upgrades harder',
+      });
+    }
+
+    return weaknesses;
+  }
+
+  private formatPackageList(packages: PortfolioPackageQuality[]): string {
+    const MAX_LISTED_PACKAGES = 5;
+    const listed = packages.slice(0, MAX_LISTED_PACKAGES).map((pkg) => pkg.path).join(', ');
+    return packages.length > MAX_LISTED_PACKAGES
+      ? `${listed} and ${packages.length - MAX_LISTED_PACKAGES} more`
+      : listed;
+  }
+
   /**
    * Check for a license file using common file name variants.
    */
-  private async checkLicenseFile(owner: string, repo: string, contents: any): Promise<boolean> {
+  private async checkLicenseFile(provider: RepositoryProvider, contents: any): Promise<boolean> {
     if (Array.isArray(contents)) {
       const hasLicenseInRoot = contents.some((item: any) => {
         if (!item || typeof item.name !== 'string') {
@@ -1159,7 +1527,7 @@ export class PortfolioBuilderAgent {
     }
 
     for (const candidate of LICENSE_FILE_CANDIDATES) {
-      const exists = await this.githubClient.fileExists(owner, repo, candidate).catch(() => false);
+      const exists = await provider.fileExists(candidate).catch(() => false);
       if (exists) {
         return true;
       }
@@ -1169,24 +1537,29 @@ export class PortfolioBuilderAgent {
   }
 
   /**
-   * Check README quality
+   * Check README quality and audit its sections, links and images against the tree
    */
   private async checkReadmeQuality(
-    owner: string,
-    repo: string
-  ): Promise<{ exists: boolean; isComprehensive: boolean }> {
+    provider: RepositoryProvider,
+    filePaths: string[]
+  ): Promise<{ exists: boolean; isComprehensive: boolean; audit?: ReadmeAudit }> {
     try {
-      const readme = await this.githubClient.getRepositoryReadme(owner, repo);
-      const content = Buffer.from(readme.content, 'base64').toString('utf-8').toLowerCase();
+      const readme = await provider.readReadme();
+      if (!readme) {
+        return { exists: false, isComprehensive: false };
+      }
+      const content = readme.content.toLowerCase();
+      const audit = auditReadme(readme.content, { readmePath: readme.path, filePaths });
+      const hasSection = (id: string) => audit.sections.some((section) => section.id === id && section.present);
 
       // Check for key sections
-      const hasInstallation = content.includes('install') || content.includes('setup');
-      const hasUsage = content.includes('usage') || content.includes('example');
+      const hasInstallation = hasSection('install') || content.includes('install') || content.includes('setup');
+      const hasUsage = hasSection('usage') || content.includes('usage') || content.includes('example');
       const hasFeatures = content.includes('feature') || content.length > 500;
 
       const isComprehensive = hasInstallation && hasUsage && hasFeatures;
 
-      return { exists: true, isComprehensive };
+      return { exists: true, isComprehensive, audit };
     } catch (error) {
       return { exists: false, isComprehensive: false };
     }
@@ -1195,11 +1568,7 @@ export class PortfolioBuilderAgent {
   /**
    * Check for testing coverage
    */
-  private async checkTestingCoverage(
-    owner: string,
-    repo: string,
-    contents: any
-  ): Promise<{ exists: boolean }> {
+  private async checkTestingCoverage(contents: any): Promise<{ exists: boolean }> {
     if (!Array.isArray(contents)) {
       return { exists: false };
     }
@@ -1223,12 +1592,12 @@ export class PortfolioBuilderAgent {
   /**
    * Check for CI/CD setup or modern deployment platforms
    */
-  private async checkCICDSetup(owner: string, repo: string, contents: any): Promise<boolean> {
+  private async checkCICDSetup(provider: RepositoryProvider, contents: any): Promise<boolean> {
     try {
       // Check for .github/workflows directory (GitHub Actions)
       let hasGithubActions = false;
       try {
-        hasGithubActions = await this.githubClient.fileExists(owner, repo, '.github/workflows');
+        hasGithubActions = await provider.fileExists('.github/workflows');
       } catch {
         hasGithubActions = false;
       }
@@ -1239,7 +1608,7 @@ export class PortfolioBuilderAgent {
       }
 
       // Check for deployment platform indicators in README and repo description
-      const hasDeploymentLinks = await this.checkForDeploymentLinks(owner, repo);
+      const hasDeploymentLinks = await this.checkForDeploymentLinks(provider);
       if (hasDeploymentLinks) {
         console.log('[Portfolio Builder] ✅ Detected deployment platform from links (built-in CI/CD) - skipping CI/CD recommendation');
         return true;
@@ -1257,6 +1626,7 @@ export class PortfolioBuilderAgent {
         '.circleci',
         'jenkins',
         '.gitlab-ci.yml',
+        'bitbucket-pipelines.yml',
         'azure-pipelines.yml',
       ];
 
@@ -1300,10 +1670,10 @@ export class PortfolioBuilderAgent {
   /**
    * Check README and repository description for deployment platform links
    */
-  private async checkForDeploymentLinks(owner: string, repo: string): Promise<boolean> {
+  private async checkForDeploymentLinks(provider: RepositoryProvider): Promise<boolean> {
     try {
       // Get repository data for description
-      const repoData = await this.githubClient.getRepository(owner, repo);
+      const repoData = await provider.getInfo();
       const description = (repoData.description || '').toLowerCase();
       const homepage = (repoData.homepage || '').toLowerCase();
 
@@ -1338,8 +1708,8 @@ export class PortfolioBuilderAgent {
 
       // Check README content
       try {
-        const readme = await this.githubClient.getRepositoryReadme(owner, repo);
-        const readmeContent = Buffer.from(readme.content, 'base64').toString('utf-8').toLowerCase();
+        const readme = await provider.readReadme();
+        const readmeContent = (readme?.content ?? '').toLowerCase();
 
         if (deploymentDomains.some(domain => readmeContent.includes(domain))) {
           console.log(`[Portfolio Builder] 📍 Found deployment platform links in README`);
@@ -1359,12 +1729,12 @@ export class PortfolioBuilderAgent {
   /**
    * Check for documentation
    */
-  private async checkDocumentation(owner: string, repo: string, contents: any): Promise<boolean> {
+  private async checkDocumentation(provider: RepositoryProvider, contents: any): Promise<boolean> {
     try {
       // Check for /docs folder
       let hasDocs = false;
       try {
-        hasDocs = await this.githubClient.fileExists(owner, repo, 'docs');
+        hasDocs = await provider.fileExists('docs');
       } catch {
         hasDocs = false;
       }
@@ -0,0 +1,158 @@
+/**
+ * Typed progress events streamed from the agent routes to the UI.
+ *
+ * Routes that accept `stream: true` answer with Server-Sent Events instead of
+ * JSON: any number of `progress` events carrying an AgentProgressEvent, then
+ * exactly one `result` event with the payload the JSON variant would return,
+ * or one `error` event. Only web-standard APIs are used, so the same module
+ * serves the routes and the browser.
+ */
+
+export type AgentProgressPhase = 'analysis' | 'research' | 'portfolio';
+
+export type AgentProgressStep =
+  | { type: 'started'; message: string }
+  | { type: 'step'; message: string }
+  | { type: 'file-selected'; path: string; language: string }
+  | { type: 'readme-scored'; score: number }
+  | { type: 'fallback-triggered'; reason: string }
+  | { type: 'completed'; message: string }
+  | { type: 'failed'; error: string };
+
+export type AgentProgressEvent = AgentProgressStep & {
+  phase: AgentProgressPhase;
+  /** ISO timestamp */
+  at: string;
+};
+
+export type AgentProgressListener = (event: AgentProgressEvent) => void;
+export type AgentProgressReporter = (step: AgentProgressStep) => void;
+
+/**
+ * Bind a listener to a phase; a missing listener makes reporting a no-op
+ */
+export const createProgressReporter = (
+  phase: AgentProgressPhase,
+  listener?: AgentProgressListener
+): AgentProgressReporter => (step) => {
+  listener?.({ ...step, phase, at: new Date().toISOString() });
+};
+
+export const describeProgressEvent = (event: AgentProgressEvent): string => {
+  switch (event.type) {
+    case 'started':
+    case 'step':
+    case 'completed':
+      return event.message;
+    case 'file-selected':
+      return `Selected ${event.path} (${event.language}) for review`;
+    case 'readme-scored':
+      return `README scored ${event.score}/100`;
+    case 'fallback-triggered':
+      return `Fallback: ${event.reason}`;
+    case 'failed':
+      return `Failed: ${event.error}`;
+  }
+};
+
+const encodeServerSentEvent = (encoder: TextEncoder, name: string, data: unknown): Uint8Array =>
+  encoder.encode(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+
+/**
+ * Run `work` and stream its progress as Server-Sent Events. The value `work`
+ * resolves with becomes the `result` event; a thrown error becomes a
+ * `failed` progress event followed by an `error` event. Once the client
+ * disconnects, events are dropped; `work` stops through the request signal.
+ */
+export const streamAgentProgress = (
+  phase: AgentProgressPhase,
+  work: (report: AgentProgressReporter) => Promise<unknown>
+): Response => {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (name: string, data: unknown) => {
+        if (!cancelled) {
+          controller.enqueue(encodeServerSentEvent(encoder, name, data));
+        }
+      };
+      const report = createProgressReporter(phase, (event) => send('progress', event));
+      try {
+        const result = await work(report);
+        send('result', result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        report({ type: 'failed', error: message });
+        send('error', { error: message });
+      } finally {
+        if (!cancelled) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+};
+
+/**
+ * Read a streamed route response, passing each progress event to `onEvent`.
+ * Resolves with the `result` payload and rejects with the `error` message.
+ */
+export const readAgentProgressStream = async <T = any>(
+  response: Response,
+  onEvent: AgentProgressListener
+): Promise<T> => {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const lines = block.split('\n');
+      const name = lines.find((line) => line.startsWith('event: '))?.slice('event: '.length);
+      const data = lines
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice('data: '.length))
+        .join('\n');
+      if (!name || !data) {
+        continue;
+      }
+
+      const payload = JSON.parse(data);
+      if (name === 'progress') {
+        onEvent(payload as AgentProgressEvent);
+      } else if (name === 'result') {
+        return payload as T;
+      } else if (name === 'error') {
+        throw new Error(payload.error ?? 'Streaming request failed');
+      }
+    }
+
+    if (done) {
+      throw new Error('Stream ended without a result');
+    }
+  }
+};
@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DependencyAdvisoryDataset, OsvAdvisory, PackageReleaseMetadata } from './dependency-health';
+
+/**
+ * Server-only loader for the offline dependency advisory dataset.
+ *
+ * OSV_ADVISORY_PATH points at an OSV export: a directory of advisory JSON
+ * files (as in the per-ecosystem `all.zip` dumps, unpacked) or a single JSON
+ * file holding an array of advisories. DEPENDENCY_RELEASES_PATH points at a
+ * JSON array of `{ ecosystem, name, latest, deprecated? }` release entries.
+ * Either may be omitted; the dataset is loaded once per process.
+ */
+
+const MAX_ADVISORY_FILES = 200_000;
+
+let datasetPromise: Promise<DependencyAdvisoryDataset> | null = null;
+
+const isAdvisory = (value: unknown): value is OsvAdvisory =>
+  Boolean(value) && typeof (value as OsvAdvisory).id === 'string' && Array.isArray((value as OsvAdvisory).affected);
+
+const isRelease = (value: unknown): value is PackageReleaseMetadata =>
+  Boolean(value) &&
+  typeof (value as PackageReleaseMetadata).ecosystem === 'string' &&
+  typeof (value as PackageReleaseMetadata).name === 'string' &&
+  typeof (value as PackageReleaseMetadata).latest === 'string';
+
+const readJson = async (file: string): Promise<unknown> => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    console.warn(`[DependencyHealth] ⚠️ Skipping unreadable JSON ${file}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+const listJsonFiles = async (directory: string, found: string[] = []): Promise<string[]> => {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  for (const entry of entries) {
+    if (found.length >= MAX_ADVISORY_FILES) {
+      break;
+    }
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      await listJsonFiles(fullPath, found);
+    } else if (entry.name.endsWith('.json')) {
+      found.push(fullPath);
+    }
+  }
+  return found;
+};
+
+const loadAdvisories = async (advisoryPath: string): Promise<OsvAdvisory[]> => {
+  const stats = await fs.stat(advisoryPath);
+  const files = stats.isDirectory() ? await listJsonFiles(advisoryPath) : [advisoryPath];
+  const advisories: OsvAdvisory[] = [];
+  for (const file of files) {
+    const data = await readJson(file);
+    const items = Array.isArray(data) ? data : Array.isArray((data as any)?.advisories) ? (data as any).advisories : [data];
+    advisories.push(...items.filter(isAdvisory));
+  }
+  return advisories;
+};
+
+const loadReleases = async (releasesPath: string): Promise<PackageReleaseMetadata[]> => {
+  const data = await readJson(releasesPath);
+  const items = Array.isArray(data) ? data : Array.isArray((data as any)?.releases) ? (data as any).releases : [];
+  return items.filter(isRelease);
+};
+
+/**
+ * Load the advisory dataset from OSV_ADVISORY_PATH and DEPENDENCY_RELEASES_PATH.
+ * A missing or unreadable source yields an empty list rather than an error, so
+ * dependency health degrades to "not checked" instead of failing the analysis.
+ */
+export const loadAdvisoryDataset = (): Promise<DependencyAdvisoryDataset> => {
+  if (!datasetPromise) {
+    const advisoryPath = process.env.OSV_ADVISORY_PATH;
+    const releasesPath = process.env.DEPENDENCY_RELEASES_PATH;
+
+    datasetPromise = Promise.all([
+      advisoryPath
+        ? loadAdvisories(advisoryPath).catch((error) => {
+            console.warn(`[DependencyHealth] ⚠️ Could not load advisories from ${advisoryPath}:`, error);
+            return [];
+          })
+        : Promise.resolve([]),
+      releasesPath
+        ? loadReleases(releasesPath).catch((error) => {
+            console.warn(`[DependencyHealth] ⚠️ Could not load release metadata from ${releasesPath}:`, error);
+            return [];
+          })
+        : Promise.resolve([]),
+    ]).then(([advisories, releases]) => {
+      if (advisoryPath || releasesPath) {
+        console.log(`[DependencyHealth] Loaded ${advisories.length} advisories and ${releases.length} release entries`);
+      }
+      return { advisories, releases };
+    });
+  }
+  return datasetPromise;
+};
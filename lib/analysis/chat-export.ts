@@ -0,0 +1,334 @@
+import {
+  buildChatScrapeResult,
+  extractCodeBlocks,
+  scrapeChatTranscript,
+  type ChatConversationSummary,
+  type ChatScrapeResult,
+  type ChatTranscriptFormat,
+  type ChatTurn,
+  type ScrapedSpeaker,
+} from './chat-scraper';
+
+/**
+ * Parsers for structured chat exports: ChatGPT's conversations.json, the
+ * Claude export JSON and generic JSONL message logs. Every format is turned
+ * into the same turns as the plain-text scraper, keeping code blocks and
+ * timestamps, so the rest of the chat analysis does not care where a
+ * transcript came from.
+ */
+
+interface ParsedConversation {
+  summary: ChatConversationSummary;
+  turns: ChatTurn[];
+}
+
+const SPEAKER_ALIASES: Record<string, ScrapedSpeaker> = {
+  user: 'user',
+  human: 'user',
+  assistant: 'assistant',
+  ai: 'assistant',
+  bot: 'assistant',
+  model: 'assistant',
+  system: 'system',
+  developer: 'system',
+};
+
+const toSpeaker = (role: unknown): ScrapedSpeaker | null => {
+  const name = typeof role === 'string' ? role : typeof (role as any)?.role === 'string' ? (role as any).role : null;
+  return name ? SPEAKER_ALIASES[name.toLowerCase()] ?? null : null;
+};
+
+// Epoch values are read by magnitude: seconds, then milliseconds, microseconds and nanoseconds
+const EPOCH_UNIT_LIMITS: Array<[limit: number, toMilliseconds: number]> = [
+  [1e11, 1000],
+  [1e14, 1],
+  [1e17, 1e-3],
+  [1e20, 1e-6],
+];
+
+/**
+ * ISO timestamp from an ISO/date string or an epoch value in seconds,
+ * milliseconds, microseconds or nanoseconds. Out-of-range values give
+ * undefined.
+ */
+export const toIsoTimestamp = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    const unit = EPOCH_UNIT_LIMITS.find(([limit]) => value < limit);
+    const date = unit ? new Date(value * unit[1]) : null;
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    if (/^\d+(\.\d+)?$/.test(value.trim())) {
+      return toIsoTimestamp(Number(value));
+    }
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+  }
+  return undefined;
+};
+
+/**
+ * Text of a message body: a string, an array of strings or `{ type: 'text', text }`
+ * parts, or an object with `text`/`content`. Images, tool calls and other
+ * non-text parts are left out.
+ */
+const textFromContent = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === 'string' ? part : part?.type === undefined || part.type === 'text' ? textFromContent(part) : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  if (content && typeof content === 'object') {
+    const record = content as Record<string, unknown>;
+    if (typeof record.text === 'string') {
+      return record.text;
+    }
+    if (record.content !== undefined) {
+      return textFromContent(record.content);
+    }
+  }
+  return '';
+};
+
+const buildTurn = (
+  speaker: ScrapedSpeaker,
+  text: string,
+  extra: { timestamp?: string; conversationId?: string; codeLanguage?: string | null } = {}
+): ChatTurn | null => {
+  // Code interpreter messages carry a single code body rather than fenced markdown
+  const { prose, codeBlocks } =
+    extra.codeLanguage !== undefined
+      ? { prose: '', codeBlocks: text.trim() ? [{ language: extra.codeLanguage, code: text }] : [] }
+      : extractCodeBlocks(text);
+  const content = prose.replace(/\s+/g, ' ').trim();
+  if (!content && codeBlocks.length === 0) {
+    return null;
+  }
+  return {
+    speaker,
+    content,
+    ...(codeBlocks.length > 0 ? { codeBlocks } : {}),
+    ...(extra.timestamp ? { timestamp: extra.timestamp } : {}),
+    ...(extra.conversationId ? { conversationId: extra.conversationId } : {}),
+  };
+};
+
+const summarize = (
+  id: string,
+  title: unknown,
+  createdAt: unknown,
+  turns: ChatTurn[]
+): ParsedConversation => ({
+  summary: {
+    id,
+    title: typeof title === 'string' && title.trim() ? title.trim() : null,
+    createdAt: toIsoTimestamp(createdAt) ?? turns.find((turn) => turn.timestamp)?.timestamp ?? null,
+    turnCount: turns.length,
+  },
+  turns,
+});
+
+/**
+ * ChatGPT conversations.json: each conversation stores its messages as a tree
+ * in `mapping`. The branch ending at `current_node` is the one the user saw;
+ * edited-away branches are skipped.
+ */
+const parseChatGptConversation = (conversation: any, index: number): ParsedConversation => {
+  const id = String(conversation.conversation_id ?? conversation.id ?? `conversation-${index + 1}`);
+  const mapping: Record<string, any> = conversation.mapping ?? {};
+
+  let nodes: any[] = [];
+  if (conversation.current_node && mapping[conversation.current_node]) {
+    const seen = new Set<string>();
+    let nodeId: string | null = conversation.current_node;
+    while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+      seen.add(nodeId);
+      nodes.unshift(mapping[nodeId]);
+      nodeId = mapping[nodeId].parent ?? null;
+    }
+  } else {
+    nodes = Object.values(mapping).sort(
+      (a, b) => (a?.message?.create_time ?? 0) - (b?.message?.create_time ?? 0)
+    );
+  }
+
+  const turns = nodes.flatMap((node): ChatTurn[] => {
+    const message = node?.message;
+    const speaker = toSpeaker(message?.author);
+    if (!message || !speaker || message.metadata?.is_visually_hidden_from_conversation) {
+      return [];
+    }
+    const content = message.content ?? {};
+    const extra = { timestamp: toIsoTimestamp(message.create_time), conversationId: id };
+    const turn =
+      content.content_type === 'code'
+        ? buildTurn(speaker, String(content.text ?? ''), {
+            ...extra,
+            codeLanguage: content.language && content.language !== 'unknown' ? String(content.language) : null,
+          })
+        : content.content_type === 'text' || content.content_type === 'multimodal_text'
+          ? buildTurn(speaker, textFromContent(content.parts ?? []), extra)
+          : null;
+    return turn ? [turn] : [];
+  });
+
+  return summarize(id, conversation.title, conversation.create_time, turns);
+};
+
+/**
+ * Claude export JSON: conversations with a flat `chat_messages` list whose
+ * `sender` is "human" or "assistant"
+ */
+const parseClaudeConversation = (conversation: any, index: number): ParsedConversation => {
+  const id = String(conversation.uuid ?? conversation.id ?? `conversation-${index + 1}`);
+  const messages: any[] = Array.isArray(conversation.chat_messages) ? conversation.chat_messages : [];
+
+  const turns = messages.flatMap((message): ChatTurn[] => {
+    const speaker = toSpeaker(message?.sender);
+    if (!speaker) {
+      return [];
+    }
+    const text =
+      typeof message.text === 'string' && message.text.trim() ? message.text : textFromContent(message.content ?? []);
+    const turn = buildTurn(speaker, text, { timestamp: toIsoTimestamp(message.created_at), conversationId: id });
+    return turn ? [turn] : [];
+  });
+
+  return summarize(id, conversation.name, conversation.created_at, turns);
+};
+
+const CONVERSATION_ID_FIELDS = ['conversation_id', 'conversationId', 'session_id', 'sessionId', 'thread_id', 'threadId'];
+const TIMESTAMP_FIELDS = ['timestamp', 'created_at', 'createdAt', 'create_time', 'time', 'date'];
+
+const firstField = (record: Record<string, unknown>, fields: string[]): unknown =>
+  fields.map((field) => record[field]).find((value) => value !== undefined && value !== null);
+
+const toMessageTurn = (record: any, conversationId?: string): ChatTurn | null => {
+  const speaker = toSpeaker(record?.role ?? record?.speaker ?? record?.sender ?? record?.author);
+  if (!speaker) {
+    return null;
+  }
+  const rawConversationId = firstField(record, CONVERSATION_ID_FIELDS);
+  return buildTurn(speaker, textFromContent(record.content ?? record.text ?? record.message), {
+    timestamp: toIsoTimestamp(firstField(record, TIMESTAMP_FIELDS)),
+    conversationId: conversationId ?? (rawConversationId !== undefined ? String(rawConversationId) : undefined),
+  });
+};
+
+/**
+ * Generic message logs, one JSON object per line (or a JSON array of them).
+ * A record is either a message with a role and content, or a conversation
+ * with a `messages` array as in fine-tuning datasets.
+ */
+const parseMessageLog = (records: any[]): ParsedConversation[] => {
+  const turns: ChatTurn[] = [];
+  records.forEach((record, index) => {
+    if (Array.isArray(record?.messages)) {
+      const conversationId = String(firstField(record, ['id', ...CONVERSATION_ID_FIELDS]) ?? `conversation-${index + 1}`);
+      record.messages.forEach((message: any) => {
+        const turn = toMessageTurn(message, conversationId);
+        if (turn) turns.push(turn);
+      });
+      return;
+    }
+    const turn = toMessageTurn(record);
+    if (turn) turns.push(turn);
+  });
+
+  const byConversation = new Map<string, ChatTurn[]>();
+  turns.forEach((turn) => {
+    const key = turn.conversationId ?? '';
+    byConversation.set(key, [...(byConversation.get(key) ?? []), turn]);
+  });
+
+  return Array.from(byConversation.entries()).map(([id, conversationTurns]) =>
+    summarize(id || 'log', null, undefined, conversationTurns)
+  );
+};
+
+const parseJsonLines = (raw: string): any[] | null => {
+  const lines = raw.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) {
+    return null;
+  }
+  try {
+    return lines.map((line) => JSON.parse(line));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Work out which export a file holds from its content. Anything that is not
+ * a recognised JSON structure is treated as a plain-text transcript.
+ */
+export const detectChatExportFormat = (
+  raw: string
+): { format: ChatTranscriptFormat; records: any[] } => {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+    return { format: 'text', records: [] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    const lines = parseJsonLines(trimmed);
+    return lines ? { format: 'jsonl', records: lines } : { format: 'text', records: [] };
+  }
+
+  const records: any[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as any)?.conversations)
+      ? (parsed as any).conversations
+      : [parsed];
+  const sample = records.find((record) => record && typeof record === 'object');
+  if (!sample) {
+    return { format: 'text', records: [] };
+  }
+  if ('mapping' in sample) {
+    return { format: 'chatgpt', records };
+  }
+  if ('chat_messages' in sample) {
+    return { format: 'claude', records };
+  }
+  return { format: 'jsonl', records };
+};
+
+/**
+ * Turns, questions and metadata for a chat export in any supported format,
+ * falling back to the plain-text scraper
+ */
+export const parseChatExport = (raw: string): ChatScrapeResult => {
+  const { format, records } = detectChatExportFormat(raw);
+
+  const conversations =
+    format === 'chatgpt'
+      ? records.map(parseChatGptConversation)
+      : format === 'claude'
+        ? records.map(parseClaudeConversation)
+        : format === 'jsonl'
+          ? parseMessageLog(records)
+          : null;
+  if (!conversations) {
+    return scrapeChatTranscript(raw);
+  }
+
+  const nonEmpty = conversations.filter((conversation) => conversation.turns.length > 0);
+  return buildChatScrapeResult(
+    nonEmpty.flatMap((conversation) => conversation.turns),
+    { format, conversations: nonEmpty.map((conversation) => conversation.summary) }
+  );
+};
+
+export const CHAT_EXPORT_FORMAT_LABELS: Record<ChatTranscriptFormat, string> = {
+  text: 'Plain-text transcript',
+  chatgpt: 'ChatGPT export',
+  claude: 'Claude export',
+  jsonl: 'JSONL message log',
+};
@@ -37,25 +37,58 @@ const QUESTION_STARTERS = [
 
 export type ScrapedSpeaker = 'user' | 'assistant' | 'system' | 'unknown';
 
+/** Where a transcript came from: pasted text or a structured export */
+export type ChatTranscriptFormat = 'text' | 'chatgpt' | 'claude' | 'jsonl';
+
+export interface ChatCodeBlock {
+  /** Fence info string, e.g. "tsx"; null when the fence has none */
+  language: string | null;
+  code: string;
+}
+
 export interface ChatTurn {
   speaker: ScrapedSpeaker;
+  /** Prose with fenced code blocks taken out */
   content: string;
+  codeBlocks?: ChatCodeBlock[];
+  /** ISO timestamp, when the export records one */
+  timestamp?: string;
+  /** Conversation the turn belongs to, for exports holding several */
+  conversationId?: string;
 }
 
 export interface ScrapedQuestion {
   text: string;
   type: 'open-ended' | 'clarifying' | 'closed' | 'request';
   length: number;
+  /** Index of the turn in `turns` the question was asked in */
+  turnIndex: number;
+  timestamp?: string;
+  conversationId?: string;
+}
+
+export interface ChatConversationSummary {
+  id: string;
+  title: string | null;
+  createdAt: string | null;
+  turnCount: number;
 }
 
 export interface ChatScrapeResult {
+  format: ChatTranscriptFormat;
   turns: ChatTurn[];
   userQuestions: ScrapedQuestion[];
   assistantMessages: string[];
+  conversations: ChatConversationSummary[];
   metadata: {
     totalTurns: number;
     questionCount: number;
     averageQuestionLength: number;
+    conversationCount: number;
+    codeBlockCount: number;
+    /** Earliest and latest turn timestamps, when the transcript has any */
+    firstTimestamp: string | null;
+    lastTimestamp: string | null;
   };
 }
 
@@ -138,10 +171,12 @@ const splitIntoSentences = (text: string) =>
     .map((segment) => segment.trim())
     .filter(Boolean);
 
-const extractQuestionsFromContent = (content: string): ScrapedQuestion[] => {
+const extractQuestionsFromContent = (
+  content: string
+): Array<Pick<ScrapedQuestion, 'text' | 'type' | 'length'>> => {
   const sentences = splitIntoSentences(content);
 
-  const questions: ScrapedQuestion[] = [];
+  const questions: Array<Pick<ScrapedQuestion, 'text' | 'type' | 'length'>> = [];
   
   sentences.forEach((sentence) => {
     const normalized = normalizeWhitespace(sentence);
@@ -158,6 +193,40 @@ const extractQuestionsFromContent = (content: string): ScrapedQuestion[] => {
   return questions;
 };
 
+const parseFenceLanguage = (fenceLine: string): string | null =>
+  fenceLine.trim().replace(/^`{3,}/, '').trim().split(/\s+/)[0]?.toLowerCase() || null;
+
+/**
+ * Split message text into prose and its fenced code blocks. An unterminated
+ * fence runs to the end of the text.
+ */
+export const extractCodeBlocks = (text: string): { prose: string; codeBlocks: ChatCodeBlock[] } => {
+  const prose: string[] = [];
+  const codeBlocks: ChatCodeBlock[] = [];
+  let current: { language: string | null; lines: string[] } | null = null;
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.trim().startsWith('```')) {
+      if (current) {
+        codeBlocks.push({ language: current.language, code: current.lines.join('\n') });
+        current = null;
+      } else {
+        current = { language: parseFenceLanguage(line), lines: [] };
+      }
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      prose.push(line);
+    }
+  }
+
+  if (current) {
+    codeBlocks.push({ language: current.language, code: current.lines.join('\n') });
+  }
+
+  return { prose: prose.join('\n'), codeBlocks: codeBlocks.filter((block) => block.code.trim()) };
+};
+
 const shouldStartNewTurn = (line: string, currentSpeaker: ScrapedSpeaker) => {
   if (!line) return false;
 
@@ -181,15 +250,16 @@ export const scrapeChatTranscript = (rawText: string): ChatScrapeResult => {
 
   let currentSpeaker: ScrapedSpeaker = 'unknown';
   let buffer: string[] = [];
-  let insideCodeBlock = false;
+  let codeBlocks: ChatCodeBlock[] = [];
+  let openCodeBlock: { language: string | null; lines: string[] } | null = null;
 
   const flushBuffer = () => {
-    if (buffer.length === 0) {
+    if (buffer.length === 0 && codeBlocks.length === 0) {
       return;
     }
 
     const combined = normalizeWhitespace(buffer.join(' ').trim());
-    if (!combined) {
+    if (!combined && codeBlocks.length === 0) {
       buffer = [];
       return;
     }
@@ -198,20 +268,35 @@ export const scrapeChatTranscript = (rawText: string): ChatScrapeResult => {
     turns.push({
       speaker,
       content: combined,
+      ...(codeBlocks.length > 0 ? { codeBlocks } : {}),
     });
 
     buffer = [];
+    codeBlocks = [];
+  };
+
+  const closeCodeBlock = () => {
+    if (openCodeBlock && openCodeBlock.lines.join('').trim()) {
+      codeBlocks.push({ language: openCodeBlock.language, code: openCodeBlock.lines.join('\n') });
+    }
+    openCodeBlock = null;
   };
 
   lines.forEach((line) => {
     const rawTrimmed = line.trim();
 
+    // Code stays with the turn it appears in but out of its prose
     if (rawTrimmed.startsWith('```')) {
-      insideCodeBlock = !insideCodeBlock;
+      if (openCodeBlock) {
+        closeCodeBlock();
+      } else {
+        openCodeBlock = { language: parseFenceLanguage(rawTrimmed), lines: [] };
+      }
       return;
     }
 
-    if (insideCodeBlock) {
+    if (openCodeBlock) {
+      openCodeBlock.lines.push(line);
       return;
     }
 
@@ -249,17 +334,33 @@ export const scrapeChatTranscript = (rawText: string): ChatScrapeResult => {
     buffer.push(content);
   });
 
+  closeCodeBlock();
   flushBuffer();
 
+  return buildChatScrapeResult(turns, { format: 'text' });
+};
+
+/**
+ * Questions, assistant messages and metadata for turns from any transcript
+ * format. Structured exports pass the conversations they found.
+ */
+export const buildChatScrapeResult = (
+  turns: ChatTurn[],
+  options: { format: ChatTranscriptFormat; conversations?: ChatConversationSummary[] }
+): ChatScrapeResult => {
   const userQuestions: ScrapedQuestion[] = [];
   const assistantMessages: string[] = [];
 
-  turns.forEach((turn) => {
+  turns.forEach((turn, turnIndex) => {
     if (turn.speaker === 'user') {
-      const questions = extractQuestionsFromContent(turn.content);
-      if (questions.length > 0) {
-        userQuestions.push(...questions);
-      }
+      extractQuestionsFromContent(turn.content).forEach((question) => {
+        userQuestions.push({
+          ...question,
+          turnIndex,
+          ...(turn.timestamp ? { timestamp: turn.timestamp } : {}),
+          ...(turn.conversationId ? { conversationId: turn.conversationId } : {}),
+        });
+      });
     }
 
     if (turn.speaker === 'assistant') {
@@ -268,17 +369,28 @@ export const scrapeChatTranscript = (rawText: string): ChatScrapeResult => {
   });
 
   const totalQuestionLength = userQuestions.reduce((sum, q) => sum + q.length, 0);
+  const timestamps = turns
+    .map((turn) => turn.timestamp)
+    .filter((timestamp): timestamp is string => Boolean(timestamp))
+    .sort();
+  const conversations = options.conversations ?? [];
 
   return {
+    format: options.format,
     turns,
     userQuestions,
     assistantMessages,
+    conversations,
     metadata: {
       totalTurns: turns.length,
       questionCount: userQuestions.length,
       averageQuestionLength: userQuestions.length
         ? Math.round(totalQuestionLength / userQuestions.length)
         : 0,
+      conversationCount: Math.max(conversations.length, turns.length > 0 ? 1 : 0),
+      codeBlockCount: turns.reduce((sum, turn) => sum + (turn.codeBlocks?.length ?? 0), 0),
+      firstTimestamp: timestamps[0] ?? null,
+      lastTimestamp: timestamps[timestamps.length - 1] ?? null,
     },
   };
 };
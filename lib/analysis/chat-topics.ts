@@ -0,0 +1,171 @@
+import type { ChatScrapeResult, ChatTranscriptFormat } from './chat-scraper';
+import { findSkillMentions, resolveSkill, type SkillTaxonomyGroup, type TaxonomySkill } from './skill-taxonomy';
+
+/**
+ * Topic clustering for chat transcripts: the developer's questions are
+ * grouped by the technology they ask about. A technology asked about again
+ * and again, or in several separate conversations, is a likely skill gap.
+ */
+
+export interface ChatTopicCluster {
+  /** Taxonomy skill id */
+  skillId: string;
+  name: string;
+  group: SkillTaxonomyGroup;
+  questionCount: number;
+  conversationCount: number;
+  /** "What is" / "how to" style questions among them */
+  basicQuestionCount: number;
+  /** Code blocks in the turns the questions were asked in */
+  codeBlockCount: number;
+  firstAskedAt: string | null;
+  lastAskedAt: string | null;
+  /** Other technologies most often asked about in the same questions */
+  relatedTopics: string[];
+  sampleQuestions: string[];
+  /** Asked about often enough to suggest a gap */
+  repeated: boolean;
+  /** Rough 1-5 level implied by the questions; lower when they repeat or stay basic */
+  estimatedLevel: number;
+}
+
+export interface ChatTopicAnalysis {
+  format: ChatTranscriptFormat;
+  /** Largest clusters first */
+  clusters: ChatTopicCluster[];
+  /** Names of the repeated clusters */
+  repeatedTopics: string[];
+  /** Questions that mention no known technology */
+  unclusteredQuestionCount: number;
+  summary: string[];
+}
+
+const TOPIC_GROUPS: SkillTaxonomyGroup[] = ['language', 'framework', 'database', 'devops', 'cloud', 'testing', 'ml', 'data'];
+// A topic counts as repeated at this many questions, or when it comes up in this many conversations
+const REPEATED_QUESTION_COUNT = 3;
+const REPEATED_CONVERSATION_COUNT = 2;
+const MAX_SAMPLE_QUESTIONS = 3;
+const MAX_RELATED_TOPICS = 3;
+
+const BASIC_QUESTION_PATTERN = /\b(what is|what are|what does|how to|how do i|explain|difference between|getting started|beginner|basic)\b/i;
+
+const roundLevel = (level: number) => Math.round(level * 10) / 10;
+
+/**
+ * Asking about a technology at all suggests working knowledge (3). Each
+ * repeat lowers that a little, and a high share of basic questions lowers it
+ * further.
+ */
+const estimateTopicLevel = (questionCount: number, basicQuestionCount: number): number =>
+  roundLevel(
+    Math.min(3, Math.max(1, 3 - 0.25 * (questionCount - 1) - (basicQuestionCount / questionCount) * 0.75))
+  );
+
+const formatDate = (timestamp: string) => timestamp.slice(0, 10);
+
+export const clusterChatTopics = (chat: ChatScrapeResult): ChatTopicAnalysis => {
+  const clusters = new Map<
+    string,
+    {
+      skill: TaxonomySkill;
+      questions: string[];
+      conversations: Set<string>;
+      basic: number;
+      codeBlocks: number;
+      timestamps: string[];
+      related: Map<string, number>;
+    }
+  >();
+  let unclustered = 0;
+
+  chat.userQuestions.forEach((question) => {
+    const turn = chat.turns[question.turnIndex];
+    const codeSkills = (turn?.codeBlocks ?? [])
+      .map((block) => (block.language ? resolveSkill(block.language) : undefined))
+      .filter((skill): skill is TaxonomySkill => Boolean(skill) && TOPIC_GROUPS.includes(skill!.group));
+
+    // A question that names no technology inherits the ones named elsewhere in its turn
+    let mentions = findSkillMentions(question.text, { groups: TOPIC_GROUPS });
+    if (mentions.length === 0 && turn) {
+      mentions = findSkillMentions(turn.content, { groups: TOPIC_GROUPS });
+    }
+    const skills = [...mentions, ...codeSkills].filter(
+      (skill, index, all) => all.findIndex((other) => other.id === skill.id) === index
+    );
+
+    if (skills.length === 0) {
+      unclustered += 1;
+      return;
+    }
+
+    skills.forEach((skill) => {
+      const cluster = clusters.get(skill.id) ?? {
+        skill,
+        questions: [],
+        conversations: new Set<string>(),
+        basic: 0,
+        codeBlocks: 0,
+        timestamps: [],
+        related: new Map<string, number>(),
+      };
+      cluster.questions.push(question.text);
+      cluster.conversations.add(question.conversationId ?? '');
+      if (BASIC_QUESTION_PATTERN.test(question.text)) {
+        cluster.basic += 1;
+      }
+      cluster.codeBlocks += turn?.codeBlocks?.length ?? 0;
+      if (question.timestamp) {
+        cluster.timestamps.push(question.timestamp);
+      }
+      skills
+        .filter((other) => other.id !== skill.id)
+        .forEach((other) => cluster.related.set(other.name, (cluster.related.get(other.name) ?? 0) + 1));
+      clusters.set(skill.id, cluster);
+    });
+  });
+
+  const topicClusters: ChatTopicCluster[] = Array.from(clusters.values())
+    .map((cluster) => {
+      const timestamps = [...cluster.timestamps].sort();
+      const questionCount = cluster.questions.length;
+      const conversationCount = cluster.conversations.size;
+      return {
+        skillId: cluster.skill.id,
+        name: cluster.skill.name,
+        group: cluster.skill.group,
+        questionCount,
+        conversationCount,
+        basicQuestionCount: cluster.basic,
+        codeBlockCount: cluster.codeBlocks,
+        firstAskedAt: timestamps[0] ?? null,
+        lastAskedAt: timestamps[timestamps.length - 1] ?? null,
+        relatedTopics: Array.from(cluster.related.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_RELATED_TOPICS)
+          .map(([name]) => name),
+        sampleQuestions: cluster.questions.slice(0, MAX_SAMPLE_QUESTIONS),
+        repeated: questionCount >= REPEATED_QUESTION_COUNT || conversationCount >= REPEATED_CONVERSATION_COUNT,
+        estimatedLevel: estimateTopicLevel(questionCount, cluster.basic),
+      };
+    })
+    .sort((a, b) => b.questionCount - a.questionCount || b.conversationCount - a.conversationCount);
+
+  const repeated = topicClusters.filter((cluster) => cluster.repeated);
+  const summary = repeated.map((cluster) => {
+    const span =
+      cluster.firstAskedAt && cluster.lastAskedAt && formatDate(cluster.firstAskedAt) !== formatDate(cluster.lastAskedAt)
+        ? ` between ${formatDate(cluster.firstAskedAt)} and ${formatDate(cluster.lastAskedAt)}`
+        : '';
+    const conversations =
+      cluster.conversationCount > 1 ? ` across ${cluster.conversationCount} conversations` : '';
+    return `Asked about ${cluster.name} ${cluster.questionCount} time${cluster.questionCount === 1 ? '' : 's'}${conversations}${span}; repeated questions suggest a gap`;
+  });
+
+  return {
+    format: chat.format,
+    clusters: topicClusters,
+    repeatedTopics: repeated.map((cluster) => cluster.name),
+    unclusteredQuestionCount: unclustered,
+    summary,
+  };
+};
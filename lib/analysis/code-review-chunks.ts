@@ -0,0 +1,216 @@
+import type { AgenticCodeAnalysis, BestPractice, CodeSmell } from '@/lib/agents/gap-analyzer';
+import { estimateTokens } from './file-selection';
+
+export interface ReviewFile {
+  path: string;
+  content: string;
+  language: string;
+}
+
+export interface CodeReviewChunk {
+  index: number;
+  /** Modules (directories) whose files are in the chunk */
+  label: string;
+  files: ReviewFile[];
+  tokens: number;
+}
+
+export interface CodeReviewChunkSummary {
+  label: string;
+  files: string[];
+  tokens: number;
+  status: 'completed' | 'failed';
+  overallQuality?: number;
+  confidence?: number;
+  error?: string;
+}
+
+export interface CodeReviewProgress {
+  chunkIndex: number; // 0-based
+  totalChunks: number;
+  label: string;
+  files: string[];
+  status: 'started' | 'completed' | 'failed';
+  /** Partial review of this chunk, set when the chunk completed */
+  analysis?: AgenticCodeAnalysis;
+  error?: string;
+}
+
+export interface ChunkReviewResult {
+  chunk: CodeReviewChunk;
+  analysis?: AgenticCodeAnalysis;
+  error?: string;
+}
+
+export const DEFAULT_REVIEW_CHUNK_TOKENS = 6_000;
+
+const MAX_MERGED_RECOMMENDATIONS = 5;
+const SEVERITY_RANK: Record<CodeSmell['severity'], number> = { high: 3, medium: 2, low: 1 };
+const SKILL_LEVELS: AgenticCodeAnalysis['skillLevel'][] = ['beginner', 'intermediate', 'advanced'];
+
+/** Top two directory levels, e.g. `lib/analysis` for `lib/analysis/x/y.ts` */
+export const moduleForPath = (path: string): string => {
+  const directories = path.split('/').slice(0, -1);
+  return directories.length > 0 ? directories.slice(0, 2).join('/') : '(root)';
+};
+
+/**
+ * Group files into review chunks of at most `maxChunkTokens`, keeping files of
+ * the same module together. Modules keep the order of their first file, so a
+ * ranked file list yields the most important modules first; a module larger
+ * than one chunk spills into the next.
+ */
+export const groupFilesIntoReviewChunks = (
+  files: ReviewFile[],
+  maxChunkTokens = DEFAULT_REVIEW_CHUNK_TOKENS
+): CodeReviewChunk[] => {
+  const modules = new Map<string, ReviewFile[]>();
+  files.forEach((file) => {
+    const module = moduleForPath(file.path);
+    modules.set(module, [...(modules.get(module) ?? []), file]);
+  });
+
+  const chunks: Array<{ modules: string[]; files: ReviewFile[]; tokens: number }> = [];
+  let current: { modules: string[]; files: ReviewFile[]; tokens: number } | null = null;
+
+  modules.forEach((moduleFiles, module) => {
+    moduleFiles.forEach((file) => {
+      const tokens = estimateTokens(file.content);
+      if (!current || (current.files.length > 0 && current.tokens + tokens > maxChunkTokens)) {
+        current = { modules: [], files: [], tokens: 0 };
+        chunks.push(current);
+      }
+      if (!current.modules.includes(module)) {
+        current.modules.push(module);
+      }
+      current.files.push(file);
+      current.tokens += tokens;
+    });
+  });
+
+  return chunks.map((chunk, index) => ({
+    index,
+    label: chunk.modules.join(', '),
+    files: chunk.files,
+    tokens: chunk.tokens,
+  }));
+};
+
+const normalizeKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const dedupeStrings = (values: string[]): string[] => {
+  const seen = new Map<string, string>();
+  values.forEach((value) => {
+    const key = normalizeKey(value);
+    if (key && !seen.has(key)) {
+      seen.set(key, value);
+    }
+  });
+  return Array.from(seen.values());
+};
+
+const mergeCodeSmells = (smells: CodeSmell[]): CodeSmell[] => {
+  const merged = new Map<string, CodeSmell>();
+  smells.forEach((smell) => {
+    const key = `${normalizeKey(smell.type)}|${normalizeKey(smell.location ?? '')}`;
+    const existing = merged.get(key);
+    if (!existing || SEVERITY_RANK[smell.severity] > SEVERITY_RANK[existing.severity]) {
+      merged.set(key, smell);
+    }
+  });
+  return Array.from(merged.values()).sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+};
+
+/**
+ * A practice counts as implemented only when every chunk that evaluated it
+ * found it; a module missing it is still a gap worth reporting
+ */
+const mergeBestPractices = (practices: BestPractice[]): BestPractice[] => {
+  const merged = new Map<string, BestPractice>();
+  practices.forEach((practice) => {
+    const key = normalizeKey(practice.name);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...practice });
+      return;
+    }
+    existing.implemented = existing.implemented && practice.implemented;
+    if (SEVERITY_RANK[practice.importance] > SEVERITY_RANK[existing.importance]) {
+      existing.importance = practice.importance;
+    }
+    if (!practice.implemented && practice.suggestion && (existing.implemented || !existing.suggestion)) {
+      existing.suggestion = practice.suggestion;
+    }
+  });
+  return Array.from(merged.values());
+};
+
+/** Recommendations raised by several chunks come first */
+const mergeRecommendations = (recommendations: string[][]): string[] => {
+  const counts = new Map<string, { text: string; count: number; order: number }>();
+  recommendations.flat().forEach((text, order) => {
+    const key = normalizeKey(text);
+    if (!key) {
+      return;
+    }
+    const existing = counts.get(key);
+    counts.set(key, existing ? { ...existing, count: existing.count + 1 } : { text, count: 1, order });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.order - b.order)
+    .slice(0, MAX_MERGED_RECOMMENDATIONS)
+    .map((entry) => entry.text);
+};
+
+/**
+ * Reduce per-chunk reviews into one analysis. Scores are weighted by the
+ * tokens each chunk reviewed and its confidence; the combined confidence is
+ * scaled by the share of tokens that were reviewed successfully.
+ */
+export const mergeChunkReviews = (results: ChunkReviewResult[]): AgenticCodeAnalysis & {
+  reviewChunks: CodeReviewChunkSummary[];
+} => {
+  const completed = results.filter(
+    (result): result is ChunkReviewResult & { analysis: AgenticCodeAnalysis } => result.analysis !== undefined
+  );
+  if (completed.length === 0) {
+    throw new Error('No code review chunks completed');
+  }
+
+  const totalTokens = results.reduce((sum, result) => sum + result.chunk.tokens, 0);
+  const reviewedTokens = completed.reduce((sum, result) => sum + result.chunk.tokens, 0);
+  const weightOf = (result: { chunk: CodeReviewChunk; analysis: AgenticCodeAnalysis }) =>
+    Math.max(1, result.chunk.tokens) * Math.max(0.05, result.analysis.confidence);
+  const totalWeight = completed.reduce((sum, result) => sum + weightOf(result), 0);
+
+  const overallQuality =
+    completed.reduce((sum, result) => sum + result.analysis.overallQuality * weightOf(result), 0) / totalWeight;
+  const averageLevel =
+    completed.reduce(
+      (sum, result) => sum + SKILL_LEVELS.indexOf(result.analysis.skillLevel) * weightOf(result),
+      0
+    ) / totalWeight;
+  const tokenWeightedConfidence =
+    completed.reduce((sum, result) => sum + result.analysis.confidence * Math.max(1, result.chunk.tokens), 0) /
+    completed.reduce((sum, result) => sum + Math.max(1, result.chunk.tokens), 0);
+  const coverage = totalTokens > 0 ? reviewedTokens / totalTokens : 1;
+
+  return {
+    overallQuality: Math.round(overallQuality),
+    skillLevel: SKILL_LEVELS[Math.round(averageLevel)] ?? 'intermediate',
+    architecturePatterns: dedupeStrings(completed.flatMap((result) => result.analysis.architecturePatterns)),
+    codeSmells: mergeCodeSmells(completed.flatMap((result) => result.analysis.codeSmells)),
+    bestPractices: mergeBestPractices(completed.flatMap((result) => result.analysis.bestPractices)),
+    recommendations: mergeRecommendations(completed.map((result) => result.analysis.recommendations)),
+    confidence: Math.round(tokenWeightedConfidence * coverage * 100) / 100,
+    reviewChunks: results.map((result) => ({
+      label: result.chunk.label,
+      files: result.chunk.files.map((file) => file.path),
+      tokens: result.chunk.tokens,
+      status: result.analysis ? 'completed' : 'failed',
+      overallQuality: result.analysis?.overallQuality,
+      confidence: result.analysis?.confidence,
+      error: result.error,
+    })),
+  };
+};
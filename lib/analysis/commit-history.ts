@@ -0,0 +1,266 @@
+import { isIgnoredPath, languageForPath } from '@/lib/repository/base-source';
+import type { RepositoryCommit } from '@/lib/repository/types';
+
+export type CommitHistorySource = 'github-api' | 'local-git';
+
+export interface SkillTimelineMonth {
+  month: string; // YYYY-MM
+  commits: number;
+}
+
+export interface SkillTimelineEntry {
+  technology: string;
+  kind: 'language' | 'framework';
+  firstSeenAt: string;
+  lastSeenAt: string;
+  /** Scaled up from the sample when only part of the history had file detail */
+  commitCount: number;
+  linesChanged: number;
+  /** Distinct calendar months with at least one commit touching the technology */
+  activeMonths: number;
+  /** Commits in the 90 days before the analysis, scaled like `commitCount` */
+  recentCommitCount: number;
+  daysSinceLastSeen: number;
+  monthlyActivity: SkillTimelineMonth[];
+  /** Added to the snapshot-based skill level; explained by `adjustmentReasons` */
+  levelAdjustment: number;
+  adjustmentReasons: string[];
+}
+
+export interface FileChurnEntry {
+  path: string;
+  commits: number;
+  linesChanged: number;
+}
+
+export interface CommitHistoryAnalysis {
+  source: CommitHistorySource;
+  commitsAnalyzed: number;
+  /** True when only a sample of the history had file-level detail */
+  sampled: boolean;
+  firstCommitAt: string | null;
+  lastCommitAt: string | null;
+  timeline: SkillTimelineEntry[];
+  /** Most frequently changed files, busiest first */
+  fileChurn?: FileChurnEntry[];
+}
+
+interface FrameworkPathSignal {
+  technology: string;
+  pattern: RegExp;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const RECENT_WINDOW_DAYS = 90;
+const MAX_FILE_CHURN_ENTRIES = 100;
+
+// File paths that indicate work in a framework or tool rather than a bare language
+const FRAMEWORK_PATH_SIGNALS: FrameworkPathSignal[] = [
+  { technology: 'React', pattern: /\.(jsx|tsx)$/ },
+  { technology: 'Next.js', pattern: /(^|\/)(next\.config\.[cm]?[jt]s|app\/(.+\/)?(page|layout|route)\.[jt]sx?|pages\/.+\.[jt]sx?)$/ },
+  { technology: 'Vue', pattern: /\.vue$/ },
+  { technology: 'Svelte', pattern: /\.svelte$/ },
+  { technology: 'Angular', pattern: /(\.component\.ts|(^|\/)angular\.json)$/ },
+  { technology: 'Django', pattern: /(^|\/)(manage\.py|settings\.py|urls\.py|models\.py|migrations\/.+\.py)$/ },
+  { technology: 'Flask', pattern: /(^|\/)(app|wsgi)\.py$/ },
+  { technology: 'Spring Boot', pattern: /(^|\/)(application\.(properties|ya?ml)|.+Application\.(java|kt))$/ },
+  { technology: 'Rails', pattern: /(^|\/)(config\/routes\.rb|app\/(models|controllers)\/.+\.rb)$/ },
+  { technology: 'Docker', pattern: /(^|\/)(Dockerfile[^/]*|docker-compose\.ya?ml|compose\.ya?ml)$/ },
+  { technology: 'Kubernetes', pattern: /(^|\/)(k8s|kubernetes|helm|charts)\/.+\.ya?ml$/ },
+  { technology: 'Terraform', pattern: /\.tf$/ },
+  { technology: 'GitHub Actions', pattern: /^\.github\/workflows\/.+\.ya?ml$/ },
+  { technology: 'Prisma', pattern: /\.prisma$/ },
+  { technology: 'Jest', pattern: /\.(test|spec)\.[cm]?[jt]sx?$/ },
+  { technology: 'pytest', pattern: /(^|\/)(test_[^/]+|[^/]+_test)\.py$/ },
+];
+
+interface TimelineAccumulator {
+  technology: string;
+  kind: 'language' | 'framework';
+  first: number;
+  last: number;
+  commits: number;
+  lines: number;
+  recent: number;
+  months: Map<string, number>;
+}
+
+const monthKey = (time: number): string => new Date(time).toISOString().slice(0, 7);
+
+/**
+ * Recency and sustained practice adjustments, kept small so the history nudges
+ * the snapshot-based level instead of replacing it. A sampled history cannot
+ * show that a technology is rarely touched, so it gets no low-count penalty.
+ */
+export const calculateTimelineLevelAdjustment = (
+  entry: Pick<SkillTimelineEntry, 'commitCount' | 'activeMonths' | 'daysSinceLastSeen' | 'recentCommitCount'>,
+  options: { sampled?: boolean } = {}
+): { adjustment: number; reasons: string[] } => {
+  let adjustment = 0;
+  const reasons: string[] = [];
+
+  if (entry.daysSinceLastSeen > 365) {
+    adjustment -= 0.5;
+    reasons.push(`Not used in over a year (${entry.daysSinceLastSeen} days)`);
+  } else if (entry.daysSinceLastSeen > 180) {
+    adjustment -= 0.2;
+    reasons.push(`Not used in the last 6 months (${entry.daysSinceLastSeen} days)`);
+  } else if (entry.recentCommitCount > 0) {
+    adjustment += 0.2;
+    reasons.push(
+      `${options.sampled ? '~' : ''}${entry.recentCommitCount} commit(s) in the last ${RECENT_WINDOW_DAYS} days`
+    );
+  }
+
+  if (entry.activeMonths >= 12) {
+    adjustment += 0.3;
+    reasons.push(`Sustained use across ${entry.activeMonths} months`);
+  } else if (entry.activeMonths >= 6) {
+    adjustment += 0.2;
+    reasons.push(`Regular use across ${entry.activeMonths} months`);
+  } else if (entry.activeMonths >= 3) {
+    adjustment += 0.1;
+    reasons.push(`Used across ${entry.activeMonths} months`);
+  } else if (!options.sampled && entry.commitCount < 3) {
+    adjustment -= 0.2;
+    reasons.push(`Only ${entry.commitCount} commit(s) touch this technology`);
+  }
+
+  return { adjustment: Math.round(adjustment * 10) / 10, reasons };
+};
+
+/**
+ * Attribute each commit's file changes to languages (by extension) and
+ * frameworks (by path conventions) and build a per-technology timeline.
+ * When `knownTechnologies` is given, framework attribution is limited to
+ * technologies the snapshot analysis already detected. When `commits` is a
+ * sample of `listedCommitCount` commits, commit counts are scaled up by the
+ * sampling ratio.
+ */
+export const buildSkillTimeline = (
+  commits: RepositoryCommit[],
+  options: {
+    source: CommitHistorySource;
+    sampled?: boolean;
+    /** Size of the history the sample was drawn from */
+    listedCommitCount?: number;
+    knownTechnologies?: string[];
+    now?: Date;
+  }
+): CommitHistoryAnalysis => {
+  const now = (options.now ?? new Date()).getTime();
+  const known = options.knownTechnologies
+    ? new Set(options.knownTechnologies.map((technology) => technology.toLowerCase()))
+    : null;
+  const signals = FRAMEWORK_PATH_SIGNALS.filter((signal) => !known || known.has(signal.technology.toLowerCase()));
+  const accumulators = new Map<string, TimelineAccumulator>();
+  const churnByPath = new Map<string, FileChurnEntry>();
+
+  const datedCommits = commits
+    .map((commit) => ({ commit, time: new Date(commit.authoredAt).getTime() }))
+    .filter(({ time }) => !Number.isNaN(time));
+
+  datedCommits.forEach(({ commit, time }) => {
+    const linesByTechnology = new Map<string, { kind: 'language' | 'framework'; lines: number }>();
+    const record = (technology: string, kind: 'language' | 'framework', lines: number) => {
+      const existing = linesByTechnology.get(technology);
+      linesByTechnology.set(technology, { kind, lines: (existing?.lines ?? 0) + lines });
+    };
+
+    commit.files.forEach((file) => {
+      if (isIgnoredPath(file.path)) {
+        return;
+      }
+      const lines = file.additions + file.deletions;
+      const churn = churnByPath.get(file.path) ?? { path: file.path, commits: 0, linesChanged: 0 };
+      churn.commits += 1;
+      churn.linesChanged += lines;
+      churnByPath.set(file.path, churn);
+      const language = languageForPath(file.path);
+      if (language) {
+        record(language, 'language', lines);
+      }
+      signals.forEach((signal) => {
+        if (signal.pattern.test(file.path)) {
+          record(signal.technology, 'framework', lines);
+        }
+      });
+    });
+
+    linesByTechnology.forEach(({ kind, lines }, technology) => {
+      const accumulator = accumulators.get(technology) ?? {
+        technology,
+        kind,
+        first: time,
+        last: time,
+        commits: 0,
+        lines: 0,
+        recent: 0,
+        months: new Map<string, number>(),
+      };
+      accumulator.first = Math.min(accumulator.first, time);
+      accumulator.last = Math.max(accumulator.last, time);
+      accumulator.commits += 1;
+      accumulator.lines += lines;
+      if (now - time <= RECENT_WINDOW_DAYS * DAY_MS) {
+        accumulator.recent += 1;
+      }
+      const month = monthKey(time);
+      accumulator.months.set(month, (accumulator.months.get(month) ?? 0) + 1);
+      accumulators.set(technology, accumulator);
+    });
+  });
+
+  const sampled = options.sampled ?? false;
+  const sampleRatio =
+    sampled && options.listedCommitCount && datedCommits.length > 0
+      ? Math.max(1, options.listedCommitCount / datedCommits.length)
+      : 1;
+
+  const timeline = Array.from(accumulators.values())
+    .map((accumulator): SkillTimelineEntry => {
+      const daysSinceLastSeen = Math.max(0, Math.round((now - accumulator.last) / DAY_MS));
+      const base = {
+        commitCount: Math.round(accumulator.commits * sampleRatio),
+        activeMonths: accumulator.months.size,
+        daysSinceLastSeen,
+        recentCommitCount: Math.round(accumulator.recent * sampleRatio),
+      };
+      const { adjustment, reasons } = calculateTimelineLevelAdjustment(base, { sampled });
+      return {
+        technology: accumulator.technology,
+        kind: accumulator.kind,
+        firstSeenAt: new Date(accumulator.first).toISOString(),
+        lastSeenAt: new Date(accumulator.last).toISOString(),
+        linesChanged: accumulator.lines,
+        monthlyActivity: Array.from(accumulator.months.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([month, count]) => ({ month, commits: count })),
+        levelAdjustment: adjustment,
+        adjustmentReasons: reasons,
+        ...base,
+      };
+    })
+    .sort((a, b) => b.commitCount - a.commitCount);
+
+  const times = datedCommits.map(({ time }) => time);
+  return {
+    source: options.source,
+    commitsAnalyzed: datedCommits.length,
+    sampled,
+    firstCommitAt: times.length > 0 ? new Date(Math.min(...times)).toISOString() : null,
+    lastCommitAt: times.length > 0 ? new Date(Math.max(...times)).toISOString() : null,
+    timeline,
+    fileChurn: Array.from(churnByPath.values())
+      .sort((a, b) => b.commits - a.commits || b.linesChanged - a.linesChanged)
+      .slice(0, MAX_FILE_CHURN_ENTRIES),
+  };
+};
+
+export const findTimelineEntry = (
+  history: CommitHistoryAnalysis | undefined,
+  technology: string
+): SkillTimelineEntry | undefined => {
+  const normalized = technology.toLowerCase();
+  return history?.timeline.find((entry) => entry.technology.toLowerCase() === normalized);
+};
@@ -0,0 +1,437 @@
+import { isIgnoredPath } from '@/lib/repository/base-source';
+
+/** OSV ecosystem names for the lockfiles we parse */
+export type LockfileEcosystem = 'npm' | 'PyPI' | 'Go' | 'crates.io';
+
+export interface LockfileContent {
+  path: string;
+  content: string;
+}
+
+export interface LockedPackage {
+  name: string;
+  version: string;
+  ecosystem: LockfileEcosystem;
+  lockfilePath: string;
+}
+
+/** The subset of the OSV schema (https://ossf.github.io/osv-schema/) we read */
+export interface OsvAdvisory {
+  id: string;
+  summary?: string;
+  aliases?: string[];
+  severity?: Array<{ type: string; score: string }>;
+  affected?: Array<{
+    package?: { ecosystem: string; name: string };
+    ranges?: Array<{
+      type: string;
+      events: Array<{ introduced?: string; fixed?: string; last_affected?: string; limit?: string }>;
+    }>;
+    versions?: string[];
+    database_specific?: { severity?: string };
+  }>;
+  database_specific?: { severity?: string };
+}
+
+export interface PackageReleaseMetadata {
+  ecosystem: string;
+  name: string;
+  latest: string;
+  publishedAt?: string;
+  deprecated?: boolean;
+}
+
+export interface DependencyAdvisoryDataset {
+  advisories: OsvAdvisory[];
+  releases: PackageReleaseMetadata[];
+}
+
+export type AdvisorySeverity = 'critical' | 'high' | 'medium' | 'low' | 'unknown';
+
+export interface VulnerablePackage extends LockedPackage {
+  severity: AdvisorySeverity;
+  advisories: Array<{ id: string; summary?: string; severity: AdvisorySeverity; fixedIn?: string }>;
+}
+
+export interface OutdatedPackage extends LockedPackage {
+  latest: string;
+  majorsBehind: number;
+  deprecated: boolean;
+}
+
+export interface DependencyHealthReport {
+  lockfiles: string[];
+  packageCount: number;
+  /** Advisories and release entries available when the report was built; 0 means nothing was checked */
+  advisoriesChecked: number;
+  releasesChecked: number;
+  vulnerable: VulnerablePackage[];
+  outdated: OutdatedPackage[];
+  score: number; // 0-100
+}
+
+export const EMPTY_ADVISORY_DATASET: DependencyAdvisoryDataset = { advisories: [], releases: [] };
+
+const LOCKFILE_NAMES = new Set([
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  'yarn.lock',
+  'poetry.lock',
+  'go.sum',
+  'cargo.lock',
+]);
+
+const SEVERITY_RANK: Record<AdvisorySeverity, number> = { critical: 4, high: 3, medium: 2, low: 1, unknown: 0 };
+const SEVERITY_PENALTY: Record<AdvisorySeverity, number> = { critical: 25, high: 15, medium: 7, low: 3, unknown: 5 };
+const MAX_OUTDATED_PENALTY = 30;
+const PRERELEASE_TAGS = /^(a|alpha|b|beta|c|rc|pre|preview|dev|snapshot|canary|next)$/;
+
+const baseName = (path: string) => (path.split('/').pop() ?? path).toLowerCase();
+
+/**
+ * Whether a repository path is a lockfile we know how to parse.
+ * Lockfiles inside vendored or generated directories are ignored.
+ */
+export const isLockfilePath = (path: string): boolean => !isIgnoredPath(path) && LOCKFILE_NAMES.has(baseName(path));
+
+const normalizePackageName = (ecosystem: string, name: string): string => {
+  switch (ecosystem.toLowerCase()) {
+    case 'pypi':
+      return name.toLowerCase().replace(/[-_.]+/g, '-');
+    case 'crates.io':
+      return name.toLowerCase();
+    default:
+      return name;
+  }
+};
+
+const versionTokens = (version: string): Array<number | string> =>
+  (version.trim().toLowerCase().replace(/^[v=]/, '').split('+')[0].match(/\d+|[a-z]+/g) ?? []).map((token) =>
+    /^\d+$/.test(token) ? Number(token) : token
+  );
+
+/**
+ * Compare two versions across semver, PEP 440 and Go module styles.
+ * Pre-release markers (alpha, beta, rc, dev...) sort before the release.
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = versionTokens(a);
+  const right = versionTokens(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i += 1) {
+    const l = left[i];
+    const r = right[i];
+    if (l === r) {
+      continue;
+    }
+    if (l === undefined || r === undefined) {
+      const extra = (l ?? r) as number | string;
+      if (extra === 0) {
+        continue; // 3.2 == 3.2.0
+      }
+      const extraIsLater = typeof extra === 'number' ? extra > 0 : !PRERELEASE_TAGS.test(extra);
+      const sign = l === undefined ? -1 : 1;
+      return extraIsLater ? sign : -sign;
+    }
+    if (typeof l === 'number' && typeof r === 'number') {
+      return l - r;
+    }
+    if (typeof l === 'number') {
+      return PRERELEASE_TAGS.test(String(r)) ? 1 : -1;
+    }
+    if (typeof r === 'number') {
+      return PRERELEASE_TAGS.test(l) ? -1 : 1;
+    }
+    return l < r ? -1 : 1;
+  }
+  return 0;
+};
+
+/** Major version, treating 0.x minors as majors like semver ranges do */
+const majorOf = (version: string): number => {
+  const [major = 0, minor = 0] = versionTokens(version).filter((token): token is number => typeof token === 'number');
+  return major === 0 ? minor / 100 : major;
+};
+
+const parsePackageLock = (file: LockfileContent): LockedPackage[] => {
+  let data: any;
+  try {
+    data = JSON.parse(file.content);
+  } catch {
+    return [];
+  }
+  const packages: LockedPackage[] = [];
+
+  if (data?.packages && typeof data.packages === 'object') {
+    Object.entries<any>(data.packages).forEach(([key, entry]) => {
+      const index = key.lastIndexOf('node_modules/');
+      if (index === -1 || entry?.link || typeof entry?.version !== 'string') {
+        return;
+      }
+      const name = typeof entry.name === 'string' ? entry.name : key.slice(index + 'node_modules/'.length);
+      packages.push({ name, version: entry.version, ecosystem: 'npm', lockfilePath: file.path });
+    });
+    return packages;
+  }
+
+  // lockfileVersion 1 nests transitive dependencies
+  const walk = (dependencies: Record<string, any> | undefined) => {
+    Object.entries(dependencies ?? {}).forEach(([name, entry]) => {
+      if (typeof entry?.version === 'string' && !entry.version.startsWith('file:')) {
+        packages.push({ name, version: entry.version, ecosystem: 'npm', lockfilePath: file.path });
+      }
+      walk(entry?.dependencies);
+    });
+  };
+  walk(data?.dependencies);
+  return packages;
+};
+
+/**
+ * pnpm lockfile package keys across formats:
+ * v5 `/name/1.0.0`, v6 `/name@1.0.0(peer@2)`, v9 `name@1.0.0`
+ */
+const parsePnpmLock = (file: LockfileContent): LockedPackage[] => {
+  const packages: LockedPackage[] = [];
+  let inPackages = false;
+
+  file.content.split('\n').forEach((line) => {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages:\s*$/.test(line);
+      return;
+    }
+    const key = inPackages ? line.match(/^ {2}['"]?([^\s'"][^'"]*?)['"]?:\s*$/) : null;
+    if (!key) {
+      return;
+    }
+    const spec = key[1].replace(/^\//, '').replace(/\(.*$/, '');
+    const v5 = spec.match(/^(@?[^@]+?)\/(\d[^/_]*)(?:_.*)?$/);
+    const at = spec.lastIndexOf('@');
+    const [name, version] = v5 ? [v5[1], v5[2]] : at > 0 ? [spec.slice(0, at), spec.slice(at + 1)] : ['', ''];
+    if (name && /^\d/.test(version)) {
+      packages.push({ name, version, ecosystem: 'npm', lockfilePath: file.path });
+    }
+  });
+  return packages;
+};
+
+/** Yarn classic (`version "1.0.0"`) and Berry (`version: 1.0.0`) entries */
+const parseYarnLock = (file: LockfileContent): LockedPackage[] => {
+  const packages: LockedPackage[] = [];
+  let name: string | null = null;
+
+  file.content.split('\n').forEach((line) => {
+    if (/^\S/.test(line) && line.trim().endsWith(':')) {
+      const firstSpec = line.trim().slice(0, -1).split(',')[0].trim().replace(/^["']|["']$/g, '');
+      const at = firstSpec.lastIndexOf('@');
+      // Skips __metadata and Berry workspace/patch/link entries, whose names carry a protocol
+      name = at > 0 && !firstSpec.slice(0, at).includes(':') && !/@(workspace|link|portal):/.test(firstSpec)
+        ? firstSpec.slice(0, at)
+        : null;
+      return;
+    }
+    const version = name ? line.match(/^\s+version:?\s+["']?([^"'\s]+)["']?\s*$/) : null;
+    if (name && version) {
+      packages.push({ name, version: version[1], ecosystem: 'npm', lockfilePath: file.path });
+      name = null;
+    }
+  });
+  return packages;
+};
+
+/** `[[package]]` tables in poetry.lock and Cargo.lock */
+const parseTomlPackageTables = (
+  file: LockfileContent,
+  ecosystem: LockfileEcosystem,
+  options: { requireSource?: boolean } = {}
+): LockedPackage[] =>
+  file.content
+    .split(/^\[\[package\]\]\s*$/m)
+    .slice(1)
+    .map((block) => {
+      const table = block.split(/^\[/m)[0];
+      const name = table.match(/^name\s*=\s*"([^"]+)"/m);
+      const version = table.match(/^version\s*=\s*"([^"]+)"/m);
+      // Cargo workspace crates have no source; only registry and git dependencies do
+      if (!name || !version || (options.requireSource && !/^source\s*=/m.test(table))) {
+        return null;
+      }
+      return { name: name[1], version: version[1], ecosystem, lockfilePath: file.path };
+    })
+    .filter((pkg): pkg is LockedPackage => pkg !== null);
+
+/** Modules with a content hash; `/go.mod`-only lines are build-graph noise */
+const parseGoSum = (file: LockfileContent): LockedPackage[] => {
+  const packages = new Map<string, LockedPackage>();
+  file.content.split('\n').forEach((line) => {
+    const [module, version] = line.trim().split(/\s+/);
+    if (module && version && !version.endsWith('/go.mod')) {
+      packages.set(`${module}@${version}`, { name: module, version, ecosystem: 'Go', lockfilePath: file.path });
+    }
+  });
+  return Array.from(packages.values());
+};
+
+/**
+ * Parse a lockfile into the exact package versions it pins.
+ */
+export const parseLockfile = (file: LockfileContent): LockedPackage[] => {
+  switch (baseName(file.path)) {
+    case 'package-lock.json':
+    case 'npm-shrinkwrap.json':
+      return parsePackageLock(file);
+    case 'pnpm-lock.yaml':
+      return parsePnpmLock(file);
+    case 'yarn.lock':
+      return parseYarnLock(file);
+    case 'poetry.lock':
+      return parseTomlPackageTables(file, 'PyPI');
+    case 'cargo.lock':
+      return parseTomlPackageTables(file, 'crates.io', { requireSource: true });
+    case 'go.sum':
+      return parseGoSum(file);
+    default:
+      return [];
+  }
+};
+
+const readSeverity = (value: string | undefined): AdvisorySeverity | null => {
+  switch (value?.toLowerCase()) {
+    case 'critical':
+      return 'critical';
+    case 'high':
+      return 'high';
+    case 'moderate':
+    case 'medium':
+      return 'medium';
+    case 'low':
+      return 'low';
+    default:
+      return null;
+  }
+};
+
+/** GitHub-reviewed severity when present, otherwise a numeric CVSS score */
+const advisorySeverity = (advisory: OsvAdvisory, affected: NonNullable<OsvAdvisory['affected']>[number]): AdvisorySeverity => {
+  const labelled = readSeverity(affected.database_specific?.severity) ?? readSeverity(advisory.database_specific?.severity);
+  if (labelled) {
+    return labelled;
+  }
+  const score = (advisory.severity ?? []).map((entry) => Number(entry.score)).find((value) => !Number.isNaN(value));
+  if (score === undefined) {
+    return 'unknown';
+  }
+  return score >= 9 ? 'critical' : score >= 7 ? 'high' : score >= 4 ? 'medium' : 'low';
+};
+
+/**
+ * Whether `version` falls in an OSV affected entry. Ranges are evaluated as
+ * ordered event lists; GIT ranges need commit history and are skipped.
+ */
+const affectsVersion = (affected: NonNullable<OsvAdvisory['affected']>[number], version: string): boolean => {
+  if (affected.versions?.includes(version)) {
+    return true;
+  }
+  return (affected.ranges ?? [])
+    .filter((range) => range.type !== 'GIT')
+    .some((range) => {
+      let inRange = false;
+      range.events.forEach((event) => {
+        if (event.introduced !== undefined && (event.introduced === '0' || compareVersions(version, event.introduced) >= 0)) {
+          inRange = true;
+        }
+        if (event.fixed !== undefined && compareVersions(version, event.fixed) >= 0) {
+          inRange = false;
+        }
+        if (event.last_affected !== undefined && compareVersions(version, event.last_affected) > 0) {
+          inRange = false;
+        }
+      });
+      return inRange;
+    });
+};
+
+const firstFixedVersion = (affected: NonNullable<OsvAdvisory['affected']>[number], version: string): string | undefined =>
+  (affected.ranges ?? [])
+    .flatMap((range) => range.events.map((event) => event.fixed))
+    .filter((fixed): fixed is string => fixed !== undefined && compareVersions(fixed, version) > 0)
+    .sort(compareVersions)[0];
+
+const packageKey = (ecosystem: string, name: string) => `${ecosystem.toLowerCase()}|${normalizePackageName(ecosystem, name)}`;
+
+/**
+ * Check locked packages against an OSV advisory dataset and release metadata.
+ * Packages pinned by several lockfiles are reported once. A package counts as
+ * outdated when it is at least one major version behind the latest release
+ * (minor for 0.x) or its latest release is deprecated.
+ */
+export const assessDependencyHealth = (
+  lockfiles: LockfileContent[],
+  dataset: DependencyAdvisoryDataset = EMPTY_ADVISORY_DATASET
+): DependencyHealthReport => {
+  const parsed = lockfiles.filter((file) => isLockfilePath(file.path));
+  const unique = new Map<string, LockedPackage>();
+  parsed.flatMap(parseLockfile).forEach((pkg) => {
+    const key = `${packageKey(pkg.ecosystem, pkg.name)}@${pkg.version}`;
+    if (!unique.has(key)) {
+      unique.set(key, pkg);
+    }
+  });
+  const packages = Array.from(unique.values());
+
+  const advisoriesByPackage = new Map<string, Array<{ advisory: OsvAdvisory; affected: NonNullable<OsvAdvisory['affected']>[number] }>>();
+  dataset.advisories.forEach((advisory) => {
+    (advisory.affected ?? []).forEach((affected) => {
+      if (!affected.package) {
+        return;
+      }
+      const key = packageKey(affected.package.ecosystem, affected.package.name);
+      advisoriesByPackage.set(key, [...(advisoriesByPackage.get(key) ?? []), { advisory, affected }]);
+    });
+  });
+  const releasesByPackage = new Map(dataset.releases.map((release) => [packageKey(release.ecosystem, release.name), release]));
+
+  const vulnerable: VulnerablePackage[] = [];
+  const outdated: OutdatedPackage[] = [];
+
+  packages.forEach((pkg) => {
+    const key = packageKey(pkg.ecosystem, pkg.name);
+    const matches = (advisoriesByPackage.get(key) ?? [])
+      .filter(({ affected }) => affectsVersion(affected, pkg.version))
+      .map(({ advisory, affected }) => ({
+        id: advisory.id,
+        summary: advisory.summary,
+        severity: advisorySeverity(advisory, affected),
+        fixedIn: firstFixedVersion(affected, pkg.version),
+      }))
+      .filter((match, index, all) => all.findIndex((other) => other.id === match.id) === index)
+      .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+    if (matches.length > 0) {
+      vulnerable.push({ ...pkg, severity: matches[0].severity, advisories: matches });
+    }
+
+    const release = releasesByPackage.get(key);
+    if (release && compareVersions(pkg.version, release.latest) < 0) {
+      const majorsBehind = Math.max(0, Math.round((majorOf(release.latest) - majorOf(pkg.version)) * 100) / 100);
+      if (majorsBehind > 0 || release.deprecated) {
+        outdated.push({ ...pkg, latest: release.latest, majorsBehind, deprecated: Boolean(release.deprecated) });
+      }
+    }
+  });
+
+  vulnerable.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || a.name.localeCompare(b.name));
+  outdated.sort((a, b) => b.majorsBehind - a.majorsBehind || a.name.localeCompare(b.name));
+
+  const vulnerabilityPenalty = vulnerable.reduce((sum, pkg) => sum + SEVERITY_PENALTY[pkg.severity], 0);
+  const outdatedPenalty = packages.length > 0 ? (outdated.length / packages.length) * MAX_OUTDATED_PENALTY * 3 : 0;
+
+  return {
+    lockfiles: parsed.map((file) => file.path),
+    packageCount: packages.length,
+    advisoriesChecked: dataset.advisories.length,
+    releasesChecked: dataset.releases.length,
+    vulnerable,
+    outdated,
+    score: Math.max(0, Math.round(100 - vulnerabilityPenalty - Math.min(MAX_OUTDATED_PENALTY, outdatedPenalty))),
+  };
+};
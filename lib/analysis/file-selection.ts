@@ -0,0 +1,614 @@
+import { isIgnoredPath, languageForPath } from '@/lib/repository/base-source';
+import type { FileChurnEntry } from './commit-history';
+import { isTestPath } from './static-code-metrics';
+
+export interface SelectionTreeEntry {
+  path: string;
+  size?: number;
+}
+
+export interface SelectionSourceFile {
+  path: string;
+  content: string;
+}
+
+export interface ImportGraph {
+  /** Repository paths each read file imports */
+  imports: Record<string, string[]>;
+  /** Read files importing each path, including paths whose content was not read */
+  importedBy: Record<string, string[]>;
+}
+
+export interface RankedFile {
+  path: string;
+  score: number; // 0-1
+  /** PageRank over the import graph, scaled so the most central file is 1 */
+  centrality: number;
+  /** Commit activity scaled so the busiest file is 1 */
+  churn: number;
+  importedBy: number;
+  imports: number;
+  entryPoint: boolean;
+  reasons: string[];
+}
+
+export interface SelectedFile {
+  path: string;
+  content: string;
+  language: string;
+  tokens: number;
+  truncated: boolean;
+  score: number;
+  reasons: string[];
+}
+
+export interface FileSelectionResult {
+  files: SelectedFile[];
+  tokenBudget: number;
+  tokensUsed: number;
+  candidatesConsidered: number;
+  /** Ranked candidates left out because the budget ran out */
+  skipped: string[];
+}
+
+export const DEFAULT_REVIEW_TOKEN_BUDGET = 24_000;
+
+const CHARS_PER_TOKEN = 4;
+const MIN_TRUNCATED_TOKENS = 400;
+// No single file may take more than this share of the budget
+const MAX_FILE_SHARE = 0.5;
+const MAX_CANDIDATE_BYTES = 200_000;
+const DEFAULT_CANDIDATE_LIMIT = 40;
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_ITERATIONS = 20;
+
+const SCORE_WEIGHTS = {
+  centrality: 0.45,
+  hub: 0.15,
+  churn: 0.25,
+  entryPoint: 0.15,
+};
+
+const REVIEWABLE_LANGUAGES = new Set([
+  'TypeScript',
+  'JavaScript',
+  'Python',
+  'Java',
+  'Kotlin',
+  'Scala',
+  'Go',
+  'Rust',
+  'Ruby',
+  'PHP',
+  'C#',
+  'C++',
+  'C',
+  'Swift',
+  'Dart',
+  'Vue',
+  'Svelte',
+]);
+
+const GENERATED_PATH_PATTERN =
+  /(\.min\.[cm]?js$|\.d\.ts$|\.generated\.[a-z]+$|_pb2\.py$|\.pb\.go$|(^|\/)(__generated__|generated|migrations)\/)/i;
+
+const ENTRY_POINT_PATTERN =
+  /((^|\/)(index|main|app|server|cli|__main__|lib|mod|program|page|layout|route)\.[a-z]+$|Application\.(java|kt)$)/i;
+
+const CODE_ROOT_PATTERN = /^(src|lib|app|pkg|internal|cmd|server|api)\//;
+
+const JS_RESOLVE_SUFFIXES = [
+  '',
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.vue',
+  '.svelte',
+  '/index.ts',
+  '/index.tsx',
+  '/index.js',
+  '/index.jsx',
+];
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Parse a configured token budget (option or environment variable), falling
+ * back to `fallback` for missing or invalid values
+ */
+export const resolveReviewTokenBudget = (
+  value?: number | string | null,
+  fallback = DEFAULT_REVIEW_TOKEN_BUDGET
+): number => {
+  const parsed = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+};
+
+export const isEntryPointPath = (path: string): boolean => ENTRY_POINT_PATTERN.test(path);
+
+/**
+ * Pick the source files worth reading from a full tree listing. Tests,
+ * generated code, vendored directories and very large files are excluded;
+ * the rest are ordered by a cheap path prior (entry points, conventional code
+ * roots, shallow paths, churn) so only `limit` files need to be fetched.
+ */
+export const listSelectionCandidates = (
+  tree: SelectionTreeEntry[],
+  options: { languages?: string[]; churn?: FileChurnEntry[]; limit?: number } = {}
+): string[] => {
+  const reviewable = tree.filter((entry) => {
+    const language = languageForPath(entry.path);
+    return (
+      language !== null &&
+      REVIEWABLE_LANGUAGES.has(language) &&
+      !isIgnoredPath(entry.path) &&
+      !isTestPath(entry.path) &&
+      !GENERATED_PATH_PATTERN.test(entry.path) &&
+      (entry.size === undefined || (entry.size > 0 && entry.size <= MAX_CANDIDATE_BYTES))
+    );
+  });
+
+  const preferred = new Set(options.languages ?? []);
+  const inPreferredLanguage = reviewable.filter((entry) => preferred.has(languageForPath(entry.path) ?? ''));
+  const pool = inPreferredLanguage.length > 0 ? inPreferredLanguage : reviewable;
+  const commitsByPath = new Map((options.churn ?? []).map((entry) => [entry.path, entry.commits]));
+
+  const prior = (path: string): number => {
+    const depth = path.split('/').length - 1;
+    return (
+      (isEntryPointPath(path) ? 3 : 0) +
+      (CODE_ROOT_PATTERN.test(path) ? 1 : 0) +
+      Math.log2(1 + (commitsByPath.get(path) ?? 0)) -
+      depth * 0.5
+    );
+  };
+
+  return pool
+    .map((entry) => ({ path: entry.path, prior: prior(entry.path) }))
+    .sort((a, b) => b.prior - a.prior || a.path.localeCompare(b.path))
+    .slice(0, options.limit ?? DEFAULT_CANDIDATE_LIMIT)
+    .map((entry) => entry.path);
+};
+
+const dirname = (path: string): string => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const joinPath = (...parts: string[]): string => {
+  const segments: string[] = [];
+  parts
+    .join('/')
+    .split('/')
+    .forEach((segment) => {
+      if (!segment || segment === '.') {
+        return;
+      }
+      if (segment === '..') {
+        segments.pop();
+      } else {
+        segments.push(segment);
+      }
+    });
+  return segments.join('/');
+};
+
+const ancestorsOf = (dir: string): string[] => {
+  const segments = dir ? dir.split('/') : [];
+  return segments.map((_, index) => segments.slice(0, segments.length - index).join('/')).concat('');
+};
+
+const execAll = (content: string, pattern: RegExp): RegExpExecArray[] => {
+  const matches: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  pattern.lastIndex = 0;
+  while ((match = pattern.exec(content)) !== null) {
+    matches.push(match);
+  }
+  return matches;
+};
+
+const collectMatches = (content: string, pattern: RegExp): string[] =>
+  execAll(content, pattern)
+    .map((match) => match[1])
+    .filter(Boolean);
+
+interface PathIndex {
+  paths: Set<string>;
+  goFilesByDir: Map<string, string[]>;
+  pathsByName: Map<string, string[]>;
+}
+
+const buildPathIndex = (treePaths: string[]): PathIndex => {
+  const goFilesByDir = new Map<string, string[]>();
+  const pathsByName = new Map<string, string[]>();
+  treePaths.forEach((path) => {
+    const name = path.split('/').pop() ?? path;
+    pathsByName.set(name, [...(pathsByName.get(name) ?? []), path]);
+    if (path.endsWith('.go') && !path.endsWith('_test.go')) {
+      const dir = dirname(path);
+      goFilesByDir.set(dir, [...(goFilesByDir.get(dir) ?? []), path]);
+    }
+  });
+  return { paths: new Set(treePaths), goFilesByDir, pathsByName };
+};
+
+const firstExisting = (index: PathIndex, bases: string[], suffixes: string[]): string | null => {
+  for (const base of bases) {
+    for (const suffix of suffixes) {
+      const candidate = `${base}${suffix}`;
+      if (index.paths.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+};
+
+const resolveJavaScriptImports = (path: string, content: string, index: PathIndex): string[] => {
+  const specifiers = [
+    ...collectMatches(content, /(?:import|export)\s[^'"`;]*?from\s*['"]([^'"]+)['"]/g),
+    ...collectMatches(content, /import\s*['"]([^'"]+)['"]/g),
+    ...collectMatches(content, /(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g),
+  ];
+  const dir = dirname(path);
+
+  return specifiers.map((specifier) => {
+    let bases: string[];
+    if (specifier.startsWith('.')) {
+      bases = [joinPath(dir, specifier)];
+    } else if (/^[@~]\//.test(specifier)) {
+      bases = [joinPath(specifier.slice(2)), joinPath('src', specifier.slice(2))];
+    } else {
+      return null; // package import
+    }
+    // ESM TypeScript imports name the compiled .js file
+    const withoutExtension = bases.map((base) => base.replace(/\.[cm]?jsx?$/, ''));
+    return firstExisting(index, [...bases, ...withoutExtension], JS_RESOLVE_SUFFIXES);
+  }).filter((resolved): resolved is string => resolved !== null);
+};
+
+const resolvePythonImports = (path: string, content: string, index: PathIndex): string[] => {
+  const modules: string[] = [];
+  execAll(content, /^[ \t]*from[ \t]+([.\w]+)[ \t]+import[ \t]+(?:\(([^)]*)\)|([^\n#]+))/gm).forEach((match) => {
+    const [, module, groupedNames, names] = match;
+    modules.push(module);
+    // `from package import module` imports a file rather than a symbol
+    (groupedNames ?? names ?? '')
+      .split(',')
+      .map((name) => name.trim().split(/\s+as\s+/)[0])
+      .filter((name) => /^\w+$/.test(name))
+      .forEach((name) => modules.push(module.endsWith('.') ? `${module}${name}` : `${module}.${name}`));
+  });
+  collectMatches(content, /^[ \t]*import[ \t]+([\w., \t]+)$/gm).forEach((list) =>
+    list.split(',').forEach((item) => modules.push(item.trim().split(/\s+as\s+/)[0]))
+  );
+
+  const dir = dirname(path);
+  const resolved = modules.map((module) => {
+    const leadingDots = module.match(/^\.*/)?.[0].length ?? 0;
+    const modulePath = module.slice(leadingDots).split('.').filter(Boolean).join('/');
+    const bases =
+      leadingDots > 0
+        ? [joinPath(dir, ...Array(leadingDots - 1).fill('..'), modulePath)]
+        : [...ancestorsOf(dir), 'src'].map((root) => joinPath(root, modulePath));
+    return modulePath || leadingDots > 0 ? firstExisting(index, bases, ['.py', '/__init__.py']) : null;
+  });
+  return resolved.filter((file): file is string => file !== null && file !== path);
+};
+
+const resolveGoImports = (content: string, index: PathIndex): string[] => {
+  const importPaths = [
+    ...collectMatches(content, /import\s*\(([^)]*)\)/g).flatMap((block) => collectMatches(block, /"([^"]+)"/g)),
+    ...collectMatches(content, /import\s+(?:[\w.]+\s+)?"([^"]+)"/g),
+  ];
+  return importPaths.flatMap((importPath) => {
+    // Module paths end with the package directory inside the repository
+    const packageDir = Array.from(index.goFilesByDir.keys())
+      .filter((dir) => dir && (importPath === dir || importPath.endsWith(`/${dir}`)))
+      .sort((a, b) => b.length - a.length)[0];
+    return packageDir ? (index.goFilesByDir.get(packageDir) ?? []).slice(0, 10) : [];
+  });
+};
+
+const resolveJvmImports = (content: string, index: PathIndex): string[] => {
+  const classPaths = collectMatches(content, /^\s*import\s+(?:static\s+)?([\w.]+)/gm).map((name) =>
+    name.split('.').join('/')
+  );
+  return classPaths.flatMap((classPath) => {
+    const className = classPath.split('/').pop() ?? classPath;
+    const match = ['.java', '.kt', '.scala']
+      .flatMap((extension) =>
+        (index.pathsByName.get(`${className}${extension}`) ?? []).filter(
+          (candidate) => candidate === `${classPath}${extension}` || candidate.endsWith(`/${classPath}${extension}`)
+        )
+      )[0];
+    return match ? [match] : [];
+  });
+};
+
+const resolveRustImports = (path: string, content: string, index: PathIndex): string[] => {
+  const dir = dirname(path);
+  const fileName = path.split('/').pop() ?? '';
+  // Modules declared in lib.rs, main.rs and mod.rs live next to them; others in a directory named after the file
+  const moduleDir = /^(lib|main|mod)\.rs$/.test(fileName) ? dir : joinPath(dir, fileName.replace(/\.rs$/, ''));
+  const crateRoot = ancestorsOf(dir).find((ancestor) => ancestor === 'src' || ancestor.endsWith('/src')) ?? dir;
+
+  const declared = collectMatches(content, /^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm).map((name) =>
+    firstExisting(index, [joinPath(moduleDir, name)], ['.rs', '/mod.rs'])
+  );
+  const used = collectMatches(content, /^\s*(?:pub\s+)?use\s+((?:crate|super|self)::[\w:]+)/gm).map((usePath) => {
+    const [root, ...segments] = usePath.split('::').filter(Boolean);
+    const base = root === 'crate' ? crateRoot : root === 'super' ? dirname(moduleDir) : moduleDir;
+    // The deepest existing module file wins; trailing segments are usually items
+    for (let length = segments.length; length > 0; length -= 1) {
+      const resolved = firstExisting(index, [joinPath(base, ...segments.slice(0, length))], ['.rs', '/mod.rs']);
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return null;
+  });
+  return [...declared, ...used].filter((file): file is string => file !== null && file !== path);
+};
+
+const resolveIncludeImports = (path: string, content: string, index: PathIndex): string[] =>
+  collectMatches(content, /^\s*#include\s+"([^"]+)"/gm)
+    .map((header) => firstExisting(index, [joinPath(dirname(path), header), header, joinPath('include', header)], ['']))
+    .filter((file): file is string => file !== null);
+
+const resolveRubyImports = (path: string, content: string, index: PathIndex): string[] =>
+  collectMatches(content, /require_relative\s+['"]([^'"]+)['"]/g)
+    .map((target) => firstExisting(index, [joinPath(dirname(path), target)], ['', '.rb']))
+    .filter((file): file is string => file !== null);
+
+/**
+ * Repository files a source file imports. Only project-relative imports are
+ * resolved; package imports are ignored.
+ */
+const resolveFileImports = (file: SelectionSourceFile, index: PathIndex): string[] => {
+  const language = languageForPath(file.path);
+  let imports: string[];
+  switch (language) {
+    case 'TypeScript':
+    case 'JavaScript':
+    case 'Vue':
+    case 'Svelte':
+      imports = resolveJavaScriptImports(file.path, file.content, index);
+      break;
+    case 'Python':
+      imports = resolvePythonImports(file.path, file.content, index);
+      break;
+    case 'Go':
+      imports = resolveGoImports(file.content, index).filter((target) => dirname(target) !== dirname(file.path));
+      break;
+    case 'Java':
+    case 'Kotlin':
+    case 'Scala':
+      imports = resolveJvmImports(file.content, index);
+      break;
+    case 'Rust':
+      imports = resolveRustImports(file.path, file.content, index);
+      break;
+    case 'C':
+    case 'C++':
+      imports = resolveIncludeImports(file.path, file.content, index);
+      break;
+    case 'Ruby':
+      imports = resolveRubyImports(file.path, file.content, index);
+      break;
+    default:
+      imports = [];
+  }
+  return [...new Set(imports)].filter((target) => target !== file.path);
+};
+
+/**
+ * Build the import graph for the files that were read, resolving imports
+ * against every path in the repository tree
+ */
+export const buildImportGraph = (files: SelectionSourceFile[], treePaths: string[]): ImportGraph => {
+  const index = buildPathIndex(treePaths);
+  const imports: Record<string, string[]> = {};
+  const importedBy: Record<string, string[]> = {};
+
+  files.forEach((file) => {
+    imports[file.path] = resolveFileImports(file, index);
+    imports[file.path].forEach((target) => {
+      importedBy[target] = [...(importedBy[target] ?? []), file.path];
+    });
+  });
+
+  return { imports, importedBy };
+};
+
+/**
+ * Paths imported by several read files but not read themselves, most imported first
+ */
+export const findUnreadDependencies = (
+  graph: ImportGraph,
+  readPaths: string[],
+  options: { minImporters?: number; limit?: number } = {}
+): string[] => {
+  const read = new Set(readPaths);
+  return Object.entries(graph.importedBy)
+    .filter(([path, importers]) => !read.has(path) && importers.length >= (options.minImporters ?? 2))
+    .sort(([, a], [, b]) => b.length - a.length)
+    .slice(0, options.limit ?? 10)
+    .map(([path]) => path);
+};
+
+const computePageRank = (nodes: string[], graph: ImportGraph): Map<string, number> => {
+  const nodeSet = new Set(nodes);
+  const outgoing = new Map(nodes.map((node) => [node, (graph.imports[node] ?? []).filter((target) => nodeSet.has(target))]));
+  let rank = new Map(nodes.map((node) => [node, 1 / nodes.length]));
+
+  for (let iteration = 0; iteration < PAGERANK_ITERATIONS; iteration += 1) {
+    const danglingRank = nodes
+      .filter((node) => outgoing.get(node)!.length === 0)
+      .reduce((sum, node) => sum + rank.get(node)!, 0);
+    const base = (1 - PAGERANK_DAMPING + PAGERANK_DAMPING * danglingRank) / nodes.length;
+    const next = new Map(nodes.map((node) => [node, base]));
+    nodes.forEach((node) => {
+      const targets = outgoing.get(node)!;
+      targets.forEach((target) => {
+        next.set(target, next.get(target)! + (PAGERANK_DAMPING * rank.get(node)!) / targets.length);
+      });
+    });
+    rank = next;
+  }
+  return rank;
+};
+
+/**
+ * Rank read files by import centrality, how many project files they pull
+ * together, commit churn and whether they look like an entry point
+ */
+export const rankFiles = (
+  paths: string[],
+  graph: ImportGraph,
+  churn: FileChurnEntry[] = []
+): RankedFile[] => {
+  if (paths.length === 0) {
+    return [];
+  }
+
+  const pathSet = new Set(paths);
+  const hasEdges = paths.some((path) => (graph.imports[path] ?? []).some((target) => pathSet.has(target)));
+  const pageRank = computePageRank(paths, graph);
+  const maxRank = Math.max(...pageRank.values());
+  const minRank = Math.min(...pageRank.values());
+  const maxImports = Math.max(1, ...paths.map((path) => graph.imports[path]?.length ?? 0));
+  const commitsByPath = new Map(churn.map((entry) => [entry.path, entry.commits]));
+  const maxCommits = Math.max(0, ...paths.map((path) => commitsByPath.get(path) ?? 0));
+
+  return paths
+    .map((path): RankedFile => {
+      const importedBy = graph.importedBy[path]?.length ?? 0;
+      const imports = graph.imports[path]?.length ?? 0;
+      const commits = commitsByPath.get(path) ?? 0;
+      const entryPoint = isEntryPointPath(path);
+      const centrality =
+        hasEdges && maxRank > minRank ? (pageRank.get(path)! - minRank) / (maxRank - minRank) : 0;
+      const churnScore = maxCommits > 0 ? Math.log(1 + commits) / Math.log(1 + maxCommits) : 0;
+      const hub = imports / maxImports;
+
+      const reasons: string[] = [];
+      if (importedBy > 0) {
+        reasons.push(`Imported by ${importedBy} file(s)`);
+      }
+      if (imports > 0) {
+        reasons.push(`Imports ${imports} project file(s)`);
+      }
+      if (commits > 0) {
+        reasons.push(`Changed in ${commits} sampled commit(s)`);
+      }
+      if (entryPoint) {
+        reasons.push('Entry point');
+      }
+
+      const score =
+        SCORE_WEIGHTS.centrality * centrality +
+        SCORE_WEIGHTS.hub * hub +
+        SCORE_WEIGHTS.churn * churnScore +
+        SCORE_WEIGHTS.entryPoint * (entryPoint ? 1 : 0);
+
+      return {
+        path,
+        score: Math.round(score * 1000) / 1000,
+        centrality: Math.round(centrality * 1000) / 1000,
+        churn: Math.round(churnScore * 1000) / 1000,
+        importedBy,
+        imports,
+        entryPoint,
+        reasons,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+};
+
+const truncateToTokens = (content: string, tokens: number): string => {
+  const limit = tokens * CHARS_PER_TOKEN;
+  const cut = content.slice(0, limit);
+  const lastNewline = cut.lastIndexOf('\n');
+  return lastNewline > limit / 2 ? cut.slice(0, lastNewline) : cut;
+};
+
+/**
+ * Greedily pack ranked files into a token budget. Files larger than their
+ * allowance are truncated at a line boundary rather than dropped.
+ */
+export const packFilesIntoBudget = (
+  ranked: RankedFile[],
+  contents: Map<string, string>,
+  tokenBudget: number,
+  fallbackLanguage = 'Unknown'
+): Pick<FileSelectionResult, 'files' | 'tokensUsed' | 'skipped'> => {
+  const maxFileTokens = Math.max(MIN_TRUNCATED_TOKENS, Math.floor(tokenBudget * MAX_FILE_SHARE));
+  const files: SelectedFile[] = [];
+  const skipped: string[] = [];
+  let tokensUsed = 0;
+
+  ranked.forEach((file) => {
+    const content = contents.get(file.path);
+    if (!content || !content.trim()) {
+      return;
+    }
+    const tokens = estimateTokens(content);
+    const allowance = Math.min(tokenBudget - tokensUsed, maxFileTokens);
+    const truncated = tokens > allowance;
+    if (truncated && allowance < MIN_TRUNCATED_TOKENS) {
+      skipped.push(file.path);
+      return;
+    }
+
+    const packedContent = truncated ? truncateToTokens(content, allowance) : content;
+    const packedTokens = estimateTokens(packedContent);
+    tokensUsed += packedTokens;
+    files.push({
+      path: file.path,
+      content: packedContent,
+      language: languageForPath(file.path) ?? fallbackLanguage,
+      tokens: packedTokens,
+      truncated,
+      score: file.score,
+      reasons: file.reasons,
+    });
+  });
+
+  return { files, tokensUsed, skipped };
+};
+
+/**
+ * Rank the read files by import graph centrality and churn, then pack the
+ * highest-value ones into the token budget
+ */
+export const selectFilesForReview = (
+  files: SelectionSourceFile[],
+  options: {
+    treePaths: string[];
+    churn?: FileChurnEntry[];
+    tokenBudget?: number;
+    fallbackLanguage?: string;
+  }
+): FileSelectionResult => {
+  const tokenBudget = resolveReviewTokenBudget(options.tokenBudget);
+  const graph = buildImportGraph(files, options.treePaths);
+  const ranked = rankFiles(
+    files.map((file) => file.path),
+    graph,
+    options.churn
+  );
+  const packed = packFilesIntoBudget(
+    ranked,
+    new Map(files.map((file) => [file.path, file.content])),
+    tokenBudget,
+    options.fallbackLanguage
+  );
+
+  return {
+    ...packed,
+    tokenBudget,
+    candidatesConsidered: files.length,
+  };
+};
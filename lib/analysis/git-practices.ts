@@ -0,0 +1,335 @@
+import type { CommitHistorySource } from './commit-history';
+
+/**
+ * Version control and collaboration practices read from a repository's history:
+ * commit message conventions, commit size, branch and pull request usage,
+ * signed commits and release tags. Each signal a source cannot provide is
+ * left out of the score instead of counting against it.
+ */
+
+export interface GitPracticeCommit {
+  sha: string;
+  message: string;
+  authoredAt: string;
+  /** Added plus deleted lines; omitted when the commit's files were not fetched */
+  linesChanged?: number;
+  isMerge?: boolean;
+  /** Omitted when the source cannot tell */
+  signed?: boolean;
+}
+
+export interface GitCollaborationSignals {
+  /** Branch count, or null when the source cannot list branches */
+  branches: number | null;
+  pullRequests: { total: number; merged: number } | null;
+  tags: string[] | null;
+  /** Published releases, or null when the host has no release concept */
+  releases: number | null;
+}
+
+export interface GitMessageStats {
+  /** Shares are 0-1 over non-merge commits */
+  conventionalShare: number;
+  imperativeShare: number;
+  averageSubjectLength: number;
+  longSubjectShare: number;
+  vagueShare: number;
+  withBodyShare: number;
+}
+
+export interface GitCommitSizeStats {
+  commitsMeasured: number;
+  medianLines: number;
+  p90Lines: number;
+  /** Share of measured commits over LARGE_COMMIT_LINES */
+  largeShare: number;
+}
+
+export interface GitPracticeFactor {
+  id: 'messages' | 'commit-size' | 'branching' | 'signing' | 'releases';
+  label: string;
+  /** 0-100 */
+  score: number;
+  weight: number;
+}
+
+export interface GitPracticesAnalysis {
+  source: CommitHistorySource;
+  commitsAnalyzed: number;
+  messages: GitMessageStats;
+  commitSize: GitCommitSizeStats | null;
+  branching: {
+    branches: number | null;
+    pullRequests: number | null;
+    mergedPullRequests: number | null;
+    /** Null when the history was listed without merge commits */
+    mergeCommitShare: number | null;
+  };
+  /** Null when signatures could not be read */
+  signedShare: number | null;
+  releases: {
+    tags: number | null;
+    semverTags: number | null;
+    releases: number | null;
+  };
+  /** Only the factors the source could measure */
+  factors: GitPracticeFactor[];
+  /** 0-100, weighted over `factors` */
+  score: number;
+  /** 1-5 skill level derived from the score */
+  level: number;
+  strengths: string[];
+  recommendations: string[];
+}
+
+const MAX_SUBJECT_LENGTH = 72;
+const LARGE_COMMIT_LINES = 500;
+const CONVENTIONAL_SUBJECT = /^(feat|fix|docs|style|refactor|perf|test|tests|build|ci|chore|revert)(\([^)]+\))?!?: \S/i;
+const CONVENTIONAL_PREFIX = /^[a-z]+(\([^)]+\))?!?:\s*/i;
+const SEMVER_TAG = /^(?:[\w.-]+[-/@])?v?\d+\.\d+\.\d+(?:[-+][\w.-]+)?$/;
+const VAGUE_SUBJECT = /^(wip|update[sd]?|fix(es|ed)?|changes?|stuff|misc|minor|tmp|temp|test(ing)?|asdf|commit|save|more|small fix(es)?|minor (fix|change)s?)\W*$/i;
+// Words ending in -ed/-ing that are imperative verbs in their own right
+const IMPERATIVE_EXCEPTIONS = new Set(['embed', 'exceed', 'feed', 'need', 'proceed', 'seed', 'shed', 'speed', 'bring', 'ping', 'sing', 'string']);
+const THIRD_PERSON_VERBS = new Set([
+  'adds', 'allows', 'bumps', 'changes', 'cleans', 'converts', 'creates', 'deletes', 'disables', 'enables',
+  'ensures', 'fixes', 'handles', 'implements', 'improves', 'introduces', 'makes', 'merges', 'moves',
+  'prevents', 'refactors', 'removes', 'renames', 'replaces', 'returns', 'sets', 'supports', 'updates',
+  'upgrades', 'uses', 'writes',
+]);
+
+const FACTOR_WEIGHTS: Record<GitPracticeFactor['id'], number> = {
+  messages: 30,
+  'commit-size': 15,
+  branching: 25,
+  signing: 10,
+  releases: 20,
+};
+
+const share = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) / 100 : 0);
+
+const percentile = (sorted: number[], fraction: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+
+const subjectOf = (message: string): string => message.split('\n')[0].trim();
+
+const hasBody = (message: string): boolean => {
+  const [, ...rest] = message.trim().split('\n');
+  return rest.some((line) => line.trim() && !/^[\w-]+: /.test(line.trim()));
+};
+
+/**
+ * True unless the subject's first word reads as past tense ("Added"),
+ * a gerund ("Adding") or third person ("Adds")
+ */
+export const isImperativeSubject = (subject: string): boolean => {
+  const firstWord = subject.replace(CONVENTIONAL_PREFIX, '').split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '') ?? '';
+  if (!firstWord || IMPERATIVE_EXCEPTIONS.has(firstWord)) {
+    return true;
+  }
+  return !(/ed$/.test(firstWord) || /ing$/.test(firstWord) || THIRD_PERSON_VERBS.has(firstWord));
+};
+
+export const isConventionalSubject = (subject: string): boolean => CONVENTIONAL_SUBJECT.test(subject);
+
+const summarizeMessages = (commits: GitPracticeCommit[]): GitMessageStats => {
+  const subjects = commits.map((commit) => subjectOf(commit.message));
+  const total = subjects.length;
+  return {
+    conventionalShare: share(subjects.filter(isConventionalSubject).length, total),
+    imperativeShare: share(subjects.filter(isImperativeSubject).length, total),
+    averageSubjectLength: total > 0 ? Math.round(subjects.reduce((sum, subject) => sum + subject.length, 0) / total) : 0,
+    longSubjectShare: share(subjects.filter((subject) => subject.length > MAX_SUBJECT_LENGTH).length, total),
+    vagueShare: share(subjects.filter((subject) => subject.length < 8 || VAGUE_SUBJECT.test(subject)).length, total),
+    withBodyShare: share(commits.filter((commit) => hasBody(commit.message)).length, total),
+  };
+};
+
+const summarizeCommitSizes = (commits: GitPracticeCommit[]): GitCommitSizeStats | null => {
+  const sizes = commits
+    .map((commit) => commit.linesChanged)
+    .filter((lines): lines is number => typeof lines === 'number')
+    .sort((a, b) => a - b);
+  if (sizes.length === 0) {
+    return null;
+  }
+  return {
+    commitsMeasured: sizes.length,
+    medianLines: percentile(sizes, 0.5),
+    p90Lines: percentile(sizes, 0.9),
+    largeShare: share(sizes.filter((lines) => lines > LARGE_COMMIT_LINES).length, sizes.length),
+  };
+};
+
+const scoreMessages = (stats: GitMessageStats): number =>
+  Math.round(
+    100 *
+      (0.3 * stats.conventionalShare +
+        0.3 * stats.imperativeShare +
+        0.25 * (1 - Math.max(stats.longSubjectShare, stats.vagueShare)) +
+        0.15 * Math.min(1, stats.withBodyShare * 2))
+  );
+
+const scoreBranching = (branching: GitPracticesAnalysis['branching']): number | null => {
+  const branchScore = branching.branches === null ? null : branching.branches >= 4 ? 1 : branching.branches >= 2 ? 0.5 : 0;
+  const pullRequestScore =
+    branching.pullRequests !== null
+      ? branching.pullRequests >= 5 ? 1 : branching.pullRequests > 0 ? 0.5 : 0
+      : branching.mergeCommitShare !== null
+        ? Math.min(1, branching.mergeCommitShare * 5)
+        : null;
+  if (branchScore === null && pullRequestScore === null) {
+    return null;
+  }
+  if (branchScore === null || pullRequestScore === null) {
+    return Math.round(100 * (branchScore ?? pullRequestScore ?? 0));
+  }
+  return Math.round(100 * (0.4 * branchScore + 0.6 * pullRequestScore));
+};
+
+const scoreReleases = (releases: GitPracticesAnalysis['releases']): number | null => {
+  if (releases.tags === null && releases.releases === null) {
+    return null;
+  }
+  const tags = releases.tags ?? 0;
+  const semverTags = releases.semverTags ?? 0;
+  const tagScore = semverTags >= 3 ? 0.8 : semverTags > 0 ? 0.6 : tags > 0 ? 0.4 : 0;
+  return Math.round(100 * Math.min(1, tagScore + ((releases.releases ?? 0) > 0 ? 0.2 : 0)));
+};
+
+const describePractices = (
+  analysis: Omit<GitPracticesAnalysis, 'strengths' | 'recommendations'>
+): { strengths: string[]; recommendations: string[] } => {
+  const strengths: string[] = [];
+  const recommendations: string[] = [];
+  const { messages, commitSize, branching, signedShare, releases } = analysis;
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  if (messages.conventionalShare >= 0.6) {
+    strengths.push(`${percent(messages.conventionalShare)} of commits follow Conventional Commits`);
+  } else if (messages.conventionalShare < 0.3) {
+    recommendations.push('Adopt Conventional Commits (feat:, fix:, docs:) so the history can drive changelogs and release notes');
+  }
+  if (messages.imperativeShare >= 0.8) {
+    strengths.push('Commit subjects consistently use the imperative mood');
+  } else if (messages.imperativeShare < 0.6) {
+    recommendations.push('Write commit subjects in the imperative mood ("Add login form", not "Added login form")');
+  }
+  if (messages.longSubjectShare > 0.2) {
+    recommendations.push(`Keep commit subjects under ${MAX_SUBJECT_LENGTH} characters and move details into the body`);
+  }
+  if (messages.vagueShare > 0.2) {
+    recommendations.push(`Replace vague messages like "update" or "wip" (${percent(messages.vagueShare)} of commits) with what changed and why`);
+  }
+  if (messages.withBodyShare >= 0.3) {
+    strengths.push('Non-trivial commits explain their reasoning in a message body');
+  } else if (analysis.commitsAnalyzed >= 10 && messages.withBodyShare < 0.1) {
+    recommendations.push('Add a commit body explaining the why for non-trivial changes');
+  }
+
+  if (commitSize) {
+    if (commitSize.largeShare > 0.2) {
+      recommendations.push(
+        `Split large commits (${percent(commitSize.largeShare)} change over ${LARGE_COMMIT_LINES} lines) into focused, reviewable steps`
+      );
+    } else if (commitSize.medianLines <= 150) {
+      strengths.push(`Small, focused commits (median ${commitSize.medianLines} changed lines)`);
+    }
+  }
+
+  if (branching.pullRequests !== null) {
+    if (branching.pullRequests === 0) {
+      recommendations.push('Merge work through pull requests, even on solo projects, to show a review workflow');
+    } else if (branching.pullRequests >= 5) {
+      strengths.push(`${branching.pullRequests} pull requests show a branch-and-review workflow`);
+    }
+  } else if (branching.mergeCommitShare !== null && branching.mergeCommitShare > 0.05) {
+    strengths.push('Merge commits show work landing through feature branches');
+  }
+  if (branching.branches !== null && branching.branches <= 1 && !branching.pullRequests) {
+    recommendations.push('Use short-lived feature branches instead of committing straight to the default branch');
+  }
+
+  if (signedShare !== null) {
+    if (signedShare >= 0.8) {
+      strengths.push(`${percent(signedShare)} of commits are signed`);
+    } else if (signedShare < 0.5) {
+      recommendations.push('Sign commits with a GPG or SSH key so the host shows them as verified');
+    }
+  }
+
+  if (releases.tags !== null || releases.releases !== null) {
+    if ((releases.semverTags ?? 0) > 0) {
+      strengths.push(
+        `${releases.semverTags} semantic version tag(s)${releases.releases ? ` and ${releases.releases} published release(s)` : ''}`
+      );
+    } else if ((releases.tags ?? 0) > 0) {
+      recommendations.push('Use semantic version tags (vMAJOR.MINOR.PATCH) for releases');
+    } else {
+      recommendations.push('Tag releases with semantic versions (v1.2.0) and publish release notes');
+    }
+  }
+
+  return { strengths, recommendations };
+};
+
+/**
+ * Score version control practices from listed commits (newest first) and
+ * repository-level signals. Returns null without commit messages to read.
+ */
+export const assessGitPractices = (
+  commits: GitPracticeCommit[],
+  signals: GitCollaborationSignals,
+  options: { source: CommitHistorySource; includesMerges: boolean }
+): GitPracticesAnalysis | null => {
+  const withMessages = commits.filter((commit) => commit.message.trim());
+  const authored = withMessages.filter((commit) => !commit.isMerge);
+  if (authored.length === 0) {
+    return null;
+  }
+
+  const messages = summarizeMessages(authored);
+  const commitSize = summarizeCommitSizes(authored);
+  const signatures = authored.filter((commit) => typeof commit.signed === 'boolean');
+  const signedShare =
+    signatures.length > 0 ? share(signatures.filter((commit) => commit.signed).length, signatures.length) : null;
+  const branching: GitPracticesAnalysis['branching'] = {
+    branches: signals.branches,
+    pullRequests: signals.pullRequests?.total ?? null,
+    mergedPullRequests: signals.pullRequests?.merged ?? null,
+    mergeCommitShare: options.includesMerges
+      ? share(withMessages.filter((commit) => commit.isMerge).length, withMessages.length)
+      : null,
+  };
+  const releases: GitPracticesAnalysis['releases'] = {
+    tags: signals.tags?.length ?? null,
+    semverTags: signals.tags ? signals.tags.filter((tag) => SEMVER_TAG.test(tag)).length : null,
+    releases: signals.releases,
+  };
+
+  const candidates: Array<[GitPracticeFactor['id'], string, number | null]> = [
+    ['messages', 'Commit messages', scoreMessages(messages)],
+    ['commit-size', 'Commit size', commitSize ? Math.round(100 * (1 - commitSize.largeShare)) : null],
+    ['branching', 'Branches & pull requests', scoreBranching(branching)],
+    ['signing', 'Signed commits', signedShare === null ? null : Math.round(100 * signedShare)],
+    ['releases', 'Release tags', scoreReleases(releases)],
+  ];
+  const factors = candidates
+    .filter((candidate): candidate is [GitPracticeFactor['id'], string, number] => candidate[2] !== null)
+    .map(([id, label, score]) => ({ id, label, score, weight: FACTOR_WEIGHTS[id] }));
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0) / totalWeight);
+
+  const analysis = {
+    source: options.source,
+    commitsAnalyzed: authored.length,
+    messages,
+    commitSize,
+    branching,
+    signedShare,
+    releases,
+    factors,
+    score,
+    level: Math.round((1 + (score / 100) * 4) * 10) / 10,
+  };
+  return { ...analysis, ...describePractices(analysis) };
+};
@@ -0,0 +1,663 @@
+export type ManifestEcosystem =
+  | 'npm'
+  | 'pypi'
+  | 'go'
+  | 'cargo'
+  | 'maven'
+  | 'gradle'
+  | 'rubygems'
+  | 'composer';
+
+export interface ManifestDependency {
+  name: string;
+  version?: string;
+  ecosystem: ManifestEcosystem;
+  manifestPath: string;
+  dev: boolean;
+}
+
+export interface ManifestFile {
+  path: string;
+  content: string;
+}
+
+export interface DetectedTechnology {
+  name: string;
+  kind: 'framework' | 'tool';
+  version?: string;
+  sources: string[];
+  /** Dependency names that declared the technology */
+  packages?: string[];
+}
+
+export interface ManifestDetectionResult {
+  manifests: string[];
+  dependencies: ManifestDependency[];
+  frameworks: DetectedTechnology[];
+  tools: DetectedTechnology[];
+}
+
+interface TechnologyRule {
+  ecosystems: ManifestEcosystem[];
+  match: string | RegExp;
+  name: string;
+  kind: 'framework' | 'tool';
+}
+
+const MANIFEST_FILE_NAMES = new Set([
+  'package.json',
+  'requirements.txt',
+  'pyproject.toml',
+  'go.mod',
+  'cargo.toml',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'gemfile',
+  'composer.json',
+]);
+
+const IGNORED_PATH_SEGMENTS = new Set([
+  'node_modules',
+  'vendor',
+  'target',
+  'dist',
+  'build',
+  '.git',
+  '.next',
+  'bower_components',
+  '__pycache__',
+  'venv',
+  '.venv',
+]);
+
+const JVM = ['maven', 'gradle'] as ManifestEcosystem[];
+
+/**
+ * Declared dependency → technology mapping. Maven/Gradle dependencies are
+ * matched as `groupId:artifactId`; every other ecosystem by package name.
+ */
+const TECHNOLOGY_RULES: TechnologyRule[] = [
+  // JavaScript / TypeScript
+  { ecosystems: ['npm'], match: 'react', name: 'React', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'next', name: 'Next.js', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'vue', name: 'Vue.js', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'nuxt', name: 'Nuxt', kind: 'framework' },
+  { ecosystems: ['npm'], match: '@angular/core', name: 'Angular', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'svelte', name: 'Svelte', kind: 'framework' },
+  { ecosystems: ['npm'], match: '@sveltejs/kit', name: 'SvelteKit', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'express', name: 'Express', kind: 'framework' },
+  { ecosystems: ['npm'], match: '@nestjs/core', name: 'NestJS', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'fastify', name: 'Fastify', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'gatsby', name: 'Gatsby', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'react-native', name: 'React Native', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'electron', name: 'Electron', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'tailwindcss', name: 'Tailwind CSS', kind: 'framework' },
+  { ecosystems: ['npm'], match: '@prisma/client', name: 'Prisma', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'mongoose', name: 'MongoDB', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'langchain', name: 'LangChain', kind: 'framework' },
+  { ecosystems: ['npm'], match: /^@langchain\//, name: 'LangChain', kind: 'framework' },
+  { ecosystems: ['npm'], match: 'typescript', name: 'typescript', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'jest', name: 'jest', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'vitest', name: 'vitest', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'cypress', name: 'cypress', kind: 'tool' },
+  { ecosystems: ['npm'], match: '@playwright/test', name: 'playwright', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'eslint', name: 'eslint', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'prettier', name: 'prettier', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'webpack', name: 'webpack', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'vite', name: 'vite', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'kafkajs', name: 'kafka', kind: 'tool' },
+  { ecosystems: ['npm'], match: /^@aws-sdk\//, name: 'aws', kind: 'tool' },
+  { ecosystems: ['npm'], match: 'aws-sdk', name: 'aws', kind: 'tool' },
+
+  // Python
+  { ecosystems: ['pypi'], match: 'django', name: 'Django', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'flask', name: 'Flask', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'fastapi', name: 'FastAPI', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'torch', name: 'PyTorch', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'tensorflow', name: 'TensorFlow', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'scikit-learn', name: 'scikit-learn', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'pandas', name: 'pandas', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'numpy', name: 'numpy', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'transformers', name: 'transformers', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'langchain', name: 'LangChain', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'sqlalchemy', name: 'SQLAlchemy', kind: 'framework' },
+  { ecosystems: ['pypi'], match: 'pyspark', name: 'spark', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'apache-airflow', name: 'airflow', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'kafka-python', name: 'kafka', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'confluent-kafka', name: 'kafka', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'snowflake-connector-python', name: 'snowflake', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'google-cloud-bigquery', name: 'bigquery', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'databricks-sdk', name: 'databricks', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'boto3', name: 'aws', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'pytest', name: 'pytest', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'mypy', name: 'mypy', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'ruff', name: 'ruff', kind: 'tool' },
+  { ecosystems: ['pypi'], match: 'black', name: 'black', kind: 'tool' },
+
+  // Go
+  { ecosystems: ['go'], match: 'github.com/gin-gonic/gin', name: 'Gin', kind: 'framework' },
+  { ecosystems: ['go'], match: /^github\.com\/labstack\/echo/, name: 'Echo', kind: 'framework' },
+  { ecosystems: ['go'], match: /^github\.com\/gofiber\/fiber/, name: 'Fiber', kind: 'framework' },
+  { ecosystems: ['go'], match: 'gorm.io/gorm', name: 'GORM', kind: 'framework' },
+  { ecosystems: ['go'], match: 'k8s.io/client-go', name: 'kubernetes', kind: 'tool' },
+  { ecosystems: ['go'], match: /^github\.com\/aws\/aws-sdk-go/, name: 'aws', kind: 'tool' },
+
+  // Rust
+  { ecosystems: ['cargo'], match: 'actix-web', name: 'Actix Web', kind: 'framework' },
+  { ecosystems: ['cargo'], match: 'axum', name: 'Axum', kind: 'framework' },
+  { ecosystems: ['cargo'], match: 'rocket', name: 'Rocket', kind: 'framework' },
+  { ecosystems: ['cargo'], match: 'tokio', name: 'Tokio', kind: 'framework' },
+  { ecosystems: ['cargo'], match: 'diesel', name: 'Diesel', kind: 'framework' },
+
+  // JVM (Maven / Gradle)
+  { ecosystems: JVM, match: /^org\.springframework\.boot:/, name: 'Spring Boot', kind: 'framework' },
+  { ecosystems: JVM, match: /^org\.springframework:/, name: 'Spring Framework', kind: 'framework' },
+  { ecosystems: JVM, match: /^org\.hibernate(\.orm)?:/, name: 'Hibernate', kind: 'framework' },
+  { ecosystems: JVM, match: /^io\.quarkus:/, name: 'Quarkus', kind: 'framework' },
+  { ecosystems: JVM, match: /^io\.micronaut/, name: 'Micronaut', kind: 'framework' },
+  { ecosystems: JVM, match: /^org\.junit/, name: 'junit', kind: 'tool' },
+  { ecosystems: JVM, match: /^junit:junit$/, name: 'junit', kind: 'tool' },
+  { ecosystems: JVM, match: /^org\.apache\.kafka:/, name: 'kafka', kind: 'tool' },
+  { ecosystems: JVM, match: /^org\.apache\.spark:/, name: 'spark', kind: 'tool' },
+  { ecosystems: JVM, match: /^org\.apache\.hadoop:/, name: 'hadoop', kind: 'tool' },
+
+  // Ruby
+  { ecosystems: ['rubygems'], match: 'rails', name: 'Ruby on Rails', kind: 'framework' },
+  { ecosystems: ['rubygems'], match: 'sinatra', name: 'Sinatra', kind: 'framework' },
+  { ecosystems: ['rubygems'], match: 'rspec', name: 'rspec', kind: 'tool' },
+  { ecosystems: ['rubygems'], match: 'rspec-rails', name: 'rspec', kind: 'tool' },
+  { ecosystems: ['rubygems'], match: 'rubocop', name: 'rubocop', kind: 'tool' },
+
+  // PHP
+  { ecosystems: ['composer'], match: 'laravel/framework', name: 'Laravel', kind: 'framework' },
+  { ecosystems: ['composer'], match: /^symfony\/framework-bundle$/, name: 'Symfony', kind: 'framework' },
+  { ecosystems: ['composer'], match: 'phpunit/phpunit', name: 'phpunit', kind: 'tool' },
+];
+
+const baseName = (path: string) => {
+  const segments = path.split('/');
+  return segments[segments.length - 1] ?? path;
+};
+
+const cleanVersion = (value?: string | null): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim().replace(/^['"]|['"]$/g, '');
+  if (!trimmed || trimmed === '*' || trimmed.startsWith('${')) {
+    return undefined;
+  }
+  return trimmed;
+};
+
+const stripTomlComment = (line: string) => line.replace(/\s+#.*$/, '').trim();
+
+/**
+ * Whether a repository path is a dependency manifest we know how to parse.
+ * Paths inside vendored or generated directories are ignored.
+ */
+export const isManifestPath = (path: string): boolean => {
+  const segments = path.split('/');
+  if (segments.some((segment) => IGNORED_PATH_SEGMENTS.has(segment))) {
+    return false;
+  }
+  return MANIFEST_FILE_NAMES.has(baseName(path).toLowerCase());
+};
+
+const parsePackageJson = (file: ManifestFile): ManifestDependency[] => {
+  try {
+    const data = JSON.parse(file.content);
+    const dependencies: ManifestDependency[] = [];
+    const sections: Array<[string, boolean]> = [
+      ['dependencies', false],
+      ['peerDependencies', false],
+      ['devDependencies', true],
+    ];
+    sections.forEach(([section, dev]) => {
+      const entries = data?.[section];
+      if (!entries || typeof entries !== 'object') {
+        return;
+      }
+      Object.entries(entries).forEach(([name, version]) => {
+        dependencies.push({
+          name,
+          version: cleanVersion(typeof version === 'string' ? version : undefined),
+          ecosystem: 'npm',
+          manifestPath: file.path,
+          dev,
+        });
+      });
+    });
+    return dependencies;
+  } catch {
+    return [];
+  }
+};
+
+const parsePythonRequirement = (spec: string, manifestPath: string, dev: boolean): ManifestDependency | null => {
+  const cleaned = spec.replace(/;.*$/, '').replace(/\[.*?\]/, '').trim();
+  const match = cleaned.match(/^([A-Za-z0-9_.\-]+)\s*(.*)$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    name: match[1].toLowerCase().replace(/_/g, '-'),
+    version: cleanVersion(match[2]),
+    ecosystem: 'pypi',
+    manifestPath,
+    dev,
+  };
+};
+
+const parseRequirementsTxt = (file: ManifestFile): ManifestDependency[] => {
+  const dev = /dev|test/i.test(baseName(file.path));
+  return file.content
+    .split('\n')
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter((line) => line && !line.startsWith('-'))
+    .map((line) => parsePythonRequirement(line, file.path, dev))
+    .filter((dep): dep is ManifestDependency => dep !== null);
+};
+
+const parsePyprojectToml = (file: ManifestFile): ManifestDependency[] => {
+  const dependencies: ManifestDependency[] = [];
+  let section = '';
+  let inArray: { dev: boolean } | null = null;
+
+  file.content.split('\n').forEach((rawLine) => {
+    const line = stripTomlComment(rawLine);
+    if (!line) {
+      return;
+    }
+
+    if (inArray) {
+      if (line.startsWith(']')) {
+        inArray = null;
+        return;
+      }
+      const spec = line.replace(/[",']/g, ' ').trim();
+      const dep = parsePythonRequirement(spec, file.path, inArray.dev);
+      if (dep) dependencies.push(dep);
+      return;
+    }
+
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      section = header[1];
+      return;
+    }
+
+    const arrayStart = line.match(/^(dependencies|[\w-]+)\s*=\s*\[(.*)$/);
+    if (arrayStart && (section === 'project' || section === 'project.optional-dependencies')) {
+      const dev = section !== 'project' || arrayStart[1] !== 'dependencies';
+      const inline = arrayStart[2];
+      const closed = inline.includes(']');
+      inline
+        .replace(/\].*$/, '')
+        .split(',')
+        .map((item) => item.replace(/["']/g, '').trim())
+        .filter(Boolean)
+        .forEach((spec) => {
+          const dep = parsePythonRequirement(spec, file.path, dev);
+          if (dep) dependencies.push(dep);
+        });
+      if (!closed) {
+        inArray = { dev };
+      }
+      return;
+    }
+
+    if (/^tool\.poetry\.(dev-|group\.[\w-]+\.)?dependencies$/.test(section)) {
+      const entry = line.match(/^([\w.\-]+)\s*=\s*(.+)$/);
+      if (!entry || entry[1] === 'python') {
+        return;
+      }
+      const inlineVersion = entry[2].match(/version\s*=\s*["']([^"']+)["']/);
+      dependencies.push({
+        name: entry[1].toLowerCase().replace(/_/g, '-'),
+        version: cleanVersion(inlineVersion ? inlineVersion[1] : entry[2]),
+        ecosystem: 'pypi',
+        manifestPath: file.path,
+        dev: section !== 'tool.poetry.dependencies',
+      });
+    }
+  });
+
+  return dependencies;
+};
+
+const parseGoMod = (file: ManifestFile): ManifestDependency[] => {
+  const dependencies: ManifestDependency[] = [];
+  let inRequireBlock = false;
+
+  file.content.split('\n').forEach((rawLine) => {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) {
+      return;
+    }
+    if (line.startsWith('require (')) {
+      inRequireBlock = true;
+      return;
+    }
+    if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+      return;
+    }
+    const spec = inRequireBlock ? line : line.startsWith('require ') ? line.slice('require '.length).trim() : null;
+    if (!spec) {
+      return;
+    }
+    const [name, version] = spec.split(/\s+/);
+    if (name) {
+      dependencies.push({
+        name,
+        version: cleanVersion(version),
+        ecosystem: 'go',
+        manifestPath: file.path,
+        dev: false,
+      });
+    }
+  });
+
+  return dependencies;
+};
+
+const parseCargoToml = (file: ManifestFile): ManifestDependency[] => {
+  const dependencies: ManifestDependency[] = [];
+  let section = '';
+
+  file.content.split('\n').forEach((rawLine) => {
+    const line = stripTomlComment(rawLine);
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      section = header[1];
+      return;
+    }
+    if (!/(^|\.)(dev-|build-)?dependencies$/.test(section)) {
+      return;
+    }
+    const entry = line.match(/^([\w\-]+)\s*=\s*(.+)$/);
+    if (!entry) {
+      return;
+    }
+    const inlineVersion = entry[2].match(/version\s*=\s*["']([^"']+)["']/);
+    dependencies.push({
+      name: entry[1],
+      version: cleanVersion(inlineVersion ? inlineVersion[1] : entry[2].startsWith('{') ? undefined : entry[2]),
+      ecosystem: 'cargo',
+      manifestPath: file.path,
+      dev: section.endsWith('dev-dependencies'),
+    });
+  });
+
+  return dependencies;
+};
+
+const readXmlTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>\\s*([^<]+?)\\s*</${tag}>`));
+  return match ? match[1] : undefined;
+};
+
+const parsePomXml = (file: ManifestFile): ManifestDependency[] => {
+  const dependencies: ManifestDependency[] = [];
+  const blocks = [
+    ...(file.content.match(/<parent>[\s\S]*?<\/parent>/g) ?? []),
+    ...(file.content.match(/<dependency>[\s\S]*?<\/dependency>/g) ?? []),
+    ...(file.content.match(/<plugin>[\s\S]*?<\/plugin>/g) ?? []),
+  ];
+
+  blocks.forEach((block) => {
+    const groupId = readXmlTag(block, 'groupId');
+    const artifactId = readXmlTag(block, 'artifactId');
+    if (!groupId || !artifactId) {
+      return;
+    }
+    dependencies.push({
+      name: `${groupId}:${artifactId}`,
+      version: cleanVersion(readXmlTag(block, 'version')),
+      ecosystem: 'maven',
+      manifestPath: file.path,
+      dev: readXmlTag(block, 'scope') === 'test',
+    });
+  });
+
+  return dependencies;
+};
+
+const parseBuildGradle = (file: ManifestFile): ManifestDependency[] => {
+  const dependencies: ManifestDependency[] = [];
+  const dependencyPattern =
+    /\b(implementation|api|compile|compileOnly|runtimeOnly|testImplementation|testCompile|kapt|annotationProcessor)\s*\(?\s*["']([^"':]+):([^"':]+)(?::([^"']+))?["']/g;
+  const pluginPattern = /\bid\s*\(?\s*["']([^"']+)["']\s*\)?\s*(?:version\s*\(?\s*["']([^"']+)["'])?/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = dependencyPattern.exec(file.content)) !== null) {
+    dependencies.push({
+      name: `${match[2]}:${match[3]}`,
+      version: cleanVersion(match[4]),
+      ecosystem: 'gradle',
+      manifestPath: file.path,
+      dev: match[1].startsWith('test'),
+    });
+  }
+  while ((match = pluginPattern.exec(file.content)) !== null) {
+    dependencies.push({
+      name: `${match[1]}:plugin`,
+      version: cleanVersion(match[2]),
+      ecosystem: 'gradle',
+      manifestPath: file.path,
+      dev: false,
+    });
+  }
+
+  return dependencies;
+};
+
+const parseGemfile = (file: ManifestFile): ManifestDependency[] => {
+  const dependencies: ManifestDependency[] = [];
+  let groupDepth = 0;
+  let devGroup = false;
+
+  file.content.split('\n').forEach((rawLine) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const group = line.match(/^group\s+(.+)\s+do$/);
+    if (group) {
+      groupDepth += 1;
+      devGroup = /:(development|test)/.test(group[1]);
+      return;
+    }
+    if (line === 'end' && groupDepth > 0) {
+      groupDepth -= 1;
+      devGroup = groupDepth > 0 && devGroup;
+      return;
+    }
+    const gem = line.match(/^gem\s+["']([^"']+)["'](?:\s*,\s*["']([^"']+)["'])?/);
+    if (gem) {
+      dependencies.push({
+        name: gem[1],
+        version: cleanVersion(gem[2]),
+        ecosystem: 'rubygems',
+        manifestPath: file.path,
+        dev: devGroup,
+      });
+    }
+  });
+
+  return dependencies;
+};
+
+const parseComposerJson = (file: ManifestFile): ManifestDependency[] => {
+  try {
+    const data = JSON.parse(file.content);
+    const dependencies: ManifestDependency[] = [];
+    const sections: Array<[string, boolean]> = [
+      ['require', false],
+      ['require-dev', true],
+    ];
+    sections.forEach(([section, dev]) => {
+      const entries = data?.[section];
+      if (!entries || typeof entries !== 'object') {
+        return;
+      }
+      Object.entries(entries).forEach(([name, version]) => {
+        if (name === 'php' || name.startsWith('ext-')) {
+          return;
+        }
+        dependencies.push({
+          name,
+          version: cleanVersion(typeof version === 'string' ? version : undefined),
+          ecosystem: 'composer',
+          manifestPath: file.path,
+          dev,
+        });
+      });
+    });
+    return dependencies;
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Parse a single manifest into its declared dependencies.
+ */
+export const parseManifest = (file: ManifestFile): ManifestDependency[] => {
+  switch (baseName(file.path).toLowerCase()) {
+    case 'package.json':
+      return parsePackageJson(file);
+    case 'requirements.txt':
+      return parseRequirementsTxt(file);
+    case 'pyproject.toml':
+      return parsePyprojectToml(file);
+    case 'go.mod':
+      return parseGoMod(file);
+    case 'cargo.toml':
+      return parseCargoToml(file);
+    case 'pom.xml':
+      return parsePomXml(file);
+    case 'build.gradle':
+    case 'build.gradle.kts':
+      return parseBuildGradle(file);
+    case 'gemfile':
+      return parseGemfile(file);
+    case 'composer.json':
+      return parseComposerJson(file);
+    default:
+      return [];
+  }
+};
+
+const ruleMatches = (rule: TechnologyRule, dependency: ManifestDependency) => {
+  if (!rule.ecosystems.includes(dependency.ecosystem)) {
+    return false;
+  }
+  if (typeof rule.match === 'string') {
+    return rule.match === dependency.name;
+  }
+  return rule.match.test(dependency.name);
+};
+
+const GRADLE_PLUGIN_TECHNOLOGIES: Record<string, string> = {
+  'org.springframework.boot:plugin': 'Spring Boot',
+  'io.quarkus:plugin': 'Quarkus',
+};
+
+/**
+ * Detect frameworks and tools from every manifest found in a repository tree.
+ * Technologies are only reported when a manifest actually declares them;
+ * the first declared version wins when several manifests pin the same package.
+ */
+export const detectTechnologiesFromManifests = (files: ManifestFile[]): ManifestDetectionResult => {
+  const manifests = files.filter((file) => isManifestPath(file.path));
+  const dependencies = manifests.flatMap(parseManifest);
+  const detected = new Map<string, DetectedTechnology>();
+
+  const record = (name: string, kind: DetectedTechnology['kind'], dependency: ManifestDependency) => {
+    const key = `${kind}:${name.toLowerCase()}`;
+    const existing = detected.get(key);
+    if (existing) {
+      if (!existing.sources.includes(dependency.manifestPath)) {
+        existing.sources.push(dependency.manifestPath);
+      }
+      if (!existing.packages?.includes(dependency.name)) {
+        existing.packages = [...(existing.packages ?? []), dependency.name];
+      }
+      existing.version = existing.version ?? dependency.version;
+      return;
+    }
+    detected.set(key, {
+      name,
+      kind,
+      version: dependency.version,
+      sources: [dependency.manifestPath],
+      packages: [dependency.name],
+    });
+  };
+
+  dependencies.forEach((dependency) => {
+    const pluginTechnology = GRADLE_PLUGIN_TECHNOLOGIES[dependency.name];
+    if (pluginTechnology) {
+      record(pluginTechnology, 'framework', dependency);
+      return;
+    }
+    TECHNOLOGY_RULES.filter((rule) => ruleMatches(rule, dependency)).forEach((rule) => {
+      record(rule.name, rule.kind, dependency);
+    });
+  });
+
+  const all = Array.from(detected.values());
+  return {
+    manifests: manifests.map((file) => file.path),
+    dependencies,
+    frameworks: all.filter((item) => item.kind === 'framework'),
+    tools: all.filter((item) => item.kind === 'tool'),
+  };
+};
+
+/**
+ * Detect tooling that is expressed through files rather than dependencies
+ * (containers, CI, infrastructure-as-code) anywhere in the repository tree.
+ */
+export const detectToolsFromPaths = (paths: string[]): string[] => {
+  const tools = new Set<string>();
+  paths.forEach((path) => {
+    const segments = path.split('/');
+    if (segments.some((segment) => IGNORED_PATH_SEGMENTS.has(segment))) {
+      return;
+    }
+    const name = baseName(path).toLowerCase();
+
+    if (name === 'dockerfile' || name.startsWith('docker-compose') || name.startsWith('compose.y')) {
+      tools.add('docker');
+    }
+    if (path.startsWith('.github/workflows/')) {
+      tools.add('github actions');
+    }
+    if (name.endsWith('.tf')) {
+      tools.add('terraform');
+    }
+    if (name === 'ansible.cfg' || segments.includes('playbooks')) {
+      tools.add('ansible');
+    }
+    if (name === 'chart.yaml' || segments.includes('k8s') || segments.includes('kubernetes')) {
+      tools.add('kubernetes');
+    }
+    if (/^jest\.config\./.test(name)) {
+      tools.add('jest');
+    }
+    if (/^vitest\.config\./.test(name)) {
+      tools.add('vitest');
+    }
+    if (/^eslint\.config\./.test(name) || name.startsWith('.eslintrc')) {
+      tools.add('eslint');
+    }
+    if (/^prettier\.config\./.test(name) || name.startsWith('.prettierrc')) {
+      tools.add('prettier');
+    }
+    if (segments.includes('dags') && name.endsWith('.py')) {
+      tools.add('airflow');
+    }
+  });
+  return Array.from(tools);
+};
@@ -0,0 +1,172 @@
+import type { QualityMetrics } from '@/lib/agents/gap-analyzer';
+
+/**
+ * Peer benchmarking: place a repository's quality metrics among comparable
+ * repositories (same primary language, framework and size band) so a score
+ * reads as "30th percentile for Next.js apps of this size" rather than an
+ * absolute number.
+ */
+
+export type RepositorySizeBand = 'tiny' | 'small' | 'medium' | 'large';
+
+export interface PeerCohort {
+  language: string;
+  /** Primary framework, or null when none was detected */
+  framework: string | null;
+  sizeBand: RepositorySizeBand;
+  /** GitHub `size:` qualifier bounds in KB; `max` is null for the open-ended band */
+  sizeRangeKb: { min: number; max: number | null };
+  /** e.g. "Next.js apps of this size" */
+  label: string;
+}
+
+export interface BenchmarkMetric {
+  id: string;
+  label: string;
+  /** 0-100, higher is better */
+  value: number;
+}
+
+export interface BenchmarkPeer {
+  repository: string;
+  url: string;
+  stars: number;
+  /** scoreRepositoryQuality rank used to pick peers among search results (0-1) */
+  selectionScore: number;
+  overallScore: number;
+}
+
+export interface PeerMetricPosition extends BenchmarkMetric {
+  peerCount: number;
+  peerMedian: number;
+  /** Share of peers scoring below, counting ties as half (0-100) */
+  percentile: number;
+  summary: string;
+}
+
+export interface PeerBenchmark {
+  cohort: PeerCohort;
+  /** GitHub repository search query the peers came from */
+  query: string;
+  peers: BenchmarkPeer[];
+  metrics: PeerMetricPosition[];
+  /** Candidates that could not be measured, with the reason */
+  skipped: Array<{ repository: string; reason: string }>;
+}
+
+const SIZE_BANDS: Array<{ band: RepositorySizeBand; min: number; max: number | null }> = [
+  { band: 'tiny', min: 0, max: 500 },
+  { band: 'small', min: 500, max: 5_000 },
+  { band: 'medium', min: 5_000, max: 50_000 },
+  { band: 'large', min: 50_000, max: null },
+];
+
+// Build tools and runtimes detected as frameworks that do not describe what kind of project it is
+const NON_DEFINING_FRAMEWORKS = new Set([
+  'node.js', 'typescript', 'python', 'go', 'rust', 'pip', 'go modules', 'cargo', 'maven', 'gradle',
+]);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+};
+
+const ordinal = (value: number): string => {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${value}th`;
+  }
+  return `${value}${['th', 'st', 'nd', 'rd'][value % 10] ?? 'th'}`;
+};
+
+export const sizeBandFor = (sizeKb: number): (typeof SIZE_BANDS)[number] =>
+  SIZE_BANDS.find((band) => band.max === null || sizeKb < band.max) ?? SIZE_BANDS[SIZE_BANDS.length - 1];
+
+/**
+ * Cohort for a repository, or null without a primary language to search by
+ */
+export const buildPeerCohort = (input: {
+  languages: string[];
+  frameworks: string[];
+  sizeKb: number;
+}): PeerCohort | null => {
+  const language = input.languages[0];
+  if (!language) {
+    return null;
+  }
+  const framework = input.frameworks.find((name) => !NON_DEFINING_FRAMEWORKS.has(name.toLowerCase())) ?? null;
+  const band = sizeBandFor(input.sizeKb);
+  return {
+    language,
+    framework,
+    sizeBand: band.band,
+    sizeRangeKb: { min: band.min, max: band.max },
+    label: `${framework ? `${framework} apps` : `${language} repositories`} of this size`,
+  };
+};
+
+export const buildPeerSearchQuery = (cohort: PeerCohort): string =>
+  [
+    cohort.framework ? `"${cohort.framework}" in:name,description,readme,topics` : null,
+    `language:"${cohort.language}"`,
+    cohort.sizeRangeKb.max === null
+      ? `size:>=${cohort.sizeRangeKb.min}`
+      : `size:${cohort.sizeRangeKb.min}..${cohort.sizeRangeKb.max}`,
+    'fork:false',
+    'archived:false',
+    'stars:>=5',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * The comparable numbers in QualityMetrics: the three headline scores plus
+ * every applicable static metric
+ */
+export const extractBenchmarkMetrics = (metrics: QualityMetrics): BenchmarkMetric[] => [
+  { id: 'overall', label: 'Overall quality', value: metrics.overallQuality.score },
+  { id: 'readme', label: 'README quality', value: metrics.readmeQuality.score },
+  { id: 'code', label: 'Code quality', value: metrics.codeQuality.score },
+  ...(metrics.codeQuality.staticMetrics?.breakdown ?? [])
+    .filter((item) => item.weight > 0)
+    .map((item) => ({ id: item.id, label: item.label, value: item.score })),
+];
+
+export const percentileRank = (value: number, peerValues: number[]): number => {
+  if (peerValues.length === 0) {
+    return 50;
+  }
+  const below = peerValues.filter((peer) => peer < value).length;
+  const ties = peerValues.filter((peer) => peer === value).length;
+  return Math.round(((below + ties / 2) / peerValues.length) * 100);
+};
+
+/**
+ * Percentile of each subject metric among the peers that report it. Metrics
+ * no peer reports (e.g. type coverage against untyped peers) are left out.
+ */
+export const rankAgainstPeers = (
+  cohort: PeerCohort,
+  subject: BenchmarkMetric[],
+  peers: BenchmarkMetric[][]
+): PeerMetricPosition[] =>
+  subject.flatMap((metric) => {
+    const peerValues = peers
+      .map((metrics) => metrics.find((candidate) => candidate.id === metric.id)?.value)
+      .filter((value): value is number => typeof value === 'number');
+    if (peerValues.length === 0) {
+      return [];
+    }
+    const percentile = percentileRank(metric.value, peerValues);
+    const peerMedian = median(peerValues);
+    return [
+      {
+        ...metric,
+        peerCount: peerValues.length,
+        peerMedian,
+        percentile,
+        summary: `${metric.label} is in the ${ordinal(percentile)} percentile for ${cohort.label} (${metric.value} vs. peer median ${peerMedian}, ${peerValues.length} peer${peerValues.length === 1 ? '' : 's'})`,
+      },
+    ];
+  });
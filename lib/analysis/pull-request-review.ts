@@ -0,0 +1,400 @@
+import type { BestPractice, CodeSmell, GapAnalysisResult } from '@/lib/agents/gap-analyzer';
+import { isIgnoredPath, languageForPath } from '@/lib/repository/base-source';
+import { estimateTokens } from './file-selection';
+import { collectPathEvidence, findCodeUsages } from './skill-evidence';
+import { canonicalSkillId, canonicalSkillName } from './skill-taxonomy';
+import { isTestPath, type StaticCodeMetrics } from './static-code-metrics';
+
+export interface PullRequestReference {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+export interface PullRequestFile {
+  path: string;
+  /** GitHub file status: added, modified, removed, renamed, copied or changed */
+  status: string;
+  additions: number;
+  deletions: number;
+  /** Unified diff; GitHub omits it for binary and very large files */
+  patch?: string;
+  previousPath?: string;
+}
+
+export interface PullRequestDetails extends PullRequestReference {
+  url: string;
+  title: string;
+  body: string;
+  author: string | null;
+  baseRef: string;
+  headRef: string;
+  headSha: string;
+  /** `owner/repo` the head branch lives in, which differs from the base for forks */
+  headRepository: string;
+  files: PullRequestFile[];
+}
+
+export type SkillImpactDirection = 'advances' | 'regresses' | 'exercises';
+
+export interface PullRequestSkillImpact {
+  skillId: string;
+  skillName: string;
+  direction: SkillImpactDirection;
+  rationale: string;
+  files: string[];
+  /** Gap from the author's skill assessment, when one was supplied */
+  currentGap?: number;
+}
+
+export interface PullRequestSkillReview {
+  pullRequest: Omit<PullRequestDetails, 'files' | 'body'> & {
+    filesChanged: number;
+    additions: number;
+    deletions: number;
+  };
+  summary: string;
+  codeSmells: CodeSmell[];
+  bestPractices: BestPractice[];
+  skillImpacts: PullRequestSkillImpact[];
+  /** Metrics for the touched files at the head commit */
+  staticMetrics?: StaticCodeMetrics;
+  reviewMode: 'agentic' | 'fallback';
+  fallbackReason?: string;
+  /** Changed files whose diffs did not fit in the review budget */
+  omittedFiles: string[];
+}
+
+export interface TouchedSkill {
+  skillId: string;
+  files: string[];
+}
+
+const PULL_REQUEST_URL_PATTERN = /github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/;
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+const COMPLEXITY_SMELL_THRESHOLD = 10;
+const HIGH_COMPLEXITY_THRESHOLD = 20;
+const LONG_FUNCTION_LINES = 50;
+const FOCUSED_CHANGE_FILES = 20;
+const FOCUSED_CHANGE_LINES = 500;
+const MAX_COMMENT_ITEMS = 8;
+
+/**
+ * Parse `https://github.com/owner/repo/pull/123` (deep links into the PR are accepted)
+ */
+export const parsePullRequestUrl = (url: string): PullRequestReference => {
+  const match = url.match(PULL_REQUEST_URL_PATTERN);
+  if (!match) {
+    throw new Error('Invalid GitHub pull request URL. Expected format: https://github.com/owner/repo/pull/123');
+  }
+  return { owner: match[1], repo: match[2].replace(/\.git$/, ''), number: Number.parseInt(match[3], 10) };
+};
+
+/**
+ * Line ranges (in the new version of the file) added by a unified diff
+ */
+export const addedLineRanges = (patch: string): Array<{ start: number; end: number }> => {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let line = 0;
+
+  patch.split('\n').forEach((text) => {
+    const header = text.match(HUNK_HEADER_PATTERN);
+    if (header) {
+      line = Number.parseInt(header[1], 10);
+      return;
+    }
+    if (line === 0 || text.startsWith('\\')) {
+      return;
+    }
+    if (text.startsWith('+')) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === line - 1) {
+        last.end = line;
+      } else {
+        ranges.push({ start: line, end: line });
+      }
+      line += 1;
+    } else if (!text.startsWith('-')) {
+      line += 1;
+    }
+  });
+
+  return ranges;
+};
+
+const isReviewablePath = (path: string): boolean => !isIgnoredPath(path) && languageForPath(path) !== null;
+
+/**
+ * Changed files worth reading in full at the head commit: code that still exists
+ */
+export const listReadablePullRequestFiles = (files: PullRequestFile[], limit: number): string[] =>
+  files
+    .filter((file) => file.status !== 'removed' && isReviewablePath(file.path))
+    .sort((a, b) => b.additions - a.additions)
+    .slice(0, limit)
+    .map((file) => file.path);
+
+/**
+ * Format diffs for the review prompt within a token budget. Source changes
+ * come before tests, larger changes first; diffs that do not fit are listed
+ * as omitted rather than truncated mid-hunk.
+ */
+export const formatPatchesForReview = (
+  files: PullRequestFile[],
+  tokenBudget: number
+): { text: string; included: string[]; omitted: string[] } => {
+  const ordered = files
+    .filter((file) => file.patch && !isIgnoredPath(file.path))
+    .sort(
+      (a, b) =>
+        Number(isTestPath(a.path)) - Number(isTestPath(b.path)) ||
+        b.additions + b.deletions - (a.additions + a.deletions)
+    );
+
+  const sections: string[] = [];
+  const included: string[] = [];
+  const omitted: string[] = files.filter((file) => !file.patch && !isIgnoredPath(file.path)).map((file) => file.path);
+  let tokensUsed = 0;
+
+  ordered.forEach((file) => {
+    const section = `File: ${file.path} (${file.status}, +${file.additions}/-${file.deletions})\n\`\`\`diff\n${file.patch}\n\`\`\``;
+    const tokens = estimateTokens(section);
+    if (tokensUsed + tokens > tokenBudget) {
+      omitted.push(file.path);
+      return;
+    }
+    tokensUsed += tokens;
+    sections.push(section);
+    included.push(file.path);
+  });
+
+  return { text: sections.join('\n\n'), included, omitted };
+};
+
+/**
+ * Skills the change touches, from the changed paths and the import lines of
+ * the touched files
+ */
+export const findTouchedSkills = (
+  files: PullRequestFile[],
+  contents: Array<{ path: string; content: string }>
+): TouchedSkill[] => {
+  const filesBySkill = new Map<string, Set<string>>();
+  const add = (skillId: string, path: string) => {
+    const paths = filesBySkill.get(skillId) ?? new Set<string>();
+    paths.add(path);
+    filesBySkill.set(skillId, paths);
+  };
+
+  files
+    .filter((file) => file.status !== 'removed')
+    .forEach((file) => collectPathEvidence([file.path]).forEach((evidence) => add(evidence.skillId, file.path)));
+  findCodeUsages(contents).forEach((usage) => add(usage.skillId, usage.path));
+
+  return Array.from(filesBySkill.entries())
+    .map(([skillId, paths]) => ({ skillId, files: Array.from(paths) }))
+    .sort((a, b) => b.files.length - a.files.length);
+};
+
+/**
+ * Canonicalise skill names, attach the author's current gap and put the
+ * skills they are working on first
+ */
+export const annotateSkillImpacts = (
+  impacts: Array<Omit<PullRequestSkillImpact, 'skillId' | 'skillName' | 'currentGap'> & { skill: string }>,
+  skillAssessment?: GapAnalysisResult
+): PullRequestSkillImpact[] => {
+  const gaps = new Map(
+    (skillAssessment?.skillGaps ?? []).map((gap) => [canonicalSkillId(gap.skill.id || gap.skill.name), gap.gap])
+  );
+  const merged = new Map<string, PullRequestSkillImpact>();
+
+  impacts.forEach(({ skill, direction, rationale, files }) => {
+    const skillId = canonicalSkillId(skill);
+    const existing = merged.get(skillId);
+    if (existing) {
+      // A regression outweighs progress made elsewhere in the same change
+      if (direction === 'regresses' || existing.direction === 'exercises') {
+        existing.direction = direction;
+        existing.rationale = rationale;
+      }
+      existing.files = Array.from(new Set([...existing.files, ...files]));
+      return;
+    }
+    merged.set(skillId, {
+      skillId,
+      skillName: canonicalSkillName(skill),
+      direction,
+      rationale,
+      files,
+      currentGap: gaps.get(skillId),
+    });
+  });
+
+  const directionRank: Record<SkillImpactDirection, number> = { regresses: 0, advances: 1, exercises: 2 };
+  return Array.from(merged.values()).sort(
+    (a, b) =>
+      Number(b.currentGap !== undefined) - Number(a.currentGap !== undefined) ||
+      directionRank[a.direction] - directionRank[b.direction] ||
+      (b.currentGap ?? 0) - (a.currentGap ?? 0)
+  );
+};
+
+/**
+ * Review from diff statistics and static metrics, used when the LLM review is
+ * unavailable. Only functions overlapping added lines are flagged, so the
+ * author is not blamed for code the change did not touch.
+ */
+export const heuristicPullRequestReview = (
+  details: PullRequestDetails,
+  touchedSkills: TouchedSkill[],
+  metrics: StaticCodeMetrics | undefined,
+  skillAssessment?: GapAnalysisResult
+): Pick<PullRequestSkillReview, 'summary' | 'codeSmells' | 'bestPractices' | 'skillImpacts'> => {
+  const addedRanges = new Map(details.files.map((file) => [file.path, addedLineRanges(file.patch ?? '')]));
+  const touchesFunction = (path: string, start: number, length: number) =>
+    (addedRanges.get(path) ?? []).some((range) => range.start <= start + length - 1 && range.end >= start);
+
+  const codeSmells: CodeSmell[] = (metrics?.hotspots ?? [])
+    .filter((fn) => touchesFunction(fn.path, fn.startLine, fn.length))
+    .flatMap((fn): CodeSmell[] => {
+      const location = `${fn.path}:${fn.startLine}`;
+      const smells: CodeSmell[] = [];
+      if (fn.complexity >= COMPLEXITY_SMELL_THRESHOLD) {
+        smells.push({
+          type: 'High complexity',
+          severity: fn.complexity >= HIGH_COMPLEXITY_THRESHOLD ? 'high' : 'medium',
+          description: `${fn.name} has a cyclomatic complexity of ${fn.complexity}.`,
+          location,
+          suggestion: 'Extract the branches into smaller, named functions or replace conditionals with a lookup.',
+        });
+      }
+      if (fn.length > LONG_FUNCTION_LINES) {
+        smells.push({
+          type: 'Long function',
+          severity: 'low',
+          description: `${fn.name} is ${fn.length} lines long.`,
+          location,
+          suggestion: 'Split it into steps that can be read and tested on their own.',
+        });
+      }
+      return smells;
+    });
+
+  const changedSource = details.files.filter(
+    (file) => file.status !== 'removed' && isReviewablePath(file.path) && !isTestPath(file.path)
+  );
+  const changedTests = details.files.filter((file) => file.status !== 'removed' && isTestPath(file.path));
+  const removedTests = details.files.filter((file) => file.status === 'removed' && isTestPath(file.path));
+  const changedLines = details.files.reduce((sum, file) => sum + file.additions + file.deletions, 0);
+
+  const bestPractices: BestPractice[] = [
+    {
+      name: 'Tests accompany code changes',
+      implemented: changedSource.length === 0 || changedTests.length > 0,
+      importance: 'high',
+      suggestion: changedTests.length > 0 ? undefined : 'Add or update tests that cover the changed behaviour.',
+    },
+    {
+      name: 'Focused, reviewable change',
+      implemented: details.files.length <= FOCUSED_CHANGE_FILES && changedLines <= FOCUSED_CHANGE_LINES,
+      importance: 'medium',
+      suggestion: `Keep pull requests under about ${FOCUSED_CHANGE_LINES} changed lines by splitting unrelated work.`,
+    },
+    {
+      name: 'Descriptive pull request description',
+      implemented: details.body.trim().length >= 40,
+      importance: 'low',
+      suggestion: 'Explain what the change does and how it was verified.',
+    },
+  ];
+  if (metrics?.typeAnnotationCoverage != null) {
+    bestPractices.push({
+      name: 'Type annotations on new code',
+      implemented: metrics.typeAnnotationCoverage >= 0.8,
+      importance: 'medium',
+      suggestion: 'Annotate parameters and return types of the functions you add.',
+    });
+  }
+
+  const impacts = touchedSkills.map(({ skillId, files }) => ({
+    skill: skillId,
+    direction: 'exercises' as SkillImpactDirection,
+    rationale: `Changes ${files.length} file${files.length === 1 ? '' : 's'} using this skill.`,
+    files,
+  }));
+  if (changedTests.length > 0) {
+    impacts.push({
+      skill: 'testing',
+      direction: 'advances',
+      rationale: `Adds or updates ${changedTests.length} test file${changedTests.length === 1 ? '' : 's'}.`,
+      files: changedTests.map((file) => file.path),
+    });
+  }
+  if (removedTests.length > 0) {
+    impacts.push({
+      skill: 'testing',
+      direction: 'regresses',
+      rationale: `Removes ${removedTests.length} test file${removedTests.length === 1 ? '' : 's'}.`,
+      files: removedTests.map((file) => file.path),
+    });
+  }
+
+  const missing = bestPractices.filter((practice) => !practice.implemented).map((practice) => practice.name.toLowerCase());
+  return {
+    summary: `Changes ${details.files.length} files (+${details.files.reduce((sum, file) => sum + file.additions, 0)}/-${details.files.reduce((sum, file) => sum + file.deletions, 0)}). ${
+      codeSmells.length > 0 ? `${codeSmells.length} complexity issue(s) in changed functions.` : 'No complexity issues in changed functions.'
+    }${missing.length > 0 ? ` Missing: ${missing.join(', ')}.` : ''}`,
+    codeSmells,
+    bestPractices,
+    skillImpacts: annotateSkillImpacts(impacts, skillAssessment),
+  };
+};
+
+const DIRECTION_ICONS: Record<SkillImpactDirection, string> = {
+  advances: '⬆️',
+  regresses: '⬇️',
+  exercises: '↔️',
+};
+
+/**
+ * Markdown body for posting the review on the pull request
+ */
+export const formatPullRequestReviewComment = (review: PullRequestSkillReview): string => {
+  const lines = ['## DevBuilder skill review', '', review.summary];
+
+  if (review.skillImpacts.length > 0) {
+    lines.push('', '### Skills');
+    review.skillImpacts.slice(0, MAX_COMMENT_ITEMS).forEach((impact) => {
+      const gap = impact.currentGap !== undefined ? ` (current gap ${impact.currentGap})` : '';
+      lines.push(`- ${DIRECTION_ICONS[impact.direction]} **${impact.skillName}** ${impact.direction}${gap}: ${impact.rationale}`);
+    });
+  }
+
+  if (review.codeSmells.length > 0) {
+    lines.push('', '### Code smells');
+    review.codeSmells.slice(0, MAX_COMMENT_ITEMS).forEach((smell) => {
+      const location = smell.location ? ` \`${smell.location}\`` : '';
+      lines.push(`- **[${smell.severity}] ${smell.type}**${location}: ${smell.description} _Suggestion:_ ${smell.suggestion}`);
+    });
+  }
+
+  if (review.bestPractices.length > 0) {
+    lines.push('', '### Practices');
+    review.bestPractices.slice(0, MAX_COMMENT_ITEMS).forEach((practice) => {
+      const suggestion = !practice.implemented && practice.suggestion ? `: ${practice.suggestion}` : '';
+      lines.push(`- ${practice.implemented ? '✅' : '⚠️'} ${practice.name}${suggestion}`);
+    });
+  }
+
+  const footnotes = [`Reviewed at ${review.pullRequest.headSha.slice(0, 7)}`];
+  if (review.reviewMode === 'fallback') {
+    footnotes.push('heuristic review (AI review unavailable)');
+  }
+  if (review.omittedFiles.length > 0) {
+    footnotes.push(`${review.omittedFiles.length} file(s) not reviewed`);
+  }
+  lines.push('', `_${footnotes.join(' · ')}_`);
+
+  return lines.join('\n');
+};
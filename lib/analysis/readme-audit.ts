@@ -0,0 +1,395 @@
+export type ReadmeSectionId = 'install' | 'usage' | 'configuration' | 'contributing' | 'license' | 'screenshots';
+
+export type ReadmeFindingKind =
+  | 'missing-section'
+  | 'broken-link'
+  | 'broken-image'
+  | 'missing-alt-text'
+  | 'untagged-code-fence';
+
+export interface ReadmeSectionCheck {
+  id: ReadmeSectionId;
+  label: string;
+  present: boolean;
+  /** Heading that satisfied the check, when one did */
+  heading?: string;
+}
+
+export interface ReadmeBadge {
+  alt: string;
+  imageUrl: string;
+  /** Where the badge links to, when it is wrapped in a link */
+  linkUrl?: string;
+}
+
+export interface ReadmeAuditFinding {
+  /** Stable for the same README content; the portfolio builder uses it as the weakness id */
+  id: string;
+  kind: ReadmeFindingKind;
+  severity: 'high' | 'medium' | 'low';
+  message: string;
+  suggestion: string;
+  /** 1-based line in the README */
+  line?: number;
+  /** Link or image target as written in the README */
+  target?: string;
+  section?: ReadmeSectionId;
+}
+
+export interface ReadmeAudit {
+  readmePath: string;
+  sections: ReadmeSectionCheck[];
+  badges: ReadmeBadge[];
+  findings: ReadmeAuditFinding[];
+  /** Relative links and images resolved against the tree; 0 when no tree was given */
+  linksChecked: number;
+  imagesChecked: number;
+  score: number; // 0-100
+}
+
+interface SectionRule {
+  id: ReadmeSectionId;
+  label: string;
+  heading: RegExp;
+  severity: ReadmeAuditFinding['severity'];
+  suggestion: string;
+}
+
+const SECTION_RULES: SectionRule[] = [
+  {
+    id: 'install',
+    label: 'Installation',
+    heading: /install|setup|set up|getting started|quick ?start|prerequisites/i,
+    severity: 'medium',
+    suggestion: 'Add an Installation section listing prerequisites and the commands to get the project running',
+  },
+  {
+    id: 'usage',
+    label: 'Usage',
+    heading: /usage|examples?\b|how to use|running|commands/i,
+    severity: 'medium',
+    suggestion: 'Add a Usage section with a minimal code or command example',
+  },
+  {
+    id: 'configuration',
+    label: 'Configuration',
+    heading: /config|environment|env\b|settings|options/i,
+    severity: 'low',
+    suggestion: 'Document configuration: environment variables, config files and their defaults',
+  },
+  {
+    id: 'contributing',
+    label: 'Contributing',
+    heading: /contribut/i,
+    severity: 'low',
+    suggestion: 'Add a Contributing section or link to CONTRIBUTING.md explaining how to propose changes',
+  },
+  {
+    id: 'license',
+    label: 'License',
+    heading: /licen[cs]e/i,
+    severity: 'low',
+    suggestion: 'Add a License section naming the license and linking to the LICENSE file',
+  },
+  {
+    id: 'screenshots',
+    label: 'Screenshots',
+    heading: /screenshot|demo|preview|gallery/i,
+    severity: 'low',
+    suggestion: 'Add a screenshot, GIF or diagram showing the project in action',
+  },
+];
+
+// Files a README commonly links to instead of repeating the section
+const SECTION_LINK_TARGETS: Partial<Record<ReadmeSectionId, RegExp>> = {
+  contributing: /(^|\/)contributing(\.md)?$/i,
+  license: /(^|\/)licen[cs]e(\.\w+)?$/i,
+};
+
+const BADGE_PATTERN =
+  /shields\.io|badgen\.net|badge\.fury\.io|codecov\.io|coveralls\.io|travis-ci\.|circleci\.com|\/badges?\/|\/workflows\/[^)]*\/badge\.svg|badge\.svg/i;
+const EXTERNAL_TARGET = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+const FENCE_OPEN = /^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^\s{0,3}(=+|-+)\s*$/;
+const BADGE_LINK = /\[!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?[^)]*\)\]\(\s*<?([^)\s>]+)>?[^)]*\)/g;
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+["'(][^)]*)?\)/g;
+const REFERENCE_IMAGE = /!\[([^\]]*)\]\[[^\]]*\]/g;
+const MARKDOWN_LINK = /\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+["'(][^)]*)?\)/g;
+const REFERENCE_DEFINITION = /^\s{0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s|$)/;
+const HTML_IMAGE = /<img\b[^>]*>/gi;
+const HTML_LINK = /<a\b[^>]*\bhref\s*=\s*["']([^"']*)["']/gi;
+
+const dirName = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'root';
+
+const htmlAttribute = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+
+/**
+ * Repository path a relative README link points at, or null when it leaves
+ * the repository. A leading slash is relative to the repository root, as on
+ * GitHub and GitLab.
+ */
+export const resolveReadmeTarget = (target: string, readmePath: string): string | null => {
+  let path = target.split('#')[0].split('?')[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  const segments = path.startsWith('/') ? [] : dirName(readmePath).split('/').filter(Boolean);
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      if (segments.length === 0) {
+        return null;
+      }
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+};
+
+/**
+ * Structured README audit: a checklist of the sections readers look for,
+ * badges, relative links and images that do not resolve against the
+ * repository tree, images without alt text and code fences without a
+ * language. Links are only checked when `filePaths` is given.
+ */
+export const auditReadme = (
+  content: string,
+  options: { readmePath?: string; filePaths?: string[] } = {}
+): ReadmeAudit => {
+  const readmePath = options.readmePath ?? 'README.md';
+  const files = options.filePaths ? new Set(options.filePaths) : null;
+  const directories = new Set<string>();
+  options.filePaths?.forEach((path) => {
+    for (let dir = dirName(path); dir; dir = dirName(dir)) {
+      directories.add(dir);
+    }
+  });
+
+  const headings: string[] = [];
+  const badges: ReadmeBadge[] = [];
+  const findings = new Map<string, ReadmeAuditFinding>();
+  const linkTargets: string[] = [];
+  let linksChecked = 0;
+  let imagesChecked = 0;
+  let contentImages = 0;
+
+  const addFinding = (finding: ReadmeAuditFinding) => {
+    // The same broken target on several lines is one thing to fix
+    if (!findings.has(finding.id)) {
+      findings.set(finding.id, finding);
+    }
+  };
+
+  const checkTarget = (target: string, line: number, kind: 'link' | 'image') => {
+    if (!target) {
+      addFinding({
+        id: `readme-empty-${kind}-${line}`,
+        kind: kind === 'image' ? 'broken-image' : 'broken-link',
+        severity: 'medium',
+        message: `Empty ${kind} target on line ${line}`,
+        suggestion: `Point the ${kind} on line ${line} at a file or URL, or remove it`,
+        line,
+        target,
+      });
+      return;
+    }
+    if (kind === 'link') {
+      linkTargets.push(target);
+    }
+    if (!files || EXTERNAL_TARGET.test(target) || target.startsWith('#')) {
+      return;
+    }
+    if (kind === 'image') {
+      imagesChecked += 1;
+    } else {
+      linksChecked += 1;
+    }
+    const resolved = resolveReadmeTarget(target, readmePath);
+    if (resolved !== null && (resolved === '' || files.has(resolved) || directories.has(resolved))) {
+      return;
+    }
+    addFinding({
+      id: `readme-broken-${kind}-${slugify(target)}`,
+      kind: kind === 'image' ? 'broken-image' : 'broken-link',
+      severity: 'medium',
+      message: `${kind === 'image' ? 'Image' : 'Link'} \`${target}\` on line ${line} does not exist in the repository`,
+      suggestion:
+        resolved === null
+          ? `Fix \`${target}\`: it points outside the repository`
+          : `Fix \`${target}\` or add the missing file \`${resolved}\``,
+      line,
+      target,
+    });
+  };
+
+  const checkAltText = (alt: string | undefined, source: string, line: number) => {
+    if (alt && alt.trim()) {
+      return;
+    }
+    addFinding({
+      id: `readme-missing-alt-text-${line}-${slugify(source)}`,
+      kind: 'missing-alt-text',
+      severity: 'low',
+      message: `Image \`${source || '(empty)'}\` on line ${line} has no alt text`,
+      suggestion: `Describe the image on line ${line} in its alt text so screen readers and broken images still convey it`,
+      line,
+      target: source,
+    });
+  };
+
+  const lines = content.split(/\r?\n/);
+  let fence: { marker: string; line: number } | null = null;
+  let seenTitle = false;
+
+  lines.forEach((rawLine, index) => {
+    const line = index + 1;
+
+    if (fence) {
+      const closing = rawLine.trim();
+      if (closing.startsWith(fence.marker) && closing.replace(/[`~]/g, '') === '') {
+        fence = null;
+      }
+      return;
+    }
+
+    const fenceOpen = rawLine.match(FENCE_OPEN);
+    if (fenceOpen) {
+      fence = { marker: fenceOpen[1], line };
+      if (!fenceOpen[2]) {
+        addFinding({
+          id: `readme-untagged-code-fence-${line}`,
+          kind: 'untagged-code-fence',
+          severity: 'low',
+          message: `Code block on line ${line} does not declare a language`,
+          suggestion: `Add a language after the opening fence on line ${line} (e.g. \`\`\`bash) for syntax highlighting`,
+          line,
+        });
+      }
+      return;
+    }
+
+    // The document title names the project, not a section
+    const heading = rawLine.match(HEADING);
+    if (heading && !(heading[1] === '#' && !seenTitle)) {
+      headings.push(heading[2]);
+    } else if (index > 0 && SETEXT_UNDERLINE.test(rawLine) && lines[index - 1].trim()) {
+      if (seenTitle || !rawLine.includes('=')) {
+        headings.push(lines[index - 1].trim());
+      }
+      seenTitle = true;
+    }
+    if (heading) {
+      seenTitle = true;
+    }
+
+    const definition = rawLine.match(REFERENCE_DEFINITION);
+    if (definition) {
+      checkTarget(definition[2], line, 'link');
+      return;
+    }
+
+    // Inline code can contain bracket syntax that is not a link
+    let text = rawLine.replace(/`[^`]*`/g, (code) => ' '.repeat(code.length));
+
+    text = text.replace(BADGE_LINK, (_match, alt: string, imageUrl: string, linkUrl: string) => {
+      badges.push({ alt, imageUrl, linkUrl });
+      checkAltText(alt, imageUrl, line);
+      checkTarget(imageUrl, line, 'image');
+      checkTarget(linkUrl, line, 'link');
+      return ' ';
+    });
+
+    text = text.replace(MARKDOWN_IMAGE, (_match, alt: string, source: string) => {
+      if (BADGE_PATTERN.test(source)) {
+        badges.push({ alt, imageUrl: source });
+      } else {
+        contentImages += 1;
+      }
+      checkAltText(alt, source, line);
+      checkTarget(source, line, 'image');
+      return ' ';
+    });
+
+    text = text.replace(REFERENCE_IMAGE, (_match, alt: string) => {
+      contentImages += 1;
+      checkAltText(alt, '', line);
+      return ' ';
+    });
+
+    text = text.replace(HTML_IMAGE, (tag) => {
+      const source = htmlAttribute(tag, 'src') ?? '';
+      if (BADGE_PATTERN.test(source)) {
+        badges.push({ alt: htmlAttribute(tag, 'alt') ?? '', imageUrl: source });
+      } else {
+        contentImages += 1;
+      }
+      checkAltText(htmlAttribute(tag, 'alt'), source, line);
+      checkTarget(source, line, 'image');
+      return ' ';
+    });
+
+    for (const match of text.matchAll(MARKDOWN_LINK)) {
+      checkTarget(match[2], line, 'link');
+    }
+    for (const match of text.matchAll(HTML_LINK)) {
+      checkTarget(match[1], line, 'link');
+    }
+  });
+
+  const sections: ReadmeSectionCheck[] = SECTION_RULES.map((rule) => {
+    const heading = headings.find((candidate) => rule.heading.test(candidate));
+    const linkPattern = SECTION_LINK_TARGETS[rule.id];
+    const present =
+      Boolean(heading) ||
+      Boolean(linkPattern && linkTargets.some((target) => linkPattern.test(target.split('#')[0]))) ||
+      (rule.id === 'screenshots' && contentImages > 0);
+    return { id: rule.id, label: rule.label, present, heading };
+  });
+
+  const missingSections: ReadmeAuditFinding[] = SECTION_RULES.filter(
+    (rule) => !sections.find((section) => section.id === rule.id)?.present
+  ).map((rule) => ({
+    id: `readme-missing-${rule.id}`,
+    kind: 'missing-section',
+    severity: rule.severity,
+    message: `README has no ${rule.label} section`,
+    suggestion: rule.suggestion,
+    section: rule.id,
+  }));
+
+  const allFindings = [...missingSections, ...findings.values()];
+  const count = (kind: ReadmeFindingKind) => allFindings.filter((finding) => finding.kind === kind).length;
+  const missingCore = missingSections.filter((finding) => finding.severity !== 'low').length;
+  const score =
+    100 -
+    missingCore * 15 -
+    (missingSections.length - missingCore) * 5 -
+    Math.min(30, (count('broken-link') + count('broken-image')) * 10) -
+    Math.min(10, count('missing-alt-text') * 2) -
+    Math.min(10, count('untagged-code-fence') * 2);
+
+  return {
+    readmePath,
+    sections,
+    badges,
+    findings: allFindings,
+    linksChecked,
+    imagesChecked,
+    score: Math.max(0, score),
+  };
+};
@@ -0,0 +1,222 @@
+import type { RoleProfile, RoleProfileSkill, RoleProfileSkillCategory } from './types';
+
+export const GENERAL_ROLE_PROFILE_ID = 'general';
+
+const skill = (
+  id: string,
+  name: string,
+  category: RoleProfileSkillCategory,
+  targetLevel: number,
+  importance: number,
+  required = false
+): RoleProfileSkill => ({ id, name, category, targetLevel, importance, ...(required ? { required } : {}) });
+
+/**
+ * The general profile reproduces the analyzer's long-standing defaults and is
+ * used whenever no role is selected.
+ */
+const GENERAL: RoleProfile = {
+  id: GENERAL_ROLE_PROFILE_ID,
+  name: 'General Software Engineer',
+  description: 'Balanced expectations for a well-rounded software engineer.',
+  skills: [
+    skill('programming', 'Programming Languages', 'technical', 4, 5),
+    skill('frameworks', 'Frameworks & Libraries', 'technical', 4, 5),
+    skill('version-control', 'Version Control & Collaboration', 'technical', 4, 5),
+    skill('testing', 'Testing & QA', 'technical', 4, 4),
+    skill('debugging', 'Debugging & Troubleshooting', 'technical', 4, 4),
+    skill('databases', 'Database Management', 'technical', 3, 4),
+    skill('cloud', 'Cloud Platforms', 'technical', 3, 4),
+    skill('devops', 'DevOps & CI/CD', 'technical', 3, 3),
+    skill('api-design', 'API Design & Development', 'technical', 3, 4),
+    skill('performance', 'Performance Optimization', 'technical', 3, 3),
+    skill('documentation', 'Technical Documentation', 'technical', 4, 4),
+    skill('prompt-engineering', 'Prompt Engineering', 'technical', 3, 4),
+    skill('context-engineering', 'Context & Retrieval Practices', 'technical', 3, 3),
+    skill('problem-solving', 'Problem Solving', 'soft', 4, 5),
+    skill('teamwork', 'Teamwork', 'soft', 4, 4),
+    skill('time-management', 'Time Management', 'soft', 4, 4),
+    skill('leadership', 'Leadership', 'soft', 3, 4),
+    skill('industry', 'Industry Knowledge', 'domain', 3, 4),
+    skill('business', 'Business Acumen', 'domain', 3, 3),
+    skill('architecture', 'System Architecture', 'domain', 4, 4),
+    skill('security', 'Security Best Practices', 'domain', 3, 4),
+    skill('data-structures', 'Data Structures & Algorithms', 'domain', 3, 4),
+  ],
+  defaultTargetLevel: 3,
+  defaultTechnologyTargetLevel: 5,
+  adaptToExperience: true,
+};
+
+const FRONTEND_ENGINEER: RoleProfile = {
+  id: 'frontend-engineer',
+  name: 'Frontend Engineer',
+  description: 'Builds accessible, fast user interfaces with modern web frameworks.',
+  aliases: ['frontend', 'front-end', 'front end', 'ui engineer', 'ui developer', 'web developer'],
+  skills: [
+    skill('programming', 'Programming Languages', 'technical', 4, 5, true),
+    skill('frameworks', 'Frameworks & Libraries', 'technical', 4, 5, true),
+    skill('tech-javascript', 'JavaScript', 'technical', 4, 5, true),
+    skill('tech-typescript', 'TypeScript', 'technical', 4, 4),
+    skill('framework-react', 'React', 'technical', 4, 4),
+    skill('accessibility', 'Web Accessibility', 'technical', 3, 4, true),
+    skill('performance', 'Performance Optimization', 'technical', 4, 4, true),
+    skill('testing', 'Testing & QA', 'technical', 4, 4, true),
+    skill('testing-playwright', 'Playwright', 'technical', 3, 3),
+    skill('testing-cypress', 'Cypress', 'technical', 3, 3),
+    skill('version-control', 'Version Control & Collaboration', 'technical', 4, 4),
+    skill('api-design', 'API Design & Development', 'technical', 3, 3),
+    skill('documentation', 'Technical Documentation', 'technical', 3, 3),
+    skill('databases', 'Database Management', 'technical', 2, 2),
+    skill('cloud', 'Cloud Platforms', 'technical', 2, 2),
+    skill('devops', 'DevOps & CI/CD', 'technical', 2, 3),
+    skill('security', 'Security Best Practices', 'domain', 3, 3),
+    skill('architecture', 'System Architecture', 'domain', 3, 3),
+    skill('problem-solving', 'Problem Solving', 'soft', 4, 5),
+    skill('teamwork', 'Teamwork', 'soft', 4, 4),
+  ],
+  defaultTargetLevel: 3,
+  defaultTechnologyTargetLevel: 4,
+};
+
+const BACKEND_ENGINEER: RoleProfile = {
+  id: 'backend-engineer',
+  name: 'Backend Engineer',
+  description: 'Designs APIs, data models and services that are secure and scale.',
+  aliases: ['backend', 'back-end', 'back end', 'api developer', 'server-side'],
+  skills: [
+    skill('programming', 'Programming Languages', 'technical', 4, 5, true),
+    skill('api-design', 'API Design & Development', 'technical', 4, 5, true),
+    skill('databases', 'Database Management', 'technical', 4, 5, true),
+    skill('testing', 'Testing & QA', 'technical', 4, 4, true),
+    skill('frameworks', 'Frameworks & Libraries', 'technical', 4, 4),
+    skill('performance', 'Performance Optimization', 'technical', 3, 4),
+    skill('cloud', 'Cloud Platforms', 'technical', 3, 4),
+    skill('devops', 'DevOps & CI/CD', 'technical', 3, 3),
+    skill('devops-docker', 'Docker', 'technical', 3, 3),
+    skill('version-control', 'Version Control & Collaboration', 'technical', 4, 4),
+    skill('documentation', 'Technical Documentation', 'technical', 3, 3),
+    skill('security', 'Security Best Practices', 'domain', 4, 4, true),
+    skill('architecture', 'System Architecture', 'domain', 4, 4),
+    skill('scalability', 'Scalability & Performance', 'domain', 4, 4),
+    skill('data-structures', 'Data Structures & Algorithms', 'domain', 3, 4),
+    skill('problem-solving', 'Problem Solving', 'soft', 4, 5),
+  ],
+  defaultTargetLevel: 3,
+  defaultTechnologyTargetLevel: 4,
+};
+
+const FULL_STACK_ENGINEER: RoleProfile = {
+  id: 'full-stack-engineer',
+  name: 'Full-Stack Engineer',
+  description: 'Ships features end to end, from the user interface to the database.',
+  aliases: ['full stack', 'full-stack', 'fullstack'],
+  skills: [
+    skill('programming', 'Programming Languages', 'technical', 4, 5, true),
+    skill('frameworks', 'Frameworks & Libraries', 'technical', 4, 5, true),
+    skill('api-design', 'API Design & Development', 'technical', 4, 4, true),
+    skill('databases', 'Database Management', 'technical', 3, 4, true),
+    skill('testing', 'Testing & QA', 'technical', 4, 4, true),
+    skill('version-control', 'Version Control & Collaboration', 'technical', 4, 4),
+    skill('cloud', 'Cloud Platforms', 'technical', 3, 3),
+    skill('devops', 'DevOps & CI/CD', 'technical', 3, 3),
+    skill('performance', 'Performance Optimization', 'technical', 3, 3),
+    skill('documentation', 'Technical Documentation', 'technical', 3, 3),
+    skill('architecture', 'System Architecture', 'domain', 3, 4),
+    skill('security', 'Security Best Practices', 'domain', 3, 4),
+    skill('problem-solving', 'Problem Solving', 'soft', 4, 5),
+    skill('teamwork', 'Teamwork', 'soft', 4, 4),
+  ],
+  defaultTargetLevel: 3,
+  defaultTechnologyTargetLevel: 4,
+};
+
+const DATA_ENGINEER: RoleProfile = {
+  id: 'data-engineer',
+  name: 'Data Engineer',
+  description: 'Builds reliable batch and streaming pipelines and the warehouses they feed.',
+  aliases: ['data engineer', 'data engineering', 'etl', 'analytics engineer', 'data platform'],
+  skills: [
+    skill('tech-python', 'Python', 'technical', 4, 5, true),
+    skill('databases', 'Database Management', 'technical', 4, 5, true),
+    skill('data-engineering-specialization', 'Data Engineering & Pipelines', 'technical', 4, 5, true),
+    skill('data-airflow', 'Apache Airflow', 'technical', 3, 4),
+    skill('data-spark', 'Apache Spark', 'technical', 3, 4),
+    skill('data-kafka', 'Apache Kafka', 'technical', 3, 3),
+    skill('data-snowflake', 'Snowflake', 'technical', 3, 3),
+    skill('data-bigquery', 'BigQuery', 'technical', 3, 3),
+    skill('cloud', 'Cloud Platforms', 'technical', 4, 4, true),
+    skill('devops', 'DevOps & CI/CD', 'technical', 3, 3),
+    skill('testing', 'Testing & QA', 'technical', 3, 3),
+    skill('performance', 'Performance Optimization', 'technical', 4, 4),
+    skill('version-control', 'Version Control & Collaboration', 'technical', 3, 3),
+    skill('scalability', 'Scalability & Performance', 'domain', 4, 4),
+    skill('architecture', 'System Architecture', 'domain', 3, 4),
+    skill('problem-solving', 'Problem Solving', 'soft', 4, 4),
+  ],
+  defaultTargetLevel: 2,
+  defaultTechnologyTargetLevel: 3,
+};
+
+const SITE_RELIABILITY_ENGINEER: RoleProfile = {
+  id: 'sre',
+  name: 'Site Reliability Engineer',
+  description: 'Keeps production systems reliable through automation, observability and incident response.',
+  aliases: ['site reliability', 'sre', 'devops engineer', 'platform engineer', 'infrastructure engineer'],
+  skills: [
+    skill('devops', 'DevOps & CI/CD', 'technical', 5, 5, true),
+    skill('cloud', 'Cloud Platforms', 'technical', 4, 5, true),
+    skill('observability', 'Monitoring & Observability', 'technical', 4, 5, true),
+    skill('devops-kubernetes', 'Kubernetes', 'technical', 4, 4, true),
+    skill('devops-docker', 'Docker', 'technical', 4, 4),
+    skill('devops-terraform', 'Terraform', 'technical', 4, 4),
+    skill('debugging', 'Debugging & Troubleshooting', 'technical', 4, 5, true),
+    skill('performance', 'Performance Optimization', 'technical', 4, 4),
+    skill('programming', 'Programming Languages', 'technical', 3, 3),
+    skill('version-control', 'Version Control & Collaboration', 'technical', 4, 4),
+    skill('documentation', 'Technical Documentation', 'technical', 3, 3),
+    skill('scalability', 'Scalability & Performance', 'domain', 4, 5),
+    skill('security', 'Security Best Practices', 'domain', 4, 4),
+    skill('architecture', 'System Architecture', 'domain', 4, 4),
+    skill('problem-solving', 'Problem Solving', 'soft', 4, 5),
+  ],
+  defaultTargetLevel: 2,
+  defaultTechnologyTargetLevel: 3,
+};
+
+const ML_ENGINEER: RoleProfile = {
+  id: 'ml-engineer',
+  name: 'Machine Learning Engineer',
+  description: 'Trains, evaluates and deploys machine learning models to production.',
+  aliases: ['ml engineer', 'machine learning', 'ai engineer', 'data scientist', 'mlops'],
+  skills: [
+    skill('tech-python', 'Python', 'technical', 4, 5, true),
+    skill('ml-foundations', 'Machine Learning Foundations', 'technical', 4, 5, true),
+    skill('ai-ml-specialization', 'AI & Machine Learning', 'technical', 4, 5),
+    skill('ml-python', 'Pandas', 'technical', 4, 4),
+    skill('ml-pytorch', 'PyTorch', 'technical', 4, 4),
+    skill('ml-tensorflow', 'TensorFlow', 'technical', 3, 3),
+    skill('ml-scikit', 'scikit-learn', 'technical', 3, 3),
+    skill('mlops', 'MLOps Practices', 'technical', 3, 4, true),
+    skill('prompt-engineering', 'Prompt Engineering', 'technical', 3, 3),
+    skill('context-engineering', 'Context & Retrieval Practices', 'technical', 3, 3),
+    skill('testing', 'Testing & QA', 'technical', 3, 3),
+    skill('cloud', 'Cloud Platforms', 'technical', 3, 3),
+    skill('devops', 'DevOps & CI/CD', 'technical', 3, 3),
+    skill('performance', 'Performance Optimization', 'technical', 3, 3),
+    skill('data-structures', 'Data Structures & Algorithms', 'domain', 3, 3),
+    skill('problem-solving', 'Problem Solving', 'soft', 4, 5),
+  ],
+  defaultTargetLevel: 2,
+  defaultTechnologyTargetLevel: 3,
+};
+
+export const BUILT_IN_ROLE_PROFILES: RoleProfile[] = [
+  GENERAL,
+  FRONTEND_ENGINEER,
+  BACKEND_ENGINEER,
+  FULL_STACK_ENGINEER,
+  DATA_ENGINEER,
+  SITE_RELIABILITY_ENGINEER,
+  ML_ENGINEER,
+];
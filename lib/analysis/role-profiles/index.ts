@@ -0,0 +1,20 @@
+/**
+ * Role Profiles - Public API
+ *
+ * Declarative role expectations used as the target when computing skill gaps.
+ */
+
+export {
+  findRoleProfile,
+  getDefaultRoleProfile,
+  getRoleProfile,
+  getRoleProfileIssues,
+  getRoleProfileSkill,
+  listRoleProfiles,
+  registerRoleProfile,
+  roleProfileSchema,
+  summarizeRoleProfile,
+} from './registry';
+export { BUILT_IN_ROLE_PROFILES, GENERAL_ROLE_PROFILE_ID } from './built-in-profiles';
+
+export type { RoleProfile, RoleProfileSkill, RoleProfileSkillCategory, RoleProfileSummary } from './types';
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { BUILT_IN_ROLE_PROFILES, GENERAL_ROLE_PROFILE_ID } from './built-in-profiles';
+import customProfileFile from './custom-profiles.json';
+import type { RoleProfile, RoleProfileSkill, RoleProfileSummary } from './types';
+
+const levelSchema = z.number().min(1).max(5);
+
+const roleProfileSkillSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  category: z.enum(['technical', 'soft', 'domain']),
+  targetLevel: levelSchema,
+  importance: levelSchema,
+  required: z.boolean().optional(),
+});
+
+export const roleProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Profile ids must be lowercase kebab-case'),
+  name: z.string().min(1),
+  description: z.string(),
+  aliases: z.array(z.string().min(1)).optional(),
+  skills: z.array(roleProfileSkillSchema).min(1),
+  defaultTargetLevel: levelSchema,
+  defaultTechnologyTargetLevel: levelSchema,
+  adaptToExperience: z.boolean().optional(),
+});
+
+const registry = new Map<string, RoleProfile>();
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) => `${issue.path.join('.') || 'profile'}: ${issue.message}`);
+
+/**
+ * Validate and register a role profile. A profile with the id of an existing
+ * one replaces it, so teams can also tune the built-in profiles.
+ */
+export const registerRoleProfile = (profile: unknown): RoleProfile => {
+  const parsed = roleProfileSchema.safeParse(profile);
+  if (!parsed.success) {
+    const id = (profile as { id?: unknown } | null)?.id;
+    throw new Error(`Invalid role profile${typeof id === 'string' ? ` "${id}"` : ''}: ${formatIssues(parsed.error).join('; ')}`);
+  }
+  registry.set(parsed.data.id, parsed.data);
+  return parsed.data;
+};
+
+/**
+ * Validation issues for an inline role profile, as `path: message` strings.
+ * Empty when the profile is valid.
+ */
+export const getRoleProfileIssues = (profile: unknown): string[] => {
+  const parsed = roleProfileSchema.safeParse(profile);
+  return parsed.success ? [] : formatIssues(parsed.error);
+};
+
+BUILT_IN_ROLE_PROFILES.forEach((profile) => registry.set(profile.id, profile));
+
+// Team-specific profiles live in custom-profiles.json next to this file
+const customProfiles: unknown[] = Array.isArray((customProfileFile as { profiles?: unknown }).profiles)
+  ? (customProfileFile as { profiles: unknown[] }).profiles
+  : [];
+customProfiles.forEach((profile) => {
+  try {
+    registerRoleProfile(profile);
+  } catch (error) {
+    console.error('[RoleProfiles] Skipping custom profile:', error instanceof Error ? error.message : error);
+  }
+});
+
+export const getRoleProfile = (id: string): RoleProfile | undefined => registry.get(id);
+
+export const getDefaultRoleProfile = (): RoleProfile => registry.get(GENERAL_ROLE_PROFILE_ID)!;
+
+export const listRoleProfiles = (): RoleProfile[] => Array.from(registry.values());
+
+export const summarizeRoleProfile = (profile: RoleProfile): RoleProfileSummary => ({
+  id: profile.id,
+  name: profile.name,
+  description: profile.description,
+  skillCount: profile.skills.length,
+  requiredSkills: profile.skills.filter((skill) => skill.required).map((skill) => skill.name),
+});
+
+/**
+ * Resolve a profile from an id, a profile name, a free-text role such as
+ * "Senior Frontend Engineer" (matched against aliases, longest alias first)
+ * or an inline profile. Returns undefined when nothing matches or the inline
+ * profile is invalid; use getRoleProfileIssues to report why.
+ */
+export const findRoleProfile = (selection?: string | RoleProfile | null): RoleProfile | undefined => {
+  if (!selection) {
+    return undefined;
+  }
+  if (typeof selection !== 'string') {
+    const parsed = roleProfileSchema.safeParse(selection);
+    return parsed.success ? parsed.data : undefined;
+  }
+
+  const normalized = selection.trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+
+  const profiles = listRoleProfiles();
+  const direct = registry.get(normalized) ?? profiles.find((profile) => profile.name.toLowerCase() === normalized);
+  if (direct) {
+    return direct;
+  }
+
+  let bestMatch: { profile: RoleProfile; length: number } | undefined;
+  profiles.forEach((profile) => {
+    (profile.aliases ?? []).forEach((alias) => {
+      const candidate = alias.toLowerCase();
+      const pattern = new RegExp(`(^|[^a-z0-9])${candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([^a-z0-9]|$)`);
+      if (pattern.test(normalized) && (!bestMatch || candidate.length > bestMatch.length)) {
+        bestMatch = { profile, length: candidate.length };
+      }
+    });
+  });
+  return bestMatch?.profile;
+};
+
+export const getRoleProfileSkill = (profile: RoleProfile, skillId: string): RoleProfileSkill | undefined =>
+  profile.skills.find((skill) => skill.id === skillId);
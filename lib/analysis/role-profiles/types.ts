@@ -0,0 +1,42 @@
+/**
+ * Role profile types
+ *
+ * A role profile declares which skills a role needs, the level each should
+ * reach, and how much each one matters. Skill gaps are measured against it.
+ */
+
+export type RoleProfileSkillCategory = 'technical' | 'soft' | 'domain';
+
+export interface RoleProfileSkill {
+  /** Skill id as produced by the gap analyzer, e.g. `testing` or `framework-react` */
+  id: string;
+  name: string;
+  category: RoleProfileSkillCategory;
+  targetLevel: number; // 1-5
+  importance: number; // 1-5
+  /** Required skills are reported as gaps even when the analysis found no evidence of them */
+  required?: boolean;
+}
+
+export interface RoleProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Free-text role names that select this profile, e.g. "frontend" or "ui engineer" */
+  aliases?: string[];
+  skills: RoleProfileSkill[];
+  /** Target for skills the profile does not list */
+  defaultTargetLevel: number;
+  /** Target for detected languages and frameworks the profile does not list */
+  defaultTechnologyTargetLevel: number;
+  /** Raise targets for beginner repositories and lower them for advanced ones */
+  adaptToExperience?: boolean;
+}
+
+export interface RoleProfileSummary {
+  id: string;
+  name: string;
+  description: string;
+  skillCount: number;
+  requiredSkills: string[];
+}
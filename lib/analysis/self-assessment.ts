@@ -0,0 +1,104 @@
+import { canonicalSkillId, getTaxonomySkill } from './skill-taxonomy';
+
+/**
+ * Self-assessed skill levels and how they are reconciled with detected ones.
+ *
+ * A self-rating never silently replaces a detected level, and a re-analysis
+ * never silently drops a self-rating. The current level becomes a weighted
+ * blend of the two, and a large disagreement is flagged so the UI can ask
+ * the user to look again. A self-assessed target level is the user's goal,
+ * so it replaces the role profile's target outright.
+ */
+
+export interface SelfAssessedLevel {
+  /** Canonical taxonomy id */
+  skillId: string;
+  skillName?: string;
+  currentLevel: number;
+  targetLevel?: number | null;
+  /** ISO timestamp of the last change */
+  updatedAt?: string;
+}
+
+/**
+ * Whether an untrusted value (a request body or stored JSON) is a usable self-assessed level
+ */
+export const isSelfAssessedLevel = (value: unknown): value is SelfAssessedLevel => {
+  if (typeof value !== 'object' || value === null || !('skillId' in value) || !('currentLevel' in value)) {
+    return false;
+  }
+  const targetLevel = 'targetLevel' in value ? value.targetLevel : undefined;
+  return (
+    typeof value.skillId === 'string' &&
+    value.skillId.trim() !== '' &&
+    typeof value.currentLevel === 'number' &&
+    Number.isFinite(value.currentLevel) &&
+    (targetLevel === undefined || targetLevel === null || typeof targetLevel === 'number')
+  );
+};
+
+export type SkillLevelDisagreement = 'none' | 'minor' | 'large';
+
+export interface SkillLevelReconciliation {
+  detectedLevel: number;
+  selfAssessedLevel: number;
+  reconciledLevel: number;
+  /** Share of the blend taken from the self-assessment (0-1) */
+  selfWeight: number;
+  /** Self-assessed minus detected */
+  difference: number;
+  disagreement: SkillLevelDisagreement;
+  /** Whether the self-assessed target replaced the profile target */
+  targetOverridden: boolean;
+  /** The rule applied, in words, for display next to the level */
+  explanation: string;
+}
+
+export const SELF_ASSESSMENT_WEIGHT = 0.4;
+// Differences at or above these (in levels) are reported as minor or large disagreements
+const MINOR_DISAGREEMENT = 0.75;
+const LARGE_DISAGREEMENT = 1.5;
+
+export const RECONCILIATION_RULE =
+  `Current level = ${Math.round((1 - SELF_ASSESSMENT_WEIGHT) * 100)}% detected + ${Math.round(SELF_ASSESSMENT_WEIGHT * 100)}% self-assessed; ` +
+  `a difference of ${LARGE_DISAGREEMENT}+ levels is flagged for review. A self-assessed target replaces the role target.`;
+
+const roundLevel = (level: number) => Math.round(level * 10) / 10;
+const clampLevel = (level: number) => Math.min(5, Math.max(1, level));
+
+/**
+ * Key a skill is stored under: its taxonomy id, or the canonical form of its name
+ */
+export const selfAssessmentKey = (skill: { id: string; name: string }): string =>
+  getTaxonomySkill(skill.id)?.id ?? canonicalSkillId(skill.name);
+
+export const reconcileSkillLevel = (
+  detectedLevel: number,
+  self: SelfAssessedLevel
+): SkillLevelReconciliation => {
+  const selfAssessedLevel = roundLevel(clampLevel(self.currentLevel));
+  const difference = roundLevel(selfAssessedLevel - detectedLevel);
+  const reconciledLevel = roundLevel(
+    clampLevel(detectedLevel * (1 - SELF_ASSESSMENT_WEIGHT) + selfAssessedLevel * SELF_ASSESSMENT_WEIGHT)
+  );
+  const magnitude = Math.abs(difference);
+  const disagreement: SkillLevelDisagreement =
+    magnitude >= LARGE_DISAGREEMENT ? 'large' : magnitude >= MINOR_DISAGREEMENT ? 'minor' : 'none';
+  const targetOverridden = typeof self.targetLevel === 'number';
+
+  const blend = `Blended detected ${roundLevel(detectedLevel)} with self-assessed ${selfAssessedLevel} (${Math.round(SELF_ASSESSMENT_WEIGHT * 100)}% weight) to ${reconciledLevel}.`;
+  const flag =
+    disagreement === 'large'
+      ? ` Self-assessment is ${magnitude} levels ${difference > 0 ? 'above' : 'below'} the repository evidence; review it.`
+      : '';
+  return {
+    detectedLevel: roundLevel(detectedLevel),
+    selfAssessedLevel,
+    reconciledLevel,
+    selfWeight: SELF_ASSESSMENT_WEIGHT,
+    difference,
+    disagreement,
+    targetOverridden,
+    explanation: `${blend}${flag}${targetOverridden ? ` Target set to ${roundLevel(clampLevel(self.targetLevel as number))} by self-assessment.` : ''}`,
+  };
+};
@@ -0,0 +1,463 @@
+import type { AgenticCodeAnalysis, GitHubAnalysis, ReadmeAnalysis } from '@/lib/agents/gap-analyzer';
+import { isIgnoredPath, languageForPath } from '@/lib/repository/base-source';
+import { detectToolsFromPaths } from './manifest-detection';
+import {
+  getSkillAncestors,
+  resolveSkill,
+  type SkillTaxonomyGroup,
+  type TaxonomySkill,
+} from './skill-taxonomy';
+import { isTestPath } from './static-code-metrics';
+
+export type SkillEvidenceKind = 'file' | 'manifest' | 'commits' | 'metric' | 'review';
+
+/**
+ * One observation supporting a skill's current level
+ */
+export interface SkillEvidence {
+  kind: SkillEvidenceKind;
+  summary: string;
+  path?: string;
+  lineStart?: number;
+  lineEnd?: number;
+  /** Quoted code, manifest entry or review text */
+  excerpt?: string;
+  /** Set when evidence from several repositories is combined */
+  repository?: string;
+}
+
+/**
+ * A file (optionally a line range in it) that shows a skill in use, kept on
+ * the repository analysis so evidence can be attached to skills later
+ */
+export interface CodeUsageEvidence {
+  skillId: string;
+  path: string;
+  summary: string;
+  lineStart?: number;
+  lineEnd?: number;
+  excerpt?: string;
+}
+
+type AnalysisWithReviews = GitHubAnalysis & {
+  agenticAnalysis?: AgenticCodeAnalysis;
+  readmeAnalysis?: ReadmeAnalysis;
+};
+
+const MAX_PATH_SAMPLES_PER_SKILL = 2;
+const MAX_USAGES_PER_SKILL = 5;
+const MAX_EXCERPT_LENGTH = 160;
+
+const LIMITS: Record<SkillEvidenceKind, number> = {
+  file: 4,
+  manifest: 3,
+  commits: 2,
+  metric: 3,
+  review: 3,
+};
+
+// Core skills are backed by evidence for every technology in these taxonomy groups
+const CORE_SKILL_GROUPS: Record<string, SkillTaxonomyGroup[]> = {
+  programming: ['language'],
+  frameworks: ['framework'],
+  testing: ['testing'],
+  devops: ['devops'],
+  cloud: ['cloud'],
+  databases: ['database'],
+  'ai-ml-specialization': ['ml'],
+  'data-engineering-specialization': ['data'],
+};
+
+// Review findings about core practices rarely name a technology, so match them by topic
+const CORE_SKILL_REVIEW_TOPICS: Record<string, RegExp> = {
+  programming: /\b(type safety|naming|readab|complex|duplicat|modular)/i,
+  testing: /\b(test|coverage|mock)/i,
+  documentation: /\b(doc|readme|comment)/i,
+  devops: /\b(ci|cd|pipeline|docker|deploy|workflow)\b/i,
+  'api-design': /\b(api|endpoint|rest|graphql|route)/i,
+  performance: /\b(performance|cache|caching|memo|optimi[sz])/i,
+  debugging: /\b(error handling|logging|exception|debug)/i,
+  databases: /\b(database|sql|query|orm|schema)/i,
+  architecture: /\b(architecture|layer|coupling|separation of concerns)/i,
+  security: /\b(security|secret|injection|xss|csrf|auth|sanitiz|vulnerab)/i,
+};
+
+const IMPORT_LINE_PATTERNS: Record<string, RegExp[]> = {
+  JavaScript: [
+    /^\s*import\s[^'"]*?from\s*['"]([^'"]+)['"]/,
+    /^\s*import\s*['"]([^'"]+)['"]/,
+    /^\s*}\s*from\s*['"]([^'"]+)['"]/, // closing line of a multi-line import
+    /require\(\s*['"]([^'"]+)['"]\s*\)/,
+  ],
+  Python: [/^\s*from\s+([\w.]+)\s+import\s/, /^\s*import\s+([\w.]+)/],
+  Go: [/^\s*import\s+(?:\w+\s+)?"([^"]+)"/, /^\s*(?:\w+\s+)?"([\w./-]+)"\s*$/],
+  Java: [/^\s*import\s+(?:static\s+)?([\w.]+)/],
+  Rust: [/^\s*(?:pub\s+)?use\s+([\w:]+)/, /^\s*extern\s+crate\s+(\w+)/],
+};
+IMPORT_LINE_PATTERNS.TypeScript = IMPORT_LINE_PATTERNS.JavaScript;
+IMPORT_LINE_PATTERNS.Vue = IMPORT_LINE_PATTERNS.JavaScript;
+IMPORT_LINE_PATTERNS.Svelte = IMPORT_LINE_PATTERNS.JavaScript;
+IMPORT_LINE_PATTERNS.Kotlin = IMPORT_LINE_PATTERNS.Java;
+IMPORT_LINE_PATTERNS.Scala = IMPORT_LINE_PATTERNS.Java;
+
+// Packages only count as evidence for concrete technologies
+const NON_PACKAGE_GROUPS = new Set<SkillTaxonomyGroup>(['core', 'practice', 'specialization', 'language']);
+
+const truncate = (text: string): string =>
+  text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+
+/**
+ * Technology a package specifier refers to, e.g. `next/server` -> Next.js,
+ * `@prisma/client` -> Prisma, `sklearn.model_selection` -> scikit-learn
+ */
+const resolvePackageSkill = (specifier: string): TaxonomySkill | undefined => {
+  if (specifier.startsWith('.') || specifier.startsWith('/') || /^[@~]\//.test(specifier)) {
+    return undefined;
+  }
+  const segments = specifier.split(/[/:.]+/).filter(Boolean);
+  const candidates = [specifier, specifier.replace(/^@/, ''), ...segments.map((segment) => segment.replace(/^@/, ''))];
+  for (const candidate of candidates) {
+    const skill = resolveSkill(candidate);
+    if (skill && !NON_PACKAGE_GROUPS.has(skill.group)) {
+      return skill;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Path-level evidence from the repository tree: sample files per language,
+ * test files and tooling files such as workflows and Dockerfiles
+ */
+export const collectPathEvidence = (filePaths: string[]): CodeUsageEvidence[] => {
+  const pathsBySkill = new Map<string, { label: string; paths: string[] }>();
+  const add = (skillId: string, label: string, path: string) => {
+    const entry = pathsBySkill.get(skillId) ?? { label, paths: [] };
+    entry.paths.push(path);
+    pathsBySkill.set(skillId, entry);
+  };
+
+  filePaths
+    .filter((path) => !isIgnoredPath(path))
+    .forEach((path) => {
+      if (isTestPath(path)) {
+        add('testing', 'test files', path);
+      }
+      const language = languageForPath(path);
+      const languageSkill = language ? resolveSkill(language) : undefined;
+      if (language && languageSkill?.group === 'language') {
+        add(languageSkill.id, `${language} files`, path);
+      }
+      detectToolsFromPaths([path]).forEach((tool) => {
+        const toolSkill = resolveSkill(tool);
+        if (toolSkill) {
+          add(toolSkill.id, `${toolSkill.name} files`, path);
+        }
+      });
+    });
+
+  return Array.from(pathsBySkill.entries()).flatMap(([skillId, { label, paths }]) =>
+    [...paths]
+      .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+      .slice(0, MAX_PATH_SAMPLES_PER_SKILL)
+      .map((path) => ({
+        skillId,
+        path,
+        summary:
+          paths.length === 1
+            ? `The only ${label.replace(/s$/, '')} in the repository`
+            : `One of ${paths.length} ${label} in the repository`,
+      }))
+  );
+};
+
+/**
+ * Line-level evidence from files that were read: the import lines that pull
+ * in each technology, one entry per file and technology
+ */
+export const findCodeUsages = (files: Array<{ path: string; content: string }>): CodeUsageEvidence[] => {
+  const usages: CodeUsageEvidence[] = [];
+  const countBySkill = new Map<string, number>();
+
+  files.forEach((file) => {
+    const patterns = IMPORT_LINE_PATTERNS[languageForPath(file.path) ?? ''];
+    if (!patterns) {
+      return;
+    }
+    const lines = file.content.split('\n');
+    const inFile = new Map<string, { skill: TaxonomySkill; first: number; last: number; excerpt: string }>();
+
+    lines.forEach((line, index) => {
+      const specifier = patterns.map((pattern) => line.match(pattern)?.[1]).find(Boolean);
+      const skill = specifier ? resolvePackageSkill(specifier) : undefined;
+      if (!skill) {
+        return;
+      }
+      const existing = inFile.get(skill.id);
+      if (existing) {
+        existing.last = index + 1;
+      } else {
+        inFile.set(skill.id, { skill, first: index + 1, last: index + 1, excerpt: truncate(line.trim()) });
+      }
+    });
+
+    inFile.forEach(({ skill, first, last, excerpt }) => {
+      const count = countBySkill.get(skill.id) ?? 0;
+      if (count >= MAX_USAGES_PER_SKILL) {
+        return;
+      }
+      countBySkill.set(skill.id, count + 1);
+      usages.push({
+        skillId: skill.id,
+        path: file.path,
+        lineStart: first,
+        lineEnd: last,
+        excerpt,
+        summary: `Imports ${skill.name}`,
+      });
+    });
+  });
+
+  return usages;
+};
+
+/**
+ * Whether evidence about `technology` supports `skillId`: the technology is
+ * the skill, a child of it (Next.js supports React), or belongs to the
+ * taxonomy groups behind a core skill
+ */
+const technologySupportsSkill = (skillId: string, technology: string): boolean => {
+  const resolved = resolveSkill(technology);
+  if (!resolved) {
+    return false;
+  }
+  return (
+    resolved.id === skillId ||
+    getSkillAncestors(resolved.id).some((ancestor) => ancestor.id === skillId) ||
+    (CORE_SKILL_GROUPS[skillId] ?? []).includes(resolved.group)
+  );
+};
+
+const mentionsSkill = (skillId: string, skillName: string, text: string): boolean => {
+  const topic = CORE_SKILL_REVIEW_TOPICS[skillId];
+  if (topic) {
+    return topic.test(text);
+  }
+  const names = [skillName, ...(resolveSkill(skillId)?.aliases ?? [])].map((name) => name.toLowerCase());
+  const normalized = text.toLowerCase();
+  return names.some((name) => name.length > 1 && normalized.includes(name));
+};
+
+const fileEvidence = (skillId: string, analysis: GitHubAnalysis): SkillEvidence[] => {
+  const supporting = (analysis.codeEvidence ?? []).filter(
+    (usage) => usage.skillId === skillId || technologySupportsSkill(skillId, usage.skillId)
+  );
+  // Line-level usages are stronger than path samples
+  const ordered = [
+    ...supporting.filter((usage) => usage.lineStart !== undefined),
+    ...supporting.filter((usage) => usage.lineStart === undefined),
+  ];
+
+  const hotspots = (analysis.qualityMetrics?.codeQuality.staticMetrics?.hotspots ?? [])
+    .filter((hotspot) => {
+      const language = languageForPath(hotspot.path);
+      return skillId === 'programming' || (language !== null && resolveSkill(language)?.id === skillId);
+    })
+    .slice(0, 1)
+    .map((hotspot) => ({
+      kind: 'file' as const,
+      summary: `Most complex function \`${hotspot.name}\` (complexity ${hotspot.complexity}, ${hotspot.length} lines)`,
+      path: hotspot.path,
+      lineStart: hotspot.startLine,
+      lineEnd: hotspot.startLine + hotspot.length - 1,
+    }));
+
+  return [
+    ...ordered.map((usage) => ({
+      kind: 'file' as const,
+      summary: usage.summary,
+      path: usage.path,
+      lineStart: usage.lineStart,
+      lineEnd: usage.lineEnd,
+      excerpt: usage.excerpt,
+    })),
+    ...hotspots,
+  ];
+};
+
+const manifestEvidence = (skillId: string, analysis: GitHubAnalysis): SkillEvidence[] =>
+  [...(analysis.manifestDetection?.frameworks ?? []), ...(analysis.manifestDetection?.tools ?? [])]
+    .filter((technology) => technologySupportsSkill(skillId, technology.name))
+    .map((technology) => {
+      const packages = technology.packages?.length ? technology.packages.join(', ') : technology.name;
+      return {
+        kind: 'manifest' as const,
+        summary: `${technology.name} declared in ${technology.sources.join(', ')}`,
+        path: technology.sources[0],
+        excerpt: technology.version ? `${packages} ${technology.version}` : packages,
+      };
+    });
+
+const commitEvidence = (skillId: string, analysis: GitHubAnalysis): SkillEvidence[] => {
+  const history = analysis.commitHistory;
+  if (!history) {
+    return [];
+  }
+  if (skillId === 'version-control') {
+    return [
+      {
+        kind: 'commits',
+        summary: `${history.commitsAnalyzed} commit(s) analyzed${history.sampled ? ' (sampled)' : ''}${
+          history.firstCommitAt && history.lastCommitAt
+            ? ` between ${history.firstCommitAt.slice(0, 10)} and ${history.lastCommitAt.slice(0, 10)}`
+            : ''
+        }`,
+      },
+    ];
+  }
+  return history.timeline
+    .filter((entry) => technologySupportsSkill(skillId, entry.technology))
+    .map((entry) => ({
+      kind: 'commits' as const,
+      summary: `${entry.technology}: ${entry.commitCount} commit(s) across ${entry.activeMonths} month(s), last seen ${entry.daysSinceLastSeen} day(s) ago`,
+      excerpt: entry.adjustmentReasons.length > 0 ? entry.adjustmentReasons.join('; ') : undefined,
+    }));
+};
+
+const metricEvidence = (skillId: string, analysis: AnalysisWithReviews): SkillEvidence[] => {
+  const staticMetrics = analysis.qualityMetrics?.codeQuality.staticMetrics;
+  const evidence: SkillEvidence[] = [];
+  const breakdown = (id: string) => staticMetrics?.breakdown.find((item) => item.id === id);
+
+  if (skillId === 'programming' && staticMetrics) {
+    evidence.push({
+      kind: 'metric',
+      summary: `Static code score ${staticMetrics.score}/100 across ${staticMetrics.filesAnalyzed} file(s)`,
+    });
+    ['complexity', 'duplication'].forEach((id) => {
+      const item = breakdown(id);
+      if (item) {
+        evidence.push({ kind: 'metric', summary: `${item.label}: ${item.score}/100`, excerpt: item.explanation });
+      }
+    });
+  }
+  if (skillId === 'testing') {
+    const item = breakdown('test-ratio');
+    if (item) {
+      evidence.push({ kind: 'metric', summary: `${item.label}: ${item.score}/100`, excerpt: item.explanation });
+    }
+  }
+  if (skillId === 'security' && analysis.dependencyHealth) {
+    const health = analysis.dependencyHealth;
+    evidence.push({
+      kind: 'metric',
+      summary:
+        health.advisoriesChecked > 0
+          ? `${health.vulnerable.length} of ${health.packageCount} locked packages have known advisories, ${health.outdated.length} are outdated`
+          : `${health.packageCount} locked packages (not checked against an advisory dataset)`,
+      path: health.lockfiles[0],
+    });
+    health.vulnerable.forEach((pkg) =>
+      evidence.push({
+        kind: 'metric',
+        summary: `${pkg.name} ${pkg.version}: ${pkg.severity} (${pkg.advisories.map((advisory) => advisory.id).join(', ')})`,
+        path: pkg.lockfilePath,
+        excerpt: pkg.advisories[0].summary ? truncate(pkg.advisories[0].summary) : undefined,
+      })
+    );
+  }
+  if (skillId === 'version-control' && analysis.gitPractices) {
+    const practices = analysis.gitPractices;
+    evidence.push({
+      kind: 'metric',
+      summary: `Git practices ${practices.score}/100 across ${practices.commitsAnalyzed} commit(s)`,
+      excerpt: practices.factors.map((factor) => `${factor.label}: ${factor.score}/100`).join('; '),
+    });
+    if (practices.strengths.length > 0) {
+      evidence.push({ kind: 'metric', summary: truncate(practices.strengths.join('; ')) });
+    }
+  }
+  if (skillId === 'documentation') {
+    const readmeScore = analysis.readmeAnalysis?.qualityScore ?? analysis.qualityMetrics?.readmeQuality.score;
+    if (readmeScore !== undefined) {
+      evidence.push({ kind: 'metric', summary: `README quality ${readmeScore}/100` });
+    }
+  }
+  return evidence;
+};
+
+const reviewEvidence = (skillId: string, skillName: string, analysis: AnalysisWithReviews): SkillEvidence[] => {
+  const review = analysis.agenticAnalysis;
+  const evidence: SkillEvidence[] = [];
+
+  if (review) {
+    if (skillId === 'programming') {
+      evidence.push({
+        kind: 'review',
+        summary: `AI code review rated the code ${review.overallQuality}/100 (${review.skillLevel}, confidence ${Math.round(review.confidence * 100)}%)`,
+      });
+    }
+    review.codeSmells
+      .filter((smell) => mentionsSkill(skillId, skillName, `${smell.type} ${smell.description} ${smell.suggestion}`))
+      .forEach((smell) =>
+        evidence.push({
+          kind: 'review',
+          summary: `${smell.severity} severity: ${smell.type}`,
+          path: smell.location,
+          excerpt: truncate(smell.description),
+        })
+      );
+    review.bestPractices
+      .filter((practice) => mentionsSkill(skillId, skillName, `${practice.name} ${practice.suggestion ?? ''}`))
+      .forEach((practice) =>
+        evidence.push({
+          kind: 'review',
+          summary: `${practice.implemented ? 'Follows' : 'Missing'}: ${practice.name}`,
+          excerpt: practice.suggestion ? truncate(practice.suggestion) : undefined,
+        })
+      );
+  }
+
+  if (skillId === 'documentation' && analysis.readmeAnalysis) {
+    analysis.readmeAnalysis.weaknesses.slice(0, 1).forEach((weakness) =>
+      evidence.push({ kind: 'review', summary: 'README review', excerpt: truncate(weakness) })
+    );
+  }
+  return evidence;
+};
+
+/**
+ * Evidence supporting a skill's current level, drawn from the repository
+ * analysis: files and import lines, manifest entries, commit history, static
+ * metrics and AI review findings. Each kind is capped to keep the trail short.
+ */
+export const collectSkillEvidence = (
+  skill: { id: string; name: string },
+  analysis: GitHubAnalysis | undefined
+): SkillEvidence[] => {
+  if (!analysis) {
+    return [];
+  }
+  const withReviews = analysis as AnalysisWithReviews;
+  const byKind: Array<[SkillEvidenceKind, SkillEvidence[]]> = [
+    ['file', fileEvidence(skill.id, analysis)],
+    ['manifest', manifestEvidence(skill.id, analysis)],
+    ['commits', commitEvidence(skill.id, analysis)],
+    ['metric', metricEvidence(skill.id, withReviews)],
+    ['review', reviewEvidence(skill.id, skill.name, withReviews)],
+  ];
+  return byKind.flatMap(([kind, evidence]) => evidence.slice(0, LIMITS[kind]));
+};
+
+/** Evidence for a skill merged from several analyses, without repeats */
+export const mergeSkillEvidence = (...lists: Array<SkillEvidence[] | undefined>): SkillEvidence[] => {
+  const seen = new Set<string>();
+  return lists.flatMap((list) => list ?? []).filter((evidence) => {
+    const key = `${evidence.repository ?? ''}|${evidence.kind}|${evidence.summary}|${evidence.path ?? ''}|${evidence.lineStart ?? ''}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
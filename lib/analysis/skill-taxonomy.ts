@@ -0,0 +1,185 @@
+import taxonomyFile from './skill-taxonomy.json';
+
+export type SkillTaxonomyCategory = 'technical' | 'soft' | 'domain';
+
+export type SkillTaxonomyGroup =
+  | 'core'
+  | 'practice'
+  | 'specialization'
+  | 'language'
+  | 'framework'
+  | 'database'
+  | 'devops'
+  | 'cloud'
+  | 'testing'
+  | 'ml'
+  | 'data';
+
+export interface TaxonomySkill {
+  /** Stable id stored with analysis results, e.g. `framework-nextjs` */
+  id: string;
+  /** Canonical display name, e.g. `Next.js` */
+  name: string;
+  category: SkillTaxonomyCategory;
+  group: SkillTaxonomyGroup;
+  importance: number; // 1-5
+  /** Default target level for core skills in the manual assessment */
+  targetLevel?: number;
+  /** Core skills make up the default assessment categories */
+  core?: boolean;
+  aliases?: string[];
+  /**
+   * Names or aliases that resolve exactly but are too common to detect in free
+   * text (e.g. "go", "next", "express")
+   */
+  ambiguousAliases?: string[];
+  /** Broader skill this one belongs to, e.g. Next.js -> React -> Frameworks */
+  parent?: string;
+  /** Id of the language skill the technology is written in */
+  language?: string;
+  /** False for skills that are resolved for naming but never assessed on their own */
+  assessed?: boolean;
+}
+
+export interface SkillTaxonomy {
+  version: number;
+  updatedAt: string;
+  categories: Array<{ id: SkillTaxonomyCategory; name: string }>;
+  skills: TaxonomySkill[];
+}
+
+const taxonomy = taxonomyFile as SkillTaxonomy;
+
+export const SKILL_TAXONOMY_VERSION = taxonomy.version;
+
+/**
+ * Lowercase slug used for ids and lookups, so "Next.js", "nextjs" and
+ * "next-js" compare equal
+ */
+export const normalizeSkillKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\+/g, 'p')
+    .replace(/#/g, 'sharp')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const compactKey = (name: string): string => normalizeSkillKey(name).replace(/-/g, '');
+
+const skillsById = new Map<string, TaxonomySkill>();
+const skillsByKey = new Map<string, TaxonomySkill>();
+
+taxonomy.skills.forEach((skill) => {
+  skillsById.set(skill.id, skill);
+  [skill.id, skill.name, ...(skill.aliases ?? [])].forEach((name) => {
+    [normalizeSkillKey(name), compactKey(name)].forEach((key) => {
+      if (!skillsByKey.has(key)) {
+        skillsByKey.set(key, skill);
+      }
+    });
+  });
+});
+
+export const listTaxonomySkills = (): TaxonomySkill[] => [...taxonomy.skills];
+
+export const getTaxonomySkill = (id: string): TaxonomySkill | undefined => skillsById.get(id);
+
+/**
+ * Resolve a skill id, canonical name or alias to its taxonomy entry
+ */
+export const resolveSkill = (nameOrId: string | null | undefined): TaxonomySkill | undefined => {
+  if (!nameOrId || !nameOrId.trim()) {
+    return undefined;
+  }
+  return (
+    skillsById.get(nameOrId) ??
+    skillsByKey.get(normalizeSkillKey(nameOrId)) ??
+    skillsByKey.get(compactKey(nameOrId))
+  );
+};
+
+/** Canonical id for a skill name, or a slug of the name when it is not in the taxonomy */
+export const canonicalSkillId = (name: string): string => resolveSkill(name)?.id ?? normalizeSkillKey(name);
+
+/** Canonical display name for a skill, or the trimmed input when it is not in the taxonomy */
+export const canonicalSkillName = (name: string): string => resolveSkill(name)?.name ?? name.trim();
+
+export const includesSkill = (names: string[], skillId: string): boolean =>
+  names.some((name) => resolveSkill(name)?.id === skillId);
+
+export const getSkillParent = (nameOrId: string): TaxonomySkill | undefined => {
+  const parentId = resolveSkill(nameOrId)?.parent;
+  return parentId ? skillsById.get(parentId) : undefined;
+};
+
+export const getSkillChildren = (nameOrId: string): TaxonomySkill[] => {
+  const skill = resolveSkill(nameOrId);
+  return skill ? taxonomy.skills.filter((candidate) => candidate.parent === skill.id) : [];
+};
+
+/** Parent chain from the closest parent to the root */
+export const getSkillAncestors = (nameOrId: string): TaxonomySkill[] => {
+  const ancestors: TaxonomySkill[] = [];
+  let current = getSkillParent(nameOrId);
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = current.parent ? skillsById.get(current.parent) : undefined;
+  }
+  return ancestors;
+};
+
+/**
+ * Language a skill is practised in, taken from the skill itself or the closest
+ * ancestor that declares one. Returns the language's canonical name.
+ */
+export const getSkillLanguage = (nameOrId: string): string | null => {
+  const skill = resolveSkill(nameOrId);
+  if (!skill) {
+    return null;
+  }
+  if (skill.group === 'language') {
+    return skill.name;
+  }
+  const languageId = [skill, ...getSkillAncestors(skill.id)].find((candidate) => candidate.language)?.language;
+  return languageId ? skillsById.get(languageId)?.name ?? null : null;
+};
+
+/**
+ * Core skills grouped by category, in taxonomy order
+ */
+export const getCoreSkillCategories = (): Array<{
+  id: SkillTaxonomyCategory;
+  name: string;
+  skills: TaxonomySkill[];
+}> =>
+  taxonomy.categories.map((category) => ({
+    ...category,
+    skills: taxonomy.skills.filter((skill) => skill.core && skill.category === category.id),
+  }));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find taxonomy skills mentioned in free text. Ambiguous aliases are skipped;
+ * `groups` limits detection to the given skill groups.
+ */
+export const findSkillMentions = (
+  text: string,
+  options: { groups?: SkillTaxonomyGroup[] } = {}
+): TaxonomySkill[] => {
+  const normalized = text.toLowerCase();
+  if (!normalized.trim()) {
+    return [];
+  }
+
+  return taxonomy.skills.filter((skill) => {
+    if (options.groups && !options.groups.includes(skill.group)) {
+      return false;
+    }
+    const ambiguous = new Set((skill.ambiguousAliases ?? []).map((alias) => alias.toLowerCase()));
+    return [skill.name, ...(skill.aliases ?? [])]
+      .map((term) => term.toLowerCase())
+      .filter((term) => !ambiguous.has(term))
+      .some((term) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}(?![a-z0-9+#])`).test(normalized));
+  });
+};
@@ -0,0 +1,531 @@
+import { isIgnoredPath, languageForPath } from '@/lib/repository/base-source';
+
+export interface StaticAnalysisFile {
+  path: string;
+  content: string;
+}
+
+export type StaticMetricId =
+  | 'complexity'
+  | 'function-length'
+  | 'duplication'
+  | 'type-coverage'
+  | 'test-ratio'
+  | 'lint-config';
+
+export interface StaticMetricBreakdownItem {
+  id: StaticMetricId;
+  label: string;
+  /** Raw measurement, null when it could not be measured */
+  value: number | null;
+  unit: string;
+  score: number; // 0-100
+  /** Share of the overall score; 0 when the metric does not apply */
+  weight: number;
+  explanation: string;
+}
+
+export interface FunctionMetric {
+  path: string;
+  name: string;
+  startLine: number;
+  length: number;
+  complexity: number;
+}
+
+export interface StaticCodeMetrics {
+  score: number; // 0-100
+  filesAnalyzed: number;
+  functionsAnalyzed: number;
+  linesOfCode: number;
+  averageComplexity: number;
+  maxComplexity: number;
+  averageFunctionLength: number;
+  longFunctionCount: number;
+  /** Most complex functions, highest first */
+  hotspots: FunctionMetric[];
+  /** Share of code lines that belong to repeated blocks (0-1) */
+  duplicationRatio: number;
+  /** Share of TypeScript/Python parameters and returns with type annotations (0-1) */
+  typeAnnotationCoverage: number | null;
+  sourceFileCount: number;
+  testFileCount: number;
+  testToSourceRatio: number;
+  lintConfigs: string[];
+  breakdown: StaticMetricBreakdownItem[];
+}
+
+type LanguageFamily = 'brace' | 'python';
+
+const LONG_FUNCTION_LINES = 50;
+const COMPLEX_FUNCTION_THRESHOLD = 10;
+const DUPLICATE_WINDOW = 6;
+const MAX_HOTSPOTS = 5;
+
+const FAMILY_BY_LANGUAGE: Record<string, LanguageFamily> = {
+  TypeScript: 'brace',
+  JavaScript: 'brace',
+  Java: 'brace',
+  Kotlin: 'brace',
+  Scala: 'brace',
+  Go: 'brace',
+  Rust: 'brace',
+  PHP: 'brace',
+  'C#': 'brace',
+  'C++': 'brace',
+  C: 'brace',
+  Swift: 'brace',
+  Dart: 'brace',
+  Python: 'python',
+};
+
+const TEST_PATH_PATTERNS = [
+  /(^|\/)(__tests__|tests?|spec|specs)\//i,
+  /\.(test|spec)\.[a-z]+$/i,
+  /(^|\/)test_[^/]+\.py$/,
+  /_test\.(py|go)$/,
+  /(Test|Tests|Spec)\.(java|kt|cs|swift|scala)$/,
+];
+
+const LINT_CONFIG_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'ESLint', pattern: /^(\.eslintrc(\.(js|cjs|json|ya?ml))?|eslint\.config\.[cm]?[jt]s)$/ },
+  { name: 'Prettier', pattern: /^(\.prettierrc(\.[a-z]+)?|prettier\.config\.[cm]?js)$/ },
+  { name: 'Biome', pattern: /^biome\.jsonc?$/ },
+  { name: 'Stylelint', pattern: /^(\.stylelintrc(\.[a-z]+)?|stylelint\.config\.[cm]?js)$/ },
+  { name: 'Ruff', pattern: /^\.?ruff\.toml$/ },
+  { name: 'Flake8', pattern: /^\.flake8$/ },
+  { name: 'Pylint', pattern: /^\.?pylintrc$/ },
+  { name: 'mypy', pattern: /^(mypy\.ini|\.mypy\.ini)$/ },
+  { name: 'golangci-lint', pattern: /^\.golangci\.(ya?ml|toml|json)$/ },
+  { name: 'RuboCop', pattern: /^\.rubocop\.yml$/ },
+  { name: 'Checkstyle', pattern: /^checkstyle\.xml$/ },
+  { name: 'Clippy', pattern: /^\.?clippy\.toml$/ },
+  { name: 'EditorConfig', pattern: /^\.editorconfig$/ },
+];
+
+const BRACE_FUNCTION_PATTERNS = [
+  /\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)?\s*\(/,
+  /\b([A-Za-z_$][\w$]*)\s*[:=]\s*(async\s+)?(\([^)]*\)|[A-Za-z_$][\w$]*)\s*(:\s*[^=]+)?=>\s*\{/,
+  /\bfunc\s+(\([^)]*\)\s*)?([A-Za-z_]\w*)\s*\(/,
+  /\bfn\s+([A-Za-z_]\w*)/,
+  /^\s*(?:(?:public|private|protected|internal|static|async|override|final|virtual|abstract|suspend|open|export|default)\s+)*(?:[\w<>\[\],.?]+\s+)?([A-Za-z_$][\w$]*)\s*\([^;]*\)\s*(:\s*[^{;]+)?(\bthrows\b[^{]*)?\{\s*$/,
+];
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'else', 'do', 'with', 'foreach', 'using', 'lock']);
+
+const BRACE_DECISION_PATTERN = /\b(if|for|while|case|catch)\b|&&|\|\||\?\?|\?(?=[^.:?])/g;
+const PYTHON_DECISION_PATTERN = /\b(if|elif|for|while|except|and|or|case)\b/g;
+
+const clamp = (value: number, min = 0, max = 100): number => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits = 1): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/** Linear score between a "good" and a "bad" measurement */
+const scaleScore = (value: number, good: number, bad: number, floor = 10): number => {
+  if (value <= good) return 100;
+  if (value >= bad) return floor;
+  return Math.round(100 - ((value - good) / (bad - good)) * (100 - floor));
+};
+
+const fileName = (path: string): string => path.split('/').pop() ?? path;
+
+export const isTestPath = (path: string): boolean => TEST_PATH_PATTERNS.some((pattern) => pattern.test(path));
+
+const familyForPath = (path: string): LanguageFamily | null => {
+  const language = languageForPath(path);
+  return language ? FAMILY_BY_LANGUAGE[language] ?? null : null;
+};
+
+/**
+ * Strip string literals and comments from a line so keywords inside them are
+ * not counted. Multi-line strings and block comments are handled loosely.
+ */
+const stripLine = (line: string, family: LanguageFamily): string => {
+  const withoutStrings = line
+    .replace(/\\./g, '')
+    .replace(/"[^"]*"|'[^']*'|`[^`]*`/g, '""');
+  const commentIndex = family === 'python' ? withoutStrings.indexOf('#') : withoutStrings.indexOf('//');
+  const code = commentIndex >= 0 ? withoutStrings.slice(0, commentIndex) : withoutStrings;
+  return family === 'brace' ? code.replace(/\/\*.*?\*\//g, '') : code;
+};
+
+const isCommentOnly = (line: string): boolean => /^\s*(\/\/|#|\*|\/\*|\*\/)/.test(line);
+
+const matchBraceFunction = (line: string): string | null => {
+  for (const pattern of BRACE_FUNCTION_PATTERNS) {
+    const match = line.match(pattern);
+    if (!match) continue;
+    const name = match.slice(1).find((group) => group && /^[A-Za-z_$][\w$]*$/.test(group));
+    if (name && CONTROL_KEYWORDS.has(name)) continue;
+    return name ?? '(anonymous)';
+  }
+  return null;
+};
+
+const countMatches = (text: string, pattern: RegExp): number => (text.match(pattern) ?? []).length;
+
+/** Split a parameter list on top-level commas */
+const splitParameters = (parameterList: string): string[] => {
+  const parameters: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of parameterList) {
+    if ('([{<'.includes(char)) depth += 1;
+    if (')]}>'.includes(char)) depth -= 1;
+    if (char === ',' && depth === 0) {
+      parameters.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parameters.push(current);
+  return parameters.map((parameter) => parameter.trim()).filter(Boolean);
+};
+
+const extractParameterList = (header: string): string | null => {
+  const start = header.indexOf('(');
+  if (start < 0) return null;
+  let depth = 0;
+  for (let index = start; index < header.length; index += 1) {
+    if (header[index] === '(') depth += 1;
+    if (header[index] === ')') {
+      depth -= 1;
+      if (depth === 0) return header.slice(start + 1, index);
+    }
+  }
+  return null;
+};
+
+interface AnnotationCount {
+  annotated: number;
+  total: number;
+}
+
+const countTypeScriptAnnotations = (header: string): AnnotationCount => {
+  const parameterList = extractParameterList(header);
+  if (parameterList === null) return { annotated: 0, total: 0 };
+  const parameters = splitParameters(parameterList).filter((parameter) => !/^this\s*:/.test(parameter));
+  // Destructured parameters count as annotated only when the whole pattern is typed
+  const annotated = parameters.filter((parameter) => /^[^=]*\)?\s*:\s*\S/.test(parameter.replace(/^[{[][\s\S]*[}\]]/, 'x')));
+  return { annotated: annotated.length, total: parameters.length };
+};
+
+const countPythonAnnotations = (header: string): AnnotationCount => {
+  const parameterList = extractParameterList(header);
+  if (parameterList === null) return { annotated: 0, total: 0 };
+  const parameters = splitParameters(parameterList).filter(
+    (parameter) => !/^(self|cls)$/.test(parameter) && parameter !== '*' && parameter !== '/'
+  );
+  const annotated = parameters.filter((parameter) => /^\*{0,2}\w+\s*:/.test(parameter)).length;
+  const returnAnnotated = /\)\s*->/.test(header) ? 1 : 0;
+  return { annotated: annotated + returnAnnotated, total: parameters.length + 1 };
+};
+
+interface FileAnalysis {
+  functions: FunctionMetric[];
+  codeLines: string[];
+  annotations: AnnotationCount | null;
+}
+
+const analyzeBraceFile = (file: StaticAnalysisFile): FileAnalysis => {
+  const lines = file.content.split(/\r?\n/);
+  const stripped = lines.map((line) => stripLine(line, 'brace'));
+  const functions: FunctionMetric[] = [];
+  const trackAnnotations = /\.(ts|tsx|mts|cts)$/.test(file.path) && !file.path.endsWith('.d.ts');
+  const annotations: AnnotationCount = { annotated: 0, total: 0 };
+
+  stripped.forEach((line, index) => {
+    if (isCommentOnly(lines[index])) return;
+    const name = matchBraceFunction(line);
+    if (!name) return;
+
+    const header = stripped.slice(index, index + 5).join(' ');
+    if (trackAnnotations) {
+      const count = countTypeScriptAnnotations(header);
+      annotations.annotated += count.annotated;
+      annotations.total += count.total;
+    }
+
+    // Find the body by brace matching from the header line
+    let depth = 0;
+    let opened = false;
+    let end = index;
+    let decisions = 0;
+    for (let cursor = index; cursor < stripped.length; cursor += 1) {
+      const current = stripped[cursor];
+      for (const char of current) {
+        if (char === '{') {
+          depth += 1;
+          opened = true;
+        } else if (char === '}') {
+          depth -= 1;
+        }
+      }
+      decisions += countMatches(current, BRACE_DECISION_PATTERN);
+      end = cursor;
+      if (opened && depth <= 0) break;
+      if (!opened && cursor - index > 4) break;
+    }
+    if (!opened) return;
+
+    functions.push({
+      path: file.path,
+      name,
+      startLine: index + 1,
+      length: end - index + 1,
+      complexity: 1 + decisions,
+    });
+  });
+
+  return {
+    functions,
+    codeLines: stripped.filter((line, index) => line.trim() && !isCommentOnly(lines[index])),
+    annotations: trackAnnotations ? annotations : null,
+  };
+};
+
+const indentation = (line: string): number => line.length - line.trimStart().length;
+
+const analyzePythonFile = (file: StaticAnalysisFile): FileAnalysis => {
+  const lines = file.content.split(/\r?\n/);
+  const stripped = lines.map((line) => stripLine(line, 'python'));
+  const functions: FunctionMetric[] = [];
+  const annotations: AnnotationCount = { annotated: 0, total: 0 };
+
+  stripped.forEach((line, index) => {
+    const match = line.match(/^(\s*)(async\s+)?def\s+([A-Za-z_]\w*)\s*\(/);
+    if (!match) return;
+
+    const baseIndent = match[1].length;
+    let headerEnd = index;
+    while (headerEnd < stripped.length - 1 && !/:\s*$/.test(stripped[headerEnd])) {
+      headerEnd += 1;
+    }
+    const count = countPythonAnnotations(stripped.slice(index, headerEnd + 1).join(' '));
+    annotations.annotated += count.annotated;
+    annotations.total += count.total;
+
+    let end = headerEnd;
+    let decisions = 0;
+    for (let cursor = headerEnd + 1; cursor < stripped.length; cursor += 1) {
+      const current = stripped[cursor];
+      if (!current.trim()) continue;
+      if (indentation(current) <= baseIndent) break;
+      decisions += countMatches(current, PYTHON_DECISION_PATTERN);
+      end = cursor;
+    }
+
+    functions.push({
+      path: file.path,
+      name: match[3],
+      startLine: index + 1,
+      length: end - index + 1,
+      complexity: 1 + decisions,
+    });
+  });
+
+  return {
+    functions,
+    codeLines: stripped.filter((line) => line.trim()),
+    annotations,
+  };
+};
+
+/**
+ * Share of code lines covered by blocks of DUPLICATE_WINDOW consecutive
+ * normalized lines that appear more than once across the analyzed files
+ */
+const measureDuplication = (filesLines: string[][]): number => {
+  const meaningful = filesLines.map((lines) =>
+    lines.map((line) => line.trim().replace(/\s+/g, ' ')).filter((line) => line.length > 3 && !/^[{}()[\];,]+$/.test(line))
+  );
+  const windows = new Map<string, number>();
+  meaningful.forEach((lines) => {
+    for (let index = 0; index + DUPLICATE_WINDOW <= lines.length; index += 1) {
+      const key = lines.slice(index, index + DUPLICATE_WINDOW).join('\n');
+      windows.set(key, (windows.get(key) ?? 0) + 1);
+    }
+  });
+
+  let total = 0;
+  let duplicated = 0;
+  meaningful.forEach((lines) => {
+    const covered = new Set<number>();
+    for (let index = 0; index + DUPLICATE_WINDOW <= lines.length; index += 1) {
+      const key = lines.slice(index, index + DUPLICATE_WINDOW).join('\n');
+      if ((windows.get(key) ?? 0) > 1) {
+        for (let offset = 0; offset < DUPLICATE_WINDOW; offset += 1) covered.add(index + offset);
+      }
+    }
+    total += lines.length;
+    duplicated += covered.size;
+  });
+
+  return total > 0 ? duplicated / total : 0;
+};
+
+const buildBreakdown = (metrics: Omit<StaticCodeMetrics, 'score' | 'breakdown'>): StaticMetricBreakdownItem[] => {
+  const hasFunctions = metrics.functionsAnalyzed > 0;
+  const longShare = hasFunctions ? metrics.longFunctionCount / metrics.functionsAnalyzed : 0;
+  const topHotspot = metrics.hotspots[0];
+
+  return [
+    {
+      id: 'complexity',
+      label: 'Cyclomatic complexity',
+      value: hasFunctions ? metrics.averageComplexity : null,
+      unit: 'avg per function',
+      score: hasFunctions ? scaleScore(metrics.averageComplexity, 3, 12, 20) : 0,
+      weight: hasFunctions ? 0.2 : 0,
+      explanation: hasFunctions
+        ? `Average complexity ${metrics.averageComplexity} across ${metrics.functionsAnalyzed} functions` +
+          (topHotspot && topHotspot.complexity >= COMPLEX_FUNCTION_THRESHOLD
+            ? `; most complex is ${topHotspot.name} in ${topHotspot.path} (${topHotspot.complexity})`
+            : '')
+        : 'No functions found in the analyzed files',
+    },
+    {
+      id: 'function-length',
+      label: 'Function length',
+      value: hasFunctions ? metrics.averageFunctionLength : null,
+      unit: 'avg lines per function',
+      score: hasFunctions
+        ? Math.round(scaleScore(metrics.averageFunctionLength, 20, 80, 20) * (1 - Math.min(0.5, longShare)))
+        : 0,
+      weight: hasFunctions ? 0.2 : 0,
+      explanation: hasFunctions
+        ? `Functions average ${metrics.averageFunctionLength} lines; ${metrics.longFunctionCount} exceed ${LONG_FUNCTION_LINES} lines`
+        : 'No functions found in the analyzed files',
+    },
+    {
+      id: 'duplication',
+      label: 'Duplication',
+      value: round(metrics.duplicationRatio * 100),
+      unit: '% of code lines',
+      score: scaleScore(metrics.duplicationRatio * 100, 3, 25),
+      weight: metrics.linesOfCode > 0 ? 0.15 : 0,
+      explanation: `${round(metrics.duplicationRatio * 100)}% of code lines sit in blocks of ${DUPLICATE_WINDOW}+ lines repeated elsewhere`,
+    },
+    {
+      id: 'type-coverage',
+      label: 'Type annotation coverage',
+      value: metrics.typeAnnotationCoverage === null ? null : round(metrics.typeAnnotationCoverage * 100),
+      unit: '% of parameters and returns',
+      score: metrics.typeAnnotationCoverage === null ? 0 : Math.round(metrics.typeAnnotationCoverage * 100),
+      weight: metrics.typeAnnotationCoverage === null ? 0 : 0.15,
+      explanation:
+        metrics.typeAnnotationCoverage === null
+          ? 'No TypeScript or Python functions to measure'
+          : `${round(metrics.typeAnnotationCoverage * 100)}% of TypeScript/Python parameters and returns carry type annotations`,
+    },
+    {
+      id: 'test-ratio',
+      label: 'Test-to-source ratio',
+      value: round(metrics.testToSourceRatio, 2),
+      unit: 'test files per source file',
+      score: Math.round(clamp((metrics.testToSourceRatio / 0.5) * 100)),
+      weight: metrics.sourceFileCount > 0 ? 0.2 : 0,
+      explanation: `${metrics.testFileCount} test files for ${metrics.sourceFileCount} source files`,
+    },
+    {
+      id: 'lint-config',
+      label: 'Lint and format configuration',
+      value: metrics.lintConfigs.length,
+      unit: 'configured tools',
+      score: metrics.lintConfigs.length > 0 ? 100 : 30,
+      weight: 0.1,
+      explanation:
+        metrics.lintConfigs.length > 0
+          ? `Configured: ${metrics.lintConfigs.join(', ')}`
+          : 'No linter or formatter configuration found',
+    },
+  ];
+};
+
+/**
+ * Compute static metrics from fetched source files. `filePaths` is the full
+ * repository file list, used for the test-to-source ratio and lint configs;
+ * when omitted, the analyzed files' paths are used.
+ */
+export const computeStaticCodeMetrics = (
+  files: StaticAnalysisFile[],
+  filePaths: string[] = files.map((file) => file.path)
+): StaticCodeMetrics => {
+  const analyses = files
+    .filter((file) => !isIgnoredPath(file.path))
+    .map((file) => {
+      const family = familyForPath(file.path);
+      if (family === 'python') return analyzePythonFile(file);
+      if (family === 'brace') return analyzeBraceFile(file);
+      return null;
+    })
+    .filter((analysis): analysis is FileAnalysis => analysis !== null);
+
+  const functions = analyses.flatMap((analysis) => analysis.functions);
+  const annotationTotals = analyses.reduce<AnnotationCount>(
+    (totals, analysis) => ({
+      annotated: totals.annotated + (analysis.annotations?.annotated ?? 0),
+      total: totals.total + (analysis.annotations?.total ?? 0),
+    }),
+    { annotated: 0, total: 0 }
+  );
+
+  const codePaths = filePaths.filter((path) => !isIgnoredPath(path) && familyForPath(path) !== null);
+  const testFileCount = codePaths.filter(isTestPath).length;
+  const sourceFileCount = codePaths.length - testFileCount;
+  const lintConfigs = LINT_CONFIG_PATTERNS.filter(({ pattern }) =>
+    filePaths.some((path) => !isIgnoredPath(path) && pattern.test(fileName(path)))
+  ).map(({ name }) => name);
+
+  const average = (values: number[]): number =>
+    values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+  const measured = {
+    filesAnalyzed: analyses.length,
+    functionsAnalyzed: functions.length,
+    linesOfCode: analyses.reduce((sum, analysis) => sum + analysis.codeLines.length, 0),
+    averageComplexity: average(functions.map((fn) => fn.complexity)),
+    maxComplexity: functions.reduce((max, fn) => Math.max(max, fn.complexity), 0),
+    averageFunctionLength: average(functions.map((fn) => fn.length)),
+    longFunctionCount: functions.filter((fn) => fn.length > LONG_FUNCTION_LINES).length,
+    hotspots: [...functions].sort((a, b) => b.complexity - a.complexity).slice(0, MAX_HOTSPOTS),
+    duplicationRatio: round(measureDuplication(analyses.map((analysis) => analysis.codeLines)), 3),
+    typeAnnotationCoverage:
+      annotationTotals.total > 0 ? round(annotationTotals.annotated / annotationTotals.total, 3) : null,
+    sourceFileCount,
+    testFileCount,
+    testToSourceRatio: sourceFileCount > 0 ? testFileCount / sourceFileCount : 0,
+    lintConfigs,
+  };
+
+  const breakdown = buildBreakdown(measured);
+  const totalWeight = breakdown.reduce((sum, item) => sum + item.weight, 0);
+  const score =
+    totalWeight > 0
+      ? Math.round(breakdown.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight)
+      : 0;
+
+  return { ...measured, testToSourceRatio: round(measured.testToSourceRatio, 2), score, breakdown };
+};
+
+/**
+ * Plain-text summary of the metrics for LLM prompts
+ */
+export const formatStaticMetricsForPrompt = (metrics: StaticCodeMetrics): string =>
+  [
+    `Static metrics (${metrics.filesAnalyzed} files, ${metrics.functionsAnalyzed} functions, score ${metrics.score}/100):`,
+    ...metrics.breakdown
+      .filter((item) => item.weight > 0)
+      .map((item) => `- ${item.label}: ${item.explanation} (score ${item.score}/100)`),
+    ...(metrics.hotspots.length > 0
+      ? [
+          `- Complexity hotspots: ${metrics.hotspots
+            .map((fn) => `${fn.path}:${fn.startLine} ${fn.name} (complexity ${fn.complexity}, ${fn.length} lines)`)
+            .join('; ')}`,
+        ]
+      : []),
+  ].join('\n');
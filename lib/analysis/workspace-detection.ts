@@ -0,0 +1,338 @@
+import { isIgnoredPath, languageForPath } from '@/lib/repository/base-source';
+import { detectToolsFromPaths, type ManifestDetectionResult, type ManifestFile } from './manifest-detection';
+import { isTestPath } from './static-code-metrics';
+
+export type WorkspaceTool = 'pnpm' | 'npm' | 'yarn' | 'nx' | 'turborepo' | 'lerna' | 'cargo' | 'go';
+
+export interface WorkspacePackage {
+  /** Directory name of the package, e.g. `web` for `apps/web` */
+  name: string;
+  /** Package directory relative to the repository root */
+  path: string;
+  ecosystem: 'npm' | 'cargo' | 'go';
+  manifestPath: string;
+}
+
+export interface WorkspaceLayout {
+  tools: WorkspaceTool[];
+  /** Root files that declared the workspace */
+  configFiles: string[];
+  packages: WorkspacePackage[];
+}
+
+export interface WorkspacePackageSummary extends WorkspacePackage {
+  fileCount: number;
+  /** Languages by file count, most used first */
+  languages: string[];
+  frameworks: string[];
+  tools: string[];
+  hasTests: boolean;
+  hasReadme: boolean;
+}
+
+/** Root-level files that can declare a workspace */
+export const WORKSPACE_CONFIG_FILES = [
+  'package.json',
+  'pnpm-workspace.yaml',
+  'lerna.json',
+  'nx.json',
+  'turbo.json',
+  'Cargo.toml',
+  'go.work',
+];
+
+const MAX_PACKAGE_LANGUAGES = 5;
+const DEFAULT_LERNA_PACKAGES = ['packages/*'];
+const DEFAULT_NX_PACKAGES = ['apps/*', 'libs/*', 'packages/*'];
+
+const MANIFEST_BY_ECOSYSTEM: Record<WorkspacePackage['ecosystem'], string> = {
+  npm: 'package.json',
+  cargo: 'Cargo.toml',
+  go: 'go.mod',
+};
+
+const dirName = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+const parseJson = (content: string | undefined): any => {
+  if (!content) {
+    return null;
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+};
+
+const quotedStrings = (text: string): string[] =>
+  (text.match(/["']([^"']+)["']/g) ?? []).map((value) => value.slice(1, -1));
+
+/**
+ * Convert a workspace glob (`packages/*`, `apps/**`, `./crates/*`) into an
+ * anchored expression matched against package directories
+ */
+const globToRegExp = (glob: string): RegExp => {
+  const normalized = glob.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  let source = '';
+  for (let i = 0; i < normalized.length; i += 1) {
+    const char = normalized[i];
+    if (char === '/' && normalized.slice(i) === '/**') {
+      // A trailing `/**` also matches the directory itself
+      source += '(?:/.*)?';
+      break;
+    }
+    if (char === '*' && normalized[i + 1] === '*') {
+      const followedBySlash = normalized[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Package directories (never the root) that hold the given manifest and
+ * match the include globs without matching a `!`-prefixed exclude glob
+ */
+const matchPackageDirectories = (patterns: string[], filePaths: string[], manifestName: string): string[] => {
+  const includes = patterns.filter((pattern) => !pattern.startsWith('!')).map(globToRegExp);
+  const excludes = patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => globToRegExp(pattern.slice(1)));
+
+  return filePaths
+    .filter((path) => baseName(path) === manifestName && path.includes('/') && !isIgnoredPath(path))
+    .map(dirName)
+    .filter((dir) => includes.some((pattern) => pattern.test(dir)) && !excludes.some((pattern) => pattern.test(dir)));
+};
+
+const parsePnpmWorkspace = (content: string): string[] => {
+  const patterns: string[] = [];
+  let inPackages = false;
+  content.split('\n').forEach((rawLine) => {
+    const line = rawLine.replace(/\s+#.*$/, '');
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      return;
+    }
+    if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+    const item = inPackages ? line.match(/^\s*-\s*(.+)$/) : null;
+    if (item) {
+      patterns.push(item[1].trim().replace(/^["']|["']$/g, ''));
+    }
+  });
+  return patterns;
+};
+
+const readPackageJsonWorkspaces = (data: any): string[] => {
+  const workspaces = data?.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces.filter((value): value is string => typeof value === 'string');
+  }
+  if (Array.isArray(workspaces?.packages)) {
+    return workspaces.packages.filter((value: unknown): value is string => typeof value === 'string');
+  }
+  return [];
+};
+
+/** `[workspace]` members and excludes; excludes come back `!`-prefixed like JS globs */
+const parseCargoWorkspace = (content: string): string[] | null => {
+  const section = content.split(/^\[/m).find((block) => block.startsWith('workspace]'));
+  if (!section) {
+    return null;
+  }
+  const members = section.match(/\bmembers\s*=\s*\[([^\]]*)\]/);
+  const exclude = section.match(/\bexclude\s*=\s*\[([^\]]*)\]/);
+  return [
+    ...(members ? quotedStrings(members[1]) : []),
+    ...(exclude ? quotedStrings(exclude[1]).map((pattern) => `!${pattern}`) : []),
+  ];
+};
+
+const parseGoWork = (content: string): string[] => {
+  const directories: string[] = [];
+  const withoutComments = content.replace(/\/\/.*$/gm, '');
+  const blockPattern = /\buse\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(withoutComments)) !== null) {
+    directories.push(...match[1].split('\n').map((line) => line.trim()).filter(Boolean));
+  }
+  const singlePattern = /^\s*use\s+([^\s(]+)\s*$/gm;
+  while ((match = singlePattern.exec(withoutComments)) !== null) {
+    directories.push(match[1]);
+  }
+  return directories.map((directory) => directory.replace(/^\.\//, '').replace(/\/+$/, '')).filter((dir) => dir && dir !== '.');
+};
+
+/**
+ * Root files worth reading to detect a workspace, among the repository's file paths
+ */
+export const listWorkspaceConfigPaths = (filePaths: string[]): string[] =>
+  filePaths.filter((path) => WORKSPACE_CONFIG_FILES.includes(path));
+
+/**
+ * Detect pnpm, npm/yarn, Nx, Turborepo and Lerna workspaces, Cargo workspaces
+ * and Go multi-module layouts. `configFiles` are the root files listed by
+ * `listWorkspaceConfigPaths`; `filePaths` is the full tree, used to expand
+ * globs into the directories that actually hold a package manifest.
+ * Returns null for single-package repositories.
+ */
+export const detectWorkspaceLayout = (configFiles: ManifestFile[], filePaths: string[]): WorkspaceLayout | null => {
+  const contentOf = (name: string) => configFiles.find((file) => file.path === name)?.content;
+  const tools = new Set<WorkspaceTool>();
+  const usedConfigFiles = new Set<string>();
+  const packages = new Map<string, WorkspacePackage>();
+
+  const addPackages = (
+    directories: string[],
+    ecosystem: WorkspacePackage['ecosystem'],
+    manifestName = MANIFEST_BY_ECOSYSTEM[ecosystem]
+  ) => {
+    directories.forEach((path) => {
+      if (!packages.has(path)) {
+        packages.set(path, { name: baseName(path), path, ecosystem, manifestPath: `${path}/${manifestName}` });
+      }
+    });
+  };
+  const declare = (tool: WorkspaceTool, configFile: string) => {
+    tools.add(tool);
+    usedConfigFiles.add(configFile);
+  };
+
+  // JavaScript: package-manager workspaces, then the orchestrators layered on top
+  const pnpmWorkspace = contentOf('pnpm-workspace.yaml');
+  if (pnpmWorkspace !== undefined) {
+    declare('pnpm', 'pnpm-workspace.yaml');
+    addPackages(matchPackageDirectories(parsePnpmWorkspace(pnpmWorkspace), filePaths, 'package.json'), 'npm');
+  }
+
+  const rootPackageJson = parseJson(contentOf('package.json'));
+  const npmWorkspaces = readPackageJsonWorkspaces(rootPackageJson);
+  if (npmWorkspaces.length > 0) {
+    declare(tools.has('pnpm') ? 'pnpm' : filePaths.includes('yarn.lock') ? 'yarn' : 'npm', 'package.json');
+    addPackages(matchPackageDirectories(npmWorkspaces, filePaths, 'package.json'), 'npm');
+  }
+
+  const lernaConfig = contentOf('lerna.json');
+  if (lernaConfig !== undefined) {
+    declare('lerna', 'lerna.json');
+    const lernaPackages = parseJson(lernaConfig)?.packages;
+    const patterns = Array.isArray(lernaPackages) ? lernaPackages : npmWorkspaces.length > 0 ? [] : DEFAULT_LERNA_PACKAGES;
+    addPackages(matchPackageDirectories(patterns, filePaths, 'package.json'), 'npm');
+  }
+
+  if (contentOf('nx.json') !== undefined) {
+    declare('nx', 'nx.json');
+    // Nx projects are marked by project.json; package-based Nx repos use the conventional folders
+    addPackages(matchPackageDirectories(['**'], filePaths, 'project.json'), 'npm', 'project.json');
+    if (packages.size === 0) {
+      addPackages(matchPackageDirectories(DEFAULT_NX_PACKAGES, filePaths, 'package.json'), 'npm');
+    }
+  }
+
+  if (contentOf('turbo.json') !== undefined) {
+    declare('turborepo', 'turbo.json');
+  }
+
+  // Rust
+  const cargoToml = contentOf('Cargo.toml');
+  const cargoMembers = cargoToml !== undefined ? parseCargoWorkspace(cargoToml) : null;
+  if (cargoMembers) {
+    declare('cargo', 'Cargo.toml');
+    addPackages(matchPackageDirectories(cargoMembers, filePaths, 'Cargo.toml'), 'cargo');
+  }
+
+  // Go: go.work lists modules explicitly; without it, several go.mod files make a multi-module repo
+  const goWork = contentOf('go.work');
+  const nestedGoModules = filePaths
+    .filter((path) => baseName(path) === 'go.mod' && path.includes('/') && !isIgnoredPath(path))
+    .map(dirName);
+  if (goWork !== undefined) {
+    declare('go', 'go.work');
+    addPackages(parseGoWork(goWork).filter((dir) => nestedGoModules.includes(dir)), 'go');
+  } else if (nestedGoModules.length + (filePaths.includes('go.mod') ? 1 : 0) >= 2) {
+    tools.add('go');
+    addPackages(nestedGoModules, 'go');
+  }
+
+  if (packages.size === 0) {
+    return null;
+  }
+
+  return {
+    tools: Array.from(tools),
+    configFiles: Array.from(usedConfigFiles),
+    packages: Array.from(packages.values()).sort((a, b) => a.path.localeCompare(b.path)),
+  };
+};
+
+/**
+ * The innermost workspace package containing a path, if any
+ */
+export const packageForPath = (path: string, packages: WorkspacePackage[]): WorkspacePackage | undefined =>
+  packages
+    .filter((pkg) => path === pkg.path || path.startsWith(`${pkg.path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+/**
+ * Per-package breakdown of a workspace: the files, languages, declared
+ * frameworks and tools of each package, and whether it has tests and a README.
+ * Manifest detection is optional so callers without parsed manifests still
+ * get the path-based fields.
+ */
+export const summarizeWorkspacePackages = (
+  layout: WorkspaceLayout,
+  filePaths: string[],
+  manifestDetection?: ManifestDetectionResult
+): WorkspacePackageSummary[] => {
+  const pathsByPackage = new Map<string, string[]>();
+  filePaths
+    .filter((path) => !isIgnoredPath(path))
+    .forEach((path) => {
+      const pkg = packageForPath(path, layout.packages);
+      if (pkg) {
+        pathsByPackage.set(pkg.path, [...(pathsByPackage.get(pkg.path) ?? []), path.slice(pkg.path.length + 1)]);
+      }
+    });
+
+  const declaredIn = (pkg: WorkspacePackage, sources: string[]) =>
+    sources.some((source) => packageForPath(source, layout.packages)?.path === pkg.path);
+
+  return layout.packages.map((pkg) => {
+    const paths = pathsByPackage.get(pkg.path) ?? [];
+    const languageCounts = new Map<string, number>();
+    paths.forEach((path) => {
+      const language = languageForPath(path);
+      if (language) {
+        languageCounts.set(language, (languageCounts.get(language) ?? 0) + 1);
+      }
+    });
+
+    return {
+      ...pkg,
+      fileCount: paths.length,
+      languages: Array.from(languageCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_PACKAGE_LANGUAGES)
+        .map(([language]) => language),
+      frameworks: (manifestDetection?.frameworks ?? [])
+        .filter((framework) => declaredIn(pkg, framework.sources))
+        .map((framework) => framework.name),
+      tools: Array.from(
+        new Set([
+          ...(manifestDetection?.tools ?? []).filter((tool) => declaredIn(pkg, tool.sources)).map((tool) => tool.name),
+          ...detectToolsFromPaths(paths),
+        ])
+      ),
+      hasTests: paths.some(isTestPath),
+      hasReadme: paths.some((path) => /^readme(\.(md|markdown|txt|rst))?$/i.test(path)),
+    };
+  });
+};
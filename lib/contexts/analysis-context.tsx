@@ -1,6 +1,7 @@
 "use client";
 
 import { createContext, useContext, useState, ReactNode, useEffect } from "react";
+import type { SkillEvidence } from "@/lib/analysis/skill-evidence";
 
 // Types
 export interface SkillGap {
@@ -12,6 +13,8 @@ export interface SkillGap {
   currentLevel?: number;
   targetLevel?: number;
   gap?: number;
+  // Signals behind currentLevel, shown in the skill card
+  evidence?: SkillEvidence[];
 }
 
 export interface PortfolioQuality {
@@ -1,8 +1,10 @@
 /**
- * GitHub API Client using native fetch
+ * GitHub API Client using the shared GitHub HTTP layer (conditional requests, rate-limit pacing)
  * Provides GitHub integration functionality for the SkillBridge.ai agents
  */
 
+import { githubFetch } from './github-http';
+
 export interface GitHubRepository {
   id: number;
   name: string;
@@ -16,6 +18,12 @@ export interface GitHubRepository {
   forks_count: number;
   created_at: string;
   updated_at: string;
+  pushed_at?: string;
+  fork?: boolean;
+  archived?: boolean;
+  /** Size in KB */
+  size?: number;
+  default_branch?: string;
   owner: {
     login: string;
     avatar_url: string;
@@ -95,7 +103,7 @@ export class GitHubClient {
     }
 
     try {
-      const response = await fetch(url, { ...options, headers });
+      const response = await githubFetch(url, { ...options, headers });
 
       if (!response.ok) {
         let errorMessage = `GitHub API error: ${response.status} ${response.statusText}`;
@@ -106,13 +114,8 @@ export class GitHubClient {
           // ignore parse errors
         }
 
-        const remaining = response.headers.get('x-ratelimit-remaining');
-        const reset = response.headers.get('x-ratelimit-reset');
-        if (response.status === 403 && remaining === '0') {
-          const resetDate = reset ? new Date(Number(reset) * 1000) : null;
-          const waitHint = resetDate ? ` Try again after ${resetDate.toLocaleTimeString()}.` : '';
-          errorMessage = `GitHub API rate limit exceeded.${waitHint} Configure a personal access token via GITHUB_TOKEN to increase your quota.`;
-        } else if (response.status === 401) {
+        // Rate-limited responses surface as GitHubRateLimitError from githubFetch
+        if (response.status === 401) {
           errorMessage = 'GitHub API authentication failed. Please verify the configured GITHUB_TOKEN has valid scopes.';
         } else if (responseBody?.message) {
           errorMessage = responseBody.message;
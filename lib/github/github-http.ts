@@ -0,0 +1,234 @@
+/**
+ * Shared GitHub HTTP layer
+ *
+ * A drop-in `fetch` for api.github.com and raw.githubusercontent.com that
+ * - remembers ETag / Last-Modified validators and sends conditional requests,
+ *   serving the stored body on 304 (which GitHub does not count against the
+ *   rate limit)
+ * - tracks X-RateLimit-* headers per resource (core, search, ...), waits out
+ *   a reset that is only seconds away, and throws GitHubRateLimitError for a
+ *   spent window (without sending the request) or a rate-limited response,
+ *   so callers can skip optional work and report a partial result
+ *
+ * Used by GapAnalyzerAgent, GitHubClient, the GitHub repository provider and
+ * the template creator's Octokit instance. State is per process.
+ */
+
+export interface GitHubRateLimitState {
+  resource: string;
+  limit: number;
+  remaining: number;
+  resetAt: string | null;
+}
+
+export class GitHubRateLimitError extends Error {
+  readonly resetAt: Date | null;
+  readonly resource: string;
+
+  constructor(resource: string, resetAt: Date | null, detail?: string) {
+    const waitHint = resetAt ? ` Resets at ${resetAt.toISOString()}.` : '';
+    super(
+      `GitHub API rate limit exceeded${detail ? ` while requesting ${detail}` : ''}.${waitHint} ` +
+        'Configure a personal access token via GITHUB_TOKEN to increase your quota.'
+    );
+    this.name = 'GitHubRateLimitError';
+    this.resetAt = resetAt;
+    this.resource = resource;
+  }
+}
+
+interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  body: string;
+  headers: [string, string][];
+}
+
+const GITHUB_API_HOST = 'api.github.com';
+const CONDITIONAL_HOSTS = new Set([GITHUB_API_HOST, 'raw.githubusercontent.com']);
+const MAX_CACHED_RESPONSES = 500;
+const MAX_CACHED_BODY_CHARS = 1_000_000;
+// Below this many remaining requests, a reset within MAX_PACE_WAIT_MS is waited for
+const RATE_LIMIT_RESERVE = 3;
+// Wait for a reset this close instead of failing the request
+const MAX_PACE_WAIT_MS = 15_000;
+const REPLAYED_HEADERS = ['content-type', 'etag', 'last-modified', 'link'];
+
+const responseCache = new Map<string, CachedResponse>();
+const rateLimits = new Map<string, GitHubRateLimitState>();
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+const requestUrl = (input: RequestInfo | URL): string =>
+  typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+
+/**
+ * Rate limit resource a request counts against; search and GraphQL have their own windows
+ */
+const rateLimitResource = (url: URL): string => {
+  if (url.pathname.startsWith('/search/code')) {
+    return 'code_search';
+  }
+  if (url.pathname.startsWith('/search/')) {
+    return 'search';
+  }
+  if (url.pathname.startsWith('/graphql')) {
+    return 'graphql';
+  }
+  return 'core';
+};
+
+const recordRateLimit = (response: Response, fallbackResource: string): void => {
+  const limit = response.headers.get('x-ratelimit-limit');
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  if (limit === null || remaining === null) {
+    return;
+  }
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  const state: GitHubRateLimitState = {
+    resource: response.headers.get('x-ratelimit-resource') ?? fallbackResource,
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: Number.isFinite(reset) && reset > 0 ? new Date(reset * 1000).toISOString() : null,
+  };
+  rateLimits.set(state.resource, state);
+};
+
+/**
+ * Rate limit window last reported by GitHub, or null before the first API response
+ */
+export const getGitHubRateLimit = (resource = 'core'): GitHubRateLimitState | null => {
+  const state = rateLimits.get(resource);
+  if (!state) {
+    return null;
+  }
+  if (state.resetAt && new Date(state.resetAt).getTime() <= Date.now()) {
+    rateLimits.delete(resource);
+    return null;
+  }
+  return state;
+};
+
+const isRateLimitResponse = (response: Response): boolean =>
+  response.status === 429 ||
+  (response.status === 403 &&
+    (response.headers.get('x-ratelimit-remaining') === '0' || response.headers.has('retry-after')));
+
+const retryAfterDate = (response: Response): Date | null => {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return new Date(Date.now() + retryAfter * 1000);
+  }
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  return Number.isFinite(reset) && reset > 0 ? new Date(reset * 1000) : null;
+};
+
+/**
+ * Wait out a reset that is seconds away; refuse a request a spent window would reject anyway
+ */
+const paceRequest = async (resource: string, url: string, signal?: AbortSignal | null): Promise<void> => {
+  const state = getGitHubRateLimit(resource);
+  if (!state || state.remaining > RATE_LIMIT_RESERVE) {
+    return;
+  }
+  const resetAt = state.resetAt ? new Date(state.resetAt) : null;
+  const waitMs = resetAt ? resetAt.getTime() - Date.now() : Number.POSITIVE_INFINITY;
+  if (waitMs <= MAX_PACE_WAIT_MS) {
+    console.log(`[GitHub HTTP] ⏳ ${state.remaining} ${resource} requests left, waiting ${Math.ceil(waitMs / 1000)}s for reset`);
+    await sleep(Math.max(0, waitMs), signal);
+    rateLimits.delete(resource);
+    return;
+  }
+  if (state.remaining === 0) {
+    throw new GitHubRateLimitError(resource, resetAt, url);
+  }
+};
+
+const cacheKey = (url: string, headers: Headers): string =>
+  `${headers.get('authorization') ?? ''} ${headers.get('accept') ?? ''} ${url}`;
+
+const rememberResponse = async (key: string, response: Response): Promise<void> => {
+  const etag = response.headers.get('etag');
+  const lastModified = response.headers.get('last-modified');
+  if (!etag && !lastModified) {
+    return;
+  }
+  const body = await response.clone().text();
+  if (body.length > MAX_CACHED_BODY_CHARS) {
+    return;
+  }
+  const headers = REPLAYED_HEADERS.flatMap((name): [string, string][] => {
+    const value = response.headers.get(name);
+    return value === null ? [] : [[name, value]];
+  });
+  responseCache.delete(key);
+  responseCache.set(key, { etag, lastModified, body, headers });
+  if (responseCache.size > MAX_CACHED_RESPONSES) {
+    // Maps iterate in insertion order, so the first key is the least recently stored
+    responseCache.delete(responseCache.keys().next().value as string);
+  }
+};
+
+/**
+ * fetch for GitHub URLs with conditional requests and rate-limit pacing.
+ * Non-GET requests are paced but never cached. Throws GitHubRateLimitError
+ * instead of returning a rate-limited response. `init.signal` also cancels
+ * a wait for the rate limit reset.
+ */
+export const githubFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+  const url = requestUrl(input);
+  const parsed = new URL(url);
+  const method = (init.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const resource = rateLimitResource(parsed);
+  const isApi = parsed.host === GITHUB_API_HOST;
+
+  if (isApi) {
+    await paceRequest(resource, url, init.signal);
+  }
+
+  const headers = new Headers(init.headers ?? (input instanceof Request ? input.headers : undefined));
+  const conditional = method === 'GET' && CONDITIONAL_HOSTS.has(parsed.host) && !headers.has('if-none-match');
+  const key = cacheKey(url, headers);
+  const cached = conditional ? responseCache.get(key) : undefined;
+  if (cached?.etag) {
+    headers.set('If-None-Match', cached.etag);
+  } else if (cached?.lastModified) {
+    headers.set('If-Modified-Since', cached.lastModified);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+  if (isApi) {
+    recordRateLimit(response, resource);
+  }
+
+  if (response.status === 304 && cached) {
+    return new Response(cached.body, { status: 200, statusText: 'OK', headers: cached.headers });
+  }
+  if (isRateLimitResponse(response)) {
+    const resetAt = retryAfterDate(response);
+    if (isApi) {
+      rateLimits.set(resource, {
+        resource,
+        limit: Number(response.headers.get('x-ratelimit-limit') ?? 0),
+        remaining: 0,
+        resetAt: resetAt?.toISOString() ?? null,
+      });
+    }
+    throw new GitHubRateLimitError(resource, resetAt, url);
+  }
+  if (conditional && response.ok) {
+    await rememberResponse(key, response);
+  }
+  return response;
+};
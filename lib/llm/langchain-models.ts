@@ -0,0 +1,27 @@
+import type { BaseMessage } from '@langchain/core/messages';
+import { ChatOpenAI } from '@langchain/openai';
+import { assertLlmConfigured, getModelId, resolveProviderConfig, type LlmTask } from './model-registry';
+
+/**
+ * LangChain chat model for a task, pointed at the same endpoint as the AI SDK
+ * models. Kept out of model-registry so client bundles that import the gap
+ * analyzer do not pull in LangChain.
+ */
+export const createChatModel = (task: LlmTask, options: { temperature?: number } = {}): ChatOpenAI => {
+  assertLlmConfigured();
+  const config = resolveProviderConfig();
+  return new ChatOpenAI({
+    model: getModelId(task),
+    temperature: options.temperature,
+    apiKey: config.apiKey,
+    configuration: config.baseURL ? { baseURL: config.baseURL } : undefined,
+  });
+};
+
+/**
+ * Formatted chat messages as the prompt of an LLM response cache request
+ */
+export const describeMessagesForCache = (messages: BaseMessage[]): string =>
+  messages
+    .map((message) => `${message.getType()}: ${typeof message.content === 'string' ? message.content : JSON.stringify(message.content)}`)
+    .join('\n\n');
@@ -0,0 +1,194 @@
+import { createOpenAI, type OpenAIProvider } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+
+/**
+ * Single place that decides which LLM endpoint and model each task uses.
+ *
+ * LLM_PROVIDER selects the endpoint:
+ * - `openai` (default): api.openai.com, or OPENAI_BASE_URL when set
+ * - `azure`: AZURE_OPENAI_ENDPOINT with AZURE_OPENAI_API_KEY; model ids are deployment names
+ * - `openai-compatible`: LLM_BASE_URL (Ollama, vLLM, llama.cpp server, ...) with optional LLM_API_KEY
+ *
+ * Models are chosen per task from LLM_<TASK>_MODEL, then LLM_MODEL, then
+ * gpt-4o-mini. LLM_REQUIRE_PRIVATE_ENDPOINT=true refuses to build models for
+ * the public OpenAI API, so code is never sent there by mistake; callers
+ * already fall back to heuristics when no model is available.
+ */
+
+export type LlmProviderKind = 'openai' | 'azure' | 'openai-compatible';
+
+/** review: code and diffs; evaluation: scoring READMEs and resources; synthesis: recommendations; research: resource search */
+export type LlmTask = 'review' | 'evaluation' | 'synthesis' | 'research';
+
+export interface LlmProviderConfig {
+  kind: LlmProviderKind;
+  baseURL?: string;
+  apiKey?: string;
+  /** True when requests stay on infrastructure the operator controls */
+  private: boolean;
+}
+
+export interface LlmConfigurationSummary {
+  provider: LlmProviderKind;
+  /** Host of the endpoint, without credentials or path */
+  endpoint: string;
+  private: boolean;
+  configured: boolean;
+  models: Record<LlmTask, string>;
+}
+
+export const LLM_TASKS: LlmTask[] = ['review', 'evaluation', 'synthesis', 'research'];
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const AZURE_API_PATH = '/openai/v1';
+// Local servers ignore the key, but the OpenAI client refuses to send a request without one
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+const TASK_MODEL_ENV: Record<LlmTask, string> = {
+  review: 'LLM_REVIEW_MODEL',
+  evaluation: 'LLM_EVALUATION_MODEL',
+  synthesis: 'LLM_SYNTHESIS_MODEL',
+  research: 'LLM_RESEARCH_MODEL',
+};
+
+// The research agent predates the registry and was configured through OPENAI_RESEARCH_MODEL
+const LEGACY_RESEARCH_TASKS = new Set<LlmTask>(['evaluation', 'synthesis', 'research']);
+
+let cachedProvider: { key: string; provider: OpenAIProvider } | null = null;
+
+const trimmed = (value: string | undefined): string | undefined => value?.trim() || undefined;
+
+const resolveProviderKind = (env: NodeJS.ProcessEnv): LlmProviderKind => {
+  const requested = trimmed(env.LLM_PROVIDER)?.toLowerCase();
+  if (requested === 'openai' || requested === 'azure' || requested === 'openai-compatible') {
+    return requested;
+  }
+  if (requested) {
+    console.warn(`[LLM] Unknown LLM_PROVIDER "${requested}", using openai`);
+  }
+  return 'openai';
+};
+
+export const resolveProviderConfig = (env: NodeJS.ProcessEnv = process.env): LlmProviderConfig => {
+  const kind = resolveProviderKind(env);
+  switch (kind) {
+    case 'azure': {
+      const endpoint = trimmed(env.AZURE_OPENAI_ENDPOINT)?.replace(/\/+$/, '');
+      return {
+        kind,
+        baseURL: endpoint ? `${endpoint.replace(/\/openai(\/v1)?$/, '')}${AZURE_API_PATH}` : undefined,
+        apiKey: trimmed(env.AZURE_OPENAI_API_KEY),
+        private: true,
+      };
+    }
+    case 'openai-compatible':
+      return {
+        kind,
+        baseURL: trimmed(env.LLM_BASE_URL)?.replace(/\/+$/, ''),
+        apiKey: trimmed(env.LLM_API_KEY) ?? PLACEHOLDER_API_KEY,
+        private: true,
+      };
+    case 'openai':
+      return {
+        kind,
+        baseURL: trimmed(env.OPENAI_BASE_URL),
+        apiKey: trimmed(env.OPENAI_API_KEY),
+        private: false,
+      };
+  }
+};
+
+/**
+ * Why no model can be built, or null when the configuration is usable
+ */
+export const describeMissingLlmConfiguration = (env: NodeJS.ProcessEnv = process.env): string | null => {
+  const config = resolveProviderConfig(env);
+  if (config.kind === 'openai' && !config.apiKey) {
+    return 'OPENAI_API_KEY not configured';
+  }
+  if (config.kind === 'azure' && (!config.baseURL || !config.apiKey)) {
+    return 'AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be set for the azure LLM provider';
+  }
+  if (config.kind === 'openai-compatible' && !config.baseURL) {
+    return 'LLM_BASE_URL must be set for the openai-compatible LLM provider';
+  }
+  if (!config.private && env.LLM_REQUIRE_PRIVATE_ENDPOINT === 'true') {
+    return 'LLM_REQUIRE_PRIVATE_ENDPOINT is set, so the public OpenAI API is not used. Configure azure or an openai-compatible endpoint.';
+  }
+  return null;
+};
+
+export const isLlmConfigured = (env: NodeJS.ProcessEnv = process.env): boolean =>
+  describeMissingLlmConfiguration(env) === null;
+
+/**
+ * Throw the reason no model is available; call before building a prompt so
+ * callers fall back without doing the work
+ */
+export const assertLlmConfigured = (env: NodeJS.ProcessEnv = process.env): void => {
+  const missing = describeMissingLlmConfiguration(env);
+  if (missing) {
+    throw new Error(missing);
+  }
+};
+
+export const getModelId = (task: LlmTask, env: NodeJS.ProcessEnv = process.env): string =>
+  trimmed(env[TASK_MODEL_ENV[task]]) ??
+  trimmed(env.LLM_MODEL) ??
+  (LEGACY_RESEARCH_TASKS.has(task) ? trimmed(env.OPENAI_RESEARCH_MODEL) : undefined) ??
+  DEFAULT_MODEL;
+
+/**
+ * Identifies the model a task is served by, e.g. `azure:acme.openai.azure.com:gpt-4o`;
+ * part of the LLM response cache key so switching endpoint or model is a miss
+ */
+export const getModelFingerprint = (task: LlmTask, env: NodeJS.ProcessEnv = process.env): string => {
+  const { provider, endpoint } = describeLlmConfiguration(env);
+  return `${provider}:${endpoint}:${getModelId(task, env)}`;
+};
+
+const getProvider = (config: LlmProviderConfig): OpenAIProvider => {
+  const key = `${config.kind}|${config.baseURL ?? ''}|${config.apiKey ?? ''}`;
+  if (!cachedProvider || cachedProvider.key !== key) {
+    cachedProvider = {
+      key,
+      provider: createOpenAI({
+        baseURL: config.baseURL,
+        apiKey: config.apiKey,
+        name: config.kind,
+      }),
+    };
+  }
+  return cachedProvider.provider;
+};
+
+/**
+ * AI SDK model for a task. Azure and OpenAI-compatible servers get the chat
+ * completions API, which they all implement; OpenAI keeps the SDK default.
+ */
+export const getLanguageModel = (task: LlmTask): LanguageModel => {
+  assertLlmConfigured();
+  const config = resolveProviderConfig();
+  const provider = getProvider(config);
+  const modelId = getModelId(task);
+  return config.kind === 'openai' ? provider(modelId) : provider.chat(modelId);
+};
+
+export const describeLlmConfiguration = (env: NodeJS.ProcessEnv = process.env): LlmConfigurationSummary => {
+  const config = resolveProviderConfig(env);
+  let endpoint = 'api.openai.com';
+  if (config.baseURL) {
+    try {
+      endpoint = new URL(config.baseURL).host;
+    } catch {
+      endpoint = 'invalid URL';
+    }
+  }
+  return {
+    provider: config.kind,
+    endpoint,
+    private: config.private,
+    configured: isLlmConfigured(env),
+    models: Object.fromEntries(LLM_TASKS.map((task) => [task, getModelId(task, env)])) as Record<LlmTask, string>,
+  };
+};
@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { zodSchema } from 'ai';
+import { ZodType } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import type { LlmCacheRequest, LlmResponseCache } from './response-cache';
+
+/**
+ * Server-only backends for the LLM response cache.
+ *
+ * LLM_CACHE_BACKEND selects the store:
+ * - `postgres`: the LlmResponseCache table (default when DATABASE_URL is set)
+ * - `file`: one JSON file per entry under LLM_CACHE_DIR (defaults to .cache/llm-responses)
+ * - `off`: no caching (default without a database)
+ *
+ * Entries expire after LLM_CACHE_TTL_HOURS (defaults to 168, one week).
+ */
+
+const DEFAULT_TTL_HOURS = 168;
+const DEFAULT_CACHE_DIR = path.join('.cache', 'llm-responses');
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const RETRY_INTERVAL_MS = 60_000;
+
+interface StoredEntry {
+  task: string;
+  model: string;
+  response: unknown;
+  expiresAt: string;
+}
+
+const describeSchema = (schema: unknown): unknown =>
+  schema instanceof ZodType ? zodSchema(schema).jsonSchema : schema ?? null;
+
+/**
+ * sha256 over the model, prompt and response schema
+ */
+export const buildLlmCacheKey = (request: LlmCacheRequest): string =>
+  createHash('sha256')
+    .update(JSON.stringify({ model: request.model, prompt: request.prompt, schema: describeSchema(request.schema) }))
+    .digest('hex');
+
+const resolveTtlMs = (): number => {
+  const hours = Number(process.env.LLM_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+};
+
+export class PrismaLlmResponseCache implements LlmResponseCache {
+  private unavailableUntil = 0;
+  private lastPrunedAt = 0;
+
+  constructor(private readonly ttlMs: number) {}
+
+  async get(request: LlmCacheRequest): Promise<unknown | undefined> {
+    if (Date.now() < this.unavailableUntil) {
+      return undefined;
+    }
+    try {
+      const entry = await prisma.llmResponseCache.findUnique({ where: { key: buildLlmCacheKey(request) } });
+      if (!entry || entry.expiresAt.getTime() <= Date.now()) {
+        return undefined;
+      }
+      return entry.response;
+    } catch (error) {
+      this.markUnavailable(error);
+      return undefined;
+    }
+  }
+
+  async set(request: LlmCacheRequest, value: unknown): Promise<void> {
+    if (Date.now() < this.unavailableUntil) {
+      return;
+    }
+    const key = buildLlmCacheKey(request);
+    const expiresAt = new Date(Date.now() + (request.ttlMs ?? this.ttlMs));
+    // Cached values are parsed LLM output, so they are plain JSON
+    const response = value as Prisma.InputJsonValue;
+    try {
+      await prisma.llmResponseCache.upsert({
+        where: { key },
+        create: { key, task: request.task, model: request.model, response, expiresAt },
+        update: { response, expiresAt, createdAt: new Date() },
+      });
+      await this.pruneExpired();
+    } catch (error) {
+      this.markUnavailable(error);
+    }
+  }
+
+  private async pruneExpired(): Promise<void> {
+    if (Date.now() - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = Date.now();
+    const { count } = await prisma.llmResponseCache.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    if (count > 0) {
+      console.log(`[LLM Cache] Pruned ${count} expired responses`);
+    }
+  }
+
+  private markUnavailable(error: unknown): void {
+    // Don't retry a database that is down on every call of an analysis
+    this.unavailableUntil = Date.now() + RETRY_INTERVAL_MS;
+    console.warn('[LLM Cache] ⚠️ Database cache unavailable:', error instanceof Error ? error.message : error);
+  }
+}
+
+export class FileLlmResponseCache implements LlmResponseCache {
+  constructor(
+    private readonly directory: string,
+    private readonly ttlMs: number
+  ) {}
+
+  async get(request: LlmCacheRequest): Promise<unknown | undefined> {
+    const file = this.entryPath(request);
+    let entry: StoredEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      return undefined;
+    }
+    if (new Date(entry.expiresAt).getTime() <= Date.now()) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+    return entry.response;
+  }
+
+  async set(request: LlmCacheRequest, value: unknown): Promise<void> {
+    const entry: StoredEntry = {
+      task: request.task,
+      model: request.model,
+      response: value,
+      expiresAt: new Date(Date.now() + (request.ttlMs ?? this.ttlMs)).toISOString(),
+    };
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so a concurrent reader never sees a partial entry
+    const file = this.entryPath(request);
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry), 'utf8');
+    await fs.rename(temporary, file);
+  }
+
+  private entryPath(request: LlmCacheRequest): string {
+    return path.join(this.directory, `${buildLlmCacheKey(request)}.json`);
+  }
+}
+
+let cachedStore: { backend: string; cache: LlmResponseCache | null } | null = null;
+
+/**
+ * The configured response cache, or null when caching is off
+ */
+export const getLlmResponseCache = (): LlmResponseCache | null => {
+  const requested = process.env.LLM_CACHE_BACKEND?.trim().toLowerCase();
+  const backend = requested || (process.env.DATABASE_URL ? 'postgres' : 'off');
+  if (cachedStore?.backend === backend) {
+    return cachedStore.cache;
+  }
+
+  let cache: LlmResponseCache | null = null;
+  switch (backend) {
+    case 'postgres':
+      cache = new PrismaLlmResponseCache(resolveTtlMs());
+      break;
+    case 'file':
+      cache = new FileLlmResponseCache(
+        path.resolve(process.env.LLM_CACHE_DIR?.trim() || DEFAULT_CACHE_DIR),
+        resolveTtlMs()
+      );
+      break;
+    case 'off':
+      break;
+    default:
+      console.warn(`[LLM Cache] Unknown LLM_CACHE_BACKEND "${backend}", caching disabled`);
+  }
+
+  cachedStore = { backend, cache };
+  return cache;
+};
@@ -0,0 +1,69 @@
+import type { LlmTask } from './model-registry';
+
+/**
+ * Content-addressed cache for LLM responses.
+ *
+ * Entries are keyed on the model, the full prompt and the expected response
+ * schema, so an unchanged repository re-analyzed with the same model skips
+ * the call, while any change to the input, prompt wording, schema or model is
+ * a miss. The stores live in response-cache-store.ts (server only); this
+ * module is safe to import from code that also runs in the browser.
+ */
+
+export interface LlmCacheRequest {
+  task: LlmTask;
+  /** Provider, endpoint and model id, see getModelFingerprint */
+  model: string;
+  prompt: string;
+  /** Zod schema (or any JSON-serializable description) the response must match */
+  schema?: unknown;
+  /** Overrides the store's default time to live */
+  ttlMs?: number;
+}
+
+export interface LlmResponseCache {
+  get(request: LlmCacheRequest): Promise<unknown | undefined>;
+  set(request: LlmCacheRequest, value: unknown): Promise<void>;
+}
+
+export interface LlmCacheOptions {
+  cache?: LlmResponseCache | null;
+  /** Skip the lookup but still store the fresh response (forceRefresh) */
+  bypass?: boolean;
+}
+
+/**
+ * Return the cached response for a request, or compute and store it.
+ * `null` and `undefined` results are returned but never stored, so callers
+ * signal an unusable response (failed validation) by returning null. Cache
+ * failures never fail the call.
+ */
+export const cachedLlmCall = async <T>(
+  request: LlmCacheRequest,
+  options: LlmCacheOptions,
+  compute: () => Promise<T>
+): Promise<T> => {
+  const { cache, bypass } = options;
+  if (cache && !bypass) {
+    try {
+      const cached = await cache.get(request);
+      if (cached !== undefined) {
+        console.log(`[LLM Cache] Hit for ${request.task} (${request.model})`);
+        return cached as T;
+      }
+    } catch (error) {
+      console.warn('[LLM Cache] ⚠️ Lookup failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const value = await compute();
+
+  if (cache && value !== null && value !== undefined) {
+    try {
+      await cache.set(request, value);
+    } catch (error) {
+      console.warn('[LLM Cache] ⚠️ Store failed:', error instanceof Error ? error.message : error);
+    }
+  }
+  return value;
+};
@@ -27,6 +27,7 @@ import type {
 export class GitHubMCPClient {
   private mcpClient: any = null;
   private config: GitHubMCPClientConfig;
+  private abortSignal: AbortSignal | undefined;
 
   constructor(config?: GitHubMCPClientConfig) {
     const envToolsetCandidates = process.env.GITHUB_MCP_TOOLSETS
@@ -72,6 +73,14 @@ export class GitHubMCPClient {
     }
   }
 
+  /**
+   * Cancel in-flight and later tool calls when `signal` aborts (the caller's
+   * run was cancelled or its time budget spent)
+   */
+  setAbortSignal(signal: AbortSignal | undefined): void {
+    this.abortSignal = signal;
+  }
+
   /**
    * Connect to the GitHub MCP server
    */
@@ -112,16 +121,20 @@ export class GitHubMCPClient {
     const fetchWithTimeout = async (input: RequestInfo | URL, init?: RequestInit) => {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+      const callerSignal = this.abortSignal;
       
       try {
         const response = await fetch(input, {
           ...init,
-          signal: controller.signal,
+          signal: callerSignal ? AbortSignal.any([controller.signal, callerSignal]) : controller.signal,
         });
         clearTimeout(timeoutId);
         return response;
       } catch (error) {
         clearTimeout(timeoutId);
+        if (callerSignal?.aborted) {
+          throw callerSignal.reason;
+        }
         if ((error as Error).name === 'AbortError') {
           throw new Error(`MCP connection timeout after ${this.config.timeout}ms`);
         }
@@ -167,6 +180,7 @@ export class GitHubMCPClient {
     return await this.mcpClient.callTool({
       name: toolName,
       args,
+      options: { abortSignal: this.abortSignal },
     });
   }
 
@@ -126,12 +126,14 @@ export class TemplateCreatorClient {
    * @param repoUrl - GitHub repository URL
    * @param filePatterns - File patterns to include (e.g., ["*.ts", "package.json"])
    * @param options - Extraction options
+   * @param requestOptions - `signal` cancels the tool call
    * @returns Extracted template with placeholders
    */
   async extractTemplate(
     repoUrl: string,
     filePatterns: string[],
-    options?: TemplateExtractionOptions
+    options?: TemplateExtractionOptions,
+    requestOptions: { signal?: AbortSignal } = {}
   ): Promise<ExtractedTemplate> {
     if (!this.client) {
       throw new Error('Client not connected. Call connect() first.');
@@ -149,7 +151,8 @@ export class TemplateCreatorClient {
       (result) => {
         const responseText = ((result.content as any)[0] as any).text;
         return JSON.parse(responseText);
-      }
+      },
+      requestOptions.signal
     );
   }
 
@@ -249,6 +252,7 @@ export class TemplateCreatorClient {
       arguments: Record<string, unknown>;
     },
     parser: (result: any) => T,
+    signal?: AbortSignal,
     attempt = 0
   ): Promise<T> {
     await this.connect();
@@ -258,7 +262,7 @@ export class TemplateCreatorClient {
     }
 
     try {
-      const result = await this.client.callTool(request);
+      const result = await this.client.callTool(request, undefined, { signal });
 
       if ((result as any).isError) {
         const responseText = ((result.content as any)[0] as any)?.text ?? '{}';
@@ -274,9 +278,9 @@ export class TemplateCreatorClient {
 
       return parser(result);
     } catch (error) {
-      if (this.shouldRetry(error) && attempt === 0) {
+      if (this.shouldRetry(error) && attempt === 0 && !signal?.aborted) {
         await this.resetConnection();
-        return this.callToolWithRetry(request, parser, attempt + 1);
+        return this.callToolWithRetry(request, parser, signal, attempt + 1);
       }
       throw error;
     }
@@ -8,6 +8,7 @@
 
 import { ServerlessTemplateCreatorClient } from './serverless-client';
 import { RemoteTemplateCreatorClient } from './remote-client';
+import { githubFetch } from '../../github/github-http';
 
 export interface TemplateExtractionOptions {
   preserveStructure?: boolean;
@@ -80,7 +81,7 @@ export class TemplateCreatorClient {
       this.client = new RemoteTemplateCreatorClient(mcpServerUrl);
     } else {
       console.log('[Template Creator] Using local serverless client');
-      this.client = new ServerlessTemplateCreatorClient();
+      this.client = new ServerlessTemplateCreatorClient({ fetch: githubFetch });
     }
   }
 
@@ -92,13 +93,18 @@ export class TemplateCreatorClient {
   }
 
   /**
-   * Extract template from repository
+   * Extract template from repository. `signal` cancels a request to the
+   * remote server; the local client reads through Octokit and runs to completion.
    */
   async extractTemplate(
     repoUrl: string,
     filePatterns: string[],
-    options?: TemplateExtractionOptions
+    options?: TemplateExtractionOptions,
+    requestOptions: { signal?: AbortSignal } = {}
   ): Promise<ExtractedTemplate> {
+    if (this.client instanceof RemoteTemplateCreatorClient) {
+      return this.client.extractTemplate(repoUrl, filePatterns, options, requestOptions);
+    }
     return this.client.extractTemplate(repoUrl, filePatterns, options);
   }
 
@@ -85,13 +85,14 @@ export class RemoteTemplateCreatorClient {
   async extractTemplate(
     repoUrl: string,
     filePatterns: string[],
-    options?: TemplateExtractionOptions
+    options?: TemplateExtractionOptions,
+    requestOptions: { signal?: AbortSignal } = {}
   ): Promise<ExtractedTemplate> {
     const response = await this.makeRequest('/api/extract', {
       repoUrl,
       filePatterns,
       options,
-    });
+    }, requestOptions.signal);
 
     return response.data;
   }
@@ -135,9 +136,9 @@ export class RemoteTemplateCreatorClient {
   }
 
   /**
-   * Make HTTP request to MCP server
+   * Make HTTP request to MCP server; `signal` cancels it along with the timeout
    */
-  private async makeRequest(endpoint: string, body: any): Promise<any> {
+  private async makeRequest(endpoint: string, body: any, signal?: AbortSignal): Promise<any> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
@@ -148,7 +149,7 @@ export class RemoteTemplateCreatorClient {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -168,6 +169,9 @@ export class RemoteTemplateCreatorClient {
     } catch (error) {
       clearTimeout(timeoutId);
 
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`MCP Server request timed out after ${this.timeout}ms`);
       }
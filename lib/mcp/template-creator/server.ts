@@ -4,7 +4,7 @@
  * Custom Template Creator MCP Server
  *
  * This MCP server provides tools for extracting clean, reusable templates
- * from example GitHub repositories by removing custom implementation details.
+ * from example GitHub, GitLab and Bitbucket repositories by removing custom implementation details.
  *
  * Tools provided:
  * 1. extract_template - Extract a clean template from repository code
@@ -23,6 +23,11 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { Buffer } from 'node:buffer';
 import path from 'node:path';
+import { BitbucketRepositoryProvider } from '../../repository/bitbucket-provider';
+import { GitLabRepositoryProvider } from '../../repository/gitlab-provider';
+import type { HostedRepositoryProvider } from '../../repository/hosted-provider';
+import { parseRepositoryUrl } from '../../repository/repository-url';
+import type { RepositoryProviderKind, RepositoryReference } from '../../repository/types';
 
 interface TemplateExtractionOptions {
   preserveStructure: boolean;
@@ -45,7 +50,22 @@ interface TemplateFile {
   placeholders: string[];
 }
 
+type RepoHost = RepositoryProviderKind;
+
+interface RepoLocation {
+  host: RepoHost;
+  /** Web origin, e.g. https://gitlab.example.com for self-hosted GitLab */
+  origin: string;
+  /** GitLab group paths keep their slashes (`group/subgroup`) */
+  owner: string;
+  repo: string;
+  reference: RepositoryReference;
+}
+
 interface RepoContext {
+  host: RepoHost;
+  origin: string;
+  reference: RepositoryReference;
   owner: string;
   repo: string;
   defaultBranch: string;
@@ -155,7 +175,7 @@ class TemplateCreatorServer {
           properties: {
             repoUrl: {
               type: 'string',
-              description: 'GitHub repository URL to extract template from',
+              description: 'GitHub, GitLab or Bitbucket repository URL to extract template from',
             },
             filePatterns: {
               type: 'array',
@@ -199,7 +219,7 @@ class TemplateCreatorServer {
           properties: {
             repoUrl: {
               type: 'string',
-              description: 'GitHub repository URL to analyze',
+              description: 'GitHub, GitLab or Bitbucket repository URL to analyze',
             },
             depth: {
               type: 'number',
@@ -251,45 +271,72 @@ class TemplateCreatorServer {
     return this.octokit;
   }
 
-  private parseRepoUrl(repoUrl: string): { owner: string; repo: string } {
+  /**
+   * Host detection and URL validation are shared with the app's repository
+   * providers, so the same hosts (and only https origins) get credentials.
+   */
+  private parseRepoUrl(repoUrl: string): RepoLocation {
     try {
-      const cleanedUrl = repoUrl.replace(/\.git$/, '');
-      const parsed = new URL(cleanedUrl);
-
-      if (!parsed.hostname.endsWith('github.com')) {
-        throw new Error('Only GitHub repositories are supported at this time.');
-      }
-
-      const segments = parsed.pathname.split('/').filter(Boolean);
-      if (segments.length < 2) {
-        throw new Error('Invalid repository URL. Expected format: https://github.com/owner/repo');
-      }
-
+      const reference = parseRepositoryUrl(repoUrl);
       return {
-        owner: segments[0],
-        repo: segments[1],
+        host: reference.provider,
+        origin: reference.origin,
+        owner: reference.owner,
+        repo: reference.name,
+        reference,
       };
     } catch (error) {
       throw new Error(`Failed to parse repository URL "${repoUrl}": ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * GitLab or Bitbucket provider for the repository, reading `ref` when given
+   */
+  private hostedProvider(location: RepoLocation, ref?: string): HostedRepositoryProvider {
+    const reference = ref ? { ...location.reference, ref } : location.reference;
+    return location.host === 'gitlab'
+      ? new GitLabRepositoryProvider(reference)
+      : new BitbucketRepositoryProvider(reference);
+  }
+
+  private tokenHint(host: RepoHost): string {
+    switch (host) {
+      case 'gitlab':
+        return 'GITLAB_TOKEN';
+      case 'bitbucket':
+        return 'BITBUCKET_TOKEN';
+      default:
+        return 'GITHUB_TOKEN';
+    }
+  }
+
   private async getRepoContext(repoUrl: string): Promise<RepoContext> {
     const cacheKey = repoUrl;
     if (this.repoCache.has(cacheKey)) {
       return this.repoCache.get(cacheKey)!;
     }
 
-    const { owner, repo } = this.parseRepoUrl(repoUrl);
-    const octokit = this.getOctokit();
+    const location = this.parseRepoUrl(repoUrl);
+    const { owner, repo } = location;
 
     try {
+      if (location.host !== 'github') {
+        const context = await this.getHostedRepoContext(location);
+        this.repoCache.set(cacheKey, context);
+        return context;
+      }
+
+      const octokit = this.getOctokit();
       const { data } = await octokit.repos.get({
         owner,
         repo,
       });
 
       const context: RepoContext = {
+        host: 'github',
+        origin: 'https://github.com',
+        reference: location.reference,
         owner,
         repo,
         defaultBranch: data.default_branch ?? 'main',
@@ -304,7 +351,7 @@ class TemplateCreatorServer {
     } catch (error) {
       if (this.isGitHubAuthError(error)) {
         throw new Error(
-          `Unable to access ${owner}/${repo}. Make sure the repository exists and that you have configured a GITHUB_TOKEN with appropriate permissions.`
+          `Unable to access ${owner}/${repo}. Make sure the repository exists and that you have configured a ${this.tokenHint(location.host)} with appropriate permissions.`
         );
       }
       throw error;
@@ -319,8 +366,14 @@ class TemplateCreatorServer {
       return this.treeCache.get(cacheKey)!;
     }
 
-    const octokit = this.getOctokit();
     try {
+      if (context.host !== 'github') {
+        const tree = await this.getHostedRepoTree(context, branch);
+        this.treeCache.set(cacheKey, tree);
+        return tree;
+      }
+
+      const octokit = this.getOctokit();
       const { data } = await octokit.git.getTree({
         owner: context.owner,
         repo: context.repo,
@@ -342,7 +395,7 @@ class TemplateCreatorServer {
     } catch (error) {
       if (this.isGitHubAuthError(error)) {
         throw new Error(
-          `Unable to list files for ${context.owner}/${context.repo}. Ensure GITHUB_TOKEN grants access to this repository.`
+          `Unable to list files for ${context.owner}/${context.repo}. Ensure ${this.tokenHint(context.host)} grants access to this repository.`
         );
       }
       throw error;
@@ -350,8 +403,13 @@ class TemplateCreatorServer {
   }
 
   private async fetchFileContent(context: RepoContext, filePath: string, ref?: string): Promise<{ content: string; size: number }> {
-    const octokit = this.getOctokit();
     try {
+      if (context.host !== 'github') {
+        const content = await this.fetchHostedFileContent(context, filePath, ref ?? context.defaultBranch);
+        return { content, size: Buffer.byteLength(content) };
+      }
+
+      const octokit = this.getOctokit();
       const response = await octokit.repos.getContent({
         owner: context.owner,
         repo: context.repo,
@@ -371,13 +429,44 @@ class TemplateCreatorServer {
     } catch (error) {
       if (this.isGitHubAuthError(error)) {
         throw new Error(
-          `Unable to read ${filePath} in ${context.owner}/${context.repo}. Check repository visibility or provide a GITHUB_TOKEN with access.`
+          `Unable to read ${filePath} in ${context.owner}/${context.repo}. Check repository visibility or provide a ${this.tokenHint(context.host)} with access.`
         );
       }
       throw error;
     }
   }
 
+  private async getHostedRepoContext(location: RepoLocation): Promise<RepoContext> {
+    const info = await this.hostedProvider(location).getInfo();
+    return {
+      ...location,
+      defaultBranch: info.defaultBranch,
+      description: info.description,
+      topics: info.topics,
+      language: null,
+      htmlUrl: location.reference.webUrl,
+    };
+  }
+
+  private async getHostedRepoTree(context: RepoContext, branch: string): Promise<GitTreeItem[]> {
+    const entries = await this.hostedProvider(context, branch).listTree();
+    return entries.map((entry) => ({
+      path: entry.path,
+      type: entry.type === 'dir' ? 'tree' : 'blob',
+      // GitLab's tree listing has no blob sizes
+      size: entry.size || undefined,
+      sha: entry.path,
+    }));
+  }
+
+  private async fetchHostedFileContent(context: RepoContext, filePath: string, ref: string): Promise<string> {
+    const content = await this.hostedProvider(context, ref).readFile(filePath);
+    if (content === null) {
+      throw new Error(`Unable to fetch file content for ${filePath}`);
+    }
+    return content;
+  }
+
   private isGitHubAuthError(error: unknown): boolean {
     if (!error || typeof error !== 'object') {
       return false;
@@ -416,13 +505,13 @@ class TemplateCreatorServer {
 
     replacements.push({
       placeholder: 'OWNER_NAME',
-      description: 'GitHub owner or organization name',
+      description: 'Repository owner, organization or group name',
       patterns: patterns(context.owner),
     });
 
     replacements.push({
       placeholder: 'REPO_URL',
-      description: 'GitHub repository URL',
+      description: 'Repository URL',
       patterns: [new RegExp(this.escapeRegExp(context.htmlUrl), 'gi')],
     });
 
@@ -100,9 +100,15 @@ interface StructureAnalysis {
 
 export class ServerlessTemplateCreatorClient {
   private octokit: Octokit | null = null;
+  private readonly fetchImpl?: typeof fetch;
 
-  constructor() {
+  /**
+   * @param options.fetch transport for GitHub requests; the app passes its shared
+   * GitHub HTTP layer (conditional requests, rate-limit pacing)
+   */
+  constructor(options: { fetch?: typeof fetch } = {}) {
     // Initialize without MCP dependencies
+    this.fetchImpl = options.fetch;
   }
 
   /**
@@ -1386,7 +1392,10 @@ export class ServerlessTemplateCreatorClient {
       if (!token) {
         throw new Error('GITHUB_TOKEN environment variable is required');
       }
-      this.octokit = new Octokit({ auth: token });
+      this.octokit = new Octokit({
+        auth: token,
+        request: this.fetchImpl ? { fetch: this.fetchImpl } : undefined,
+      });
     }
     return this.octokit;
   }
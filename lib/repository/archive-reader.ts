@@ -0,0 +1,212 @@
+import { gunzipSync, inflateRawSync } from 'zlib';
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  /** Omitted for entries larger than the readable limit */
+  content?: Buffer;
+}
+
+export interface ArchiveReadLimits {
+  maxEntries: number;
+  maxEntryBytes: number;
+  maxTotalBytes: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveReadLimits = {
+  maxEntries: 20_000,
+  maxEntryBytes: 1_000_000,
+  maxTotalBytes: 200_000_000,
+};
+
+export type ArchiveFormat = 'zip' | 'tar.gz' | 'tar';
+
+export const detectArchiveFormat = (fileName: string, data: Buffer): ArchiveFormat | null => {
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) {
+    return 'zip';
+  }
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    return 'tar.gz';
+  }
+  if (data.length >= 262 && data.toString('ascii', 257, 262) === 'ustar') {
+    return 'tar';
+  }
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.zip')) return 'zip';
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) return 'tar.gz';
+  if (lower.endsWith('.tar')) return 'tar';
+  return null;
+};
+
+const normalizeEntryPath = (value: string): string | null => {
+  const normalized = value.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+/, '');
+  if (!normalized || normalized.split('/').includes('..')) {
+    return null;
+  }
+  return normalized;
+};
+
+const readTarString = (block: Buffer, start: number, length: number) =>
+  block.toString('utf-8', start, start + length).replace(/\0[\s\S]*$/, '');
+
+const readTar = (data: Buffer, limits: ArchiveReadLimits): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+  let totalBytes = 0;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const typeFlag = String.fromCharCode(header[156] || 48);
+    const prefix = readTarString(header, 345, 155);
+    const name = readTarString(header, 0, 100);
+    const bodyStart = offset + 512;
+    const body = data.subarray(bodyStart, bodyStart + size);
+    offset = bodyStart + Math.ceil(size / 512) * 512;
+
+    if (typeFlag === 'L') {
+      longName = body.toString('utf-8').replace(/\0[\s\S]*$/, '');
+      continue;
+    }
+    if (typeFlag === 'x') {
+      const pathRecord = body.toString('utf-8').match(/\d+ path=([^\n]+)\n/);
+      longName = pathRecord ? pathRecord[1] : longName;
+      continue;
+    }
+
+    const fullName = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = null;
+
+    if (typeFlag !== '0' && typeFlag !== '\0') {
+      continue;
+    }
+
+    const entryPath = normalizeEntryPath(fullName);
+    if (!entryPath) {
+      continue;
+    }
+
+    totalBytes += size;
+    if (entries.length >= limits.maxEntries || totalBytes > limits.maxTotalBytes) {
+      throw new Error('Archive exceeds the maximum supported size');
+    }
+
+    entries.push({
+      path: entryPath,
+      size,
+      content: size <= limits.maxEntryBytes ? Buffer.from(body) : undefined,
+    });
+  }
+
+  return entries;
+};
+
+const readZip = (data: Buffer, limits: ArchiveReadLimits): ArchiveEntry[] => {
+  let endOffset = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65_557); i -= 1) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Invalid zip archive: end of central directory not found');
+  }
+
+  const entryCount = data.readUInt16LE(endOffset + 10);
+  let cursor = data.readUInt32LE(endOffset + 16);
+  if (cursor === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+  if (entryCount > limits.maxEntries) {
+    throw new Error('Archive exceeds the maximum supported size');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let totalBytes = 0;
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (data.readUInt32LE(cursor) !== 0x02014b50) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+    const method = data.readUInt16LE(cursor + 10);
+    const compressedSize = data.readUInt32LE(cursor + 20);
+    const size = data.readUInt32LE(cursor + 24);
+    const nameLength = data.readUInt16LE(cursor + 28);
+    const extraLength = data.readUInt16LE(cursor + 30);
+    const commentLength = data.readUInt16LE(cursor + 32);
+    const localHeaderOffset = data.readUInt32LE(cursor + 42);
+    const name = data.toString('utf-8', cursor + 46, cursor + 46 + nameLength);
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    const entryPath = normalizeEntryPath(name);
+    if (!entryPath) {
+      continue;
+    }
+
+    totalBytes += size;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new Error('Archive exceeds the maximum supported size');
+    }
+
+    let content: Buffer | undefined;
+    if (size <= limits.maxEntryBytes && (method === 0 || method === 8)) {
+      const localNameLength = data.readUInt16LE(localHeaderOffset + 26);
+      const localExtraLength = data.readUInt16LE(localHeaderOffset + 28);
+      const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+      const compressed = data.subarray(dataStart, dataStart + compressedSize);
+      content = method === 0
+        ? Buffer.from(compressed)
+        : inflateRawSync(compressed, { maxOutputLength: Math.max(1, limits.maxEntryBytes) });
+    }
+
+    entries.push({ path: entryPath, size, content });
+  }
+
+  return entries;
+};
+
+/**
+ * Strip the single top-level folder most archives wrap their contents in
+ * (e.g. `repo-main/` in GitHub downloads).
+ */
+const stripCommonRoot = (entries: ArchiveEntry[]): ArchiveEntry[] => {
+  if (entries.length === 0) {
+    return entries;
+  }
+  const firstSegment = entries[0].path.split('/')[0];
+  const shared = entries.every((entry) => entry.path.startsWith(`${firstSegment}/`));
+  if (!shared) {
+    return entries;
+  }
+  return entries.map((entry) => ({ ...entry, path: entry.path.slice(firstSegment.length + 1) }));
+};
+
+/**
+ * Read every regular file of a .zip, .tar or .tar.gz archive into memory
+ */
+export const readArchive = (
+  fileName: string,
+  data: Buffer,
+  limits: ArchiveReadLimits = DEFAULT_ARCHIVE_LIMITS
+): ArchiveEntry[] => {
+  const format = detectArchiveFormat(fileName, data);
+  switch (format) {
+    case 'zip':
+      return stripCommonRoot(readZip(data, limits));
+    case 'tar.gz':
+      return stripCommonRoot(readTar(gunzipSync(data, { maxOutputLength: limits.maxTotalBytes }), limits));
+    case 'tar':
+      return stripCommonRoot(readTar(data, limits));
+    default:
+      throw new Error('Unsupported archive format. Upload a .zip, .tar or .tar.gz file.');
+  }
+};
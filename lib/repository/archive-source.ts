@@ -0,0 +1,57 @@
+import { FileTreeRepositorySource, isIgnoredPath } from './base-source';
+import { readArchive, type ArchiveEntry } from './archive-reader';
+import type { RepositoryTreeEntry } from './types';
+
+const ARCHIVE_SUFFIX = /\.(zip|tar\.gz|tgz|tar)$/i;
+
+/**
+ * Reads a repository from an uploaded .zip / .tar / .tar.gz archive held in memory
+ */
+export class ArchiveRepositorySource extends FileTreeRepositorySource {
+  readonly kind = 'archive' as const;
+  readonly owner = 'archive';
+  readonly name: string;
+  readonly label: string;
+
+  private readonly files = new Map<string, ArchiveEntry>();
+  private readonly tree: RepositoryTreeEntry[];
+
+  constructor(fileName: string, data: Buffer) {
+    super();
+    const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
+    this.name = baseName.replace(ARCHIVE_SUFFIX, '') || 'upload';
+    this.label = `archive:${baseName}`;
+
+    const directories = new Set<string>();
+    readArchive(fileName, data)
+      .filter((entry) => entry.path && !isIgnoredPath(entry.path))
+      .forEach((entry) => {
+        this.files.set(entry.path, entry);
+        const segments = entry.path.split('/');
+        for (let depth = 1; depth < segments.length; depth += 1) {
+          directories.add(segments.slice(0, depth).join('/'));
+        }
+      });
+
+    this.tree = [
+      ...Array.from(directories).map((path) => ({ path, type: 'dir' as const, size: 0 })),
+      ...Array.from(this.files.values()).map((entry) => ({ path: entry.path, type: 'file' as const, size: entry.size })),
+    ].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async listTree(): Promise<RepositoryTreeEntry[]> {
+    return this.tree;
+  }
+
+  async readFile(path: string): Promise<string | null> {
+    const entry = this.files.get(path);
+    if (!entry?.content || entry.content.includes(0)) {
+      return null;
+    }
+    return entry.content.toString('utf-8');
+  }
+
+  protected async getLastModifiedAt(): Promise<string | null> {
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import type {
+  RepositorySource,
+  RepositorySourceInfo,
+  RepositorySourceKind,
+  RepositoryTreeEntry,
+} from './types';
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  mts: 'TypeScript',
+  cts: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  py: 'Python',
+  ipynb: 'Jupyter Notebook',
+  java: 'Java',
+  kt: 'Kotlin',
+  kts: 'Kotlin',
+  scala: 'Scala',
+  go: 'Go',
+  rs: 'Rust',
+  rb: 'Ruby',
+  php: 'PHP',
+  cs: 'C#',
+  cpp: 'C++',
+  cc: 'C++',
+  hpp: 'C++',
+  c: 'C',
+  h: 'C',
+  swift: 'Swift',
+  dart: 'Dart',
+  vue: 'Vue',
+  svelte: 'Svelte',
+  html: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  sh: 'Shell',
+  bash: 'Shell',
+  sql: 'PLpgSQL',
+  tf: 'HCL',
+};
+
+export const IGNORED_DIRECTORIES = new Set([
+  '.git',
+  'node_modules',
+  'vendor',
+  'dist',
+  'build',
+  'target',
+  '.next',
+  '.venv',
+  'venv',
+  '__pycache__',
+  'coverage',
+]);
+
+export const MAX_READABLE_FILE_BYTES = 1_000_000;
+
+export const languageForPath = (path: string): string | null => {
+  const name = path.split('/').pop() ?? path;
+  if (name === 'Dockerfile') {
+    return 'Dockerfile';
+  }
+  const extension = name.includes('.') ? name.split('.').pop()?.toLowerCase() : undefined;
+  return extension ? LANGUAGE_BY_EXTENSION[extension] ?? null : null;
+};
+
+export const isIgnoredPath = (path: string): boolean =>
+  path.split('/').some((segment) => IGNORED_DIRECTORIES.has(segment));
+
+/**
+ * Bytes per language across a file tree, shaped like GitHub's languages endpoint
+ */
+export const summarizeLanguages = (tree: RepositoryTreeEntry[]): Record<string, number> => {
+  const languages: Record<string, number> = {};
+  tree.forEach((entry) => {
+    if (entry.type !== 'file' || isIgnoredPath(entry.path)) {
+      return;
+    }
+    const language = languageForPath(entry.path);
+    if (language) {
+      languages[language] = (languages[language] ?? 0) + entry.size;
+    }
+  });
+  return languages;
+};
+
+export const findReadmeEntry = (tree: RepositoryTreeEntry[]): RepositoryTreeEntry | undefined =>
+  tree.find(
+    (entry) => entry.type === 'file' && !entry.path.includes('/') && /^readme(\.(md|markdown|txt|rst))?$/i.test(entry.path)
+  );
+
+/**
+ * Shared behaviour for sources that expose a plain file tree: language
+ * breakdown by bytes (like GitHub's languages endpoint) and README lookup.
+ */
+export abstract class FileTreeRepositorySource implements RepositorySource {
+  abstract readonly kind: RepositorySourceKind;
+  abstract readonly owner: string;
+  abstract readonly name: string;
+  abstract readonly label: string;
+
+  abstract listTree(): Promise<RepositoryTreeEntry[]>;
+  abstract readFile(path: string): Promise<string | null>;
+  protected abstract getLastModifiedAt(): Promise<string | null>;
+
+  async getInfo(): Promise<RepositorySourceInfo> {
+    const tree = await this.listTree();
+    const totalBytes = tree.reduce((sum, entry) => sum + (entry.type === 'file' ? entry.size : 0), 0);
+    const licenseEntry = tree.find((entry) => /^licen[sc]e(\.|$)/i.test(entry.path));
+
+    return {
+      description: null,
+      defaultBranch: 'local',
+      sizeKb: Math.round(totalBytes / 1024),
+      lastModifiedAt: await this.getLastModifiedAt(),
+      license: licenseEntry ? licenseEntry.path : null,
+      topics: [],
+      stars: 0,
+      homepage: null,
+    };
+  }
+
+  async getLanguages(): Promise<Record<string, number>> {
+    return summarizeLanguages(await this.listTree());
+  }
+
+  async readReadme(): Promise<{ path: string; content: string } | null> {
+    const readme = findReadmeEntry(await this.listTree());
+    if (!readme) {
+      return null;
+    }
+    const content = await this.readFile(readme.path);
+    return content === null ? null : { path: readme.path, content };
+  }
+}
@@ -0,0 +1,131 @@
+import { summarizeLanguages } from './base-source';
+import { HostedRepositoryProvider } from './hosted-provider';
+import type { RepositoryIssue, RepositoryReference, RepositorySourceInfo, RepositoryTreeEntry } from './types';
+
+const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+const MAX_TREE_DEPTH = 20;
+const MAX_TREE_PAGES = 100;
+
+export interface BitbucketCredentials {
+  /** Repository, project or workspace access token */
+  token?: string;
+  /** Username + app password, used when no access token is configured */
+  username?: string;
+  appPassword?: string;
+}
+
+/**
+ * Bitbucket Cloud repositories via the 2.0 REST API
+ */
+export class BitbucketRepositoryProvider extends HostedRepositoryProvider {
+  readonly kind = 'bitbucket' as const;
+  protected readonly displayName = 'Bitbucket';
+  protected readonly tokenHint = 'BITBUCKET_TOKEN (or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD)';
+
+  private readonly credentials: BitbucketCredentials;
+  private readonly repositoryUrl: string;
+
+  constructor(
+    reference: RepositoryReference,
+    credentials: BitbucketCredentials = {
+      token: process.env.BITBUCKET_TOKEN,
+      username: process.env.BITBUCKET_USERNAME,
+      appPassword: process.env.BITBUCKET_APP_PASSWORD,
+    }
+  ) {
+    super(reference);
+    this.credentials = credentials;
+    this.repositoryUrl = `${BITBUCKET_API_URL}/repositories/${encodeURIComponent(reference.owner)}/${encodeURIComponent(reference.name)}`;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    const { token, username, appPassword } = this.credentials;
+    if (token) {
+      return { Authorization: `Bearer ${token}` };
+    }
+    if (username && appPassword) {
+      return { Authorization: `Basic ${Buffer.from(`${username}:${appPassword}`).toString('base64')}` };
+    }
+    return {};
+  }
+
+  protected async fetchInfo(): Promise<RepositorySourceInfo> {
+    const data = await this.getJson(this.repositoryUrl, { resourceLabel: 'repository metadata' });
+    return {
+      description: data.description || null,
+      defaultBranch: data.mainbranch?.name ?? 'main',
+      sizeKb: Math.round((data.size ?? 0) / 1024),
+      lastModifiedAt: data.updated_on ?? null,
+      // Bitbucket has no license detection, topics or stars
+      license: null,
+      topics: [],
+      stars: 0,
+      homepage: data.website || null,
+    };
+  }
+
+  /**
+   * Bitbucket only reports a single declared language, so the breakdown is
+   * computed from file sizes in the tree.
+   */
+  async getLanguages(): Promise<Record<string, number>> {
+    return summarizeLanguages(await this.listTree());
+  }
+
+  protected async fetchTree(ref: string): Promise<RepositoryTreeEntry[]> {
+    const entries: RepositoryTreeEntry[] = [];
+    let nextUrl: string | undefined =
+      `${this.repositoryUrl}/src/${encodeURIComponent(ref)}/?max_depth=${MAX_TREE_DEPTH}&pagelen=100`;
+
+    for (let count = 0; nextUrl && count < MAX_TREE_PAGES; count += 1) {
+      const page: any = await this.getJson(nextUrl, { allow404: true, resourceLabel: 'repository tree' });
+      if (!page) {
+        break;
+      }
+      (page.values ?? []).forEach((item: any) => {
+        if (item.type === 'commit_directory') {
+          entries.push({ path: item.path, type: 'dir', size: 0 });
+        } else if (item.type === 'commit_file') {
+          entries.push({ path: item.path, type: 'file', size: item.size ?? 0 });
+        }
+      });
+      nextUrl = page.next;
+    }
+
+    if (nextUrl) {
+      console.warn(`[BitbucketRepositoryProvider] Tree truncated at ${entries.length} entries for ${this.label}`);
+    }
+    return entries;
+  }
+
+  protected fetchFile(path: string, ref: string): Promise<string | null> {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    return this.getText(`${this.repositoryUrl}/src/${encodeURIComponent(ref)}/${encodedPath}`, {
+      allow404: true,
+      resourceLabel: path,
+    });
+  }
+
+  protected async fetchCommitSha(ref: string): Promise<string | null> {
+    const commit = await this.getJson(`${this.repositoryUrl}/commit/${encodeURIComponent(ref)}`, {
+      allow404: true,
+      resourceLabel: `ref ${ref}`,
+    });
+    return commit?.hash ?? null;
+  }
+
+  /**
+   * Bitbucket issues have no labels, so they are listed at the end of the issue body.
+   * Fails with a not-found error when the repository's issue tracker is disabled.
+   */
+  async createIssue(title: string, body: string, options?: { labels?: string[] }): Promise<RepositoryIssue> {
+    const labels = options?.labels ?? [];
+    const content = labels.length > 0 ? `${body}\n\nLabels: ${labels.join(', ')}` : body;
+    const issue = await this.getJson(`${this.repositoryUrl}/issues`, {
+      method: 'POST',
+      body: { title, content: { raw: content, markup: 'markdown' }, kind: 'enhancement' },
+      resourceLabel: 'issues',
+    });
+    return { number: issue.id, url: issue.links?.html?.href ?? `${this.reference.webUrl}/issues/${issue.id}` };
+  }
+}
@@ -0,0 +1,104 @@
+import { githubFetch } from '../github/github-http';
+import { HostedRepositoryProvider } from './hosted-provider';
+import type { RepositoryIssue, RepositoryReference, RepositorySourceInfo, RepositoryTreeEntry } from './types';
+
+const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_RAW_URL = 'https://raw.githubusercontent.com';
+
+/**
+ * github.com repositories via the REST API
+ */
+export class GitHubRepositoryProvider extends HostedRepositoryProvider {
+  readonly kind = 'github' as const;
+  protected readonly displayName = 'GitHub';
+  protected readonly tokenHint = 'GITHUB_TOKEN';
+
+  private readonly token: string | undefined;
+
+  constructor(reference: RepositoryReference, token: string | undefined = process.env.GITHUB_TOKEN) {
+    super(reference);
+    this.token = token;
+  }
+
+  private get repoPath(): string {
+    return `${encodeURIComponent(this.owner)}/${encodeURIComponent(this.name)}`;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { Accept: 'application/vnd.github.v3+json' };
+    if (this.token) {
+      headers.Authorization = `token ${this.token}`;
+    }
+    return headers;
+  }
+
+  protected fetchResponse(url: string, init: RequestInit): Promise<Response> {
+    return githubFetch(url, init);
+  }
+
+  protected async fetchInfo(): Promise<RepositorySourceInfo> {
+    const data = await this.getJson(`${GITHUB_API_URL}/repos/${this.repoPath}`, {
+      resourceLabel: 'repository metadata',
+    });
+    return {
+      description: data.description ?? null,
+      defaultBranch: data.default_branch ?? 'main',
+      sizeKb: data.size ?? 0,
+      lastModifiedAt: data.pushed_at ?? null,
+      license: data.license?.spdx_id ?? data.license?.name ?? null,
+      topics: Array.isArray(data.topics) ? data.topics : [],
+      stars: data.stargazers_count ?? 0,
+      homepage: data.homepage || null,
+    };
+  }
+
+  async getLanguages(): Promise<Record<string, number>> {
+    const languages = await this.getJson<Record<string, number>>(
+      `${GITHUB_API_URL}/repos/${this.repoPath}/languages`,
+      { allow404: true, resourceLabel: 'repository languages' }
+    );
+    return languages ?? {};
+  }
+
+  protected async fetchTree(ref: string): Promise<RepositoryTreeEntry[]> {
+    const data = await this.getJson(
+      `${GITHUB_API_URL}/repos/${this.repoPath}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+      { allow404: true, resourceLabel: 'repository tree' }
+    );
+    if (!Array.isArray(data?.tree)) {
+      return [];
+    }
+    return data.tree
+      .filter((entry: any) => entry.type === 'blob' || entry.type === 'tree')
+      .map((entry: any) => ({
+        path: entry.path,
+        type: entry.type === 'tree' ? 'dir' : 'file',
+        size: entry.size ?? 0,
+      }));
+  }
+
+  protected fetchFile(path: string, ref: string): Promise<string | null> {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    return this.getText(`${GITHUB_RAW_URL}/${this.repoPath}/${encodeURIComponent(ref)}/${encodedPath}`, {
+      allow404: true,
+      resourceLabel: path,
+    });
+  }
+
+  protected async fetchCommitSha(ref: string): Promise<string | null> {
+    const commit = await this.getJson(`${GITHUB_API_URL}/repos/${this.repoPath}/commits/${encodeURIComponent(ref)}`, {
+      allow404: true,
+      resourceLabel: `ref ${ref}`,
+    });
+    return commit?.sha ?? null;
+  }
+
+  async createIssue(title: string, body: string, options?: { labels?: string[] }): Promise<RepositoryIssue> {
+    const issue = await this.getJson(`${GITHUB_API_URL}/repos/${this.repoPath}/issues`, {
+      method: 'POST',
+      body: { title, body, labels: options?.labels ?? [] },
+      resourceLabel: 'issues',
+    });
+    return { number: issue.number, url: issue.html_url };
+  }
+}
@@ -0,0 +1,110 @@
+import { HostedRepositoryProvider } from './hosted-provider';
+import type { RepositoryIssue, RepositoryReference, RepositorySourceInfo, RepositoryTreeEntry } from './types';
+
+const TREE_PAGE_SIZE = 100;
+const MAX_TREE_PAGES = 100;
+
+/**
+ * GitLab.com and self-hosted GitLab projects via the v4 REST API
+ */
+export class GitLabRepositoryProvider extends HostedRepositoryProvider {
+  readonly kind = 'gitlab' as const;
+  protected readonly displayName = 'GitLab';
+  protected readonly tokenHint = 'GITLAB_TOKEN';
+
+  private readonly token: string | undefined;
+  private readonly projectUrl: string;
+
+  constructor(reference: RepositoryReference, token: string | undefined = process.env.GITLAB_TOKEN) {
+    super(reference);
+    this.token = token;
+    this.projectUrl = `${reference.origin}/api/v4/projects/${encodeURIComponent(`${reference.owner}/${reference.name}`)}`;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    return this.token && this.projectUrl.startsWith('https://') ? { 'PRIVATE-TOKEN': this.token } : {};
+  }
+
+  protected async fetchInfo(): Promise<RepositorySourceInfo> {
+    const data = await this.getJson(`${this.projectUrl}?license=true&statistics=true`, {
+      resourceLabel: 'project metadata',
+    });
+    return {
+      description: data.description || null,
+      defaultBranch: data.default_branch ?? 'main',
+      // Statistics are only returned to project members
+      sizeKb: Math.round((data.statistics?.repository_size ?? 0) / 1024),
+      lastModifiedAt: data.last_activity_at ?? null,
+      license: data.license?.nickname ?? data.license?.name ?? null,
+      topics: Array.isArray(data.topics) ? data.topics : Array.isArray(data.tag_list) ? data.tag_list : [],
+      stars: data.star_count ?? 0,
+      homepage: null,
+    };
+  }
+
+  /**
+   * GitLab reports languages as percentages. They are scaled to pseudo byte
+   * counts so callers can treat them like GitHub's languages endpoint.
+   */
+  async getLanguages(): Promise<Record<string, number>> {
+    const percentages = await this.getJson<Record<string, number>>(`${this.projectUrl}/languages`, {
+      allow404: true,
+      resourceLabel: 'project languages',
+    });
+    const languages: Record<string, number> = {};
+    Object.entries(percentages ?? {}).forEach(([language, percent]) => {
+      languages[language] = Math.round(percent * 1000);
+    });
+    return languages;
+  }
+
+  protected async fetchTree(ref: string): Promise<RepositoryTreeEntry[]> {
+    const entries: RepositoryTreeEntry[] = [];
+    let page = '1';
+
+    for (let count = 0; page && count < MAX_TREE_PAGES; count += 1) {
+      const response = await this.send(
+        `${this.projectUrl}/repository/tree?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}&ref=${encodeURIComponent(ref)}`,
+        { allow404: true, resourceLabel: 'repository tree' }
+      );
+      if (!response) {
+        break;
+      }
+      const items = (await response.json()) as Array<{ path: string; type: string }>;
+      items.forEach((item) => {
+        // The tree endpoint does not report blob sizes
+        entries.push({ path: item.path, type: item.type === 'tree' ? 'dir' : 'file', size: 0 });
+      });
+      page = response.headers.get('x-next-page') ?? '';
+    }
+
+    if (page) {
+      console.warn(`[GitLabRepositoryProvider] Tree truncated at ${entries.length} entries for ${this.label}`);
+    }
+    return entries;
+  }
+
+  protected fetchFile(path: string, ref: string): Promise<string | null> {
+    return this.getText(
+      `${this.projectUrl}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`,
+      { allow404: true, resourceLabel: path }
+    );
+  }
+
+  protected async fetchCommitSha(ref: string): Promise<string | null> {
+    const commit = await this.getJson(`${this.projectUrl}/repository/commits/${encodeURIComponent(ref)}`, {
+      allow404: true,
+      resourceLabel: `ref ${ref}`,
+    });
+    return commit?.id ?? null;
+  }
+
+  async createIssue(title: string, body: string, options?: { labels?: string[] }): Promise<RepositoryIssue> {
+    const issue = await this.getJson(`${this.projectUrl}/issues`, {
+      method: 'POST',
+      body: { title, description: body, labels: (options?.labels ?? []).join(',') },
+      resourceLabel: 'issues',
+    });
+    return { number: issue.iid, url: issue.web_url };
+  }
+}
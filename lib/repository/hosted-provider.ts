@@ -0,0 +1,205 @@
+import { findReadmeEntry, MAX_READABLE_FILE_BYTES } from './base-source';
+import type {
+  RepositoryIssue,
+  RepositoryProvider,
+  RepositoryProviderKind,
+  RepositoryReference,
+  RepositorySourceInfo,
+  RepositoryTreeEntry,
+} from './types';
+
+export interface ProviderRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  allow404?: boolean;
+  resourceLabel?: string;
+}
+
+/**
+ * Shared behaviour for repositories on a hosted git provider: authenticated
+ * requests with readable errors, and per-instance caching of metadata and tree.
+ */
+export abstract class HostedRepositoryProvider implements RepositoryProvider {
+  abstract readonly kind: RepositoryProviderKind;
+  /** Provider name used in error messages */
+  protected abstract readonly displayName: string;
+  /** Environment variable users should set when a request is unauthorized */
+  protected abstract readonly tokenHint: string;
+
+  readonly owner: string;
+  readonly name: string;
+  readonly label: string;
+
+  private infoPromise: Promise<RepositorySourceInfo> | null = null;
+  private treePromise: Promise<RepositoryTreeEntry[]> | null = null;
+  private commitShaPromise: Promise<string | null> | null = null;
+  private abortSignal: AbortSignal | undefined;
+
+  constructor(readonly reference: RepositoryReference) {
+    this.owner = reference.owner;
+    this.name = reference.name;
+    this.label = reference.webUrl;
+  }
+
+  /**
+   * Abort in-flight and later requests when `signal` aborts (the analysis was cancelled)
+   */
+  setAbortSignal(signal: AbortSignal | undefined): void {
+    this.abortSignal = signal;
+  }
+
+  protected abstract authHeaders(): Record<string, string>;
+  protected abstract fetchInfo(): Promise<RepositorySourceInfo>;
+  protected abstract fetchTree(ref: string): Promise<RepositoryTreeEntry[]>;
+  protected abstract fetchFile(path: string, ref: string): Promise<string | null>;
+  /** Full SHA the ref points at, or null when the ref does not exist */
+  protected abstract fetchCommitSha(ref: string): Promise<string | null>;
+
+  abstract getLanguages(): Promise<Record<string, number>>;
+  abstract createIssue(title: string, body: string, options?: { labels?: string[] }): Promise<RepositoryIssue>;
+
+  getInfo(): Promise<RepositorySourceInfo> {
+    if (!this.infoPromise) {
+      this.infoPromise = this.fetchInfo().catch((error) => {
+        this.infoPromise = null;
+        throw error;
+      });
+    }
+    return this.infoPromise;
+  }
+
+  /**
+   * The ref being read: the requested branch, tag or commit, else the default branch
+   */
+  async getRef(): Promise<string> {
+    return this.reference.ref ?? (await this.getInfo()).defaultBranch;
+  }
+
+  /**
+   * Resolve the ref once so every read in an analysis sees the same commit.
+   * A requested ref that does not exist is an error rather than a silent
+   * fallback to the default branch.
+   */
+  resolveCommitSha(): Promise<string | null> {
+    if (!this.commitShaPromise) {
+      this.commitShaPromise = this.getRef()
+        .then(async (ref) => {
+          const sha = await this.fetchCommitSha(ref);
+          if (!sha && this.reference.ref) {
+            throw new Error(`${this.displayName} ref "${ref}" not found in ${this.reference.webUrl}`);
+          }
+          return sha;
+        })
+        .catch((error) => {
+          this.commitShaPromise = null;
+          throw error;
+        });
+    }
+    return this.commitShaPromise;
+  }
+
+  listTree(): Promise<RepositoryTreeEntry[]> {
+    if (!this.treePromise) {
+      this.treePromise = this.readRef()
+        .then((ref) => this.fetchTree(ref))
+        .catch((error) => {
+          this.treePromise = null;
+          throw error;
+        });
+    }
+    return this.treePromise;
+  }
+
+  async readFile(path: string): Promise<string | null> {
+    const content = await this.fetchFile(path, await this.readRef());
+    if (content === null || content.length > MAX_READABLE_FILE_BYTES || content.includes('\0')) {
+      return null;
+    }
+    return content;
+  }
+
+  async readReadme(): Promise<{ path: string; content: string } | null> {
+    const readme = findReadmeEntry(await this.listTree());
+    if (!readme) {
+      return null;
+    }
+    const content = await this.readFile(readme.path);
+    return content === null ? null : { path: readme.path, content };
+  }
+
+  async fileExists(path: string): Promise<boolean> {
+    const normalized = path.replace(/^\/+|\/+$/g, '');
+    const tree = await this.listTree();
+    return tree.some((entry) => entry.path === normalized);
+  }
+
+  /**
+   * Ref used for tree and file reads: the resolved commit when a ref was
+   * requested, so a branch that moves mid-analysis cannot mix two commits
+   */
+  private async readRef(): Promise<string> {
+    if (!this.reference.ref) {
+      return (await this.getInfo()).defaultBranch;
+    }
+    return (await this.resolveCommitSha()) ?? this.reference.ref;
+  }
+
+  /**
+   * Perform an API request. Returns null for a 404 when `allow404` is set.
+   */
+  protected async send(url: string, options: ProviderRequestOptions = {}): Promise<Response | null> {
+    const headers: Record<string, string> = {
+      'User-Agent': 'SkillBridge.ai-Agents',
+      ...this.authHeaders(),
+    };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await this.fetchResponse(url, {
+      method: options.method ?? 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: this.abortSignal,
+    });
+    const label = options.resourceLabel ?? url;
+
+    if (response.ok) {
+      return response;
+    }
+    if (response.status === 404) {
+      if (options.allow404) {
+        return null;
+      }
+      throw new Error(
+        `${this.displayName} resource not found (${label}). The repository may be private or the path does not exist.`
+      );
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `${this.displayName} denied access to ${label} (${response.status}). Check that ${this.tokenHint} is set and grants access to ${this.reference.webUrl}.`
+      );
+    }
+    if (response.status === 429) {
+      throw new Error(`${this.displayName} API rate limit exceeded while requesting ${label}.`);
+    }
+    throw new Error(`${this.displayName} API error: ${response.status} - ${response.statusText} while requesting ${label}`);
+  }
+
+  /**
+   * Transport for API requests; providers with a shared HTTP layer override it
+   */
+  protected fetchResponse(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, init);
+  }
+
+  protected async getJson<T = any>(url: string, options: ProviderRequestOptions = {}): Promise<T | null> {
+    const response = await this.send(url, options);
+    return response ? ((await response.json()) as T) : null;
+  }
+
+  protected async getText(url: string, options: ProviderRequestOptions = {}): Promise<string | null> {
+    const response = await this.send(url, options);
+    return response ? response.text() : null;
+  }
+}
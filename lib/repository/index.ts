@@ -0,0 +1,28 @@
+/**
+ * Repository Sources - Public API
+ *
+ * Lets the gap analyzer and portfolio builder read code from local checkouts,
+ * uploaded archives, and GitHub, GitLab or Bitbucket repositories.
+ */
+
+export { LocalDirectorySource, LocalPathError } from './local-source';
+export { ArchiveRepositorySource } from './archive-source';
+export { languageForPath } from './base-source';
+export { GitHubRepositoryProvider } from './github-provider';
+export { GitLabRepositoryProvider } from './gitlab-provider';
+export { BitbucketRepositoryProvider } from './bitbucket-provider';
+export { parseRepositoryUrl, isSupportedRepositoryUrl } from './repository-url';
+export { createRepositoryProvider, hasProviderCredentials } from './provider-factory';
+
+export type {
+  RepositoryCommit,
+  RepositoryCommitFile,
+  RepositoryIssue,
+  RepositoryProvider,
+  RepositoryProviderKind,
+  RepositoryReference,
+  RepositorySource,
+  RepositorySourceInfo,
+  RepositorySourceKind,
+  RepositoryTreeEntry,
+} from './types';
@@ -0,0 +1,246 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { FileTreeRepositorySource, IGNORED_DIRECTORIES, MAX_READABLE_FILE_BYTES } from './base-source';
+import type { RepositoryCommit, RepositoryRefs, RepositoryTreeEntry } from './types';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_TREE_ENTRIES = 20_000;
+const GIT_LOG_TIMEOUT_MS = 15_000;
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+// Ends the free-form commit message so the numstat lines after it can be told apart
+const MESSAGE_TERMINATOR = '\x1d';
+
+/**
+ * A requested local path that does not exist, or that resolves (following
+ * symlinks) outside the allowed analysis root
+ */
+export class LocalPathError extends Error {
+  constructor(message: string, readonly reason: 'outside-root' | 'not-found') {
+    super(message);
+    this.name = 'LocalPathError';
+  }
+}
+
+const isWithin = (candidate: string, root: string): boolean =>
+  candidate === root || candidate.startsWith(`${root}${path.sep}`);
+
+/**
+ * Reads a repository from a directory on the server's filesystem.
+ * All reads are confined to the root directory, after following symlinks.
+ */
+export class LocalDirectorySource extends FileTreeRepositorySource {
+  readonly kind = 'local' as const;
+  readonly owner = 'local';
+  readonly name: string;
+  readonly label: string;
+
+  private readonly root: string;
+  private tree: RepositoryTreeEntry[] | null = null;
+  private lastModifiedMs = 0;
+  private realRoot: Promise<string> | null = null;
+
+  constructor(rootDirectory: string) {
+    super();
+    this.root = path.resolve(rootDirectory);
+    this.name = path.basename(this.root);
+    this.label = `local:${this.root}`;
+  }
+
+  /**
+   * Resolve a local directory, enforcing that it lives inside `allowedRoot`.
+   * Both are resolved through symlinks, so a link in the root cannot point
+   * the analysis elsewhere. Throws LocalPathError.
+   */
+  static async fromAllowedRoot(requestedPath: string, allowedRoot: string): Promise<LocalDirectorySource> {
+    const resolvedRoot = await fs.realpath(path.resolve(allowedRoot)).catch(() => null);
+    if (!resolvedRoot) {
+      throw new LocalPathError(`Local analysis root ${allowedRoot} does not exist`, 'not-found');
+    }
+    const lexical = path.resolve(resolvedRoot, requestedPath);
+    if (!isWithin(lexical, resolvedRoot)) {
+      throw new LocalPathError(`Local path ${requestedPath} is outside the allowed analysis root`, 'outside-root');
+    }
+    const resolved = await fs.realpath(lexical).catch(() => null);
+    if (!resolved) {
+      throw new LocalPathError(`Local path ${requestedPath} does not exist`, 'not-found');
+    }
+    if (!isWithin(resolved, resolvedRoot)) {
+      throw new LocalPathError(`Local path ${requestedPath} is outside the allowed analysis root`, 'outside-root');
+    }
+    return new LocalDirectorySource(resolved);
+  }
+
+  async listTree(): Promise<RepositoryTreeEntry[]> {
+    if (this.tree) {
+      return this.tree;
+    }
+
+    const stats = await fs.stat(this.root).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Local repository not found: ${this.root}`);
+    }
+
+    const entries: RepositoryTreeEntry[] = [];
+    const walk = async (relativeDir: string): Promise<void> => {
+      const absoluteDir = path.join(this.root, relativeDir);
+      const dirents = await fs.readdir(absoluteDir, { withFileTypes: true });
+      for (const dirent of dirents) {
+        if (entries.length >= MAX_TREE_ENTRIES) {
+          return;
+        }
+        const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+        if (dirent.isDirectory()) {
+          if (IGNORED_DIRECTORIES.has(dirent.name)) {
+            continue;
+          }
+          entries.push({ path: relativePath, type: 'dir', size: 0 });
+          await walk(relativePath);
+        } else if (dirent.isFile()) {
+          const fileStats = await fs.stat(path.join(this.root, relativePath));
+          this.lastModifiedMs = Math.max(this.lastModifiedMs, fileStats.mtimeMs);
+          entries.push({ path: relativePath, type: 'file', size: fileStats.size });
+        }
+      }
+    };
+
+    await walk('');
+    if (entries.length >= MAX_TREE_ENTRIES) {
+      console.warn(`[LocalDirectorySource] Tree truncated at ${MAX_TREE_ENTRIES} entries for ${this.root}`);
+    }
+    this.tree = entries;
+    return entries;
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    const absolute = path.resolve(this.root, filePath);
+    if (!absolute.startsWith(`${this.root}${path.sep}`)) {
+      return null;
+    }
+    try {
+      // A symlink inside the checkout may point anywhere; only read what really lives under the root
+      const [root, target] = await Promise.all([this.resolveRealRoot(), fs.realpath(absolute)]);
+      if (!target.startsWith(`${root}${path.sep}`)) {
+        return null;
+      }
+      const stats = await fs.stat(target);
+      if (!stats.isFile() || stats.size > MAX_READABLE_FILE_BYTES) {
+        return null;
+      }
+      const buffer = await fs.readFile(target);
+      return buffer.includes(0) ? null : buffer.toString('utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read history with `git log --numstat`, including messages and signature
+   * status. Returns an empty list when the directory is not a git checkout or
+   * git is unavailable.
+   */
+  async listCommits(limit: number): Promise<RepositoryCommit[]> {
+    try {
+      const { stdout } = await execFileAsync(
+        'git',
+        [
+          '-C',
+          this.root,
+          'log',
+          '--no-merges',
+          '--numstat',
+          `--max-count=${Math.max(1, Math.floor(limit))}`,
+          // %G? is N for unsigned commits; any other status means a signature is present
+          `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%G?${FIELD_SEPARATOR}%B${MESSAGE_TERMINATOR}`,
+        ],
+        { timeout: GIT_LOG_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 }
+      );
+
+      return stdout
+        .split(RECORD_SEPARATOR)
+        .filter((record) => record.trim())
+        .map((record) => {
+          const [header, numstat = ''] = record.split(MESSAGE_TERMINATOR);
+          const [sha, authoredAt, author, signature, message = ''] = header.split(FIELD_SEPARATOR);
+          const files = numstat
+            .split('\n')
+            .map((line) => line.split('\t'))
+            .filter((parts) => parts.length === 3)
+            .map(([added, deleted, filePath]) => ({
+              path: filePath,
+              // Binary files report "-" instead of line counts
+              additions: Number.parseInt(added, 10) || 0,
+              deletions: Number.parseInt(deleted, 10) || 0,
+            }));
+          return {
+            sha,
+            authoredAt,
+            author: author || null,
+            files,
+            message: message.trim(),
+            signed: signature ? signature !== 'N' : undefined,
+          };
+        });
+    } catch (error) {
+      console.warn(
+        `[LocalDirectorySource] git log unavailable for ${this.root}:`,
+        error instanceof Error ? error.message : error
+      );
+      return [];
+    }
+  }
+
+  async listRefs(): Promise<RepositoryRefs> {
+    try {
+      const { stdout } = await execFileAsync(
+        'git',
+        ['-C', this.root, 'for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes', 'refs/tags'],
+        { timeout: GIT_LOG_TIMEOUT_MS }
+      );
+      const refs = stdout.split('\n').filter(Boolean);
+      const branches = refs
+        .filter((ref) => !ref.startsWith('refs/tags/') && !ref.endsWith('/HEAD'))
+        // A branch pushed to a remote is listed under both refs/heads and refs/remotes/<remote>
+        .map((ref) => ref.replace(/^refs\/heads\//, '').replace(/^refs\/remotes\/[^/]+\//, ''));
+      return {
+        branches: [...new Set(branches)],
+        tags: refs.filter((ref) => ref.startsWith('refs/tags/')).map((ref) => ref.slice('refs/tags/'.length)),
+      };
+    } catch {
+      return { branches: [], tags: [] };
+    }
+  }
+
+  /**
+   * HEAD of the checkout. Uncommitted changes are still read from the working
+   * tree, so the SHA identifies the base the analysis started from.
+   */
+  async resolveCommitSha(): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('git', ['-C', this.root, 'rev-parse', 'HEAD'], {
+        timeout: GIT_LOG_TIMEOUT_MS,
+      });
+      return stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  protected async getLastModifiedAt(): Promise<string | null> {
+    await this.listTree();
+    return this.lastModifiedMs > 0 ? new Date(this.lastModifiedMs).toISOString() : null;
+  }
+
+  private resolveRealRoot(): Promise<string> {
+    if (!this.realRoot) {
+      this.realRoot = fs.realpath(this.root).catch((error) => {
+        this.realRoot = null;
+        throw error;
+      });
+    }
+    return this.realRoot;
+  }
+}
@@ -0,0 +1,54 @@
+import { BitbucketRepositoryProvider } from './bitbucket-provider';
+import { GitHubRepositoryProvider } from './github-provider';
+import { GitLabRepositoryProvider } from './gitlab-provider';
+import type { HostedRepositoryProvider } from './hosted-provider';
+import { parseRepositoryUrl } from './repository-url';
+import type { RepositoryProvider, RepositoryProviderKind, RepositoryReference } from './types';
+
+const instantiateProvider = (reference: RepositoryReference, token?: string): HostedRepositoryProvider => {
+  switch (reference.provider) {
+    case 'github':
+      return new GitHubRepositoryProvider(reference, token ?? process.env.GITHUB_TOKEN);
+    case 'gitlab':
+      return new GitLabRepositoryProvider(reference, token ?? process.env.GITLAB_TOKEN);
+    case 'bitbucket':
+      return token
+        ? new BitbucketRepositoryProvider(reference, { token })
+        : new BitbucketRepositoryProvider(reference);
+  }
+};
+
+/**
+ * Create the provider for a repository URL (or an already parsed reference).
+ * `token` overrides the provider's environment credentials; `ref` reads a
+ * branch, tag or commit instead of the default branch; `signal` cancels its
+ * requests.
+ */
+export const createRepositoryProvider = (
+  repository: string | RepositoryReference,
+  options: { token?: string; ref?: string; signal?: AbortSignal } = {}
+): RepositoryProvider => {
+  const parsed = typeof repository === 'string' ? parseRepositoryUrl(repository) : repository;
+  const ref = options.ref?.trim();
+  const reference = ref ? { ...parsed, ref } : parsed;
+
+  const provider = instantiateProvider(reference, options.token);
+  provider.setAbortSignal(options.signal);
+  return provider;
+};
+
+/**
+ * Whether credentials for write operations (issue creation) are configured
+ */
+export const hasProviderCredentials = (provider: RepositoryProviderKind): boolean => {
+  switch (provider) {
+    case 'github':
+      return Boolean(process.env.GITHUB_TOKEN);
+    case 'gitlab':
+      return Boolean(process.env.GITLAB_TOKEN);
+    case 'bitbucket':
+      return Boolean(
+        process.env.BITBUCKET_TOKEN || (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD)
+      );
+  }
+};
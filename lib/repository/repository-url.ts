@@ -0,0 +1,89 @@
+import type { RepositoryProviderKind, RepositoryReference } from './types';
+
+const SSH_URL_PATTERN = /^(?:ssh:\/\/)?git@([^:/]+)[:/](.+)$/;
+
+/**
+ * Self-hosted GitLab instances must be listed in GITLAB_HOSTS (comma separated
+ * hostnames). They are never guessed from the hostname: GITLAB_TOKEN is sent
+ * to whichever host a URL resolves to.
+ */
+const configuredGitLabHosts = (): Set<string> =>
+  new Set(
+    (process.env.GITLAB_HOSTS ?? '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean)
+  );
+
+const providerForHost = (hostname: string): RepositoryProviderKind | null => {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  if (host === 'github.com') return 'github';
+  if (host === 'bitbucket.org') return 'bitbucket';
+  if (host === 'gitlab.com' || configuredGitLabHosts().has(host)) {
+    return 'gitlab';
+  }
+  return null;
+};
+
+/**
+ * Parse a GitHub, GitLab (including self-hosted) or Bitbucket repository URL.
+ * Accepts web URLs, deep links into the repository and `git@host:owner/repo.git` clone URLs.
+ */
+export const parseRepositoryUrl = (repoUrl: string): RepositoryReference => {
+  const trimmed = repoUrl.trim();
+  const sshMatch = trimmed.match(SSH_URL_PATTERN);
+
+  let parsed: URL;
+  try {
+    parsed = sshMatch ? new URL(`https://${sshMatch[1]}/${sshMatch[2]}`) : new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid repository URL: ${repoUrl}`);
+  }
+
+  // Provider credentials are sent to the origin, so they must never travel in plaintext
+  if (!sshMatch && parsed.protocol !== 'https:') {
+    throw new Error(`Repository URLs must use https: ${repoUrl}`);
+  }
+
+  const provider = providerForHost(parsed.hostname);
+  if (!provider) {
+    throw new Error(
+      `Unsupported repository host "${parsed.hostname}". Supported hosts are github.com, gitlab.com, bitbucket.org and the GitLab hosts listed in GITLAB_HOSTS.`
+    );
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  let repositorySegments: string[];
+  if (provider === 'gitlab') {
+    // GitLab nests projects in groups; everything before the `/-/` marker is the project path
+    const markerIndex = segments.indexOf('-');
+    repositorySegments = markerIndex >= 0 ? segments.slice(0, markerIndex) : segments;
+  } else {
+    repositorySegments = segments.slice(0, 2);
+  }
+
+  if (repositorySegments.length < 2) {
+    throw new Error(`Invalid repository URL. Expected format: ${parsed.origin}/owner/repo`);
+  }
+
+  const name = repositorySegments[repositorySegments.length - 1].replace(/\.git$/, '');
+  const owner = repositorySegments.slice(0, -1).join('/');
+  const origin = sshMatch ? `https://${parsed.host}` : parsed.origin;
+
+  return {
+    provider,
+    origin,
+    owner,
+    name,
+    webUrl: `${origin}/${owner}/${name}`,
+  };
+};
+
+export const isSupportedRepositoryUrl = (repoUrl: string): boolean => {
+  try {
+    parseRepositoryUrl(repoUrl);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Repository source types
+ *
+ * A repository source is anything the gap analyzer can read code from:
+ * a local checkout, an uploaded archive, or a hosted git provider.
+ */
+
+export type RepositoryProviderKind = 'github' | 'gitlab' | 'bitbucket';
+
+export type RepositorySourceKind = 'local' | 'archive' | RepositoryProviderKind;
+
+export interface RepositoryTreeEntry {
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+}
+
+export interface RepositorySourceInfo {
+  description: string | null;
+  defaultBranch: string;
+  sizeKb: number;
+  lastModifiedAt: string | null;
+  license: string | null;
+  topics: string[];
+  stars: number;
+  homepage: string | null;
+}
+
+export interface RepositoryCommitFile {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface RepositoryCommit {
+  sha: string;
+  authoredAt: string;
+  author: string | null;
+  files: RepositoryCommitFile[];
+  /** Full commit message; omitted when the source does not read it */
+  message?: string;
+  /** Whether the commit carries a signature; omitted when unknown */
+  signed?: boolean;
+}
+
+export interface RepositoryRefs {
+  branches: string[];
+  tags: string[];
+}
+
+export interface RepositorySource {
+  readonly kind: RepositorySourceKind;
+  /** Stable identifier used in place of the GitHub owner */
+  readonly owner: string;
+  /** Repository name used in place of the GitHub repo */
+  readonly name: string;
+  /** Human readable label stored as `GitHubAnalysis.repository` */
+  readonly label: string;
+
+  getInfo(): Promise<RepositorySourceInfo>;
+  getLanguages(): Promise<Record<string, number>>;
+  listTree(): Promise<RepositoryTreeEntry[]>;
+  /** Returns the file contents, or null when the path does not exist or is not readable text */
+  readFile(path: string): Promise<string | null>;
+  readReadme(): Promise<{ path: string; content: string } | null>;
+  /** Most recent commits with per-file line counts; omitted by sources without history */
+  listCommits?(limit: number): Promise<RepositoryCommit[]>;
+  /** Branch and tag names; omitted by sources without refs */
+  listRefs?(): Promise<RepositoryRefs>;
+  /** Full SHA of the commit being read, or null when it cannot be resolved; omitted by sources without history */
+  resolveCommitSha?(): Promise<string | null>;
+}
+
+/**
+ * A repository on a hosted git provider, as parsed from its web or clone URL
+ */
+export interface RepositoryReference {
+  provider: RepositoryProviderKind;
+  /** Web origin of the host, e.g. https://gitlab.example.com for self-hosted GitLab */
+  origin: string;
+  /** User, organisation or workspace. GitLab group paths keep their slashes (`group/subgroup`). */
+  owner: string;
+  name: string;
+  webUrl: string;
+  /** Branch, tag or commit to read instead of the default branch */
+  ref?: string;
+}
+
+export interface RepositoryIssue {
+  number: number;
+  url: string;
+}
+
+export interface RepositoryProvider extends RepositorySource {
+  readonly kind: RepositoryProviderKind;
+  readonly reference: RepositoryReference;
+
+  /** True for both files and directories */
+  fileExists(path: string): Promise<boolean>;
+  createIssue(title: string, body: string, options?: { labels?: string[] }): Promise<RepositoryIssue>;
+}
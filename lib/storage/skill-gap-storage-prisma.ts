@@ -4,11 +4,14 @@
  * Issue #30: Refactor SkillGapStorage to use Prisma
  */
 
+import type { Prisma, SkillSelfAssessment } from '@prisma/client';
 import { prisma } from '@/lib/db';
 import { GapAnalysisResult, GitHubAnalysis, ResearchContext } from '@/lib/agents/gap-analyzer';
 import type { ResearchState } from '@/lib/agents/langgraph/research-agent';
 import { buildResearchStateSeed } from '@/lib/agents/langgraph/utils/research-state-seed';
 import { formatGapValue } from '@/lib/utils';
+import { canonicalSkillId, canonicalSkillName, getTaxonomySkill } from '@/lib/analysis/skill-taxonomy';
+import type { SelfAssessedLevel } from '@/lib/analysis/self-assessment';
 
 export class DatabaseUnavailableError extends Error {
   constructor(message: string, options?: ErrorOptions) {
@@ -69,6 +72,8 @@ export class SkillGapStoragePrisma {
         data: {
           userId,
           repository: githubAnalysis.repository,
+          ref: githubAnalysis.ref,
+          commitSha: githubAnalysis.commitSha,
           overallScore: skillAssessment.overallScore,
           skillLevel: githubAnalysis.skillLevel,
           // Create related technologies
@@ -90,12 +95,16 @@ export class SkillGapStoragePrisma {
           },
           // Create skill gap items
           skillGapItems: {
+            // Canonical ids and names keep the same skill comparable across analyses
             create: skillAssessment.skillGaps.map((gap) => ({
-              skillName: gap.skill.name,
+              skillId: getTaxonomySkill(gap.skill.id)?.id ?? canonicalSkillId(gap.skill.name),
+              skillName: canonicalSkillName(gap.skill.name),
               currentLevel: gap.skill.currentLevel,
               targetLevel: gap.skill.targetLevel,
               gap: gap.gap,
               priority: gap.priority >= 8 ? 'high' : gap.priority >= 5 ? 'medium' : 'low',
+              // Evidence is plain JSON data, but its interface lacks the index signature Prisma's Json input expects
+              evidence: gap.evidence?.length ? (gap.evidence as unknown as Prisma.InputJsonValue) : undefined,
             })),
           },
           // Create recommendations
@@ -118,6 +127,7 @@ export class SkillGapStoragePrisma {
         id: skillGap.id,
         userId,
         repository: githubAnalysis.repository,
+        commitSha: githubAnalysis.commitSha,
         technologiesCount: skillGap.technologies.length,
         skillGapsCount: skillGap.skillGapItems.length,
         recommendationsCount: skillGap.recommendations.length,
@@ -329,9 +339,12 @@ ${
     const latestGap = await this.getLatestSkillGap(userId);
     if (!latestGap) return null;
 
-    const skillGap = latestGap.skillAssessment.skillGaps.find((gap) =>
-      gap.skill.name.toLowerCase().includes(skillName.toLowerCase())
-    );
+    const skillId = canonicalSkillId(skillName);
+    const skillGap =
+      latestGap.skillAssessment.skillGaps.find((gap) => gap.skill.id === skillId) ??
+      latestGap.skillAssessment.skillGaps.find((gap) =>
+        gap.skill.name.toLowerCase().includes(skillName.toLowerCase())
+      );
 
     if (!skillGap) return null;
 
@@ -340,9 +353,108 @@ ${
       gap: skillGap.gap,
       priority: skillGap.priority,
       recommendations: skillGap.recommendations,
+      evidence: skillGap.evidence,
     };
   }
 
+  /**
+   * Store self-assessed levels, one row per user and canonical skill; a
+   * rating for a skill that already has one replaces it
+   */
+  async saveSelfAssessments(userId: string, levels: SelfAssessedLevel[]): Promise<SelfAssessedLevel[]> {
+    if (!(await this.ensureDatabaseAvailable())) {
+      throw new DatabaseUnavailableError(
+        this.buildDatabaseUnavailableMessage('store the self-assessment'),
+        { cause: this.databaseStatus.error }
+      );
+    }
+
+    const clampLevel = (level: number) => Math.min(5, Math.max(1, Math.round(level)));
+
+    try {
+      await prisma.user.upsert({
+        where: { id: userId },
+        update: {},
+        create: { id: userId },
+      });
+
+      await prisma.$transaction(
+        levels.map((level) => {
+          const skillId = getTaxonomySkill(level.skillId)?.id ?? canonicalSkillId(level.skillName ?? level.skillId);
+          const data = {
+            skillName: canonicalSkillName(level.skillName ?? getTaxonomySkill(skillId)?.name ?? skillId),
+            currentLevel: clampLevel(level.currentLevel),
+            targetLevel: typeof level.targetLevel === 'number' ? clampLevel(level.targetLevel) : null,
+          };
+          return prisma.skillSelfAssessment.upsert({
+            where: { userId_skillId: { userId, skillId } },
+            create: { userId, skillId, ...data },
+            update: data,
+          });
+        })
+      );
+
+      console.log('💾 Stored self-assessment:', { userId, skills: levels.length });
+      return this.getSelfAssessments(userId);
+    } catch (error) {
+      console.error('❌ Error storing self-assessment:', error);
+      if (this.isDatabaseConnectionError(error)) {
+        this.markDatabaseUnavailable(error);
+        throw new DatabaseUnavailableError(
+          this.buildDatabaseUnavailableMessage('store the self-assessment'),
+          { cause: error }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Self-assessed levels for a user, for GapAnalyzerAgent.setSelfAssessments
+   */
+  async getSelfAssessments(userId: string): Promise<SelfAssessedLevel[]> {
+    if (!(await this.ensureDatabaseAvailable())) {
+      return [];
+    }
+
+    try {
+      const rows = await prisma.skillSelfAssessment.findMany({
+        where: { userId },
+        orderBy: { skillId: 'asc' },
+      });
+      return rows.map((row: SkillSelfAssessment) => ({
+        skillId: row.skillId,
+        skillName: row.skillName,
+        currentLevel: row.currentLevel,
+        targetLevel: row.targetLevel,
+        updatedAt: row.updatedAt.toISOString(),
+      }));
+    } catch (error) {
+      console.error('❌ Error getting self-assessment:', error);
+      if (this.isDatabaseConnectionError(error)) {
+        this.markDatabaseUnavailable(error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Remove a user's self-assessed level for one skill, returning detection to full weight
+   */
+  async deleteSelfAssessment(userId: string, skillId: string): Promise<boolean> {
+    if (!(await this.ensureDatabaseAvailable())) {
+      throw new DatabaseUnavailableError(
+        this.buildDatabaseUnavailableMessage('remove the self-assessment'),
+        { cause: this.databaseStatus.error }
+      );
+    }
+
+    const { count } = await prisma.skillSelfAssessment.deleteMany({
+      where: { userId, skillId: getTaxonomySkill(skillId)?.id ?? canonicalSkillId(skillId) },
+    });
+    return count > 0;
+  }
+
   /**
    * Clean up old skill gaps (older than 30 days)
    */
@@ -388,6 +500,8 @@ ${
     // Reconstruct GitHubAnalysis
     const githubAnalysis: GitHubAnalysis = {
       repository: skillGap.repository,
+      ref: skillGap.ref ?? undefined,
+      commitSha: skillGap.commitSha ?? undefined,
       languages,
       frameworks,
       tools,
@@ -401,7 +515,8 @@ ${
       overallScore: skillGap.overallScore,
       skillGaps: skillGap.skillGapItems.map((item: any) => ({
         skill: {
-          name: item.skillName,
+          id: item.skillId ?? canonicalSkillId(item.skillName),
+          name: canonicalSkillName(item.skillName),
           currentLevel: item.currentLevel,
           targetLevel: item.targetLevel,
         },
@@ -409,6 +524,7 @@ ${
         priority: this.mapPriorityToScore(item.priority),
         recommendations: [],
         confidence: this.mapConfidenceToLabel(item.confidence),
+        evidence: Array.isArray(item.evidence) ? item.evidence : undefined,
       })),
       recommendations: skillGap.recommendations.map((rec: any) => rec.text),
       categories: [],
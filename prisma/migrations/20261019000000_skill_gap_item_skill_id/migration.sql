@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SkillGapItem" ADD COLUMN "skillId" VARCHAR(100);
+
+-- CreateIndex
+CREATE INDEX "SkillGapItem_skillId_idx" ON "SkillGapItem"("skillId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SkillGapItem" ADD COLUMN "evidence" JSONB;
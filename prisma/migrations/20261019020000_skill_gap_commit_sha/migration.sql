@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "SkillGap" ADD COLUMN "ref" VARCHAR(255),
+ADD COLUMN "commitSha" VARCHAR(64);
+
+-- CreateIndex
+CREATE INDEX "SkillGap_repository_commitSha_idx" ON "SkillGap"("repository", "commitSha");
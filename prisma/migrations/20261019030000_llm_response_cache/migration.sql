@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "LlmResponseCache" (
+    "key" VARCHAR(64) NOT NULL,
+    "task" VARCHAR(32) NOT NULL,
+    "model" VARCHAR(255) NOT NULL,
+    "response" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LlmResponseCache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "LlmResponseCache_expiresAt_idx" ON "LlmResponseCache"("expiresAt");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "SkillSelfAssessment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "skillId" VARCHAR(100) NOT NULL,
+    "skillName" VARCHAR(100) NOT NULL,
+    "currentLevel" INTEGER NOT NULL,
+    "targetLevel" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SkillSelfAssessment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SkillSelfAssessment_userId_idx" ON "SkillSelfAssessment"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SkillSelfAssessment_userId_skillId_key" ON "SkillSelfAssessment"("userId", "skillId");
+
+-- AddForeignKey
+ALTER TABLE "SkillSelfAssessment" ADD CONSTRAINT "SkillSelfAssessment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,169 @@
+/**
+ * Chat exports: ChatGPT, Claude and JSONL exports are parsed into the same
+ * turns as plain-text transcripts, keeping code blocks, conversations and
+ * timestamps, and repeated questions are clustered into skill gaps.
+ *
+ * Run: npx tsx tests/test-chat-export.ts
+ */
+
+import assert from 'node:assert/strict';
+import { detectChatExportFormat, parseChatExport, toIsoTimestamp } from '@/lib/analysis/chat-export';
+import { clusterChatTopics } from '@/lib/analysis/chat-topics';
+
+function testTimestamps() {
+  console.log('Test 1: epoch and date timestamps');
+  assert.equal(toIsoTimestamp(1717200000), '2024-06-01T00:00:00.000Z');
+  assert.equal(toIsoTimestamp(1717200000.25), '2024-06-01T00:00:00.250Z');
+  assert.equal(toIsoTimestamp(1717200000123), '2024-06-01T00:00:00.123Z');
+  assert.equal(toIsoTimestamp(1717200000123456), '2024-06-01T00:00:00.123Z', 'microseconds');
+  assert.equal(toIsoTimestamp(1717200000123456789), '2024-06-01T00:00:00.123Z', 'nanoseconds');
+  assert.equal(toIsoTimestamp('1717200000123456'), '2024-06-01T00:00:00.123Z');
+  assert.equal(toIsoTimestamp('2024-03-01T10:00:00+02:00'), '2024-03-01T08:00:00.000Z');
+  // Out-of-range and unparseable values are dropped instead of throwing
+  assert.equal(toIsoTimestamp(1e25), undefined);
+  assert.equal(toIsoTimestamp('garbage'), undefined);
+  assert.equal(toIsoTimestamp(-5), undefined);
+  assert.equal(toIsoTimestamp(null), undefined);
+  console.log('✅ Seconds, milliseconds, microseconds and nanoseconds are all read\n');
+}
+
+function testChatGptExport() {
+  console.log('Test 2: ChatGPT conversations.json');
+  const raw = JSON.stringify([
+    {
+      id: 'c1',
+      title: 'Hooks',
+      create_time: 1717200000.25,
+      current_node: 'n3',
+      mapping: {
+        root: { id: 'root', parent: null, message: null },
+        n1: {
+          id: 'n1',
+          parent: 'root',
+          message: {
+            author: { role: 'user' },
+            create_time: 1717200000,
+            content: { content_type: 'text', parts: ['How do I use useEffect in React?\n```tsx\nuseEffect(() => {}, []);\n```'] },
+          },
+        },
+        edited: {
+          id: 'edited',
+          parent: 'n1',
+          message: { author: { role: 'assistant' }, create_time: 1717200001, content: { content_type: 'text', parts: ['Edited away'] } },
+        },
+        n2: {
+          id: 'n2',
+          parent: 'n1',
+          message: { author: { role: 'assistant' }, create_time: 1717200005, content: { content_type: 'text', parts: ['Use the dependency array.'] } },
+        },
+        n3: {
+          id: 'n3',
+          parent: 'n2',
+          message: {
+            author: { role: 'user' },
+            create_time: 1717200100,
+            content: { content_type: 'text', parts: ['What is the difference between useMemo and useCallback in React?'] },
+          },
+        },
+      },
+    },
+  ]);
+
+  const chat = parseChatExport(raw);
+  assert.equal(chat.format, 'chatgpt');
+  assert.deepEqual(
+    chat.turns.map((turn) => [turn.speaker, turn.content]),
+    [
+      ['user', 'How do I use useEffect in React?'],
+      ['assistant', 'Use the dependency array.'],
+      ['user', 'What is the difference between useMemo and useCallback in React?'],
+    ],
+    'only the branch ending at current_node is kept'
+  );
+  assert.deepEqual(chat.turns[0].codeBlocks, [{ language: 'tsx', code: 'useEffect(() => {}, []);' }]);
+  assert.equal(chat.userQuestions.length, 2);
+  assert.deepEqual(chat.conversations, [
+    { id: 'c1', title: 'Hooks', createdAt: '2024-06-01T00:00:00.250Z', turnCount: 3 },
+  ]);
+  assert.equal(chat.metadata.firstTimestamp, '2024-06-01T00:00:00.000Z');
+  assert.equal(chat.metadata.lastTimestamp, '2024-06-01T00:01:40.000Z');
+  console.log(`✅ ${chat.turns.length} turns, ${chat.metadata.codeBlockCount} code block\n`);
+}
+
+function testClaudeExport() {
+  console.log('Test 3: Claude export');
+  const raw = JSON.stringify([
+    {
+      uuid: 'u1',
+      name: 'SQL',
+      created_at: '2024-03-01T10:00:00Z',
+      chat_messages: [
+        { sender: 'human', text: 'How to write a join in PostgreSQL?', created_at: '2024-03-01T10:00:00Z' },
+        { sender: 'assistant', text: 'Like this:\n```sql\nSELECT 1;\n```', created_at: '2024-03-01T10:00:05Z' },
+      ],
+    },
+  ]);
+
+  const chat = parseChatExport(raw);
+  assert.equal(chat.format, 'claude');
+  assert.deepEqual(chat.userQuestions.map((question) => question.text), ['How to write a join in PostgreSQL?']);
+  assert.deepEqual(chat.turns[1].codeBlocks, [{ language: 'sql', code: 'SELECT 1;' }]);
+  assert.equal(chat.turns[1].content, 'Like this:');
+  assert.equal(chat.conversations[0].title, 'SQL');
+  console.log('✅ Human and assistant messages become user and assistant turns\n');
+}
+
+function testJsonlLogAndClusters() {
+  console.log('Test 4: JSONL message log with microsecond timestamps, clustered into topics');
+  const raw = [
+    { role: 'user', content: 'How do I configure Docker volumes?', timestamp: 1717200000123456, session_id: 's1' },
+    { role: 'assistant', content: 'Use -v.', timestamp: 1717200001000000000, session_id: 's1' },
+    { role: 'user', content: 'Why does my Docker build fail?', timestamp: 1717300000, session_id: 's2' },
+    { role: 'user', content: 'What is a Docker layer?', timestamp: 'not a date', session_id: 's2' },
+  ]
+    .map((record) => JSON.stringify(record))
+    .join('\n');
+
+  const chat = parseChatExport(raw);
+  assert.equal(chat.format, 'jsonl');
+  assert.deepEqual(chat.conversations.map((conversation) => conversation.id), ['s1', 's2']);
+  assert.equal(chat.turns[0].timestamp, '2024-06-01T00:00:00.123Z');
+  assert.equal(chat.turns[1].timestamp, '2024-06-01T00:00:01.000Z');
+  assert.equal(chat.turns[3].timestamp, undefined, 'an unparseable timestamp is left out');
+
+  const topics = clusterChatTopics(chat);
+  assert.equal(topics.clusters.length, 1);
+  const [docker] = topics.clusters;
+  assert.equal(docker.name, 'Docker');
+  assert.equal(docker.questionCount, 3);
+  assert.equal(docker.conversationCount, 2);
+  assert.equal(docker.basicQuestionCount, 2);
+  assert.equal(docker.repeated, true);
+  assert.equal(docker.estimatedLevel, 2);
+  assert.equal(docker.firstAskedAt, '2024-06-01T00:00:00.123Z');
+  assert.equal(docker.lastAskedAt, '2024-06-02T03:46:40.000Z');
+  assert.deepEqual(topics.repeatedTopics, ['Docker']);
+  console.log(`✅ ${topics.summary[0]}\n`);
+}
+
+function testPlainTextFallback() {
+  console.log('Test 5: plain-text transcripts');
+  assert.equal(detectChatExportFormat('User: hi\nAssistant: hello').format, 'text');
+  assert.equal(detectChatExportFormat('{ not json').format, 'text');
+  const chat = parseChatExport('User: How do I use Python decorators?\nAssistant: Like this.');
+  assert.equal(chat.format, 'text');
+  assert.deepEqual(chat.userQuestions.map((question) => question.text), ['How do I use Python decorators?']);
+  console.log('✅ Non-JSON input falls back to the transcript scraper\n');
+}
+
+try {
+  testTimestamps();
+  testChatGptExport();
+  testClaudeExport();
+  testJsonlLogAndClusters();
+  testPlainTextFallback();
+  console.log('✅ Chat export tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,164 @@
+/**
+ * Chunked code review: ranked files are grouped into token-bounded chunks by
+ * module, and the per-chunk reviews are merged into one analysis with
+ * deduplicated findings, weighted scores and a failed chunk lowering confidence.
+ *
+ * Run: npx tsx tests/test-code-review-chunks.ts
+ */
+
+import assert from 'node:assert/strict';
+import type { AgenticCodeAnalysis, CodeSmell } from '@/lib/agents/gap-analyzer';
+import {
+  groupFilesIntoReviewChunks,
+  mergeChunkReviews,
+  moduleForPath,
+  type CodeReviewChunk,
+} from '@/lib/analysis/code-review-chunks';
+
+// estimateTokens counts four characters per token
+const file = (path: string, tokens: number) => ({ path, content: 'x'.repeat(tokens * 4), language: 'TypeScript' });
+
+function testModules() {
+  console.log('Test 1: modules');
+  assert.equal(moduleForPath('lib/analysis/x/y.ts'), 'lib/analysis');
+  assert.equal(moduleForPath('src/index.ts'), 'src');
+  assert.equal(moduleForPath('main.go'), '(root)');
+  console.log('✅ Files group by their top two directories\n');
+}
+
+function testChunking() {
+  console.log('Test 2: chunking');
+  // Ranked order interleaves modules; files of one module stay together
+  const ranked = [
+    file('lib/analysis/a.ts', 1_000),
+    file('app/api/route.ts', 1_000),
+    file('lib/analysis/b.ts', 1_000),
+    file('lib/analysis/c.ts', 2_000),
+  ];
+
+  const chunks = groupFilesIntoReviewChunks(ranked, 2_500);
+  assert.deepEqual(
+    chunks.map(({ index, label, files, tokens }) => ({ index, label, files: files.map((entry) => entry.path), tokens })),
+    [
+      { index: 0, label: 'lib/analysis', files: ['lib/analysis/a.ts', 'lib/analysis/b.ts'], tokens: 2_000 },
+      // A module larger than one chunk spills into the next
+      { index: 1, label: 'lib/analysis', files: ['lib/analysis/c.ts'], tokens: 2_000 },
+      { index: 2, label: 'app/api', files: ['app/api/route.ts'], tokens: 1_000 },
+    ]
+  );
+
+  const shared = groupFilesIntoReviewChunks(ranked.slice(0, 3), 3_000);
+  assert.deepEqual(
+    shared.map((chunk) => chunk.label),
+    ['lib/analysis, app/api'],
+    'small modules share a chunk'
+  );
+
+  const oversized = groupFilesIntoReviewChunks([file('src/huge.ts', 9_000), file('src/small.ts', 100)], 2_500);
+  assert.deepEqual(
+    oversized.map((chunk) => chunk.files.map((entry) => entry.path)),
+    [['src/huge.ts'], ['src/small.ts']],
+    'a file larger than a chunk is reviewed on its own rather than dropped'
+  );
+  assert.deepEqual(groupFilesIntoReviewChunks([]), []);
+  console.log(`✅ ${chunks.length} chunks: ${chunks.map((chunk) => chunk.label).join(' | ')}\n`);
+}
+
+const chunk = (index: number, label: string, tokens: number): CodeReviewChunk => ({
+  index,
+  label,
+  files: [file(`${label}/file${index}.ts`, tokens)],
+  tokens,
+});
+
+const smell = (type: string, severity: CodeSmell['severity'], location: string): CodeSmell => ({
+  type,
+  severity,
+  location,
+  description: `${type} in ${location}`,
+  suggestion: `Fix ${type.toLowerCase()}`,
+});
+
+const analysisReview: AgenticCodeAnalysis = {
+  overallQuality: 80,
+  skillLevel: 'advanced',
+  architecturePatterns: ['Repository pattern', 'Dependency Injection'],
+  codeSmells: [smell('Long function', 'medium', 'lib/analysis/a.ts')],
+  bestPractices: [
+    { name: 'Error handling', implemented: true, importance: 'medium' },
+    { name: 'Input validation', implemented: true, importance: 'low' },
+  ],
+  recommendations: ['Add unit tests', 'Split long functions'],
+  confidence: 0.9,
+};
+
+const apiReview: AgenticCodeAnalysis = {
+  overallQuality: 50,
+  skillLevel: 'intermediate',
+  architecturePatterns: ['repository-pattern'],
+  codeSmells: [smell('long function', 'high', 'lib/analysis/a.ts'), smell('Magic numbers', 'low', 'app/api/route.ts')],
+  bestPractices: [{ name: 'error handling', implemented: false, importance: 'high', suggestion: 'Wrap fetch calls' }],
+  recommendations: ['add unit tests!', 'Use zod for request bodies'],
+  confidence: 0.6,
+};
+
+function testMerge() {
+  console.log('Test 3: merging chunk reviews');
+  const merged = mergeChunkReviews([
+    { chunk: chunk(0, 'lib/analysis', 2_000), analysis: analysisReview },
+    { chunk: chunk(1, 'app/api', 1_000), analysis: apiReview },
+    { chunk: chunk(2, 'lib/storage', 1_000), error: 'Request timed out' },
+  ]);
+
+  // Weighted by tokens x confidence: (80 * 1800 + 50 * 600) / 2400
+  assert.equal(merged.overallQuality, 73);
+  assert.equal(merged.skillLevel, 'advanced');
+  // Token-weighted confidence 0.8, scaled by the 3000 of 4000 tokens reviewed
+  assert.equal(merged.confidence, 0.6);
+
+  assert.deepEqual(merged.architecturePatterns, ['Repository pattern', 'Dependency Injection']);
+  assert.deepEqual(
+    merged.codeSmells.map(({ type, severity, location }) => ({ type, severity, location })),
+    [
+      { type: 'long function', severity: 'high', location: 'lib/analysis/a.ts' },
+      { type: 'Magic numbers', severity: 'low', location: 'app/api/route.ts' },
+    ],
+    'the same smell at the same location keeps its most severe report'
+  );
+  assert.deepEqual(merged.bestPractices, [
+    // One chunk missing the practice makes it a gap, with the stricter importance
+    { name: 'Error handling', implemented: false, importance: 'high', suggestion: 'Wrap fetch calls' },
+    { name: 'Input validation', implemented: true, importance: 'low' },
+  ]);
+  assert.deepEqual(merged.recommendations, ['Add unit tests', 'Split long functions', 'Use zod for request bodies']);
+
+  assert.deepEqual(
+    merged.reviewChunks.map(({ label, status, overallQuality, error }) => ({ label, status, overallQuality, error })),
+    [
+      { label: 'lib/analysis', status: 'completed', overallQuality: 80, error: undefined },
+      { label: 'app/api', status: 'completed', overallQuality: 50, error: undefined },
+      { label: 'lib/storage', status: 'failed', overallQuality: undefined, error: 'Request timed out' },
+    ]
+  );
+  console.log(`✅ Quality ${merged.overallQuality}, confidence ${merged.confidence}, ${merged.codeSmells.length} smells\n`);
+}
+
+function testAllChunksFailed() {
+  console.log('Test 4: every chunk failed');
+  assert.throws(
+    () => mergeChunkReviews([{ chunk: chunk(0, 'src', 500), error: 'Rate limited' }]),
+    /No code review chunks completed/
+  );
+  console.log('✅ A review with no completed chunks is an error, not an empty analysis\n');
+}
+
+try {
+  testModules();
+  testChunking();
+  testMerge();
+  testAllChunksFailed();
+  console.log('✅ Code review chunk tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
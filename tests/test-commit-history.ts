@@ -0,0 +1,138 @@
+/**
+ * Commit history timelines: file changes are attributed to languages and
+ * frameworks, recency nudges skill levels, and sampled histories are scaled
+ * to the size of the full history instead of being penalized.
+ *
+ * Run: npx tsx tests/test-commit-history.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  buildSkillTimeline,
+  calculateTimelineLevelAdjustment,
+  findTimelineEntry,
+} from '@/lib/analysis/commit-history';
+import type { RepositoryCommit } from '@/lib/repository/types';
+
+const now = new Date('2025-06-30T00:00:00Z');
+
+const commit = (sha: string, authoredAt: string, paths: string[]): RepositoryCommit => ({
+  sha,
+  authoredAt,
+  author: 'dev',
+  files: paths.map((path) => ({ path, additions: 10, deletions: 5 })),
+});
+
+function testFullHistory() {
+  console.log('Test 1: full history');
+  const history = buildSkillTimeline(
+    [
+      commit('a1', '2025-06-20T10:00:00Z', ['src/App.tsx', 'src/api.ts']),
+      commit('a2', '2025-05-02T10:00:00Z', ['src/Button.tsx']),
+      commit('a3', '2023-01-15T10:00:00Z', ['scripts/build.py']),
+      commit('a4', '2025-06-01T10:00:00Z', ['node_modules/react/index.js']),
+      commit('a5', 'not a date', ['src/Ignored.tsx']),
+    ],
+    { source: 'local-git', now }
+  );
+
+  assert.equal(history.commitsAnalyzed, 4, 'commits without a valid date are dropped');
+  assert.equal(history.sampled, false);
+  assert.equal(history.firstCommitAt, '2023-01-15T10:00:00.000Z');
+  assert.equal(history.lastCommitAt, '2025-06-20T10:00:00.000Z');
+
+  const react = findTimelineEntry(history, 'react');
+  assert.ok(react, 'expected a React entry from .tsx files');
+  assert.equal(react.kind, 'framework');
+  assert.equal(react.commitCount, 2);
+  assert.equal(react.recentCommitCount, 2);
+  assert.equal(react.linesChanged, 30);
+  assert.deepEqual(react.monthlyActivity, [
+    { month: '2025-05', commits: 1 },
+    { month: '2025-06', commits: 1 },
+  ]);
+
+  // Two commits over two months: recent use, but too few commits for sustained practice
+  assert.equal(react.levelAdjustment, 0);
+  assert.deepEqual(react.adjustmentReasons, [
+    '2 commit(s) in the last 90 days',
+    'Only 2 commit(s) touch this technology',
+  ]);
+
+  const python = findTimelineEntry(history, 'Python');
+  assert.ok(python, 'expected a Python entry from .py files');
+  assert.equal(python.levelAdjustment, -0.7);
+  assert.match(python.adjustmentReasons[0], /^Not used in over a year/);
+
+  assert.ok(
+    history.fileChurn?.every((entry) => !entry.path.startsWith('node_modules/')),
+    'vendored files are not counted as churn'
+  );
+  console.log(`✅ ${history.timeline.map((entry) => `${entry.technology}: ${entry.commitCount}`).join(', ')}\n`);
+}
+
+function testSampledHistory() {
+  console.log('Test 2: sampled history is scaled, not penalized');
+  const sample = [
+    commit('b1', '2025-06-25T10:00:00Z', ['src/App.tsx']),
+    commit('b2', '2025-06-10T10:00:00Z', ['src/App.tsx']),
+  ];
+
+  const unscaled = buildSkillTimeline(sample, { source: 'github-api', now });
+  const sampled = buildSkillTimeline(sample, { source: 'github-api', sampled: true, listedCommitCount: 100, now });
+  const react = findTimelineEntry(sampled, 'React');
+  assert.ok(react);
+
+  // 2 detailed commits out of 100 listed: every detailed commit stands for 50
+  assert.equal(sampled.sampled, true);
+  assert.equal(sampled.commitsAnalyzed, 2);
+  assert.equal(react.commitCount, 100);
+  assert.equal(react.recentCommitCount, 100);
+  assert.equal(react.levelAdjustment, 0.2);
+  assert.deepEqual(react.adjustmentReasons, ['~100 commit(s) in the last 90 days']);
+
+  // The same commits read as a full history are a rarely touched technology
+  assert.equal(findTimelineEntry(unscaled, 'React')?.levelAdjustment, 0);
+
+  // A sampled history without a listed count is not scaled, but still skips the low-count penalty
+  const unknownSize = findTimelineEntry(buildSkillTimeline(sample, { source: 'github-api', sampled: true, now }), 'React');
+  assert.equal(unknownSize?.commitCount, 2);
+  assert.equal(unknownSize?.levelAdjustment, 0.2);
+  console.log(`✅ Scaled ${sample.length} sampled commits to ${react.commitCount}\n`);
+}
+
+function testLevelAdjustment() {
+  console.log('Test 3: level adjustment thresholds');
+  const sustained = calculateTimelineLevelAdjustment({
+    commitCount: 40,
+    activeMonths: 14,
+    daysSinceLastSeen: 3,
+    recentCommitCount: 6,
+  });
+  assert.equal(sustained.adjustment, 0.5);
+
+  const stale = calculateTimelineLevelAdjustment({
+    commitCount: 1,
+    activeMonths: 1,
+    daysSinceLastSeen: 200,
+    recentCommitCount: 0,
+  });
+  assert.equal(stale.adjustment, -0.4);
+
+  const staleSampled = calculateTimelineLevelAdjustment(
+    { commitCount: 1, activeMonths: 1, daysSinceLastSeen: 200, recentCommitCount: 0 },
+    { sampled: true }
+  );
+  assert.equal(staleSampled.adjustment, -0.2);
+  console.log('✅ Recency, sustained use and low-count penalties add up as expected\n');
+}
+
+try {
+  testFullHistory();
+  testSampledHistory();
+  testLevelAdjustment();
+  console.log('✅ Commit history tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,241 @@
+/**
+ * Dependency health: package-lock, pnpm-lock and yarn.lock files are parsed
+ * into pinned versions and checked against a small inline OSV advisory
+ * dataset, including versions just inside and just outside affected ranges.
+ *
+ * Run: npx tsx tests/test-dependency-health.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  assessDependencyHealth,
+  compareVersions,
+  isLockfilePath,
+  parseLockfile,
+  type DependencyAdvisoryDataset,
+} from '@/lib/analysis/dependency-health';
+
+const packageLock = {
+  path: 'package-lock.json',
+  content: JSON.stringify({
+    name: 'app',
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'app', version: '1.0.0' },
+      'node_modules/lodash': { version: '4.17.20' },
+      'node_modules/minimist': { version: '1.2.6' },
+      'node_modules/@scope/pkg': { version: '2.0.0' },
+      'node_modules/local-lib': { resolved: 'packages/local-lib', link: true },
+      'node_modules/mkdirp/node_modules/minimist': { version: '1.2.5' },
+    },
+  }),
+};
+
+const pnpmLock = {
+  path: 'services/api/pnpm-lock.yaml',
+  content: [
+    "lockfileVersion: '9.0'",
+    '',
+    'importers:',
+    '  .:',
+    '    dependencies:',
+    '      express:',
+    '        specifier: ^4.17.1',
+    '        version: 4.17.1',
+    '',
+    'packages:',
+    '',
+    '  express@4.17.1:',
+    '    resolution: {integrity: sha512-abc}',
+    '',
+    "  '@babel/core@7.24.0':",
+    '    resolution: {integrity: sha512-def}',
+    '',
+    '  /semver@7.5.1(typescript@5.4.0):',
+    '    resolution: {integrity: sha512-ghi}',
+    '',
+    'snapshots:',
+    '',
+    '  express@4.17.1: {}',
+    '',
+  ].join('\n'),
+};
+
+const yarnLock = {
+  path: 'web/yarn.lock',
+  content: [
+    '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+    '# yarn lockfile v1',
+    '',
+    '"axios@^0.21.0", axios@^0.21.1:',
+    '  version "0.21.1"',
+    '  resolved "https://registry.yarnpkg.com/axios/-/axios-0.21.1.tgz"',
+    '',
+    'minimist@^1.2.0:',
+    '  version "1.2.6"',
+    '',
+  ].join('\n'),
+};
+
+const dataset: DependencyAdvisoryDataset = {
+  advisories: [
+    {
+      id: 'GHSA-lodash',
+      summary: 'Command injection in lodash template',
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'lodash' },
+          ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }],
+          database_specific: { severity: 'HIGH' },
+        },
+      ],
+    },
+    {
+      id: 'GHSA-minimist',
+      summary: 'Prototype pollution in minimist',
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'minimist' },
+          ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '1.2.6' }] }],
+          database_specific: { severity: 'MODERATE' },
+        },
+      ],
+    },
+    {
+      id: 'GHSA-axios',
+      summary: 'Server-side request forgery in axios',
+      severity: [{ type: 'CVSS_V3', score: '7.5' }],
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'axios' },
+          ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '0.8.1' }, { fixed: '0.21.2' }] }],
+        },
+      ],
+    },
+    {
+      id: 'GHSA-express',
+      summary: 'Open redirect in express',
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'express' },
+          ranges: [{ type: 'SEMVER', events: [{ introduced: '4.17.2' }, { fixed: '4.18.0' }] }],
+          database_specific: { severity: 'MEDIUM' },
+        },
+      ],
+    },
+    {
+      id: 'GHSA-semver',
+      summary: 'ReDoS in semver',
+      affected: [
+        {
+          package: { ecosystem: 'npm', name: 'semver' },
+          ranges: [
+            { type: 'SEMVER', events: [{ introduced: '7.0.0' }, { last_affected: '7.5.1' }] },
+            // Commit ranges need git history and are never evaluated
+            { type: 'GIT', events: [{ introduced: '0' }] },
+          ],
+          database_specific: { severity: 'LOW' },
+        },
+      ],
+    },
+  ],
+  releases: [
+    { ecosystem: 'npm', name: 'express', latest: '5.1.0' },
+    { ecosystem: 'npm', name: 'lodash', latest: '4.17.21' },
+    { ecosystem: 'npm', name: '@babel/core', latest: '7.26.0' },
+  ],
+};
+
+const pinned = (file: { path: string; content: string }) =>
+  parseLockfile(file).map((pkg) => `${pkg.name}@${pkg.version}`);
+
+function testVersionComparison() {
+  console.log('Test 1: version comparison');
+  assert.ok(compareVersions('1.2.10', '1.2.9') > 0);
+  assert.ok(compareVersions('2.0.0-rc.1', '2.0.0') < 0, 'pre-releases sort before the release');
+  assert.ok(compareVersions('1.0.dev1', '1.0') < 0, 'PEP 440 dev releases sort before the release');
+  assert.equal(compareVersions('3.2', '3.2.0'), 0);
+  assert.equal(compareVersions('v1.4.0', '1.4.0'), 0);
+  console.log('✅ Semver, PEP 440 and Go versions compare consistently\n');
+}
+
+function testLockfileParsing() {
+  console.log('Test 2: lockfile parsing');
+  assert.equal(isLockfilePath('services/api/pnpm-lock.yaml'), true);
+  assert.equal(isLockfilePath('node_modules/some-package/yarn.lock'), false, 'vendored lockfiles are ignored');
+  assert.equal(isLockfilePath('package.json'), false);
+
+  // Linked workspace packages have no registry version
+  assert.deepEqual(pinned(packageLock), [
+    'lodash@4.17.20',
+    'minimist@1.2.6',
+    '@scope/pkg@2.0.0',
+    'minimist@1.2.5',
+  ]);
+  // Snapshot entries repeat the packages and are not counted twice
+  assert.deepEqual(pinned(pnpmLock), ['express@4.17.1', '@babel/core@7.24.0', 'semver@7.5.1']);
+  assert.deepEqual(pinned(yarnLock), ['axios@0.21.1', 'minimist@1.2.6']);
+  assert.deepEqual(parseLockfile({ path: 'package-lock.json', content: '{ truncated' }), []);
+  console.log('✅ package-lock, pnpm-lock and yarn.lock pin the expected versions\n');
+}
+
+function testAdvisoryMatching() {
+  console.log('Test 3: advisory ranges');
+  const report = assessDependencyHealth([packageLock, pnpmLock, yarnLock], dataset);
+
+  assert.deepEqual(report.lockfiles, ['package-lock.json', 'services/api/pnpm-lock.yaml', 'web/yarn.lock']);
+  assert.equal(report.packageCount, 8, 'minimist@1.2.6 pinned by two lockfiles counts once');
+  assert.equal(report.advisoriesChecked, 5);
+
+  assert.deepEqual(
+    report.vulnerable.map(({ name, version, severity, advisories }) => ({
+      name,
+      version,
+      severity,
+      fixedIn: advisories[0].fixedIn,
+    })),
+    [
+      // CVSS 7.5 without a severity label is high
+      { name: 'axios', version: '0.21.1', severity: 'high', fixedIn: '0.21.2' },
+      // Just below the fixed version
+      { name: 'lodash', version: '4.17.20', severity: 'high', fixedIn: '4.17.21' },
+      { name: 'minimist', version: '1.2.5', severity: 'medium', fixedIn: '1.2.6' },
+      // last_affected is inclusive
+      { name: 'semver', version: '7.5.1', severity: 'low', fixedIn: undefined },
+    ]
+  );
+  const vulnerableIds = report.vulnerable.map((pkg) => `${pkg.name}@${pkg.version}`);
+  assert.equal(vulnerableIds.includes('minimist@1.2.6'), false, 'the fixed version itself is not affected');
+  assert.equal(vulnerableIds.includes('express@4.17.1'), false, 'a version below `introduced` is not affected');
+  console.log(`✅ Vulnerable: ${vulnerableIds.join(', ')}\n`);
+}
+
+function testOutdatedAndScore() {
+  console.log('Test 4: outdated packages and score');
+  const report = assessDependencyHealth([packageLock, pnpmLock, yarnLock], dataset);
+
+  // Only a major version behind counts; lodash and @babel/core are behind on patch and minor
+  assert.deepEqual(
+    report.outdated.map(({ name, latest, majorsBehind, deprecated }) => ({ name, latest, majorsBehind, deprecated })),
+    [{ name: 'express', latest: '5.1.0', majorsBehind: 1, deprecated: false }]
+  );
+  // 100 - (15 + 15 + 7 + 3) for advisories - (1 / 8 outdated) * 90
+  assert.equal(report.score, 49);
+
+  const unchecked = assessDependencyHealth([packageLock]);
+  assert.equal(unchecked.advisoriesChecked, 0);
+  assert.deepEqual(unchecked.vulnerable, []);
+  assert.equal(unchecked.score, 100, 'without a dataset nothing is flagged');
+  console.log(`✅ Score ${report.score}/100 with ${report.vulnerable.length} vulnerable and ${report.outdated.length} outdated\n`);
+}
+
+try {
+  testVersionComparison();
+  testLockfileParsing();
+  testAdvisoryMatching();
+  testOutdatedAndScore();
+  console.log('✅ Dependency health tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,166 @@
+/**
+ * Review file selection: ignored, vendored, generated and test files never
+ * become candidates, read files are ranked by import centrality and churn,
+ * and the ranked files are packed into the token budget without exceeding it.
+ *
+ * Run: npx tsx tests/test-file-selection.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_REVIEW_TOKEN_BUDGET,
+  buildImportGraph,
+  estimateTokens,
+  listSelectionCandidates,
+  packFilesIntoBudget,
+  rankFiles,
+  resolveReviewTokenBudget,
+  selectFilesForReview,
+  type RankedFile,
+} from '@/lib/analysis/file-selection';
+
+const tree = [
+  { path: 'src/index.ts', size: 800 },
+  { path: 'src/utils/format.ts', size: 400 },
+  { path: 'lib/db.ts', size: 600 },
+  { path: 'scripts/seed.ts', size: 300 },
+  // Everything below is excluded
+  { path: 'src/utils/format.test.ts', size: 500 },
+  { path: 'node_modules/react/index.js', size: 900 },
+  { path: 'vendor/github.com/acme/client/client.go', size: 900 },
+  { path: 'dist/app.min.js', size: 900 },
+  { path: 'src/types.d.ts', size: 200 },
+  { path: 'db/migrations/0001_initial.py', size: 700 },
+  { path: 'src/fixtures.ts', size: 300_000 },
+  { path: 'src/empty.ts', size: 0 },
+  { path: 'README.md', size: 1_000 },
+];
+
+const sources = [
+  {
+    path: 'src/index.ts',
+    content: "import { format } from './utils/format';\nimport { db } from '@/lib/db';\nimport React from 'react';\n",
+  },
+  { path: 'src/api.ts', content: "import { format } from './utils/format';\nimport { db } from '../lib/db.js';\n" },
+  { path: 'src/utils/format.ts', content: 'export const format = (value: string) => value.trim();\n' },
+  { path: 'lib/db.ts', content: "import { format } from '../src/utils/format';\nexport const db = {};\n" },
+];
+const treePaths = sources.map((file) => file.path);
+
+function testCandidates() {
+  console.log('Test 1: candidate listing');
+  const candidates = listSelectionCandidates(tree);
+  // Entry points and conventional code roots first, deeper paths later
+  assert.deepEqual(candidates, ['src/index.ts', 'lib/db.ts', 'src/utils/format.ts', 'scripts/seed.ts']);
+
+  const withChurn = listSelectionCandidates(tree, {
+    churn: [{ path: 'src/utils/format.ts', commits: 15, linesChanged: 300 }],
+    limit: 2,
+  });
+  assert.deepEqual(withChurn, ['src/utils/format.ts', 'src/index.ts'], 'frequently changed files move up');
+
+  const python = listSelectionCandidates([...tree, { path: 'app/main.py', size: 500 }], { languages: ['Python'] });
+  assert.deepEqual(python, ['app/main.py'], 'the preferred language narrows the pool when it has files');
+  console.log(`✅ Candidates: ${candidates.join(', ')}\n`);
+}
+
+function testImportGraphAndRanking() {
+  console.log('Test 2: import graph and ranking');
+  const graph = buildImportGraph(sources, treePaths);
+
+  // Package imports are ignored; ESM .js specifiers resolve to the TypeScript source
+  assert.deepEqual(graph.imports['src/index.ts'], ['src/utils/format.ts', 'lib/db.ts']);
+  assert.deepEqual(graph.imports['src/api.ts'], ['src/utils/format.ts', 'lib/db.ts']);
+  assert.deepEqual(graph.importedBy['src/utils/format.ts'], ['src/index.ts', 'src/api.ts', 'lib/db.ts']);
+  assert.deepEqual(graph.importedBy['lib/db.ts'], ['src/index.ts', 'src/api.ts']);
+
+  const ranked = rankFiles(treePaths, graph, [{ path: 'src/api.ts', commits: 4, linesChanged: 80 }]);
+  // centrality 0.45, hub 0.15, churn 0.25 and entry point 0.15 of the score
+  assert.deepEqual(
+    ranked.map(({ path, score }) => [path, score]),
+    [
+      ['src/utils/format.ts', 0.45],
+      ['src/api.ts', 0.4],
+      ['src/index.ts', 0.3],
+      ['lib/db.ts', 0.233],
+    ]
+  );
+  assert.equal(ranked[0].centrality, 1, 'the most imported file is the most central');
+  assert.equal(ranked[1].churn, 1, 'the busiest file has full churn');
+  assert.deepEqual(ranked[0].reasons, ['Imported by 3 file(s)']);
+  assert.deepEqual(ranked.find((file) => file.path === 'src/index.ts')?.reasons, ['Imports 2 project file(s)', 'Entry point']);
+  assert.ok(ranked.every((file, index) => index === 0 || ranked[index - 1].score >= file.score));
+  console.log(`✅ Ranking: ${ranked.map((file) => `${file.path} (${file.score})`).join(', ')}\n`);
+}
+
+const rankedFile = (path: string): RankedFile => ({
+  path,
+  score: 0.5,
+  centrality: 0,
+  churn: 0,
+  importedBy: 0,
+  imports: 0,
+  entryPoint: false,
+  reasons: [],
+});
+
+// Forty-character lines: 39 characters plus the newline
+const lines = (count: number) => Array.from({ length: count }, (_, index) => `line ${index}`.padEnd(39, '.')).join('\n');
+
+function testBudget() {
+  console.log('Test 3: token budget');
+  const contents = new Map([
+    ['a.ts', 'a'.repeat(1_200)],
+    ['b.ts', lines(90)],
+    ['c.ts', 'c'.repeat(1_600)],
+    ['d.ts', 'd'.repeat(400)],
+    ['blank.ts', '   \n'],
+  ]);
+  assert.equal(estimateTokens(contents.get('b.ts')!), 900);
+
+  const packed = packFilesIntoBudget(['a.ts', 'b.ts', 'c.ts', 'blank.ts', 'd.ts'].map(rankedFile), contents, 1_000);
+
+  assert.deepEqual(
+    packed.files.map(({ path, tokens, truncated }) => ({ path, tokens, truncated })),
+    [
+      { path: 'a.ts', tokens: 300, truncated: false },
+      // No file may take more than half the budget; the cut lands on a line boundary
+      { path: 'b.ts', tokens: 500, truncated: true },
+      { path: 'd.ts', tokens: 100, truncated: false },
+    ]
+  );
+  assert.ok(packed.files[1].content.endsWith('.'), 'truncated content ends on a whole line');
+  // c.ts would have to be cut below the minimum useful size, so it is skipped; smaller files still fit
+  assert.deepEqual(packed.skipped, ['c.ts']);
+  assert.equal(packed.tokensUsed, 900);
+  assert.ok(packed.tokensUsed <= 1_000);
+  console.log(`✅ ${packed.tokensUsed} of 1000 tokens used, skipped ${packed.skipped.join(', ')}\n`);
+}
+
+function testSelectFilesForReview() {
+  console.log('Test 4: end-to-end selection');
+  const result = selectFilesForReview(sources, { treePaths, tokenBudget: 2_000 });
+  assert.equal(result.tokenBudget, 2_000);
+  assert.equal(result.candidatesConsidered, 4);
+  assert.equal(result.files[0].path, 'src/utils/format.ts');
+  assert.equal(result.files[0].language, 'TypeScript');
+  assert.ok(result.tokensUsed <= result.tokenBudget);
+
+  assert.equal(resolveReviewTokenBudget('8000'), 8_000);
+  assert.equal(resolveReviewTokenBudget(2_500.7), 2_500);
+  assert.equal(resolveReviewTokenBudget('lots'), DEFAULT_REVIEW_TOKEN_BUDGET);
+  assert.equal(resolveReviewTokenBudget(-5), DEFAULT_REVIEW_TOKEN_BUDGET);
+  assert.equal(resolveReviewTokenBudget(undefined), DEFAULT_REVIEW_TOKEN_BUDGET);
+  console.log(`✅ Selected ${result.files.map((file) => file.path).join(', ')}\n`);
+}
+
+try {
+  testCandidates();
+  testImportGraphAndRanking();
+  testBudget();
+  testSelectFilesForReview();
+  console.log('✅ File selection tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,160 @@
+/**
+ * Git practices: commit subjects are classified as imperative and
+ * conventional, and message, size, branching, signing and release factors
+ * are weighted into the version control score, leaving out what a source
+ * cannot measure.
+ *
+ * Run: npx tsx tests/test-git-practices.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  assessGitPractices,
+  isConventionalSubject,
+  isImperativeSubject,
+  type GitPracticeCommit,
+} from '@/lib/analysis/git-practices';
+
+function testImperativeSubjects() {
+  console.log('Test 1: imperative subjects');
+  ['Add login form', 'fix(ui): update styles', 'feat!: drop Node 16', 'Handle empty carts', 'wip', ''].forEach((subject) =>
+    assert.equal(isImperativeSubject(subject), true, subject)
+  );
+  // Past tense, gerunds and third person, with or without a conventional prefix
+  ['Added login form', 'Adding login form', 'Adds login form', 'Fixes #12', 'fix(ui): updated styles', 'chore: bumping deps', 'Exceeded quota'].forEach(
+    (subject) => assert.equal(isImperativeSubject(subject), false, subject)
+  );
+  // Verbs that merely end in -ed or -ing
+  ['Embed fonts', 'Seed demo data', 'Speed up the build', 'Need a retry', 'Bring back dark mode', 'String helpers', 'Ping the health check'].forEach(
+    (subject) => assert.equal(isImperativeSubject(subject), true, subject)
+  );
+  console.log('✅ Past tense, gerunds and third person are not imperative; listed -ed/-ing verbs are\n');
+}
+
+function testConventionalSubjects() {
+  console.log('Test 2: conventional subjects');
+  ['feat(api): add pagination', 'Fix: handle nulls', 'chore!: drop Node 16', 'tests: cover parser', 'revert: undo cache'].forEach(
+    (subject) => assert.equal(isConventionalSubject(subject), true, subject)
+  );
+  ['feature: add pagination', 'fix:missing space', 'wip: stuff', 'Add pagination', 'fix(): empty scope'].forEach((subject) =>
+    assert.equal(isConventionalSubject(subject), false, subject)
+  );
+  console.log('✅ Only the standard Conventional Commits types count\n');
+}
+
+const commit = (sha: string, message: string, extra: Partial<GitPracticeCommit> = {}): GitPracticeCommit => ({
+  sha,
+  message,
+  authoredAt: '2025-06-01T10:00:00Z',
+  ...extra,
+});
+
+function testGitHubAssessment() {
+  console.log('Test 3: assessment with every signal');
+  const analysis = assessGitPractices(
+    [
+      commit('m1', 'Merge pull request #3 from acme/coupons', { isMerge: true }),
+      commit('a1', 'feat(cart): add coupon codes\n\nCoupons apply before tax so totals match invoices.', { linesChanged: 120, signed: true }),
+      commit('a2', 'fix: handle empty carts', { linesChanged: 40, signed: true }),
+      commit('a3', 'Added checkout page', { linesChanged: 800, signed: false }),
+      commit('a4', 'wip', { linesChanged: 10, signed: true }),
+      // A trailer is not a body; size and signature unknown
+      commit('a5', 'docs: update readme\n\nSigned-off-by: Dev <dev@example.com>'),
+    ],
+    {
+      branches: 3,
+      pullRequests: { total: 6, merged: 5 },
+      tags: ['v1.0.0', 'v1.1.0', 'web@2.0.0', 'release-candidate'],
+      releases: 2,
+    },
+    { source: 'github-api', includesMerges: true }
+  );
+  assert.ok(analysis);
+
+  assert.equal(analysis.commitsAnalyzed, 5, 'merge commits are not scored as authored commits');
+  assert.deepEqual(analysis.messages, {
+    conventionalShare: 0.6,
+    imperativeShare: 0.8,
+    averageSubjectLength: 18,
+    longSubjectShare: 0,
+    vagueShare: 0.2,
+    withBodyShare: 0.2,
+  });
+  assert.deepEqual(analysis.commitSize, { commitsMeasured: 4, medianLines: 120, p90Lines: 800, largeShare: 0.25 });
+  assert.equal(analysis.signedShare, 0.75);
+  assert.equal(analysis.branching.mergeCommitShare, 0.17);
+  assert.deepEqual(analysis.releases, { tags: 4, semverTags: 3, releases: 2 });
+
+  assert.deepEqual(
+    analysis.factors.map(({ id, score, weight }) => ({ id, score, weight })),
+    [
+      // 0.3 conventional + 0.3 imperative + 0.25 (1 - vague) + 0.15 body (doubled, capped at 1)
+      { id: 'messages', score: 68, weight: 30 },
+      { id: 'commit-size', score: 75, weight: 15 },
+      // 0.4 for 2-3 branches at half credit, 0.6 for 5+ pull requests
+      { id: 'branching', score: 80, weight: 25 },
+      { id: 'signing', score: 75, weight: 10 },
+      // Three semver tags plus published releases
+      { id: 'releases', score: 100, weight: 20 },
+    ]
+  );
+  assert.equal(analysis.score, 79);
+  assert.equal(analysis.level, 4.2);
+
+  assert.deepEqual(analysis.strengths, [
+    '60% of commits follow Conventional Commits',
+    'Commit subjects consistently use the imperative mood',
+    '6 pull requests show a branch-and-review workflow',
+    '3 semantic version tag(s) and 2 published release(s)',
+  ]);
+  assert.deepEqual(analysis.recommendations, [
+    'Split large commits (25% change over 500 lines) into focused, reviewable steps',
+  ]);
+  console.log(`✅ Score ${analysis.score}/100, level ${analysis.level}\n`);
+}
+
+function testLocalAssessment() {
+  console.log('Test 4: assessment without unmeasurable signals');
+  const analysis = assessGitPractices(
+    [commit('a1', 'Add parser', { linesChanged: 20 }), commit('a2', 'Add tests for parser', { linesChanged: 30 })],
+    { branches: 1, pullRequests: null, tags: [], releases: null },
+    { source: 'local-git', includesMerges: false }
+  );
+  assert.ok(analysis);
+
+  // No signatures were read, so signing is left out rather than scored zero
+  assert.deepEqual(
+    analysis.factors.map(({ id, score }) => [id, score]),
+    [
+      ['messages', 55],
+      ['commit-size', 100],
+      ['branching', 0],
+      ['releases', 0],
+    ]
+  );
+  assert.equal(analysis.signedShare, null);
+  assert.equal(analysis.branching.mergeCommitShare, null, 'git log without merges cannot measure merge commits');
+  // (55 * 30 + 100 * 15) / 90 of the remaining weight
+  assert.equal(analysis.score, 35);
+
+  assert.equal(
+    assessGitPractices([commit('m1', 'Merge branch main', { isMerge: true }), commit('e1', '  ')], { branches: null, pullRequests: null, tags: null, releases: null }, {
+      source: 'local-git',
+      includesMerges: true,
+    }),
+    null,
+    'nothing to score without authored commit messages'
+  );
+  console.log(`✅ Score ${analysis.score}/100 over ${analysis.factors.length} factors\n`);
+}
+
+try {
+  testImperativeSubjects();
+  testConventionalSubjects();
+  testGitHubAssessment();
+  testLocalAssessment();
+  console.log('✅ Git practices tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,114 @@
+/**
+ * Manifest detection: frameworks and tools are read from every manifest in a
+ * repository tree, never from other files, and vendored manifests are skipped.
+ *
+ * Run: npx tsx tests/test-manifest-detection.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  detectTechnologiesFromManifests,
+  detectToolsFromPaths,
+  isManifestPath,
+  parseManifest,
+} from '@/lib/analysis/manifest-detection';
+
+const files = [
+  {
+    path: 'package.json',
+    content: JSON.stringify({
+      dependencies: { next: '15.1.0', react: '^19.0.0' },
+      devDependencies: { typescript: '5.6.0', jest: '29' },
+    }),
+  },
+  { path: 'apps/web/package.json', content: JSON.stringify({ dependencies: { react: '18.2.0' } }) },
+  { path: 'node_modules/vue/package.json', content: JSON.stringify({ dependencies: { vue: '3.4.0' } }) },
+  { path: 'services/api/requirements.txt', content: 'django==4.2.1\n# pinned for the ORM\nnumpy>=1.26\n-r base.txt\n' },
+  { path: 'services/api/pyproject.toml', content: '[project]\ndependencies = ["fastapi>=0.110"]\n' },
+  { path: 'go.mod', content: 'module example.com/app\n\ngo 1.22\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n)\n' },
+  { path: 'build.gradle', content: "plugins {\n  id 'org.springframework.boot' version '3.2.0'\n}\n" },
+  // Prose that names a framework must not count as using it
+  { path: 'README.md', content: 'Built with Vue and Django' },
+];
+
+function testManifestPaths() {
+  console.log('Test 1: manifest paths');
+  assert.equal(isManifestPath('package.json'), true);
+  assert.equal(isManifestPath('apps/web/package.json'), true);
+  assert.equal(isManifestPath('services/api/requirements.txt'), true);
+  assert.equal(isManifestPath('node_modules/vue/package.json'), false);
+  assert.equal(isManifestPath('README.md'), false);
+  console.log('✅ Nested manifests are found, vendored ones and other files are not\n');
+}
+
+function testParseManifest() {
+  console.log('Test 2: package.json dependencies');
+  const dependencies = parseManifest(files[0]);
+  assert.deepEqual(
+    dependencies.map(({ name, version, dev }) => ({ name, version, dev })),
+    [
+      { name: 'next', version: '15.1.0', dev: false },
+      { name: 'react', version: '^19.0.0', dev: false },
+      { name: 'typescript', version: '5.6.0', dev: true },
+      { name: 'jest', version: '29', dev: true },
+    ]
+  );
+  assert.ok(dependencies.every((dependency) => dependency.ecosystem === 'npm'));
+  console.log('✅ Runtime and dev dependencies keep their versions\n');
+}
+
+function testDetectTechnologies() {
+  console.log('Test 3: frameworks and tools across the tree');
+  const result = detectTechnologiesFromManifests(files);
+  const frameworks = new Map(result.frameworks.map((framework) => [framework.name, framework]));
+
+  assert.deepEqual(result.manifests, [
+    'package.json',
+    'apps/web/package.json',
+    'services/api/requirements.txt',
+    'services/api/pyproject.toml',
+    'go.mod',
+    'build.gradle',
+  ]);
+  ['Next.js', 'React', 'Django', 'FastAPI', 'Gin', 'Spring Boot'].forEach((name) => {
+    assert.ok(frameworks.has(name), `expected ${name} to be detected`);
+  });
+  assert.equal(frameworks.has('Vue.js'), false, 'vendored and README mentions must not be detected');
+
+  // The first declared version wins; every manifest that declares it is a source
+  assert.equal(frameworks.get('React')?.version, '^19.0.0');
+  assert.deepEqual(frameworks.get('React')?.sources, ['package.json', 'apps/web/package.json']);
+  assert.equal(frameworks.get('Django')?.version, '==4.2.1');
+  assert.deepEqual(frameworks.get('Gin')?.packages, ['github.com/gin-gonic/gin']);
+
+  assert.deepEqual(
+    result.tools.map((tool) => tool.name),
+    ['typescript', 'jest']
+  );
+  console.log(`✅ Frameworks: ${result.frameworks.map((framework) => framework.name).join(', ')}\n`);
+}
+
+function testToolsFromPaths() {
+  console.log('Test 4: tools from file paths');
+  const tools = detectToolsFromPaths([
+    'Dockerfile',
+    '.github/workflows/ci.yml',
+    'infra/main.tf',
+    'k8s/deploy.yaml',
+    'node_modules/some-package/Dockerfile',
+    'src/index.ts',
+  ]);
+  assert.deepEqual(tools, ['docker', 'github actions', 'terraform', 'kubernetes']);
+  console.log(`✅ Tools: ${tools.join(', ')}\n`);
+}
+
+try {
+  testManifestPaths();
+  testParseManifest();
+  testDetectTechnologies();
+  testToolsFromPaths();
+  console.log('✅ Manifest detection tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
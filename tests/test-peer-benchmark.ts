@@ -0,0 +1,144 @@
+/**
+ * Peer benchmarking: a repository's cohort (language, defining framework and
+ * size band) becomes a GitHub search query, and each metric is ranked as a
+ * percentile among the peers that report it, ties counting as half.
+ *
+ * Run: npx tsx tests/test-peer-benchmark.ts
+ */
+
+import assert from 'node:assert/strict';
+import type { QualityMetrics } from '@/lib/agents/gap-analyzer';
+import {
+  buildPeerCohort,
+  buildPeerSearchQuery,
+  extractBenchmarkMetrics,
+  percentileRank,
+  rankAgainstPeers,
+  sizeBandFor,
+} from '@/lib/analysis/peer-benchmark';
+
+function testPercentileRank() {
+  console.log('Test 1: percentile rank');
+  assert.equal(percentileRank(70, [50, 60, 70, 70, 80]), 60, 'two below plus half of two ties');
+  assert.equal(percentileRank(70, [70, 70, 70]), 50, 'all ties sit in the middle');
+  assert.equal(percentileRank(95, [10, 20]), 100);
+  assert.equal(percentileRank(5, [10, 20]), 0);
+  assert.equal(percentileRank(42, []), 50, 'no peers is neither ahead nor behind');
+  console.log('✅ Ties count as half; no peers defaults to the 50th percentile\n');
+}
+
+function testCohortQuery() {
+  console.log('Test 2: cohort and search query');
+  assert.equal(sizeBandFor(499).band, 'tiny');
+  assert.equal(sizeBandFor(500).band, 'small', 'band bounds are inclusive at the bottom');
+  assert.equal(sizeBandFor(250_000).band, 'large');
+
+  // Runtimes and build tools do not define the kind of project
+  const nextApp = buildPeerCohort({ languages: ['TypeScript', 'CSS'], frameworks: ['Node.js', 'Next.js'], sizeKb: 1_200 });
+  assert.deepEqual(nextApp, {
+    language: 'TypeScript',
+    framework: 'Next.js',
+    sizeBand: 'small',
+    sizeRangeKb: { min: 500, max: 5_000 },
+    label: 'Next.js apps of this size',
+  });
+  assert.equal(
+    buildPeerSearchQuery(nextApp!),
+    '"Next.js" in:name,description,readme,topics language:"TypeScript" size:500..5000 fork:false archived:false stars:>=5'
+  );
+
+  const goService = buildPeerCohort({ languages: ['Go'], frameworks: ['Go Modules'], sizeKb: 80_000 });
+  assert.equal(goService?.framework, null);
+  assert.equal(goService?.label, 'Go repositories of this size');
+  assert.equal(buildPeerSearchQuery(goService!), 'language:"Go" size:>=50000 fork:false archived:false stars:>=5');
+
+  assert.equal(buildPeerCohort({ languages: [], frameworks: ['React'], sizeKb: 100 }), null);
+  console.log(`✅ ${buildPeerSearchQuery(nextApp!)}\n`);
+}
+
+function testExtractMetrics() {
+  console.log('Test 3: comparable metrics');
+  const metrics = {
+    overallQuality: { score: 72 },
+    readmeQuality: { score: 64 },
+    codeQuality: {
+      score: 80,
+      staticMetrics: {
+        breakdown: [
+          { id: 'complexity', label: 'Function complexity', score: 90, weight: 0.2 },
+          { id: 'type-coverage', label: 'Type annotation coverage', score: 0, weight: 0 },
+        ],
+      },
+    },
+  } as unknown as QualityMetrics;
+
+  assert.deepEqual(extractBenchmarkMetrics(metrics), [
+    { id: 'overall', label: 'Overall quality', value: 72 },
+    { id: 'readme', label: 'README quality', value: 64 },
+    { id: 'code', label: 'Code quality', value: 80 },
+    { id: 'complexity', label: 'Function complexity', value: 90 },
+  ]);
+  console.log('✅ Static metrics that do not apply are not compared\n');
+}
+
+function testRankAgainstPeers() {
+  console.log('Test 4: ranking against peers');
+  const cohort = buildPeerCohort({ languages: ['TypeScript'], frameworks: ['Next.js'], sizeKb: 1_200 })!;
+  const positions = rankAgainstPeers(
+    cohort,
+    [
+      { id: 'overall', label: 'Overall quality', value: 70 },
+      { id: 'type-coverage', label: 'Type annotation coverage', value: 90 },
+      { id: 'readme', label: 'README quality', value: 40 },
+    ],
+    [
+      [
+        { id: 'overall', label: 'Overall quality', value: 50 },
+        { id: 'readme', label: 'README quality', value: 40 },
+      ],
+      [
+        { id: 'overall', label: 'Overall quality', value: 80 },
+        { id: 'readme', label: 'README quality', value: 60 },
+      ],
+      [{ id: 'overall', label: 'Overall quality', value: 70 }],
+    ]
+  );
+
+  // No peer reports type coverage, so it is left out rather than ranked against nothing
+  assert.deepEqual(
+    positions.map(({ id, peerCount, peerMedian, percentile }) => ({ id, peerCount, peerMedian, percentile })),
+    [
+      { id: 'overall', peerCount: 3, peerMedian: 70, percentile: 50 },
+      { id: 'readme', peerCount: 2, peerMedian: 50, percentile: 25 },
+    ]
+  );
+  assert.equal(
+    positions[0].summary,
+    'Overall quality is in the 50th percentile for Next.js apps of this size (70 vs. peer median 70, 3 peers)'
+  );
+  assert.equal(
+    positions[1].summary,
+    'README quality is in the 25th percentile for Next.js apps of this size (40 vs. peer median 50, 2 peers)'
+  );
+
+  const [justAhead] = rankAgainstPeers(cohort, [{ id: 'code', label: 'Code quality', value: 61 }], [
+    [{ id: 'code', label: 'Code quality', value: 60 }],
+    [{ id: 'code', label: 'Code quality', value: 75 }],
+    [{ id: 'code', label: 'Code quality', value: 91 }],
+    [{ id: 'code', label: 'Code quality', value: 99 }],
+  ]);
+  assert.equal(justAhead.percentile, 25, 'ahead of one peer in four');
+  assert.deepEqual(rankAgainstPeers(cohort, [{ id: 'code', label: 'Code quality', value: 61 }], []), []);
+  console.log(`✅ ${positions[0].summary}\n`);
+}
+
+try {
+  testPercentileRank();
+  testCohortQuery();
+  testExtractMetrics();
+  testRankAgainstPeers();
+  console.log('✅ Peer benchmark tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,222 @@
+/**
+ * Pull request review: PR URLs are parsed, diffs are packed into the prompt
+ * budget (source before tests, whole diffs only), touched skills come from
+ * paths and imports, and the heuristic fallback only flags changed functions.
+ *
+ * Run: npx tsx tests/test-pull-request-review.ts
+ */
+
+import assert from 'node:assert/strict';
+import type { GapAnalysisResult } from '@/lib/agents/gap-analyzer';
+import {
+  addedLineRanges,
+  findTouchedSkills,
+  formatPatchesForReview,
+  heuristicPullRequestReview,
+  parsePullRequestUrl,
+  type PullRequestDetails,
+  type PullRequestFile,
+} from '@/lib/analysis/pull-request-review';
+import { computeStaticCodeMetrics } from '@/lib/analysis/static-code-metrics';
+
+function testParseUrl() {
+  console.log('Test 1: pull request URLs');
+  assert.deepEqual(parsePullRequestUrl('https://github.com/acme/shop/pull/42'), { owner: 'acme', repo: 'shop', number: 42 });
+  assert.deepEqual(
+    parsePullRequestUrl('https://github.com/acme/shop/pull/42/files#diff-3f2a'),
+    { owner: 'acme', repo: 'shop', number: 42 },
+    'deep links into the PR are accepted'
+  );
+  assert.deepEqual(parsePullRequestUrl('github.com/acme/shop.git/pull/7'), { owner: 'acme', repo: 'shop', number: 7 });
+  ['https://github.com/acme/shop/issues/3', 'https://github.com/acme/shop', 'https://gitlab.com/acme/shop/-/merge_requests/1'].forEach(
+    (url) => assert.throws(() => parsePullRequestUrl(url), /Invalid GitHub pull request URL/, url)
+  );
+  console.log('✅ Owner, repository and number are read from PR links\n');
+}
+
+const patchOf = (length: number) => `@@ -1,1 +1,2 @@\n context\n+${'x'.repeat(length)}`;
+
+function testPatchBudget() {
+  console.log('Test 2: diff token budget');
+  const files: PullRequestFile[] = [
+    { path: 'src/cart.test.ts', status: 'modified', additions: 50, deletions: 0, patch: patchOf(400) },
+    { path: 'src/cart.ts', status: 'modified', additions: 20, deletions: 5, patch: patchOf(400) },
+    { path: 'src/format.ts', status: 'modified', additions: 2, deletions: 0, patch: patchOf(40) },
+    { path: 'assets/logo.png', status: 'added', additions: 0, deletions: 0 },
+    { path: 'node_modules/left-pad/index.js', status: 'modified', additions: 1, deletions: 0, patch: patchOf(10) },
+  ];
+
+  // Each section is the header plus the fenced diff; the two source diffs fit in 200 tokens, the test diff does not
+  const packed = formatPatchesForReview(files, 200);
+  assert.deepEqual(packed.included, ['src/cart.ts', 'src/format.ts'], 'source diffs come before larger test diffs');
+  assert.deepEqual(packed.omitted, ['assets/logo.png', 'src/cart.test.ts'], 'files without a diff are listed as omitted');
+  assert.ok(packed.text.startsWith('File: src/cart.ts (modified, +20/-5)\n```diff\n@@ -1,1 +1,2 @@'));
+  assert.equal(packed.text.includes('left-pad'), false, 'vendored diffs are never sent');
+  assert.equal(packed.text.includes('x'.repeat(400) + '\n```\n\nFile: src/format.ts'), true, 'diffs are included whole');
+
+  const everything = formatPatchesForReview(files, 10_000);
+  assert.deepEqual(everything.included, ['src/cart.ts', 'src/format.ts', 'src/cart.test.ts']);
+  assert.deepEqual(everything.omitted, ['assets/logo.png']);
+
+  const nothing = formatPatchesForReview(files, 10);
+  assert.deepEqual(nothing.included, []);
+  assert.equal(nothing.text, '');
+  assert.deepEqual(nothing.omitted, ['assets/logo.png', 'src/cart.ts', 'src/format.ts', 'src/cart.test.ts']);
+  console.log(`✅ Included ${packed.included.join(', ')}; omitted ${packed.omitted.join(', ')}\n`);
+}
+
+function testAddedLineRanges() {
+  console.log('Test 3: added line ranges');
+  const patch = [
+    '@@ -10,4 +10,5 @@',
+    ' unchanged',
+    '-removed',
+    '+added one',
+    '+added two',
+    ' unchanged',
+    '\\ No newline at end of file',
+    '@@ -40,2 +41,3 @@',
+    ' unchanged',
+    '+added three',
+  ].join('\n');
+  assert.deepEqual(addedLineRanges(patch), [
+    { start: 11, end: 12 },
+    { start: 42, end: 42 },
+  ]);
+  assert.deepEqual(addedLineRanges(''), []);
+  console.log('✅ Added lines map to line numbers in the new file\n');
+}
+
+function testTouchedSkills() {
+  console.log('Test 4: touched skills');
+  const skills = findTouchedSkills(
+    [
+      { path: 'src/components/Cart.tsx', status: 'modified', additions: 30, deletions: 4 },
+      { path: 'src/api/orders.py', status: 'added', additions: 12, deletions: 0 },
+      { path: 'Dockerfile', status: 'modified', additions: 2, deletions: 1 },
+      { path: 'src/legacy/Old.tsx', status: 'removed', additions: 0, deletions: 40 },
+    ],
+    [
+      { path: 'src/components/Cart.tsx', content: "import React from 'react';\nimport { z } from 'zod';\n" },
+      { path: 'src/api/orders.py', content: 'from fastapi import APIRouter\n' },
+    ]
+  );
+  const bySkill = new Map(skills.map((skill) => [skill.skillId, skill.files]));
+  assert.deepEqual(bySkill.get('tech-typescript'), ['src/components/Cart.tsx'], 'removed files do not count');
+  assert.deepEqual(bySkill.get('tech-python'), ['src/api/orders.py']);
+  assert.deepEqual(bySkill.get('devops-docker'), ['Dockerfile']);
+  assert.deepEqual(bySkill.get('framework-react'), ['src/components/Cart.tsx'], 'imports name frameworks');
+  assert.deepEqual(bySkill.get('framework-fastapi'), ['src/api/orders.py']);
+  console.log(`✅ Skills: ${skills.map((skill) => skill.skillId).join(', ')}\n`);
+}
+
+const pricingBody = (name: string) => [
+  `export function ${name}(cart: Cart, user: User): number {`,
+  '  let total = 0;',
+  '  if (user.vip && cart.items.length > 3) total -= 5;',
+  '  if (cart.coupon || user.coupon) total -= 2;',
+  '  if (cart.express) total += 10;',
+  '  if (cart.gift) total += 3;',
+  "  if (user.country === 'DE') total += 1;",
+  "  if (user.country === 'FR') total += 2;",
+  '  for (const item of cart.items) total += item.price;',
+  '  return total;',
+  '}',
+];
+
+// price (lines 1-11) is changed by the diff; legacyPrice (lines 13-23) is equally complex but untouched
+const pricingSource = [...pricingBody('price'), '', ...pricingBody('legacyPrice')].join('\n');
+
+const details = (files: PullRequestFile[], body = ''): PullRequestDetails => ({
+  owner: 'acme',
+  repo: 'shop',
+  number: 42,
+  url: 'https://github.com/acme/shop/pull/42',
+  title: 'Express shipping surcharge',
+  body,
+  author: 'dev',
+  baseRef: 'main',
+  headRef: 'express-shipping',
+  headSha: 'abc1234def',
+  headRepository: 'acme/shop',
+  files,
+});
+
+function testHeuristicReview() {
+  console.log('Test 5: heuristic fallback review');
+  const pullRequest = details([
+    {
+      path: 'src/pricing.ts',
+      status: 'modified',
+      additions: 1,
+      deletions: 0,
+      patch: '@@ -4,0 +5,1 @@\n+  if (cart.express) total += 10;',
+    },
+    { path: 'tests/test_pricing.py', status: 'removed', additions: 0, deletions: 20 },
+  ]);
+  const contents = [{ path: 'src/pricing.ts', content: pricingSource }];
+  const metrics = computeStaticCodeMetrics(contents);
+  const skillAssessment = {
+    skillGaps: [{ skill: { id: 'testing', name: 'Testing' }, gap: 2 }],
+  } as unknown as GapAnalysisResult;
+
+  const review = heuristicPullRequestReview(pullRequest, findTouchedSkills(pullRequest.files, contents), metrics, skillAssessment);
+
+  assert.deepEqual(
+    review.codeSmells.map(({ type, severity, location }) => ({ type, severity, location })),
+    [{ type: 'High complexity', severity: 'medium', location: 'src/pricing.ts:1' }],
+    'only the function overlapping added lines is flagged'
+  );
+  assert.deepEqual(
+    review.bestPractices.map(({ name, implemented }) => [name, implemented]),
+    [
+      ['Tests accompany code changes', false],
+      ['Focused, reviewable change', true],
+      ['Descriptive pull request description', false],
+      ['Type annotations on new code', true],
+    ]
+  );
+  // Skills the author has a gap in come first; removing tests regresses testing
+  assert.deepEqual(
+    review.skillImpacts.map(({ skillId, direction, currentGap }) => ({ skillId, direction, currentGap })),
+    [
+      { skillId: 'testing', direction: 'regresses', currentGap: 2 },
+      { skillId: 'tech-typescript', direction: 'exercises', currentGap: undefined },
+    ]
+  );
+  assert.equal(
+    review.summary,
+    'Changes 2 files (+1/-20). 1 complexity issue(s) in changed functions. Missing: tests accompany code changes, descriptive pull request description.'
+  );
+
+  const withTests = heuristicPullRequestReview(
+    details(
+      [
+        { path: 'src/pricing.ts', status: 'modified', additions: 1, deletions: 0, patch: '@@ -11,0 +12,1 @@\n+' },
+        { path: 'src/pricing.test.ts', status: 'added', additions: 30, deletions: 0, patch: '@@ -0,0 +1,1 @@\n+test' },
+      ],
+      'Adds an express shipping surcharge and covers it with unit tests.'
+    ),
+    [],
+    metrics
+  );
+  assert.deepEqual(withTests.codeSmells, [], 'a change between functions flags nothing');
+  assert.ok(withTests.bestPractices.every((practice) => practice.implemented));
+  assert.deepEqual(
+    withTests.skillImpacts.map(({ skillId, direction }) => [skillId, direction]),
+    [['testing', 'advances']]
+  );
+  console.log(`✅ ${review.summary}\n`);
+}
+
+try {
+  testParseUrl();
+  testPatchBudget();
+  testAddedLineRanges();
+  testTouchedSkills();
+  testHeuristicReview();
+  console.log('✅ Pull request review tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
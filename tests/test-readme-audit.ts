@@ -0,0 +1,148 @@
+/**
+ * README audit: relative targets resolve against the README's directory (or
+ * the repository root for a leading slash) and never escape the repository;
+ * sections, badges, broken links and images, alt text and code fences feed
+ * the score.
+ *
+ * Run: npx tsx tests/test-readme-audit.ts
+ */
+
+import assert from 'node:assert/strict';
+import { auditReadme, resolveReadmeTarget } from '@/lib/analysis/readme-audit';
+
+function testResolveTarget() {
+  console.log('Test 1: resolving relative targets');
+  assert.equal(resolveReadmeTarget('docs/setup.md', 'README.md'), 'docs/setup.md');
+  assert.equal(resolveReadmeTarget('./guide.md', 'docs/README.md'), 'docs/guide.md');
+  assert.equal(resolveReadmeTarget('../LICENSE', 'docs/README.md'), 'LICENSE');
+
+  // `..` past the repository root leaves the repository
+  assert.equal(resolveReadmeTarget('../LICENSE', 'README.md'), null);
+  assert.equal(resolveReadmeTarget('../../../shared/notes.md', 'packages/ui/README.md'), null);
+
+  // A leading slash is the repository root, as on GitHub
+  assert.equal(resolveReadmeTarget('/docs/api.md', 'packages/ui/README.md'), 'docs/api.md');
+  assert.equal(resolveReadmeTarget('/', 'docs/README.md'), '');
+
+  // Anchors and query strings are not part of the path
+  assert.equal(resolveReadmeTarget('guide.md#install', 'docs/README.md'), 'docs/guide.md');
+  assert.equal(resolveReadmeTarget('src/app.ts?plain=1#L10', 'README.md'), 'src/app.ts');
+
+  // Encoded segments are decoded; malformed escapes are kept as written
+  assert.equal(resolveReadmeTarget('docs/My%20Guide.md', 'README.md'), 'docs/My Guide.md');
+  assert.equal(resolveReadmeTarget('docs/%E2%9C%93-done.md', 'README.md'), 'docs/✓-done.md');
+  assert.equal(resolveReadmeTarget('docs/100%.md', 'README.md'), 'docs/100%.md');
+  console.log('✅ Targets resolve inside the repository or not at all\n');
+}
+
+const readme = [
+  '# Shop',
+  '',
+  '[![CI](https://github.com/acme/shop/actions/workflows/ci.yml/badge.svg)](https://github.com/acme/shop/actions)',
+  '![](https://img.shields.io/npm/v/shop)',
+  '',
+  '## Installation',
+  '',
+  '```bash',
+  'pnpm install',
+  '```',
+  '',
+  '## Usage',
+  '',
+  '```',
+  'shop --help [not](a-link.md)',
+  '```',
+  '',
+  'See [the guide](docs/My%20Guide.md#intro), the [API docs](/docs/api.md), the [docs folder](docs) and [usage](#usage).',
+  'Read [the old notes](../notes.md) and [setup](docs/setup.md), or run `[x](inline-code.md)`.',
+  '![Screenshot of the cart](docs/screenshot.png)',
+  '<img src="docs/missing.png">',
+  '',
+  '## License',
+  '',
+  'MIT, see [LICENSE](LICENSE).',
+].join('\n');
+
+const filePaths = ['README.md', 'LICENSE', 'docs/My Guide.md', 'docs/api.md', 'docs/screenshot.png', 'src/index.ts'];
+
+function testAudit() {
+  console.log('Test 2: audit findings');
+  const audit = auditReadme(readme, { filePaths });
+
+  assert.deepEqual(
+    audit.sections.map(({ id, present, heading }) => ({ id, present, heading })),
+    [
+      { id: 'install', present: true, heading: 'Installation' },
+      { id: 'usage', present: true, heading: 'Usage' },
+      { id: 'configuration', present: false, heading: undefined },
+      { id: 'contributing', present: false, heading: undefined },
+      { id: 'license', present: true, heading: 'License' },
+      // A content image counts as a screenshot without a heading
+      { id: 'screenshots', present: true, heading: undefined },
+    ]
+  );
+  assert.deepEqual(audit.badges, [
+    {
+      alt: 'CI',
+      imageUrl: 'https://github.com/acme/shop/actions/workflows/ci.yml/badge.svg',
+      linkUrl: 'https://github.com/acme/shop/actions',
+    },
+    { alt: '', imageUrl: 'https://img.shields.io/npm/v/shop' },
+  ]);
+
+  assert.deepEqual(
+    audit.findings.map(({ kind, line, target, section }) => ({ kind, line, target, section })),
+    [
+      { kind: 'missing-section', line: undefined, target: undefined, section: 'configuration' },
+      { kind: 'missing-section', line: undefined, target: undefined, section: 'contributing' },
+      { kind: 'missing-alt-text', line: 4, target: 'https://img.shields.io/npm/v/shop', section: undefined },
+      { kind: 'untagged-code-fence', line: 14, target: undefined, section: undefined },
+      { kind: 'broken-link', line: 19, target: '../notes.md', section: undefined },
+      { kind: 'broken-link', line: 19, target: 'docs/setup.md', section: undefined },
+      { kind: 'missing-alt-text', line: 21, target: 'docs/missing.png', section: undefined },
+      { kind: 'broken-image', line: 21, target: 'docs/missing.png', section: undefined },
+    ]
+  );
+  const [outside, missing] = audit.findings.filter((finding) => finding.kind === 'broken-link');
+  assert.equal(outside.id, 'readme-broken-link-notes-md');
+  assert.equal(outside.suggestion, 'Fix `../notes.md`: it points outside the repository');
+  assert.equal(missing.suggestion, 'Fix `docs/setup.md` or add the missing file `docs/setup.md`');
+
+  // Anchors and external URLs are not checked against the tree; code spans and fenced code are not links
+  assert.equal(audit.linksChecked, 6);
+  assert.equal(audit.imagesChecked, 2);
+  console.log(`✅ ${audit.findings.length} findings, ${audit.linksChecked} links and ${audit.imagesChecked} images checked\n`);
+}
+
+function testScore() {
+  console.log('Test 3: score');
+  // Two low sections (-10), three broken targets (-30, the cap), two missing alt texts (-4), one untagged fence (-2)
+  assert.equal(auditReadme(readme, { filePaths }).score, 54);
+
+  // Without a tree nothing can be broken
+  const unchecked = auditReadme(readme);
+  assert.equal(unchecked.linksChecked, 0);
+  assert.equal(unchecked.findings.some((finding) => finding.kind === 'broken-link' || finding.kind === 'broken-image'), false);
+  assert.equal(unchecked.score, 84);
+
+  // Missing install and usage sections weigh more than the optional ones
+  assert.equal(auditReadme('# Tiny\n\nA project.').score, 100 - 2 * 15 - 4 * 5);
+
+  // A README in a subdirectory resolves links from its own directory
+  const nested = auditReadme('## License\n\n[MIT](../../LICENSE)\n', {
+    readmePath: 'packages/ui/README.md',
+    filePaths: ['LICENSE', 'packages/ui/README.md'],
+  });
+  assert.equal(nested.findings.some((finding) => finding.kind === 'broken-link'), false);
+  console.log('✅ Score deductions match the findings\n');
+}
+
+try {
+  testResolveTarget();
+  testAudit();
+  testScore();
+  console.log('✅ README audit tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,129 @@
+/**
+ * Self-assessment reconciliation: self-rated levels are blended with detected
+ * ones rather than replacing them, large disagreements are flagged, and a
+ * self-assessed target replaces the role profile's target.
+ *
+ * Run: npx tsx tests/test-self-assessment.ts
+ */
+
+import assert from 'node:assert/strict';
+import { GapAnalyzerAgent, type GitHubAnalysis } from '@/lib/agents/gap-analyzer';
+import {
+  isSelfAssessedLevel,
+  RECONCILIATION_RULE,
+  reconcileSkillLevel,
+  SELF_ASSESSMENT_WEIGHT,
+  selfAssessmentKey,
+} from '@/lib/analysis/self-assessment';
+
+function testReconcileSkillLevel() {
+  console.log('Test 1: blending detected and self-assessed levels');
+  assert.equal(SELF_ASSESSMENT_WEIGHT, 0.4);
+
+  const close = reconcileSkillLevel(3, { skillId: 'framework-react', currentLevel: 3.5, targetLevel: 5 });
+  assert.equal(close.reconciledLevel, 3.2);
+  assert.equal(close.difference, 0.5);
+  assert.equal(close.disagreement, 'none');
+  assert.equal(close.targetOverridden, true);
+  assert.match(close.explanation, /Target set to 5 by self-assessment\.$/);
+
+  const minor = reconcileSkillLevel(3, { skillId: 'framework-react', currentLevel: 2 });
+  assert.equal(minor.reconciledLevel, 2.6);
+  assert.equal(minor.disagreement, 'minor');
+  assert.equal(minor.targetOverridden, false);
+
+  // Three levels apart: the blend still moves only 40% of the way, and the gap is flagged
+  const large = reconcileSkillLevel(1.5, { skillId: 'framework-react', currentLevel: 4.5 });
+  assert.equal(large.reconciledLevel, 2.7);
+  assert.equal(large.difference, 3);
+  assert.equal(large.disagreement, 'large');
+  assert.match(large.explanation, /3 levels above the repository evidence; review it\./);
+
+  const below = reconcileSkillLevel(4.5, { skillId: 'framework-react', currentLevel: 2 });
+  assert.equal(below.disagreement, 'large');
+  assert.match(below.explanation, /2\.5 levels below/);
+
+  // Out-of-range self-ratings are clamped before blending
+  const clamped = reconcileSkillLevel(3, { skillId: 'framework-react', currentLevel: 9 });
+  assert.equal(clamped.selfAssessedLevel, 5);
+  assert.equal(clamped.reconciledLevel, 3.8);
+  console.log('✅ Levels blend 60/40 and disagreements are graded none, minor or large\n');
+}
+
+function testSelfAssessmentKey() {
+  console.log('Test 2: storage keys');
+  assert.equal(selfAssessmentKey({ id: 'framework-react', name: 'React' }), 'framework-react');
+  assert.equal(selfAssessmentKey({ id: 'React', name: 'React' }), 'framework-react');
+  assert.equal(selfAssessmentKey({ id: 'custom-skill', name: 'Next.js' }), 'framework-nextjs');
+  console.log('✅ Skills are keyed by their taxonomy id\n');
+}
+
+function testIsSelfAssessedLevel() {
+  console.log('Test 3: validating submitted levels');
+  assert.equal(isSelfAssessedLevel({ skillId: 'framework-react', currentLevel: 3 }), true);
+  assert.equal(isSelfAssessedLevel({ skillId: 'framework-react', currentLevel: 3, targetLevel: null }), true);
+  assert.equal(isSelfAssessedLevel({ skillId: 'framework-react', currentLevel: 3, targetLevel: '5' }), false);
+  assert.equal(isSelfAssessedLevel({ skillId: '  ', currentLevel: 3 }), false);
+  assert.equal(isSelfAssessedLevel({ skillId: 'framework-react', currentLevel: Number.NaN }), false);
+  assert.equal(isSelfAssessedLevel({ skillId: 'framework-react' }), false);
+  [null, undefined, 'framework-react', 3, []].forEach((value) => assert.equal(isSelfAssessedLevel(value), false, String(value)));
+  console.log('✅ Only objects with a skill id and a finite level pass\n');
+}
+
+async function testAutomaticAssessment() {
+  console.log('Test 4: self-assessments in an automatic assessment');
+  const analysis: GitHubAnalysis = {
+    repository: 'https://github.com/example/app',
+    technologies: ['React', 'TypeScript'],
+    frameworks: ['React'],
+    languages: ['TypeScript'],
+    tools: [],
+    skillLevel: 'beginner',
+    recommendations: [],
+  };
+
+  const analyzer = new GapAnalyzerAgent();
+  const detected = await analyzer.generateAutomaticSkillAssessment(analysis);
+  const detectedReact = detected.skillGaps.find((gap) => gap.skill.id === 'framework-react');
+  assert.ok(detectedReact, 'expected a React gap from the detected framework');
+  assert.equal(detected.selfAssessment, undefined);
+
+  analyzer.setSelfAssessments([{ skillId: 'framework-react', currentLevel: 5, targetLevel: 4 }]);
+  const result = await analyzer.generateAutomaticSkillAssessment(analysis);
+  const react = result.skillGaps.find((gap) => gap.skill.id === 'framework-react');
+  assert.ok(react);
+
+  const detectedLevel = detectedReact.skill.currentLevel;
+  assert.equal(react.skill.selfAssessment?.detectedLevel, detectedLevel);
+  assert.equal(react.skill.currentLevel, Math.round((detectedLevel * 0.6 + 5 * 0.4) * 10) / 10);
+  assert.equal(react.skill.targetLevel, 4, 'the self-assessed target replaces the profile target');
+  assert.ok(Math.abs(react.gap - (4 - react.skill.currentLevel)) < 1e-9);
+
+  assert.deepEqual(result.selfAssessment, {
+    rule: RECONCILIATION_RULE,
+    reconciledSkills: 1,
+    flagged: [{ skillId: 'framework-react', skillName: 'React', detectedLevel, selfAssessedLevel: 5 }],
+  });
+
+  // Skills without a self-rating keep their detected level
+  const typescript = (gaps: typeof result.skillGaps) => gaps.find((gap) => gap.skill.id === 'tech-typescript')?.skill.currentLevel;
+  assert.equal(typescript(result.skillGaps), typescript(detected.skillGaps));
+  console.log(`✅ React: detected ${detectedLevel}, self-assessed 5, reconciled ${react.skill.currentLevel}\n`);
+}
+
+async function main() {
+  testReconcileSkillLevel();
+  testSelfAssessmentKey();
+  testIsSelfAssessedLevel();
+  await testAutomaticAssessment();
+}
+
+main()
+  .then(() => {
+    console.log('✅ Self-assessment tests passed');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
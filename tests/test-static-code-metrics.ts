@@ -0,0 +1,168 @@
+/**
+ * Static code metrics: complexity, function length, duplication, type
+ * coverage, test ratio and lint configuration are measured from source files,
+ * and the overall score is the weighted mean of the metrics that apply.
+ *
+ * Run: npx tsx tests/test-static-code-metrics.ts
+ */
+
+import assert from 'node:assert/strict';
+import { computeStaticCodeMetrics, isTestPath } from '@/lib/analysis/static-code-metrics';
+
+const files = [
+  {
+    path: 'src/grade.ts',
+    content: [
+      'export function grade(score: number, curve?: number): string {',
+      '  const adjusted = score + (curve ?? 0);',
+      '  if (adjusted >= 90 && score > 0) {',
+      "    return 'A';",
+      '  }',
+      "  return adjusted >= 60 ? 'pass' : 'fail';",
+      '}',
+    ].join('\n'),
+  },
+  {
+    path: 'app/views.py',
+    content: [
+      'def render(request, name: str) -> str:',
+      '    # "if" and "or" inside comments and strings are not decisions',
+      '    if name and request:',
+      '        return "if or"',
+      "    return ''",
+    ].join('\n'),
+  },
+];
+
+const filePaths = [
+  'src/grade.ts',
+  'src/grade.test.ts',
+  'src/util.ts',
+  'src/other.ts',
+  'app/views.py',
+  'tests/test_views.py',
+  '.eslintrc.json',
+  '.prettierrc',
+  'node_modules/left-pad/index.js',
+  'node_modules/left-pad/.rubocop.yml',
+];
+
+const metric = (metrics: ReturnType<typeof computeStaticCodeMetrics>, id: string) => {
+  const item = metrics.breakdown.find((entry) => entry.id === id);
+  assert.ok(item, `expected a ${id} breakdown item`);
+  return item;
+};
+
+function testTestPaths() {
+  console.log('Test 1: test file paths');
+  ['src/grade.test.ts', 'src/__tests__/grade.ts', 'tests/test_views.py', 'pkg/server_test.go', 'src/main/GradeTest.java'].forEach(
+    (path) => assert.equal(isTestPath(path), true, `${path} is a test`)
+  );
+  ['src/grade.ts', 'src/testing.ts', 'app/views.py'].forEach((path) => assert.equal(isTestPath(path), false, `${path} is source`));
+  console.log('✅ Test files are recognised by directory and naming convention\n');
+}
+
+function testFunctionMetrics() {
+  console.log('Test 2: complexity and function length');
+  const metrics = computeStaticCodeMetrics(files, filePaths);
+
+  assert.equal(metrics.filesAnalyzed, 2);
+  assert.equal(metrics.functionsAnalyzed, 2);
+  assert.equal(metrics.linesOfCode, 11, 'the comment-only Python line is not code');
+  // grade: ??, if, && and the ternary; render: if and and
+  assert.deepEqual(
+    metrics.hotspots.map(({ name, startLine, length, complexity }) => ({ name, startLine, length, complexity })),
+    [
+      { name: 'grade', startLine: 1, length: 7, complexity: 5 },
+      { name: 'render', startLine: 1, length: 5, complexity: 3 },
+    ]
+  );
+  assert.equal(metrics.averageComplexity, 4);
+  assert.equal(metrics.maxComplexity, 5);
+  assert.equal(metrics.averageFunctionLength, 6);
+  assert.equal(metrics.longFunctionCount, 0);
+
+  assert.equal(metric(metrics, 'complexity').score, 91);
+  assert.equal(metric(metrics, 'function-length').score, 100);
+  console.log(`✅ Average complexity ${metrics.averageComplexity}, average length ${metrics.averageFunctionLength}\n`);
+}
+
+function testTypeCoverageTestsAndLint() {
+  console.log('Test 3: type coverage, test ratio and lint configuration');
+  const metrics = computeStaticCodeMetrics(files, filePaths);
+
+  // TypeScript parameters 2/2; Python parameters 1/2 plus an annotated return
+  assert.equal(metrics.typeAnnotationCoverage, 0.8);
+  assert.equal(metric(metrics, 'type-coverage').score, 80);
+
+  assert.equal(metrics.sourceFileCount, 4, 'vendored files are not source');
+  assert.equal(metrics.testFileCount, 2);
+  assert.equal(metrics.testToSourceRatio, 0.5);
+  assert.equal(metric(metrics, 'test-ratio').score, 100, 'one test file per two source files scores full marks');
+
+  assert.deepEqual(metrics.lintConfigs, ['ESLint', 'Prettier'], 'vendored lint configs do not count');
+  assert.equal(metric(metrics, 'lint-config').score, 100);
+  assert.equal(computeStaticCodeMetrics(files, ['src/grade.ts']).breakdown.find((item) => item.id === 'lint-config')?.score, 30);
+  console.log(`✅ Coverage ${metrics.typeAnnotationCoverage}, lint: ${metrics.lintConfigs.join(', ')}\n`);
+}
+
+function testDuplication() {
+  console.log('Test 4: duplication');
+  const shared = Array.from({ length: 6 }, (_, index) => `const total${index} = compute(${index});`);
+  const metrics = computeStaticCodeMetrics([
+    { path: 'src/a.js', content: [...shared, 'exportA(total0);', 'logA(total1);'].join('\n') },
+    { path: 'src/b.js', content: ['importB(values);', 'logB(values);', ...shared].join('\n') },
+  ]);
+
+  // 12 of the 16 code lines sit in the repeated six-line block
+  assert.equal(metrics.duplicationRatio, 0.75);
+  assert.equal(metric(metrics, 'duplication').value, 75);
+  assert.equal(metric(metrics, 'duplication').score, 10);
+
+  const unique = computeStaticCodeMetrics([{ path: 'src/a.js', content: shared.join('\n') }]);
+  assert.equal(unique.duplicationRatio, 0, 'a block repeated nowhere else is not duplication');
+  console.log(`✅ Duplication ${metrics.duplicationRatio * 100}% of code lines\n`);
+}
+
+function testWeightedScore() {
+  console.log('Test 5: weighted breakdown');
+  const metrics = computeStaticCodeMetrics(files, filePaths);
+
+  assert.deepEqual(
+    metrics.breakdown.map(({ id, weight }) => [id, weight]),
+    [
+      ['complexity', 0.2],
+      ['function-length', 0.2],
+      ['duplication', 0.15],
+      ['type-coverage', 0.15],
+      ['test-ratio', 0.2],
+      ['lint-config', 0.1],
+    ]
+  );
+  // 91*0.2 + 100*0.2 + 100*0.15 + 80*0.15 + 100*0.2 + 100*0.1 = 95.2
+  assert.equal(metrics.score, 95);
+
+  // Metrics that cannot be measured drop out of the weighting instead of scoring zero
+  const configOnly = computeStaticCodeMetrics([{ path: 'README.md', content: '# Docs' }], ['README.md', 'biome.json']);
+  assert.equal(configOnly.filesAnalyzed, 0);
+  assert.deepEqual(
+    configOnly.breakdown.filter((item) => item.weight > 0).map((item) => item.id),
+    ['lint-config']
+  );
+  assert.equal(metric(configOnly, 'complexity').value, null);
+  assert.equal(metric(configOnly, 'type-coverage').value, null);
+  assert.equal(configOnly.score, 100, 'only the configured linter is scored');
+  console.log(`✅ Score ${metrics.score}/100; config-only repository ${configOnly.score}/100\n`);
+}
+
+try {
+  testTestPaths();
+  testFunctionMetrics();
+  testTypeCoverageTestsAndLint();
+  testDuplication();
+  testWeightedScore();
+  console.log('✅ Static code metrics tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}
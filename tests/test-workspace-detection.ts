@@ -0,0 +1,202 @@
+/**
+ * Workspace detection: pnpm, npm and yarn workspaces, Cargo workspaces and Go
+ * multi-module layouts are read from root config files, their globs are
+ * expanded against the tree, and each package gets its own breakdown.
+ *
+ * Run: npx tsx tests/test-workspace-detection.ts
+ */
+
+import assert from 'node:assert/strict';
+import { detectTechnologiesFromManifests } from '@/lib/analysis/manifest-detection';
+import {
+  detectWorkspaceLayout,
+  listWorkspaceConfigPaths,
+  packageForPath,
+  summarizeWorkspacePackages,
+} from '@/lib/analysis/workspace-detection';
+
+const packagePaths = (layout: ReturnType<typeof detectWorkspaceLayout>) => layout?.packages.map((pkg) => pkg.path);
+
+const pnpmTree = [
+  'package.json',
+  'pnpm-workspace.yaml',
+  'apps/web/package.json',
+  'apps/web/src/page.tsx',
+  'apps/web/src/page.test.tsx',
+  'apps/web/README.md',
+  'apps/web/Dockerfile',
+  'apps/docs/README.md',
+  'packages/ui/package.json',
+  'packages/ui/src/button.tsx',
+  'packages/ui/src/styles.css',
+  'packages/tools/eslint/package.json',
+  'packages/legacy/package.json',
+  'node_modules/left-pad/package.json',
+];
+
+const pnpmConfig = [
+  { path: 'package.json', content: JSON.stringify({ name: 'monorepo', private: true }) },
+  {
+    path: 'pnpm-workspace.yaml',
+    content: "packages:\n  - 'apps/*'\n  - \"packages/**\"\n  - '!packages/legacy' # retired\ncatalog:\n  react: ^19.0.0\n",
+  },
+];
+
+function testConfigPaths() {
+  console.log('Test 1: workspace config files');
+  assert.deepEqual(listWorkspaceConfigPaths([...pnpmTree, 'turbo.json', 'apps/web/turbo.json', 'go.work']), [
+    'package.json',
+    'pnpm-workspace.yaml',
+    'turbo.json',
+    'go.work',
+  ]);
+  console.log('✅ Only root-level config files are read\n');
+}
+
+function testPnpmWorkspace() {
+  console.log('Test 2: pnpm workspace globs');
+  const layout = detectWorkspaceLayout(pnpmConfig, pnpmTree);
+  assert.ok(layout);
+  assert.deepEqual(layout.tools, ['pnpm']);
+  assert.deepEqual(layout.configFiles, ['pnpm-workspace.yaml']);
+  // `apps/*` needs a manifest (apps/docs has none), `packages/**` reaches nested packages, `!` excludes
+  assert.deepEqual(packagePaths(layout), ['apps/web', 'packages/tools/eslint', 'packages/ui']);
+  assert.deepEqual(layout.packages[1], {
+    name: 'eslint',
+    path: 'packages/tools/eslint',
+    ecosystem: 'npm',
+    manifestPath: 'packages/tools/eslint/package.json',
+  });
+  console.log(`✅ Packages: ${packagePaths(layout)?.join(', ')}\n`);
+}
+
+function testNpmAndYarnWorkspaces() {
+  console.log('Test 3: npm and yarn workspaces');
+  const tree = ['package.json', 'packages/api/package.json', 'packages/web/package.json', 'examples/demo/package.json'];
+  const npm = detectWorkspaceLayout(
+    [{ path: 'package.json', content: JSON.stringify({ workspaces: ['packages/*'] }) }],
+    tree
+  );
+  assert.deepEqual(npm?.tools, ['npm']);
+  assert.deepEqual(packagePaths(npm), ['packages/api', 'packages/web']);
+
+  // Yarn's object form, recognised by its lockfile, with Turborepo on top
+  const yarn = detectWorkspaceLayout(
+    [
+      { path: 'package.json', content: JSON.stringify({ workspaces: { packages: ['packages/*', 'examples/*'] } }) },
+      { path: 'turbo.json', content: '{}' },
+    ],
+    [...tree, 'yarn.lock', 'turbo.json']
+  );
+  assert.deepEqual(yarn?.tools, ['yarn', 'turborepo']);
+  assert.deepEqual(yarn?.configFiles, ['package.json', 'turbo.json']);
+  assert.deepEqual(packagePaths(yarn), ['examples/demo', 'packages/api', 'packages/web']);
+
+  assert.equal(
+    detectWorkspaceLayout([{ path: 'package.json', content: JSON.stringify({ name: 'single' }) }], tree),
+    null,
+    'a package.json without workspaces is a single-package repository'
+  );
+  assert.equal(detectWorkspaceLayout([{ path: 'package.json', content: '{ not json' }], tree), null);
+  console.log(`✅ npm: ${packagePaths(npm)?.join(', ')}; yarn: ${packagePaths(yarn)?.join(', ')}\n`);
+}
+
+function testCargoWorkspace() {
+  console.log('Test 4: Cargo workspace');
+  const tree = [
+    'Cargo.toml',
+    'cli/Cargo.toml',
+    'crates/core/Cargo.toml',
+    'crates/experimental/Cargo.toml',
+    'target/debug/build/Cargo.toml',
+  ];
+  const layout = detectWorkspaceLayout(
+    [
+      {
+        path: 'Cargo.toml',
+        content:
+          '[workspace]\nmembers = ["crates/*", "cli"]\nexclude = ["crates/experimental"]\n\n[workspace.package]\nversion = "0.1.0"\n',
+      },
+    ],
+    tree
+  );
+  assert.deepEqual(layout?.tools, ['cargo']);
+  assert.deepEqual(
+    layout?.packages.map(({ path, ecosystem, manifestPath }) => ({ path, ecosystem, manifestPath })),
+    [
+      { path: 'cli', ecosystem: 'cargo', manifestPath: 'cli/Cargo.toml' },
+      { path: 'crates/core', ecosystem: 'cargo', manifestPath: 'crates/core/Cargo.toml' },
+    ]
+  );
+
+  const singleCrate = detectWorkspaceLayout(
+    [{ path: 'Cargo.toml', content: '[package]\nname = "app"\nversion = "0.1.0"\n' }],
+    tree
+  );
+  assert.equal(singleCrate, null, 'a crate without a [workspace] section is not a workspace');
+  console.log(`✅ Crates: ${packagePaths(layout)?.join(', ')}\n`);
+}
+
+function testGoModules() {
+  console.log('Test 5: Go workspaces and multi-module repositories');
+  const tree = ['go.work', 'api/go.mod', 'worker/go.mod', 'tools/go.mod', 'scratch/go.mod'];
+  const goWork = detectWorkspaceLayout(
+    [{ path: 'go.work', content: 'go 1.22\n\nuse (\n\t./api\n\t./worker // background jobs\n)\n\nuse ./tools\n' }],
+    tree
+  );
+  assert.deepEqual(goWork?.tools, ['go']);
+  assert.deepEqual(goWork?.configFiles, ['go.work']);
+  assert.deepEqual(packagePaths(goWork), ['api', 'tools', 'worker'], 'modules not in go.work are left out');
+
+  // Without go.work, a root module plus a nested one is still a multi-module repository
+  const multiModule = detectWorkspaceLayout([], ['go.mod', 'main.go', 'services/billing/go.mod']);
+  assert.deepEqual(multiModule?.tools, ['go']);
+  assert.deepEqual(multiModule?.configFiles, []);
+  assert.deepEqual(packagePaths(multiModule), ['services/billing']);
+  assert.equal(detectWorkspaceLayout([], ['go.mod', 'main.go']), null);
+  console.log(`✅ go.work modules: ${packagePaths(goWork)?.join(', ')}\n`);
+}
+
+function testPackageSummaries() {
+  console.log('Test 6: per-package breakdown');
+  const layout = detectWorkspaceLayout(pnpmConfig, pnpmTree)!;
+  assert.equal(packageForPath('packages/tools/eslint/index.js', layout.packages)?.path, 'packages/tools/eslint');
+  assert.equal(packageForPath('apps/docs/README.md', layout.packages), undefined);
+
+  const manifestDetection = detectTechnologiesFromManifests([
+    { path: 'apps/web/package.json', content: JSON.stringify({ dependencies: { next: '15.0.0' } }) },
+    { path: 'packages/ui/package.json', content: JSON.stringify({ devDependencies: { vitest: '2.0.0' } }) },
+  ]);
+  const summaries = new Map(
+    summarizeWorkspacePackages(layout, pnpmTree, manifestDetection).map((summary) => [summary.path, summary])
+  );
+
+  const web = summaries.get('apps/web')!;
+  assert.equal(web.fileCount, 5);
+  assert.deepEqual(web.languages, ['TypeScript', 'Dockerfile'], 'most used language first');
+  assert.ok(web.frameworks.includes('Next.js'));
+  assert.ok(web.tools.includes('docker'));
+  assert.equal(web.hasTests, true);
+  assert.equal(web.hasReadme, true);
+
+  const ui = summaries.get('packages/ui')!;
+  assert.equal(ui.fileCount, 3);
+  assert.deepEqual(ui.frameworks, [], 'frameworks declared in another package do not leak');
+  assert.deepEqual(ui.tools, ['vitest']);
+  assert.equal(ui.hasTests, false);
+  assert.equal(ui.hasReadme, false);
+  console.log(`✅ apps/web: ${web.frameworks.join(', ')}; packages/ui: ${ui.tools.join(', ')}\n`);
+}
+
+try {
+  testConfigPaths();
+  testPnpmWorkspace();
+  testNpmAndYarnWorkspaces();
+  testCargoWorkspace();
+  testGoModules();
+  testPackageSummaries();
+  console.log('✅ Workspace detection tests passed');
+} catch (error) {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+}